@@ -0,0 +1,123 @@
+/**
+ * Test Battery Reports
+ * 
+ * Writes a battery report as JSON, for archiving and further processing,
+ * or as a standalone HTML page with inline styles and no external assets,
+ * for sending to a certification lab.
+ */
+
+import { BatteryReport, BatteryTestResult } from './types';
+
+/**
+ * Display names of the battery's tests.
+ */
+const TEST_TITLES: Record<BatteryTestResult['name'], string> = {
+  frequency: 'Frequency (monobit)',
+  blockFrequency: 'Frequency within a block',
+  runs: 'Runs',
+  longestRun: 'Longest run of ones in a block',
+  serial: 'Serial',
+  approximateEntropy: 'Approximate entropy',
+  cumulativeSums: 'Cumulative sums (forward, backward)',
+  reelChiSquare: 'Chi-square on reel positions',
+  kolmogorovSmirnov: 'Kolmogorov–Smirnov on floats'
+};
+
+/**
+ * Inline style sheet of the HTML report.
+ */
+const STYLES = [
+  'body{font-family:system-ui,sans-serif;margin:2rem;color:#222}',
+  'table{border-collapse:collapse;margin-top:1rem}',
+  'th,td{border:1px solid #ccc;padding:.4rem .8rem;text-align:left}',
+  'th{background:#f4f4f4}',
+  'td.number{font-family:monospace;text-align:right}',
+  '.passed{color:#17702b;font-weight:600}',
+  '.failed{color:#b00020;font-weight:600}',
+  '.skipped{color:#777}'
+].join('');
+
+/**
+ * Escapes text for HTML.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Formats a statistic or p-value.
+ */
+function formatNumber(value: number): string {
+  return value === 0 || (Math.abs(value) >= 1e-4 && Math.abs(value) < 1e6)
+    ? value.toFixed(6)
+    : value.toExponential(4);
+}
+
+/**
+ * Gets the status of a test.
+ */
+function testStatus(test: BatteryTestResult): 'passed' | 'failed' | 'skipped' {
+  if (test.skipped) return 'skipped';
+  return test.passed ? 'passed' : 'failed';
+}
+
+/**
+ * Formats a report as indented JSON.
+ */
+export function formatBatteryJson(report: BatteryReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Formats a report as a standalone HTML page.
+ * 
+ * @param title - Page title and heading
+ */
+export function formatBatteryHtml(report: BatteryReport, title: string = 'Entropy Test Battery Report'): string {
+  const overall = report.passed ? 'passed' : 'failed';
+  const rows = report.tests.map(test => {
+    const status = testStatus(test);
+    const parameters = Object.entries(test.parameters).map(([name, value]) => `${name} = ${value}`).join(', ');
+    return [
+      '<tr>',
+      `<td>${escapeHtml(TEST_TITLES[test.name])}</td>`,
+      `<td>${escapeHtml(parameters)}</td>`,
+      `<td class="number">${test.statistic === undefined ? '' : formatNumber(test.statistic)}</td>`,
+      `<td class="number">${test.pValues.map(formatNumber).join('<br>')}</td>`,
+      `<td class="${status}">${status.toUpperCase()}</td>`,
+      `<td>${escapeHtml(test.details)}</td>`,
+      '</tr>'
+    ].join('');
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    '<table>',
+    `<tr><th>Generated</th><td>${new Date(report.createdAt).toISOString()}</td></tr>`,
+    `<tr><th>Samples</th><td>${report.samples}</td></tr>`,
+    `<tr><th>Bits</th><td>${report.bits}</td></tr>`,
+    `<tr><th>Significance level</th><td>${report.alpha}</td></tr>`,
+    `<tr><th>Result</th><td class="${overall}">${overall.toUpperCase()}</td></tr>`,
+    '</table>',
+    '<table>',
+    '<tr><th>Test</th><th>Parameters</th><th>Statistic</th><th>p-value</th><th>Result</th><th>Details</th></tr>',
+    ...rows,
+    '</table>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,506 @@
+/**
+ * Statistical Test Battery
+ * 
+ * Offline evidence that oracle output is indistinguishable from uniform,
+ * for certification. The battery reads a stream of outputs, from an
+ * EntropyOracle or any source of hex, and runs:
+ * 
+ * - The NIST SP 800-22 frequency (monobit), block frequency, runs, longest
+ *   run of ones, serial, approximate entropy and cumulative sums tests on
+ *   the bits of the concatenated hex, most significant bit first.
+ * - A chi-square goodness-of-fit test of the reel positions the outputs map
+ *   to, using the client library's mapping: position = first 32 bits of
+ *   HMAC-SHA256(hex, "<clientSeed>:<nonce>:<reel>") mod symbolsPerReel.
+ * - A Kolmogorov–Smirnov test of the outputs' floats against U(0, 1).
+ * 
+ * Each p-value is compared with alpha. Tests that need more data than the
+ * stream holds are reported as skipped rather than run on too little, and
+ * a report with skipped tests does not pass. The
+ * report can be written as JSON or a standalone HTML page (see
+ * battery-report.ts).
+ */
+
+import { createHmac } from 'crypto';
+import {
+  BatteryOptions,
+  BatteryReelConfig,
+  BatteryReport,
+  BatterySample,
+  BatteryStatistic,
+  BatteryTestName,
+  BatteryTestResult,
+  RawEntropyResult
+} from './types';
+import { chiSquareSurvival, erfc, igamc, kolmogorovSurvival, normalCdf } from './statistics';
+import type { EntropyOracle } from './oracle';
+
+/**
+ * Default significance level, as recommended by SP 800-22.
+ */
+export const DEFAULT_BATTERY_ALPHA = 0.01;
+
+/**
+ * Default reels of the chi-square test.
+ */
+export const DEFAULT_BATTERY_REELS: BatteryReelConfig = {
+  reelCount: 5,
+  symbolsPerReel: 20,
+  clientSeed: 'battery'
+};
+
+/**
+ * Minimum input sizes. SP 800-22 recommends at least 100 bits for its
+ * frequency-type tests and fixes 128 as the smallest longest-run input;
+ * the chi-square approximation needs an expected count of 5 per cell.
+ */
+const MIN_BITS = 100;
+const MIN_KS_SAMPLES = 10;
+const MIN_EXPECTED_COUNT = 5;
+
+/**
+ * Longest-run test parameters by minimum input length (SP 800-22 2.4.2):
+ * block length, the shortest longest run counted in its own class, and the
+ * class probabilities.
+ */
+const LONGEST_RUN_TABLES = [
+  { minBits: 750000, blockLength: 10000, shortest: 10, probabilities: [0.0882, 0.2092, 0.2483, 0.1933, 0.1208, 0.0675, 0.0727] },
+  { minBits: 6272, blockLength: 128, shortest: 4, probabilities: [0.1174, 0.2430, 0.2493, 0.1752, 0.1027, 0.1124] },
+  { minBits: 128, blockLength: 8, shortest: 1, probabilities: [0.2148, 0.3672, 0.2305, 0.1875] }
+];
+
+/**
+ * Longest pattern the serial and approximate entropy tests count, which
+ * bounds their tables at 2^24 entries.
+ */
+const MAX_PATTERN_LENGTH = 24;
+
+/**
+ * Converts hex to bits, most significant bit of each digit first.
+ * 
+ * @throws Error if the string is not hex
+ */
+export function hexToBits(hex: string): Uint8Array {
+  if (!/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error(`Invalid hex "${hex}"`);
+  }
+  const bits = new Uint8Array(hex.length * 4);
+  for (let i = 0; i < hex.length; i++) {
+    const digit = parseInt(hex[i], 16);
+    for (let b = 0; b < 4; b++) {
+      bits[i * 4 + b] = (digit >> (3 - b)) & 1;
+    }
+  }
+  return bits;
+}
+
+/**
+ * Reads the first 53 bits of hex as a float in [0, 1).
+ * 
+ * @throws Error if the string is shorter than 14 hex digits
+ */
+export function hexToUnitFloat(hex: string): number {
+  if (!/^[0-9a-fA-F]{14}/.test(hex)) {
+    throw new Error(`At least 14 hex digits are needed for a float, got "${hex}"`);
+  }
+  return Number(BigInt(`0x${hex.substring(0, 14)}`) >> BigInt(3)) / 2 ** 53;
+}
+
+/**
+ * Counts the overlapping m-bit patterns of a sequence, wrapping around at
+ * its end.
+ */
+function countPatterns(bits: Uint8Array, m: number): Uint32Array {
+  const n = bits.length;
+  const counts = new Uint32Array(2 ** m);
+  if (m === 0) {
+    counts[0] = n;
+    return counts;
+  }
+  const mask = 2 ** m - 1;
+  let pattern = 0;
+  for (let i = 0; i < m - 1; i++) {
+    pattern = (pattern << 1) | bits[i % n];
+  }
+  for (let i = 0; i < n; i++) {
+    pattern = ((pattern << 1) | bits[(i + m - 1) % n]) & mask;
+    counts[pattern]++;
+  }
+  return counts;
+}
+
+/**
+ * Frequency (monobit) test: the balance of ones and zeros.
+ */
+export function frequencyTest(bits: Uint8Array): BatteryStatistic {
+  let sum = 0;
+  for (const bit of bits) {
+    sum += 2 * bit - 1;
+  }
+  const statistic = Math.abs(sum) / Math.sqrt(bits.length);
+  return { statistic, pValues: [erfc(statistic / Math.SQRT2)] };
+}
+
+/**
+ * Block frequency test: the proportion of ones within each block.
+ */
+export function blockFrequencyTest(bits: Uint8Array, blockLength: number): BatteryStatistic {
+  const blocks = Math.floor(bits.length / blockLength);
+  let sum = 0;
+  for (let block = 0; block < blocks; block++) {
+    let ones = 0;
+    for (let i = block * blockLength; i < (block + 1) * blockLength; i++) {
+      ones += bits[i];
+    }
+    sum += (ones / blockLength - 0.5) ** 2;
+  }
+  const statistic = 4 * blockLength * sum;
+  return { statistic, pValues: [chiSquareSurvival(statistic, blocks)] };
+}
+
+/**
+ * Runs test: the number of runs of identical bits. A sequence whose
+ * proportion of ones is too far from 1/2 fails outright with p = 0.
+ */
+export function runsTest(bits: Uint8Array): BatteryStatistic {
+  const n = bits.length;
+  let ones = 0;
+  for (const bit of bits) {
+    ones += bit;
+  }
+  const proportion = ones / n;
+  let runs = 1;
+  for (let i = 1; i < n; i++) {
+    if (bits[i] !== bits[i - 1]) runs++;
+  }
+  if (Math.abs(proportion - 0.5) >= 2 / Math.sqrt(n)) {
+    return { statistic: runs, pValues: [0] };
+  }
+  const spread = 2 * n * proportion * (1 - proportion);
+  return {
+    statistic: runs,
+    pValues: [erfc(Math.abs(runs - spread) / (2 * Math.sqrt(2 * n) * proportion * (1 - proportion)))]
+  };
+}
+
+/**
+ * Longest run of ones test: the longest run within each block, with the
+ * block length chosen by input length.
+ * 
+ * @throws Error if the sequence is shorter than 128 bits
+ */
+export function longestRunTest(bits: Uint8Array): BatteryStatistic {
+  const table = LONGEST_RUN_TABLES.find(t => bits.length >= t.minBits);
+  if (!table) {
+    throw new Error(`The longest run test needs at least 128 bits, got ${bits.length}`);
+  }
+  const { blockLength, shortest, probabilities } = table;
+  const blocks = Math.floor(bits.length / blockLength);
+  const classes = new Array(probabilities.length).fill(0);
+
+  for (let block = 0; block < blocks; block++) {
+    let longest = 0;
+    let run = 0;
+    for (let i = block * blockLength; i < (block + 1) * blockLength; i++) {
+      run = bits[i] ? run + 1 : 0;
+      longest = Math.max(longest, run);
+    }
+    classes[Math.min(Math.max(longest - shortest, 0), classes.length - 1)]++;
+  }
+
+  const statistic = classes.reduce(
+    (sum, count, i) => sum + (count - blocks * probabilities[i]) ** 2 / (blocks * probabilities[i]),
+    0
+  );
+  return { statistic, pValues: [chiSquareSurvival(statistic, probabilities.length - 1)] };
+}
+
+/**
+ * SP 800-22 ψ² statistic of the m-bit pattern counts.
+ */
+function psiSquared(bits: Uint8Array, m: number): number {
+  if (m <= 0) return 0;
+  const n = bits.length;
+  let sum = 0;
+  for (const count of countPatterns(bits, m)) {
+    sum += count * count;
+  }
+  return (2 ** m / n) * sum - n;
+}
+
+/**
+ * Serial test: the frequency of every overlapping m-bit pattern. Yields
+ * the p-values of the first and second differences of ψ².
+ */
+export function serialTest(bits: Uint8Array, m: number): BatteryStatistic {
+  const psi = [psiSquared(bits, m), psiSquared(bits, m - 1), psiSquared(bits, m - 2)];
+  const delta = Math.max(0, psi[0] - psi[1]);
+  const delta2 = Math.max(0, psi[0] - 2 * psi[1] + psi[2]);
+  return {
+    statistic: delta,
+    pValues: [igamc(2 ** (m - 2), delta / 2), igamc(2 ** (m - 3), delta2 / 2)]
+  };
+}
+
+/**
+ * Approximate entropy test: the frequencies of overlapping m-bit and
+ * (m+1)-bit patterns compared.
+ */
+export function approximateEntropyTest(bits: Uint8Array, m: number): BatteryStatistic {
+  const n = bits.length;
+  const phi = (length: number): number => {
+    let sum = 0;
+    for (const count of countPatterns(bits, length)) {
+      if (count > 0) {
+        sum += (count / n) * Math.log(count / n);
+      }
+    }
+    return sum;
+  };
+  const apen = phi(m) - phi(m + 1);
+  const statistic = Math.max(0, 2 * n * (Math.LN2 - apen));
+  return { statistic, pValues: [igamc(2 ** (m - 1), statistic / 2)] };
+}
+
+/**
+ * p-value of the cumulative sums test for a maximal excursion z, as
+ * computed by the SP 800-22 reference implementation.
+ */
+function cumulativeSumsPValue(n: number, z: number): number {
+  const sqrtN = Math.sqrt(n);
+  const upper = Math.trunc((Math.trunc(n / z) - 1) / 4);
+  let sum1 = 0;
+  for (let k = Math.trunc((Math.trunc(-n / z) + 1) / 4); k <= upper; k++) {
+    sum1 += normalCdf((4 * k + 1) * z / sqrtN) - normalCdf((4 * k - 1) * z / sqrtN);
+  }
+  let sum2 = 0;
+  for (let k = Math.trunc((Math.trunc(-n / z) - 3) / 4); k <= upper; k++) {
+    sum2 += normalCdf((4 * k + 3) * z / sqrtN) - normalCdf((4 * k + 1) * z / sqrtN);
+  }
+  return Math.min(1, Math.max(0, 1 - sum1 + sum2));
+}
+
+/**
+ * Cumulative sums test: the maximal excursion of the ±1 random walk of the
+ * bits, walked forward and backward.
+ */
+export function cumulativeSumsTest(bits: Uint8Array): BatteryStatistic {
+  const n = bits.length;
+  let sum = 0;
+  let forward = 0;
+  for (const bit of bits) {
+    sum += 2 * bit - 1;
+    forward = Math.max(forward, Math.abs(sum));
+  }
+  sum = 0;
+  let backward = 0;
+  for (let i = n - 1; i >= 0; i--) {
+    sum += 2 * bits[i] - 1;
+    backward = Math.max(backward, Math.abs(sum));
+  }
+  return {
+    statistic: forward,
+    pValues: [cumulativeSumsPValue(n, forward), cumulativeSumsPValue(n, backward)]
+  };
+}
+
+/**
+ * Maps an output to reel positions as the client library does.
+ */
+export function reelPositions(hex: string, reels: BatteryReelConfig, nonce: number): number[] {
+  const positions: number[] = [];
+  for (let reel = 0; reel < reels.reelCount; reel++) {
+    const reelHash = createHmac('sha256', hex)
+      .update(`${reels.clientSeed}:${nonce}:${reel}`)
+      .digest('hex');
+    positions.push(parseInt(reelHash.substring(0, 8), 16) % reels.symbolsPerReel);
+  }
+  return positions;
+}
+
+/**
+ * Chi-square test of the reel positions of a stream of outputs against a
+ * uniform distribution, each reel a separate goodness-of-fit test whose
+ * statistics are summed.
+ */
+export function reelChiSquareTest(hexes: string[], reels: BatteryReelConfig): BatteryStatistic {
+  const counts = Array.from({ length: reels.reelCount }, () => new Array(reels.symbolsPerReel).fill(0));
+  hexes.forEach((hex, nonce) => {
+    reelPositions(hex, reels, nonce).forEach((position, reel) => counts[reel][position]++);
+  });
+
+  const expected = hexes.length / reels.symbolsPerReel;
+  let statistic = 0;
+  for (const reel of counts) {
+    for (const count of reel) {
+      statistic += (count - expected) ** 2 / expected;
+    }
+  }
+  return {
+    statistic,
+    pValues: [chiSquareSurvival(statistic, reels.reelCount * (reels.symbolsPerReel - 1))]
+  };
+}
+
+/**
+ * Kolmogorov–Smirnov test of floats against U(0, 1).
+ */
+export function kolmogorovSmirnovTest(values: number[]): BatteryStatistic {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  let statistic = 0;
+  sorted.forEach((x, i) => {
+    const cdf = Math.min(1, Math.max(0, x));
+    statistic = Math.max(statistic, (i + 1) / n - cdf, cdf - i / n);
+  });
+  const sqrtN = Math.sqrt(n);
+  return { statistic, pValues: [kolmogorovSurvival((sqrtN + 0.12 + 0.11 / sqrtN) * statistic)] };
+}
+
+/**
+ * Validates a pattern length option.
+ * 
+ * @throws Error if the length is not an integer in range
+ */
+function assertPatternLength(name: string, value: number, min: number): void {
+  if (!Number.isInteger(value) || value < min || value > MAX_PATTERN_LENGTH) {
+    throw new Error(`${name} must be an integer from ${min} to ${MAX_PATTERN_LENGTH}, got ${value}`);
+  }
+}
+
+/**
+ * Builds the result of one test, comparing its p-values with alpha. A
+ * string outcome is the reason the test was skipped.
+ */
+function testResult(
+  name: BatteryTestName,
+  parameters: Record<string, number>,
+  outcome: BatteryStatistic | string,
+  alpha: number
+): BatteryTestResult {
+  if (typeof outcome === 'string') {
+    return { name, pValues: [], passed: false, skipped: true, details: outcome, parameters };
+  }
+  const { statistic, pValues } = outcome;
+  const lowest = Math.min(...pValues);
+  const passed = lowest >= alpha;
+  return {
+    name,
+    statistic,
+    pValues,
+    passed,
+    skipped: false,
+    details: passed ? `Every p-value is at least ${alpha}` : `p-value ${lowest} is below ${alpha}`,
+    parameters
+  };
+}
+
+/**
+ * Runs the battery on a stream of outputs.
+ * 
+ * @param samples - Outputs, or their hex
+ * @param options - Significance level and test parameters
+ * @throws Error if a sample is not hex, a float is outside [0, 1) or an
+ *   option is out of range
+ */
+export function runEntropyBattery(samples: (BatterySample | string)[], options: BatteryOptions = {}): BatteryReport {
+  const alpha = options.alpha ?? DEFAULT_BATTERY_ALPHA;
+  if (!(alpha > 0 && alpha < 1)) {
+    throw new Error(`alpha must be in (0, 1), got ${alpha}`);
+  }
+  const reels = { ...DEFAULT_BATTERY_REELS, ...options.reels };
+  if (!Number.isInteger(reels.reelCount) || reels.reelCount < 1) {
+    throw new Error(`reelCount must be a positive integer, got ${reels.reelCount}`);
+  }
+  if (!Number.isInteger(reels.symbolsPerReel) || reels.symbolsPerReel < 2) {
+    throw new Error(`symbolsPerReel must be an integer of at least 2, got ${reels.symbolsPerReel}`);
+  }
+
+  const outputs = samples.map(sample => (typeof sample === 'string' ? { hex: sample } : sample));
+  const hexes = outputs.map(output => output.hex);
+  const bits = hexToBits(hexes.join(''));
+  const n = bits.length;
+  const values = outputs.map(output => {
+    const value = output.value ?? hexToUnitFloat(output.hex);
+    if (!(value >= 0 && value < 1)) {
+      throw new Error(`Sample values must be in [0, 1), got ${value}`);
+    }
+    return value;
+  });
+
+  const log2n = n > 0 ? Math.floor(Math.log2(n)) : 0;
+  const blockLength = options.blockFrequencyBlockLength ?? Math.max(20, Math.ceil(n / 99));
+  const serialLength = options.serialBlockLength ?? Math.min(16, Math.max(2, log2n - 3));
+  const apenLength = options.approximateEntropyBlockLength ?? Math.min(10, Math.max(1, log2n - 6));
+  if (!Number.isInteger(blockLength) || blockLength < 1) {
+    throw new Error(`blockFrequencyBlockLength must be a positive integer, got ${blockLength}`);
+  }
+  assertPatternLength('serialBlockLength', serialLength, 2);
+  assertPatternLength('approximateEntropyBlockLength', apenLength, 1);
+
+  const tooShort = (needed: number) => `Needs at least ${needed} bits, got ${n}`;
+  const bitTest = (minBits: number, test: () => BatteryStatistic) => (n >= minBits ? test() : tooShort(minBits));
+  const expected = outputs.length / reels.symbolsPerReel;
+
+  const tests = [
+    testResult('frequency', {}, bitTest(MIN_BITS, () => frequencyTest(bits)), alpha),
+    testResult('blockFrequency', { blockLength },
+      bitTest(Math.max(MIN_BITS, blockLength), () => blockFrequencyTest(bits, blockLength)), alpha),
+    testResult('runs', {}, bitTest(MIN_BITS, () => runsTest(bits)), alpha),
+    testResult('longestRun', {}, bitTest(128, () => longestRunTest(bits)), alpha),
+    testResult('serial', { blockLength: serialLength },
+      bitTest(2 ** (serialLength + 3), () => serialTest(bits, serialLength)), alpha),
+    testResult('approximateEntropy', { blockLength: apenLength },
+      bitTest(2 ** (apenLength + 6), () => approximateEntropyTest(bits, apenLength)), alpha),
+    testResult('cumulativeSums', {}, bitTest(MIN_BITS, () => cumulativeSumsTest(bits)), alpha),
+    testResult('reelChiSquare', { reelCount: reels.reelCount, symbolsPerReel: reels.symbolsPerReel },
+      expected >= MIN_EXPECTED_COUNT
+        ? reelChiSquareTest(hexes, reels)
+        : `Needs at least ${MIN_EXPECTED_COUNT * reels.symbolsPerReel} samples, got ${outputs.length}`,
+      alpha),
+    testResult('kolmogorovSmirnov', {},
+      values.length >= MIN_KS_SAMPLES
+        ? kolmogorovSmirnovTest(values)
+        : `Needs at least ${MIN_KS_SAMPLES} samples, got ${values.length}`,
+      alpha)
+  ];
+
+  return {
+    createdAt: Date.now(),
+    samples: outputs.length,
+    bits: n,
+    alpha,
+    passed: tests.every(test => test.passed),
+    tests
+  };
+}
+
+/**
+ * Requests unseeded entropy from an oracle, one request at a time, for the
+ * battery.
+ * 
+ * @param count - Number of outputs
+ * @param sessionPrefix - Prefix of the session ID of each request
+ */
+export async function collectOracleSamples(
+  oracle: EntropyOracle,
+  count: number,
+  sessionPrefix: string = 'battery'
+): Promise<RawEntropyResult[]> {
+  const samples: RawEntropyResult[] = [];
+  for (let i = 0; i < count; i++) {
+    const response = await oracle.requestEntropy({ sessionId: `${sessionPrefix}-${i}` });
+    samples.push(response.entropy);
+  }
+  return samples;
+}
+
+/**
+ * Collects outputs from an oracle and runs the battery on them.
+ */
+export async function runOracleBattery(
+  oracle: EntropyOracle,
+  count: number,
+  options: BatteryOptions = {}
+): Promise<BatteryReport> {
+  return runEntropyBattery(await collectOracleSamples(oracle, count), options);
+}
@@ -0,0 +1,343 @@
+/**
+ * Entropy Caches
+ * 
+ * Backends for pre-generated entropy. MemoryEntropyCache keeps entries in
+ * process with a bound on their number, evicting the least recently used
+ * entry when full and sweeping out expired entries as it is written to.
+ * KeyValueEntropyCache stores entries as JSON in a Redis-compatible store,
+ * which expires them itself, so several oracle instances can share
+ * pre-generated entropy. InMemoryKeyValueStore is an in-process stand-in
+ * for such a store, for tests and single-instance deployments, bounded and
+ * swept the same way as MemoryEntropyCache.
+ */
+
+import {
+  CacheEntry,
+  EntropyCache,
+  KeyValueEntropyCacheOptions,
+  KeyValueStore,
+  InMemoryKeyValueStoreOptions,
+  MemoryEntropyCacheOptions
+} from './types';
+
+/**
+ * Default cache parameters.
+ */
+export const DEFAULT_CACHE_MAX_ENTRIES = 10000;
+export const DEFAULT_CACHE_SWEEP_INTERVAL = 60000;
+export const DEFAULT_CACHE_KEY_PREFIX = 'entropy-oracle:';
+
+/**
+ * Keys fetched per SCAN call.
+ */
+const SCAN_BATCH_SIZE = 100;
+
+/**
+ * Bounded in-memory LRU cache.
+ */
+export class MemoryEntropyCache implements EntropyCache {
+  private readonly maxEntries: number;
+  private readonly sweepInterval: number;
+  // Map iteration follows insertion order, so the first key is the least
+  // recently used one
+  private readonly entries: Map<string, CacheEntry> = new Map();
+  private lastSweep = Date.now();
+  private evictions = 0;
+
+  /**
+   * @throws Error if maxEntries is not a positive integer or sweepInterval
+   *   is negative
+   */
+  constructor(options: MemoryEntropyCacheOptions = {}) {
+    const { maxEntries = DEFAULT_CACHE_MAX_ENTRIES, sweepInterval = DEFAULT_CACHE_SWEEP_INTERVAL } = options;
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error(`maxEntries must be a positive integer, got ${maxEntries}`);
+    }
+    if (!(sweepInterval >= 0)) {
+      throw new Error(`sweepInterval must be non-negative, got ${sweepInterval}`);
+    }
+    this.maxEntries = maxEntries;
+    this.sweepInterval = sweepInterval;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.live(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastSweep >= this.sweepInterval) {
+      this.sweep();
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+      this.evictions++;
+    }
+  }
+
+  async take(key: string): Promise<CacheEntry | null> {
+    const entry = this.live(key);
+    this.entries.delete(key);
+    return entry;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async size(): Promise<number> {
+    this.sweep();
+    return this.entries.size;
+  }
+
+  /**
+   * Removes every expired entry.
+   * 
+   * @returns The number of entries removed
+   */
+  sweep(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (now > entry.expiresAt) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    this.lastSweep = now;
+    return removed;
+  }
+
+  /**
+   * Number of entries evicted to stay within maxEntries.
+   */
+  getEvictions(): number {
+    return this.evictions;
+  }
+
+  /**
+   * Returns the entry under a key unless it has expired, dropping it if it
+   * has.
+   */
+  private live(key: string): CacheEntry | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+}
+
+/**
+ * Cache backed by a Redis-compatible key-value store. Each entry is stored
+ * under `${prefix}${key}` with a millisecond TTL that ends at its expiresAt,
+ * and take() uses GETDEL, so an entry is served at most once however many
+ * oracles share the store.
+ */
+export class KeyValueEntropyCache implements EntropyCache {
+  private readonly store: KeyValueStore;
+  private readonly prefix: string;
+
+  constructor(store: KeyValueStore, options: KeyValueEntropyCacheOptions = {}) {
+    this.store = store;
+    this.prefix = options.prefix ?? DEFAULT_CACHE_KEY_PREFIX;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    return this.parse(await this.store.get(this.prefix + key));
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const ttl = Math.ceil(entry.expiresAt - Date.now());
+    if (ttl <= 0) {
+      await this.store.del(this.prefix + key);
+      return;
+    }
+    await this.store.set(this.prefix + key, JSON.stringify(entry), 'PX', ttl);
+  }
+
+  async take(key: string): Promise<CacheEntry | null> {
+    return this.parse(await this.store.getdel(this.prefix + key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.del(this.prefix + key);
+  }
+
+  async clear(): Promise<void> {
+    await this.scan(async keys => {
+      await this.store.del(...keys);
+    });
+  }
+
+  async size(): Promise<number> {
+    let count = 0;
+    await this.scan(async keys => {
+      count += keys.length;
+    });
+    return count;
+  }
+
+  /**
+   * Walks the keys under the prefix in SCAN batches.
+   */
+  private async scan(visit: (keys: string[]) => Promise<void>): Promise<void> {
+    const pattern = `${this.prefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.store.scan(cursor, 'MATCH', pattern, 'COUNT', SCAN_BATCH_SIZE);
+      if (keys.length > 0) {
+        await visit(keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+  }
+
+  /**
+   * Decodes a stored entry, treating an entry past its expiresAt as absent
+   * in case the store's clock runs behind.
+   */
+  private parse(value: string | null): CacheEntry | null {
+    if (value === null) return null;
+
+    const entry = JSON.parse(value) as CacheEntry;
+    return Date.now() > entry.expiresAt ? null : entry;
+  }
+}
+
+/**
+ * In-process stand-in for a Redis-compatible store, implementing the
+ * commands KeyValueEntropyCache uses. SCAN returns every match in one call
+ * and supports the `*`, `?` and escape characters of MATCH patterns.
+ * 
+ * Expired keys are dropped when read and swept out on writes at most every
+ * sweepInterval milliseconds; beyond maxKeys the oldest written key is
+ * evicted, as Redis does under an eviction policy.
+ */
+export class InMemoryKeyValueStore implements KeyValueStore {
+  private readonly maxKeys: number;
+  private readonly sweepInterval: number;
+  // Map iteration follows insertion order, so the first key is the oldest
+  // written one
+  private readonly values: Map<string, { value: string; expiresAt: number }> = new Map();
+  private lastSweep = Date.now();
+  private evictions = 0;
+
+  /**
+   * @throws Error if maxKeys is not a positive integer or sweepInterval is
+   *   negative
+   */
+  constructor(options: InMemoryKeyValueStoreOptions = {}) {
+    const { maxKeys = DEFAULT_CACHE_MAX_ENTRIES, sweepInterval = DEFAULT_CACHE_SWEEP_INTERVAL } = options;
+    if (!Number.isInteger(maxKeys) || maxKeys < 1) {
+      throw new Error(`maxKeys must be a positive integer, got ${maxKeys}`);
+    }
+    if (!(sweepInterval >= 0)) {
+      throw new Error(`sweepInterval must be non-negative, got ${sweepInterval}`);
+    }
+    this.maxKeys = maxKeys;
+    this.sweepInterval = sweepInterval;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.live(key);
+  }
+
+  async set(key: string, value: string, mode: 'PX', milliseconds: number): Promise<'OK'> {
+    if (mode !== 'PX' || !Number.isInteger(milliseconds) || milliseconds <= 0) {
+      throw new Error('ERR invalid expire time in \'set\' command');
+    }
+    const now = Date.now();
+    if (now - this.lastSweep >= this.sweepInterval) {
+      this.sweep();
+    }
+    this.values.delete(key);
+    this.values.set(key, { value, expiresAt: now + milliseconds });
+    while (this.values.size > this.maxKeys) {
+      this.values.delete(this.values.keys().next().value as string);
+      this.evictions++;
+    }
+    return 'OK';
+  }
+
+  async getdel(key: string): Promise<string | null> {
+    const value = this.live(key);
+    this.values.delete(key);
+    return value;
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    let removed = 0;
+    for (const key of keys) {
+      if (this.live(key) !== null) {
+        removed++;
+      }
+      this.values.delete(key);
+    }
+    return removed;
+  }
+
+  async scan(cursor: string, match: 'MATCH', pattern: string, count: 'COUNT', limit: number): Promise<[string, string[]]> {
+    const source = pattern.replace(/\\(.)|([*?])|([^\\*?]+)/g, (_, escaped: string, wildcard: string, literal: string) => {
+      if (wildcard) return wildcard === '*' ? '.*' : '.';
+      return (escaped ?? literal).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    });
+    const regex = new RegExp(`^${source}$`, 's');
+    const keys = [...this.values.keys()].filter(key => this.live(key) !== null && regex.test(key));
+    return ['0', keys];
+  }
+
+  /**
+   * Removes every expired key.
+   * 
+   * @returns The number of keys removed
+   */
+  sweep(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, stored] of this.values) {
+      if (now >= stored.expiresAt) {
+        this.values.delete(key);
+        removed++;
+      }
+    }
+    this.lastSweep = now;
+    return removed;
+  }
+
+  /**
+   * Number of keys evicted to stay within maxKeys.
+   */
+  getEvictions(): number {
+    return this.evictions;
+  }
+
+  /**
+   * Returns the value under a key unless it has expired, dropping it if it
+   * has.
+   */
+  private live(key: string): string | null {
+    const stored = this.values.get(key);
+    if (!stored) return null;
+
+    if (Date.now() >= stored.expiresAt) {
+      this.values.delete(key);
+      return null;
+    }
+    return stored.value;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Conditions Commitments
+ * 
+ * Before the client seed is given, the oracle commits to everything that
+ * determines the run behind pre-generated entropy: the initial conditions,
+ * the run parameters, the integrator version and the engine tag. The
+ * commitment is SHA-256 of
+ * 
+ *   "three-body-entropy:conditions:v1\n" + canonical JSON of the opening
+ * 
+ * where canonical JSON sorts object keys, drops undefined members and
+ * rejects non-finite numbers, so any implementation encoding the same
+ * opening gets the same bytes. A random salt in the opening keeps the
+ * commitment from revealing the conditions. revealEntropy() returns the
+ * opening, which a verifier checks against the commitment published
+ * earlier and then replays with replayVerify().
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { ConditionsOpening, InitialConditions, SimulationEngine, SimulationParams, VerificationCheck } from './types';
+import { INTEGRATOR_VERSIONS } from './engine-adapter';
+
+/**
+ * Domain label prefixed to the encoding before hashing.
+ */
+export const CONDITIONS_COMMITMENT_LABEL = 'three-body-entropy:conditions:v1';
+
+/**
+ * Encodes a JSON value with object keys sorted.
+ * 
+ * @throws Error if the value contains a non-finite number or a value JSON
+ *   cannot represent
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot encode non-finite number ${value}`);
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const members = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  throw new Error(`Cannot encode ${typeof value} value`);
+}
+
+/**
+ * Builds the opening of a run, with a fresh salt unless one is given.
+ * 
+ * @param conditions - Conditions the run started from, with the physics
+ *   constants it used
+ * @param params - Parameters of the run
+ * @param engine - Engine the run used
+ */
+export function createConditionsOpening(
+  conditions: InitialConditions,
+  params: SimulationParams,
+  engine: SimulationEngine,
+  salt: string = randomBytes(32).toString('hex')
+): ConditionsOpening {
+  const { engine: _engine, initialConditions: _conditions, simulationId: _simulationId, ...runParams } = params;
+  return {
+    salt,
+    engine,
+    integrator: INTEGRATOR_VERSIONS[engine],
+    initialConditions: conditions,
+    params: runParams
+  };
+}
+
+/**
+ * Computes the commitment to an opening.
+ * 
+ * @throws Error if the opening cannot be encoded
+ */
+export function computeConditionsCommitment(opening: ConditionsOpening): string {
+  return createHash('sha256')
+    .update(`${CONDITIONS_COMMITMENT_LABEL}\n${canonicalJson(opening)}`)
+    .digest('hex');
+}
+
+/**
+ * Checks that an opening is the one a published commitment was made to.
+ * 
+ * @param commitment - Conditions commitment published before the client
+ *   seed was given
+ * @param opening - Opening revealed with the entropy
+ */
+export function checkConditionsCommitment(commitment: string, opening: ConditionsOpening): VerificationCheck {
+  let expected: string;
+  try {
+    expected = computeConditionsCommitment(opening);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { name: 'conditionsCommitment', passed: false, details: `Opening cannot be encoded: ${message}` };
+  }
+  const passed = expected === commitment;
+  return {
+    name: 'conditionsCommitment',
+    passed,
+    expected,
+    actual: commitment,
+    details: passed ? 'Conditions commitment matches' : 'Conditions commitment mismatch'
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Physics Engine Adapter
+ * 
+ * Runs oracle simulations on the physics engine's ThreeBodySimulation, so
+ * integration, hashing and extraction fixes land in one place. The adapter
+ * maps the oracle's inputs and outputs as follows:
+ * 
+ * - Conditions: each body's mass, position and velocity become the engine's
+ *   initial conditions; a missing or zero gravitational constant or
+ *   softening falls back to 1 and 0.01, as it always has in the oracle.
+ * - Parameters: the run takes floor(duration / timeStep) fixed RK4 steps of
+ *   exactly `timeStep` through simulateSteps(), the same steps as oracle-v1.
+ *   A non-default force model is set on the simulation, the encounter and
+ *   escape distances become its event thresholds, and the reversibility
+ *   check is the engine's.
+ * - Entropy: `value` and `hex` are the engine's version 2 extraction, which
+ *   absorbs the trajectory every 100 steps; `sourceHash` is SHA-256 of `hex`
+ *   and `simulationId` is derived from `hex`, so a replay reproduces both.
+ * - Metadata: `steps` is the engine's step count, `closeEncounters` counts
+ *   close-encounter events, `escapedBodies` counts the distinct bodies of
+ *   escape events, and `engine` is "physics-engine-v1".
+ * 
+ * Runs are tagged with the engine that produced them. "oracle-v1" is the
+ * oracle's original integrator (see legacy-simulation.ts); its metadata
+ * carries no tag, so proofs issued before the adapter existed keep their
+ * simulation hash and verify under it.
+ */
+
+import { createHash } from 'crypto';
+import {
+  ThreeBodySimulation,
+  TrajectoryObserver,
+  SystemConfiguration,
+  ForceModel,
+  ReversibilityCheckOptions,
+  estimateLyapunovExponent
+} from '@three-body-entropy/physics-engine';
+import {
+  Body,
+  InitialConditions,
+  RawEntropyResult,
+  SimulationEngine,
+  SimulationHooks,
+  SimulationMetadata,
+  SimulationParams
+} from './types';
+
+/**
+ * Supported simulation engines.
+ */
+export const SIMULATION_ENGINES: SimulationEngine[] = ['oracle-v1', 'physics-engine-v1'];
+
+/**
+ * Engine used for new runs.
+ */
+export const DEFAULT_SIMULATION_ENGINE: SimulationEngine = 'physics-engine-v1';
+
+/**
+ * Version of the integrator each engine steps with. Conditions commitments
+ * cover it, so it changes whenever an engine's trajectories would.
+ */
+export const INTEGRATOR_VERSIONS: Record<SimulationEngine, string> = {
+  'oracle-v1': 'rk4-v1',
+  'physics-engine-v1': 'rk4-v1'
+};
+
+/**
+ * Validates an engine tag.
+ * 
+ * @throws Error if the engine is not supported
+ */
+export function assertSimulationEngine(engine: string): asserts engine is SimulationEngine {
+  if (!SIMULATION_ENGINES.includes(engine as SimulationEngine)) {
+    throw new Error(`Unknown simulation engine "${engine}"`);
+  }
+}
+
+/**
+ * A run with its parameters validated and defaults filled in.
+ */
+export interface ResolvedSimulation {
+  params: SimulationParams;
+  conditions: InitialConditions;
+  gravitationalConstant: number;
+  softeningParameter: number;
+  /** Absent for the default Plummer softening */
+  forceModel?: ForceModel;
+  closeEncounterDistance: number;
+  escapeDistance: number;
+  /** Null when the reversibility check is off */
+  reversibilityCheck: (ReversibilityCheckOptions & { threshold: number }) | null;
+  progressInterval: number;
+  onProgress?: SimulationHooks['onProgress'];
+}
+
+/**
+ * Converts oracle bodies to a physics-engine configuration.
+ */
+export function toSystemConfiguration(
+  bodies: Body[],
+  G: number,
+  softening: number,
+  forceModel?: ForceModel
+): SystemConfiguration {
+  return {
+    bodies: bodies.map(b => ({
+      mass: b.mass,
+      position: { ...b.position },
+      velocity: { ...b.velocity }
+    })) as SystemConfiguration['bodies'],
+    gravitationalConstant: G,
+    softeningParameter: softening,
+    ...(forceModel && { forceModel })
+  };
+}
+
+/**
+ * Creates an identifier for a run, derived from `source` when given and
+ * random otherwise.
+ */
+export function createSimulationId(source?: string): string {
+  return createHash('sha256')
+    .update(source ?? `${Date.now()}:${Math.random()}`)
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * Runs a resolved simulation on the physics engine.
+ * 
+ * @throws Error if the engine rejects the conditions or parameters, or the
+ *   reversibility check fails
+ */
+export function runEngineSimulation(run: ResolvedSimulation): RawEntropyResult {
+  const { params, conditions, gravitationalConstant: G, softeningParameter: softening, forceModel } = run;
+  const { duration, timeStep } = params;
+  const { onProgress, progressInterval, reversibilityCheck } = run;
+
+  const simulation = new ThreeBodySimulation({
+    events: { closeEncounterDistance: run.closeEncounterDistance, escapeDistance: run.escapeDistance },
+    extraction: { version: 2 },
+    ...(reversibilityCheck && { reversibilityCheck })
+  });
+  simulation.setGravitationalConstant(G);
+  simulation.setSofteningParameter(softening);
+  if (forceModel) {
+    simulation.setForceModel(forceModel);
+  }
+  simulation.initializeSystem(
+    conditions.bodies.map(b => b.mass),
+    conditions.bodies.map(b => b.position),
+    conditions.bodies.map(b => b.velocity)
+  );
+
+  const initialEnergy = simulation.getTotalEnergy();
+  const steps = Math.floor(duration / timeStep);
+  const recorder: TrajectoryObserver = {
+    observe: ({ stepCount }, final) => {
+      if (!final && stepCount > 0 && stepCount % progressInterval === 0 && stepCount < steps) {
+        onProgress?.({ completedSteps: stepCount, totalSteps: steps });
+      }
+    }
+  };
+
+  const state = simulation.simulateSteps(steps, timeStep, recorder);
+  onProgress?.({ completedSteps: steps, totalSteps: steps });
+  const entropy = simulation.getEntropyValue();
+
+  const events = simulation.getEvents();
+  const closeEncounters = events.filter(event => event.type === 'close-encounter').length;
+  const escapedBodies = new Set(events.flatMap(event => (event.type === 'escape' ? [event.body] : []))).size;
+  const finalEnergy = state.totalEnergy;
+
+  const lyapunovEstimate = steps > 0
+    ? estimateLyapunovExponent(
+      toSystemConfiguration(conditions.bodies, G, softening, forceModel),
+      { duration: steps * timeStep, timeStep }
+    ).exponent
+    : 0;
+
+  const metadata: SimulationMetadata = {
+    duration,
+    timeStep,
+    steps: state.stepCount,
+    finalEnergy,
+    energyDrift: Math.abs((finalEnergy - initialEnergy) / initialEnergy),
+    lyapunovEstimate,
+    initialEnergy,
+    closeEncounters,
+    escapedBodies,
+    ...(forceModel && { forceModel }),
+    ...(entropy.reversibility && { reversibility: entropy.reversibility }),
+    engine: 'physics-engine-v1'
+  };
+
+  return {
+    value: entropy.value,
+    hex: entropy.hex,
+    sourceHash: createHash('sha256').update(entropy.hex).digest('hex'),
+    simulationId: createSimulationId(`physics-engine-v1:${entropy.hex}`),
+    timestamp: Date.now(),
+    metadata
+  };
+}
@@ -0,0 +1,291 @@
+/**
+ * Output Health Tests
+ * 
+ * Continuous tests on the hex the oracle serves, after NIST SP 800-90B
+ * section 4.4, treating each byte as a sample of one stream that runs
+ * across outputs:
+ * 
+ * - Repetition count: fails when a sample repeats C times in a row, with
+ *   C = 1 + ceil(alphaExponent / minEntropy).
+ * - Adaptive proportion: in each window of W samples, fails when the first
+ *   sample occurs C times, with C = 1 + CRITBINOM(W, 2^-minEntropy, 1 - α).
+ * - Duplicates: fails when an output repeats one of the last N outputs. Only
+ *   outputs of unseeded runs are compared, since seeded and explicit
+ *   conditions reproduce their output by design.
+ * 
+ * A failure opens a circuit breaker: the oracle refuses requests with an
+ * EntropyHealthError until the cooldown has passed, then serves requests
+ * again and closes the breaker once an output passes the tests. The
+ * repetition and proportion tests restart when the breaker half-opens; the
+ * duplicate window is kept, so a source stuck on one output stays failed.
+ */
+
+import { CircuitState, HealthFailure, HealthStatus, HealthTestConfig, HealthTestName } from './types';
+
+/**
+ * Default health test configuration: α = 2^-40 on full-entropy bytes, as
+ * expected of hashed output.
+ */
+export const DEFAULT_HEALTH_TESTS: HealthTestConfig = {
+  enabled: true,
+  minEntropy: 8,
+  alphaExponent: 40,
+  adaptiveProportionWindow: 512,
+  duplicateWindow: 1024,
+  cooldown: 60000
+};
+
+/**
+ * Raised when an output fails a health test or the circuit breaker refuses
+ * a request.
+ */
+export class EntropyHealthError extends Error {
+  /** Test whose failure opened the breaker */
+  readonly test: HealthTestName;
+
+  constructor(message: string, test: HealthTestName) {
+    super(message);
+    this.name = 'EntropyHealthError';
+    this.test = test;
+  }
+}
+
+/**
+ * Cutoff of the repetition count test.
+ */
+export function repetitionCountCutoff(minEntropy: number, alphaExponent: number): number {
+  return 1 + Math.ceil(alphaExponent / minEntropy);
+}
+
+/**
+ * Cutoff of the adaptive proportion test: one more than the smallest count
+ * k for which a Binomial(window, 2^-minEntropy) exceeds k with probability
+ * at most 2^-alphaExponent.
+ */
+export function adaptiveProportionCutoff(minEntropy: number, alphaExponent: number, window: number): number {
+  const p = Math.pow(2, -minEntropy);
+  const alpha = Math.pow(2, -alphaExponent);
+
+  // Work in log space so that low-entropy windows do not underflow
+  const logPmf: number[] = new Array(window + 1);
+  logPmf[0] = window * Math.log1p(-p);
+  for (let k = 0; k < window; k++) {
+    logPmf[k + 1] = logPmf[k] + Math.log((window - k) / (k + 1)) + Math.log(p / (1 - p));
+  }
+
+  // Sum the upper tail from the top so tiny probabilities keep their precision
+  let tail = 0;
+  let k = window;
+  while (k > 0 && tail + Math.exp(logPmf[k]) <= alpha) {
+    tail += Math.exp(logPmf[k]);
+    k--;
+  }
+  return k + 1;
+}
+
+/**
+ * Validates a health test configuration.
+ * 
+ * @throws Error if a parameter is out of range
+ */
+function validateHealthTests(config: HealthTestConfig): void {
+  if (!(config.minEntropy > 0 && config.minEntropy <= 8)) {
+    throw new Error(`minEntropy must be in (0, 8], got ${config.minEntropy}`);
+  }
+  if (!(config.alphaExponent > 0)) {
+    throw new Error(`alphaExponent must be positive, got ${config.alphaExponent}`);
+  }
+  if (!Number.isInteger(config.adaptiveProportionWindow) || config.adaptiveProportionWindow < 2) {
+    throw new Error(`adaptiveProportionWindow must be an integer of at least 2, got ${config.adaptiveProportionWindow}`);
+  }
+  if (!Number.isInteger(config.duplicateWindow) || config.duplicateWindow < 0) {
+    throw new Error(`duplicateWindow must be a non-negative integer, got ${config.duplicateWindow}`);
+  }
+  if (!(config.cooldown >= 0)) {
+    throw new Error(`cooldown must be non-negative, got ${config.cooldown}`);
+  }
+}
+
+/**
+ * Runs the health tests on served outputs and holds the circuit breaker.
+ */
+export class EntropyHealthMonitor {
+  private readonly config: HealthTestConfig;
+  private readonly repetitionCutoff: number;
+  private readonly proportionCutoff: number;
+  private state: CircuitState = 'closed';
+  private openedAt?: number;
+  private lastFailure?: HealthFailure;
+  private outputsTested = 0;
+  private samplesTested = 0;
+  private failures = 0;
+
+  // Repetition count test
+  private lastSample = -1;
+  private repetitions = 0;
+
+  // Adaptive proportion test
+  private windowSample = -1;
+  private windowPosition = 0;
+  private windowCount = 0;
+
+  // Duplicate test; Set iteration follows insertion order, so the first
+  // output is the oldest one
+  private readonly recentOutputs: Set<string> = new Set();
+
+  /**
+   * @throws Error if a parameter is out of range
+   */
+  constructor(config: HealthTestConfig = DEFAULT_HEALTH_TESTS) {
+    validateHealthTests(config);
+    this.config = config;
+    this.repetitionCutoff = repetitionCountCutoff(config.minEntropy, config.alphaExponent);
+    this.proportionCutoff = adaptiveProportionCutoff(
+      config.minEntropy,
+      config.alphaExponent,
+      config.adaptiveProportionWindow
+    );
+  }
+
+  /**
+   * Refuses requests while the breaker is open, half-opening it once the
+   * cooldown has passed.
+   * 
+   * @throws EntropyHealthError if the breaker is open
+   */
+  assertAvailable(): void {
+    if (this.state !== 'open') return;
+
+    if (Date.now() - this.openedAt! < this.config.cooldown) {
+      throw this.openError();
+    }
+    this.state = 'half-open';
+    this.restartTests();
+  }
+
+  /**
+   * Tests an output before it is served.
+   * 
+   * @param hex - Hex of the output
+   * @param unique - Whether the output must differ from recent outputs;
+   *   false for outputs of seeded or explicit-condition runs
+   * @throws EntropyHealthError if the output fails a test or the breaker
+   *   opened while it was being produced
+   */
+  check(hex: string, unique: boolean = true): void {
+    if (!this.config.enabled) return;
+    if (this.state === 'open') {
+      throw this.openError();
+    }
+
+    const samples = Buffer.from(hex, 'hex');
+    this.outputsTested++;
+    this.samplesTested += samples.length;
+
+    if (unique && this.config.duplicateWindow > 0) {
+      if (this.recentOutputs.has(hex)) {
+        this.fail('duplicate', 'Output repeats one of the last ' +
+          `${this.config.duplicateWindow} outputs`);
+      }
+      this.recentOutputs.add(hex);
+      if (this.recentOutputs.size > this.config.duplicateWindow) {
+        this.recentOutputs.delete(this.recentOutputs.values().next().value as string);
+      }
+    }
+
+    for (const sample of samples) {
+      this.testRepetitionCount(sample);
+      this.testAdaptiveProportion(sample);
+    }
+
+    if (this.state === 'half-open') {
+      this.state = 'closed';
+    }
+  }
+
+  /**
+   * Gets the health status.
+   */
+  getStatus(): HealthStatus {
+    return {
+      enabled: this.config.enabled,
+      state: this.state,
+      outputsTested: this.outputsTested,
+      samplesTested: this.samplesTested,
+      failures: this.failures,
+      ...(this.lastFailure && { lastFailure: { ...this.lastFailure } }),
+      ...(this.openedAt !== undefined && { openedAt: this.openedAt }),
+      repetitionCountCutoff: this.repetitionCutoff,
+      adaptiveProportionCutoff: this.proportionCutoff
+    };
+  }
+
+  /**
+   * Closes the breaker and restarts every test, e.g. after the cause of a
+   * failure was fixed. Counters are kept.
+   */
+  reset(): void {
+    this.state = 'closed';
+    this.restartTests();
+    this.recentOutputs.clear();
+  }
+
+  private testRepetitionCount(sample: number): void {
+    if (sample !== this.lastSample) {
+      this.lastSample = sample;
+      this.repetitions = 1;
+      return;
+    }
+    this.repetitions++;
+    if (this.repetitions >= this.repetitionCutoff) {
+      this.fail('repetitionCount', `Sample 0x${sample.toString(16).padStart(2, '0')} repeated ` +
+        `${this.repetitions} times in a row (cutoff ${this.repetitionCutoff})`);
+    }
+  }
+
+  private testAdaptiveProportion(sample: number): void {
+    if (this.windowPosition === 0) {
+      this.windowSample = sample;
+      this.windowCount = 1;
+    } else if (sample === this.windowSample) {
+      this.windowCount++;
+      if (this.windowCount >= this.proportionCutoff) {
+        this.fail('adaptiveProportion', `Sample 0x${sample.toString(16).padStart(2, '0')} occurred ` +
+          `${this.windowCount} times in a window of ${this.config.adaptiveProportionWindow} ` +
+          `(cutoff ${this.proportionCutoff})`);
+      }
+    }
+    this.windowPosition = (this.windowPosition + 1) % this.config.adaptiveProportionWindow;
+  }
+
+  /**
+   * Records a failure and opens the breaker.
+   * 
+   * @throws EntropyHealthError always
+   */
+  private fail(test: HealthTestName, message: string): never {
+    const now = Date.now();
+    this.failures++;
+    this.lastFailure = { test, message, timestamp: now };
+    this.state = 'open';
+    this.openedAt = now;
+    this.restartTests();
+    throw new EntropyHealthError(`Health test ${test} failed: ${message}`, test);
+  }
+
+  private openError(): EntropyHealthError {
+    const failure = this.lastFailure!;
+    return new EntropyHealthError(
+      `Entropy health circuit breaker is open after ${failure.test} failure: ${failure.message}`,
+      failure.test
+    );
+  }
+
+  private restartTests(): void {
+    this.lastSample = -1;
+    this.repetitions = 0;
+    this.windowSample = -1;
+    this.windowPosition = 0;
+    this.windowCount = 0;
+  }
+}
@@ -18,12 +18,49 @@ export {
   EntropyRequestOptions,
   EntropyResponse,
   EntropyProof,
+  ProofVersion,
+  ProofKey,
+  ProofKeyOptions,
   OracleConfig,
+  OracleConfigOverrides,
+  ChaosGateConfig,
+  ChaosQualityReport,
   CacheEntry,
+  EntropyCache,
+  MemoryEntropyCacheOptions,
+  KeyValueStore,
+  KeyValueEntropyCacheOptions,
+  InMemoryKeyValueStoreOptions,
+  RevealedSeed,
+  HealthTestConfig,
+  HealthTestName,
+  HealthFailure,
+  HealthStatus,
+  CircuitState,
+  BatterySample,
+  BatteryTestName,
+  BatteryReelConfig,
+  BatteryOptions,
+  BatteryStatistic,
+  BatteryTestResult,
+  BatteryReport,
+  ConditionsOpening,
+  SessionCommitments,
   OracleStats,
   VerificationResult,
   VerificationCheck,
-  PresetConditions
+  PresetConditions,
+  SeedStreamVersion,
+  SimulationEngine,
+  ForceModel,
+  ReversibilityCheckOptions,
+  ReversibilityReport,
+  SimulationProgress,
+  SimulationHooks,
+  SimulationJob,
+  SimulationJobOptions,
+  SimulationPoolOptions,
+  SimulationPoolStats
 } from './types';
 
 // Export simulation functions
@@ -35,6 +72,97 @@ export {
   PRESET_CONDITIONS
 } from './simulation';
 
+// Export the physics engine adapter
+export {
+  SIMULATION_ENGINES,
+  DEFAULT_SIMULATION_ENGINE,
+  INTEGRATOR_VERSIONS,
+  assertSimulationEngine
+} from './engine-adapter';
+
+// Export conditions commitments
+export {
+  CONDITIONS_COMMITMENT_LABEL,
+  canonicalJson,
+  createConditionsOpening,
+  computeConditionsCommitment,
+  checkConditionsCommitment
+} from './commitment';
+
+// Export chaos quality gate
+export {
+  evaluateChaosQuality,
+  DEFAULT_CHAOS_GATE
+} from './quality';
+
+// Export output health tests
+export {
+  EntropyHealthMonitor,
+  EntropyHealthError,
+  DEFAULT_HEALTH_TESTS,
+  repetitionCountCutoff,
+  adaptiveProportionCutoff
+} from './health';
+
+// Export the statistical test battery
+export {
+  runEntropyBattery,
+  runOracleBattery,
+  collectOracleSamples,
+  frequencyTest,
+  blockFrequencyTest,
+  runsTest,
+  longestRunTest,
+  serialTest,
+  approximateEntropyTest,
+  cumulativeSumsTest,
+  reelChiSquareTest,
+  kolmogorovSmirnovTest,
+  reelPositions,
+  hexToBits,
+  hexToUnitFloat,
+  DEFAULT_BATTERY_ALPHA,
+  DEFAULT_BATTERY_REELS
+} from './battery';
+export {
+  formatBatteryJson,
+  formatBatteryHtml
+} from './battery-report';
+export {
+  igamc,
+  erfc,
+  normalCdf,
+  chiSquareSurvival,
+  kolmogorovSurvival
+} from './statistics';
+
+// Export entropy caches
+export {
+  MemoryEntropyCache,
+  KeyValueEntropyCache,
+  InMemoryKeyValueStore,
+  DEFAULT_CACHE_MAX_ENTRIES,
+  DEFAULT_CACHE_SWEEP_INTERVAL,
+  DEFAULT_CACHE_KEY_PREFIX
+} from './cache';
+
+// Export proof signing
+export {
+  ProofKeyRegistry,
+  CURRENT_PROOF_VERSION,
+  DEFAULT_KEY_GRACE_PERIOD,
+  assertProofVersion,
+  computeKeyId,
+  checkProofSignature,
+  proofSignatureData
+} from './signing';
+
+// Export the simulation worker pool
+export {
+  SimulationPool,
+  getSharedSimulationPool
+} from './pool';
+
 // Export oracle
 export {
   EntropyOracle,
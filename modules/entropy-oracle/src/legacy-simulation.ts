@@ -0,0 +1,279 @@
+/**
+ * Legacy Oracle Simulation
+ * 
+ * The "oracle-v1" engine: the oracle's original RK4 integrator, energy,
+ * extraction and metadata, from before oracle runs moved onto the physics
+ * engine. It takes floor(duration / timeStep) steps of exactly timeStep,
+ * and its entropy hash mixes in the random simulation ID. The code below is
+ * the original code path, kept unchanged so that runs recorded under it
+ * reproduce byte for byte and the proofs issued for them still verify; new
+ * runs use the physics engine through the adapter.
+ */
+
+import { createHash } from 'crypto';
+import { Vector3D, Body, RawEntropyResult, SimulationMetadata } from './types';
+import { ResolvedSimulation, createSimulationId } from './engine-adapter';
+
+/**
+ * Vector operations.
+ */
+function addVectors(a: Vector3D, b: Vector3D): Vector3D {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+function subtractVectors(a: Vector3D, b: Vector3D): Vector3D {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function scaleVector(v: Vector3D, s: number): Vector3D {
+  return { x: v.x * s, y: v.y * s, z: v.z * s };
+}
+
+function magnitude(v: Vector3D): number {
+  return Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+}
+
+function dotProduct(a: Vector3D, b: Vector3D): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+/**
+ * Calculates gravitational acceleration on body i from all other bodies.
+ */
+function calculateAcceleration(
+  bodies: Body[],
+  index: number,
+  G: number,
+  softening: number
+): Vector3D {
+  let acceleration: Vector3D = { x: 0, y: 0, z: 0 };
+  const body = bodies[index];
+
+  for (let j = 0; j < bodies.length; j++) {
+    if (j === index) continue;
+
+    const other = bodies[j];
+    const r = subtractVectors(other.position, body.position);
+    const distSq = dotProduct(r, r) + softening * softening;
+    const dist = Math.sqrt(distSq);
+    const forceMag = (G * other.mass) / distSq;
+    const forceDir = scaleVector(r, 1 / dist);
+    acceleration = addVectors(acceleration, scaleVector(forceDir, forceMag));
+  }
+
+  return acceleration;
+}
+
+/**
+ * Performs one RK4 integration step.
+ */
+function rk4Step(
+  bodies: Body[],
+  dt: number,
+  G: number,
+  softening: number
+): Body[] {
+  const n = bodies.length;
+
+  // Calculate k1
+  const k1v: Vector3D[] = [];
+  const k1r: Vector3D[] = [];
+  for (let i = 0; i < n; i++) {
+    k1v.push(calculateAcceleration(bodies, i, G, softening));
+    k1r.push(bodies[i].velocity);
+  }
+
+  // Calculate k2
+  const bodies2 = bodies.map((b, i) => ({
+    ...b,
+    position: addVectors(b.position, scaleVector(k1r[i], dt / 2)),
+    velocity: addVectors(b.velocity, scaleVector(k1v[i], dt / 2))
+  }));
+  const k2v: Vector3D[] = [];
+  const k2r: Vector3D[] = [];
+  for (let i = 0; i < n; i++) {
+    k2v.push(calculateAcceleration(bodies2, i, G, softening));
+    k2r.push(bodies2[i].velocity);
+  }
+
+  // Calculate k3
+  const bodies3 = bodies.map((b, i) => ({
+    ...b,
+    position: addVectors(b.position, scaleVector(k2r[i], dt / 2)),
+    velocity: addVectors(b.velocity, scaleVector(k2v[i], dt / 2))
+  }));
+  const k3v: Vector3D[] = [];
+  const k3r: Vector3D[] = [];
+  for (let i = 0; i < n; i++) {
+    k3v.push(calculateAcceleration(bodies3, i, G, softening));
+    k3r.push(bodies3[i].velocity);
+  }
+
+  // Calculate k4
+  const bodies4 = bodies.map((b, i) => ({
+    ...b,
+    position: addVectors(b.position, scaleVector(k3r[i], dt)),
+    velocity: addVectors(b.velocity, scaleVector(k3v[i], dt))
+  }));
+  const k4v: Vector3D[] = [];
+  const k4r: Vector3D[] = [];
+  for (let i = 0; i < n; i++) {
+    k4v.push(calculateAcceleration(bodies4, i, G, softening));
+    k4r.push(bodies4[i].velocity);
+  }
+
+  // Combine
+  return bodies.map((b, i) => ({
+    ...b,
+    position: addVectors(
+      b.position,
+      scaleVector(
+        addVectors(
+          addVectors(k1r[i], scaleVector(k2r[i], 2)),
+          addVectors(scaleVector(k3r[i], 2), k4r[i])
+        ),
+        dt / 6
+      )
+    ),
+    velocity: addVectors(
+      b.velocity,
+      scaleVector(
+        addVectors(
+          addVectors(k1v[i], scaleVector(k2v[i], 2)),
+          addVectors(scaleVector(k3v[i], 2), k4v[i])
+        ),
+        dt / 6
+      )
+    )
+  }));
+}
+
+/**
+ * Calculates total energy of the system.
+ */
+function calculateEnergy(bodies: Body[], G: number, softening: number): number {
+  let kinetic = 0;
+  let potential = 0;
+
+  for (let i = 0; i < bodies.length; i++) {
+    const v = bodies[i].velocity;
+    kinetic += 0.5 * bodies[i].mass * dotProduct(v, v);
+
+    for (let j = i + 1; j < bodies.length; j++) {
+      const r = subtractVectors(bodies[j].position, bodies[i].position);
+      const dist = Math.sqrt(dotProduct(r, r) + softening * softening);
+      potential -= (G * bodies[i].mass * bodies[j].mass) / dist;
+    }
+  }
+
+  return kinetic + potential;
+}
+
+/**
+ * Extracts entropy value from final simulation state.
+ */
+function extractEntropy(bodies: Body[]): number {
+  // Combine all position and velocity components
+  let combined = 0;
+  for (const body of bodies) {
+    combined += Math.abs(body.position.x) + Math.abs(body.position.y) + Math.abs(body.position.z);
+    combined += Math.abs(body.velocity.x) + Math.abs(body.velocity.y) + Math.abs(body.velocity.z);
+  }
+
+  // Normalize to [0, 1)
+  const normalized = combined - Math.floor(combined);
+  return normalized;
+}
+
+/**
+ * Generates entropy hash from simulation state.
+ */
+function generateEntropyHash(bodies: Body[], simulationId: string): string {
+  const hash = createHash('sha256');
+  
+  for (const body of bodies) {
+    hash.update(body.position.x.toExponential(15));
+    hash.update(body.position.y.toExponential(15));
+    hash.update(body.position.z.toExponential(15));
+    hash.update(body.velocity.x.toExponential(15));
+    hash.update(body.velocity.y.toExponential(15));
+    hash.update(body.velocity.z.toExponential(15));
+  }
+  
+  hash.update(simulationId);
+  return hash.digest('hex');
+}
+
+/**
+ * Runs a resolved simulation with the oracle-v1 engine.
+ * 
+ * The run reports progress like the physics engine and replays a recorded
+ * simulation ID, neither of which changes its output. Features added after
+ * the engine was frozen are not available: the encounter and escape
+ * distances are ignored, and its metadata holds only the original six
+ * fields, with the original Lyapunov estimate derived from the energy drift.
+ * 
+ * @throws Error if the run asks for a force model or the reversibility
+ *   check, which oracle-v1 does not support
+ */
+export function runLegacySimulation(run: ResolvedSimulation): RawEntropyResult {
+  if (run.forceModel) {
+    throw new Error('Force models are not supported by the oracle-v1 engine');
+  }
+  if (run.reversibilityCheck) {
+    throw new Error('The reversibility check is not supported by the oracle-v1 engine');
+  }
+  const { params, conditions, gravitationalConstant: G, softeningParameter: softening, onProgress, progressInterval } = run;
+  const { duration, timeStep } = params;
+
+  // Deep copy initial bodies
+  let bodies = conditions.bodies.map(b => ({
+    mass: b.mass,
+    position: { ...b.position },
+    velocity: { ...b.velocity }
+  }));
+
+  const initialEnergy = calculateEnergy(bodies, G, softening);
+  const steps = Math.floor(duration / timeStep);
+  const simulationId = params.simulationId ?? createSimulationId();
+
+  // Run simulation
+  for (let i = 0; i < steps; i++) {
+    bodies = rk4Step(bodies, timeStep, G, softening);
+    if (onProgress && (i + 1) % progressInterval === 0 && i + 1 < steps) {
+      onProgress({ completedSteps: i + 1, totalSteps: steps });
+    }
+  }
+  onProgress?.({ completedSteps: steps, totalSteps: steps });
+
+  const finalEnergy = calculateEnergy(bodies, G, softening);
+  const energyDrift = Math.abs((finalEnergy - initialEnergy) / initialEnergy);
+
+  // Extract entropy
+  const entropyValue = extractEntropy(bodies);
+  const entropyHex = generateEntropyHash(bodies, simulationId);
+  const sourceHash = createHash('sha256')
+    .update(entropyHex)
+    .digest('hex');
+
+  // Estimate Lyapunov exponent (simplified)
+  const lyapunovEstimate = Math.log(1 + energyDrift * 1000) / duration;
+
+  const metadata: SimulationMetadata = {
+    duration,
+    timeStep,
+    steps,
+    finalEnergy,
+    energyDrift,
+    lyapunovEstimate
+  };
+
+  return {
+    value: entropyValue,
+    hex: entropyHex,
+    sourceHash,
+    simulationId,
+    timestamp: Date.now(),
+    metadata
+  };
+}
@@ -5,19 +5,27 @@
  * operations to generate provably fair entropy for slot machines.
  */
 
-import { createHash, createHmac, randomBytes } from 'crypto';
+import { KeyObject, createHash, createHmac, randomBytes } from 'crypto';
+import { CURRENT_SEED_STREAM_VERSION } from '@three-body-entropy/physics-engine';
 import {
   OracleConfig,
   EntropyRequestOptions,
   EntropyResponse,
   EntropyProof,
   RawEntropyResult,
-  CacheEntry,
+  EntropyCache,
   OracleStats,
   VerificationResult,
   VerificationCheck,
   SimulationParams,
-  InitialConditions
+  InitialConditions,
+  OracleConfigOverrides,
+  ProofKey,
+  RevealedSeed,
+  SimulationMetadata,
+  CacheEntry,
+  ConditionsOpening,
+  SessionCommitments
 } from './types';
 import {
   runSimulation,
@@ -25,6 +33,24 @@ import {
   getPresetConditions,
   validateConditions
 } from './simulation';
+import { DEFAULT_CHAOS_GATE, evaluateChaosQuality } from './quality';
+import { SimulationPool, getSharedSimulationPool } from './pool';
+import { DEFAULT_SIMULATION_ENGINE, assertSimulationEngine } from './engine-adapter';
+import { DEFAULT_CACHE_MAX_ENTRIES, MemoryEntropyCache } from './cache';
+import {
+  canonicalJson,
+  checkConditionsCommitment,
+  computeConditionsCommitment,
+  createConditionsOpening
+} from './commitment';
+import { DEFAULT_HEALTH_TESTS, EntropyHealthMonitor } from './health';
+import {
+  CURRENT_PROOF_VERSION,
+  ProofKeyRegistry,
+  assertProofVersion,
+  checkProofSignature,
+  proofSignatureData
+} from './signing';
 
 /**
  * Default oracle configuration.
@@ -36,24 +62,123 @@ const DEFAULT_CONFIG: OracleConfig = {
   defaultSofteningParameter: 0.01,
   hashAlgorithm: 'sha256',
   cacheEnabled: true,
-  cacheTTL: 60000 // 1 minute
+  cacheTTL: 60000, // 1 minute
+  cacheMaxEntries: DEFAULT_CACHE_MAX_ENTRIES,
+  chaosGate: DEFAULT_CHAOS_GATE,
+  seedStreamVersion: CURRENT_SEED_STREAM_VERSION,
+  proofVersion: CURRENT_PROOF_VERSION,
+  workerThreads: true,
+  engine: DEFAULT_SIMULATION_ENGINE,
+  healthTests: DEFAULT_HEALTH_TESTS
 };
 
+/**
+ * Metadata fields the oracle adds after a run, which a replay of the run
+ * alone does not produce.
+ */
+const ORACLE_METADATA_FIELDS: (keyof SimulationMetadata)[] = ['qualityGateRejections', 'seedStreamVersion'];
+
+/**
+ * Entropy of a run with the conditions and parameters it ran with.
+ */
+interface GeneratedEntropy {
+  entropy: RawEntropyResult;
+  conditions: InitialConditions;
+  params: SimulationParams;
+  /** Whether a seed or explicit conditions determined the run */
+  reproducible: boolean;
+}
+
+/**
+ * Formats a value for a verification check.
+ */
+function formatCheckValue(value: unknown): string {
+  return value === undefined ? 'absent' : JSON.stringify(value);
+}
+
+/**
+ * Compares a replayed value with the claimed one.
+ */
+function compareReplayField(name: string, replayed: unknown, claimed: unknown): VerificationCheck {
+  const expected = formatCheckValue(replayed);
+  const actual = formatCheckValue(claimed);
+  const passed = expected === actual;
+  return {
+    name,
+    passed,
+    expected,
+    actual,
+    details: passed ? 'Replay matches' : `Replay mismatch: expected ${expected}, got ${actual}`
+  };
+}
+
+/**
+ * Checks that a response's opening describes the replayed run, so the
+ * conditions commitment it opens covers what was replayed.
+ */
+function checkOpeningReplayed(opening: ConditionsOpening, replayed: ConditionsOpening): VerificationCheck {
+  let passed: boolean;
+  try {
+    passed = canonicalJson(opening) === canonicalJson(replayed);
+  } catch {
+    passed = false;
+  }
+  return {
+    name: 'opening',
+    passed,
+    details: passed ? 'Opening matches the replayed run' : 'Opening does not match the replayed run'
+  };
+}
+
 /**
  * Entropy Oracle class.
  * Orchestrates entropy generation from three-body physics simulation.
  */
 export class EntropyOracle {
   private config: OracleConfig;
-  private cache: Map<string, CacheEntry> = new Map();
-  private stats: OracleStats;
+  private cache: EntropyCache;
+  private stats: Omit<OracleStats, 'health'>;
+  private health: EntropyHealthMonitor;
   private startTime: number;
   private serverSecret: string;
+  private pool: SimulationPool | null;
+  private keys: ProofKeyRegistry;
 
-  constructor(config: Partial<OracleConfig> = {}, serverSecret?: string) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+  /**
+   * @param config - Configuration overrides
+   * @param serverSecret - Secret for version 1 (HMAC) proof signatures
+   *   (default: random)
+   * @param pool - Worker pool for simulations (default: the shared pool)
+   * @param cache - Store for pre-generated entropy (default: an in-memory
+   *   LRU cache of cacheMaxEntries entries)
+   * @param keys - Ed25519 keys for version 2 proofs (default: a registry
+   *   with one generated key)
+   */
+  constructor(
+    config: OracleConfigOverrides = {},
+    serverSecret?: string,
+    pool?: SimulationPool,
+    cache?: EntropyCache,
+    keys?: ProofKeyRegistry
+  ) {
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      chaosGate: { ...DEFAULT_CHAOS_GATE, ...config.chaosGate },
+      healthTests: { ...DEFAULT_HEALTH_TESTS, ...config.healthTests }
+    };
+    assertSimulationEngine(this.config.engine);
+    assertProofVersion(this.config.proofVersion);
     this.startTime = Date.now();
     this.serverSecret = serverSecret || randomBytes(32).toString('hex');
+    this.pool = pool ?? null;
+    this.cache = cache ?? new MemoryEntropyCache({ maxEntries: this.config.cacheMaxEntries });
+    if (!keys) {
+      keys = new ProofKeyRegistry();
+      keys.generateKey();
+    }
+    this.keys = keys;
+    this.health = new EntropyHealthMonitor(this.config.healthTests);
     this.stats = {
       totalRequests: 0,
       totalSimulations: 0,
@@ -82,7 +207,8 @@ export class EntropyOracle {
   }
 
   /**
-   * Creates a proof for the entropy.
+   * Creates a proof for the entropy, signed under the configured proof
+   * version.
    */
   private createProof(
     entropy: RawEntropyResult,
@@ -102,82 +228,75 @@ export class EntropyOracle {
       .update(entropy.hex)
       .digest('hex');
 
-    const signatureData = `${proofId}:${simulationHash}:${entropyHash}:${entropy.timestamp}`;
-    const signature = createHmac(this.config.hashAlgorithm, this.serverSecret)
-      .update(signatureData)
-      .digest('hex');
+    if (this.config.proofVersion === 2) {
+      return this.keys.signProof({ proofId, simulationHash, entropyHash, chainIndex }, entropy.timestamp);
+    }
 
-    return {
-      proofId,
-      simulationHash,
-      entropyHash,
-      signature,
-      chainIndex
-    };
+    const unsigned = { proofId, simulationHash, entropyHash, chainIndex, version: 1 as const };
+    return { ...unsigned, signature: this.createHmacSignature(unsigned, entropy.timestamp) };
   }
 
   /**
-   * Gets cached entropy if available and valid.
+   * Computes the signature of a version 1 proof.
    */
-  private getCachedEntropy(sessionId: string): RawEntropyResult | null {
-    if (!this.config.cacheEnabled) return null;
-
-    const entry = this.cache.get(sessionId);
-    if (!entry) return null;
+  private createHmacSignature(proof: Omit<EntropyProof, 'signature'>, timestamp: number): string {
+    return createHmac(this.config.hashAlgorithm, this.serverSecret)
+      .update(proofSignatureData(proof, timestamp))
+      .digest('hex');
+  }
 
-    const now = Date.now();
-    if (now > entry.expiresAt || entry.used) {
-      this.cache.delete(sessionId);
-      return null;
-    }
+  /**
+   * Takes a cache entry out of the cache, so it is used at most once.
+   */
+  private async takeCachedEntry(sessionId: string): Promise<CacheEntry | null> {
+    if (!this.config.cacheEnabled) return null;
 
-    return entry.entropy;
+    return this.cache.take(sessionId);
   }
 
   /**
    * Caches entropy for later use.
    */
-  private cacheEntropy(sessionId: string, entropy: RawEntropyResult): void {
+  private async cacheEntropy(sessionId: string, entropy: RawEntropyResult, opening?: ConditionsOpening): Promise<void> {
     if (!this.config.cacheEnabled) return;
 
     const now = Date.now();
-    this.cache.set(sessionId, {
+    await this.cache.set(sessionId, {
       entropy,
+      ...(opening && { opening }),
       createdAt: now,
-      expiresAt: now + this.config.cacheTTL,
-      used: false
+      expiresAt: now + this.config.cacheTTL
     });
   }
 
   /**
-   * Marks cached entropy as used.
-   */
-  private markCacheUsed(sessionId: string): void {
-    const entry = this.cache.get(sessionId);
-    if (entry) {
-      entry.used = true;
-    }
-  }
-
-  /**
-   * Requests entropy from the oracle.
+   * Requests entropy from the oracle. Served entropy passes the health
+   * tests first (see health.ts); pre-generated entropy passed them when it
+   * was produced.
+   * 
+   * @throws EntropyHealthError if the health circuit breaker is open or the
+   *   entropy fails a health test
    */
   async requestEntropy(options: EntropyRequestOptions): Promise<EntropyResponse> {
     this.stats.totalRequests++;
+    this.health.assertAvailable();
     const requestId = this.generateRequestId();
 
     // Check cache first
-    let entropy = this.getCachedEntropy(options.sessionId);
+    const cached = await this.takeCachedEntry(options.sessionId);
+    let entropy: RawEntropyResult;
     
-    if (entropy) {
+    if (cached) {
       this.stats.cacheHits++;
-      this.markCacheUsed(options.sessionId);
+      entropy = cached.entropy;
     } else {
       this.stats.cacheMisses++;
       
       // Run simulation
       const startTime = Date.now();
-      entropy = await this.generateEntropy(options);
+      const generated = await this.generateEntropy(options);
+      entropy = generated.entropy;
+      this.health.check(entropy.hex, !generated.reproducible);
       const simulationTime = Date.now() - startTime;
 
       // Update average simulation time
@@ -185,10 +304,6 @@ export class EntropyOracle {
       this.stats.averageSimulationTime = 
         (this.stats.averageSimulationTime * (this.stats.totalSimulations - 1) + simulationTime) 
         / this.stats.totalSimulations;
-
-      // Cache the result
-      this.cacheEntropy(options.sessionId, entropy);
-      this.markCacheUsed(options.sessionId);
     }
 
     const commitment = this.createCommitment(entropy);
@@ -199,32 +314,94 @@ export class EntropyOracle {
       commitment,
       entropy,
       proof,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      ...(cached?.opening && { opening: cached.opening })
     };
   }
 
   /**
    * Generates entropy from physics simulation.
+   * 
+   * When the chaos quality gate is enabled, conditions whose run fails the
+   * gate are rejected and replaced. Seeded conditions are re-derived from
+   * `${seed}:${attempt}`, so the seed-to-conditions mapping stays
+   * reproducible; explicitly supplied conditions cannot be replaced and fail
+   * the request instead. The seed stream version is recorded in the metadata
+   * of seeded runs so verifiers can re-derive the conditions. Runs whose
+   * parameters name no engine use the configured one; the gate needs the
+   * diagnostics of physics-engine-v1 and rejects oracle-v1 runs up front.
+   * 
+   * @returns The entropy with the conditions, physics constants filled in,
+   *   and parameters of the run that produced it
    */
-  private async generateEntropy(options: EntropyRequestOptions): Promise<RawEntropyResult> {
-    const params: SimulationParams = options.simulationParams || {
+  private async generateEntropy(options: EntropyRequestOptions): Promise<GeneratedEntropy> {
+    const requested: SimulationParams = options.simulationParams || {
       duration: this.config.defaultDuration,
       timeStep: this.config.defaultTimeStep
     };
-
-    let conditions: InitialConditions;
-
-    if (options.simulationParams?.initialConditions) {
-      conditions = options.simulationParams.initialConditions;
-    } else if (options.clientSeed) {
-      // Generate conditions from client seed for reproducibility
-      const seed = `${options.sessionId}:${options.clientSeed}:${options.nonce || 0}`;
-      conditions = generateRandomConditions(seed);
-    } else {
-      // Generate random conditions
-      conditions = generateRandomConditions();
+    const params: SimulationParams = { ...requested, engine: requested.engine ?? this.config.engine };
+    const gate = this.config.chaosGate;
+    if (gate.enabled && params.engine === 'oracle-v1') {
+      throw new Error('The chaos quality gate is not supported by the oracle-v1 engine');
+    }
+    const explicitConditions = options.simulationParams?.initialConditions;
+    const seed = options.clientSeed
+      ? `${options.sessionId}:${options.clientSeed}:${options.nonce || 0}`
+      : undefined;
+    const seedStreamVersion = options.seedStreamVersion || this.config.seedStreamVersion;
+    const reproducible = Boolean(seed || explicitConditions);
+    const maxAttempts = gate.enabled && !explicitConditions ? gate.maxAttempts : 1;
+    const failures: string[] = [];
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      let conditions: InitialConditions;
+
+      if (explicitConditions) {
+        conditions = explicitConditions;
+      } else if (seed) {
+        // Generate conditions from client seed for reproducibility
+        conditions = generateRandomConditions(attempt === 0 ? seed : `${seed}:${attempt}`, seedStreamVersion);
+      } else {
+        // Generate random conditions
+        conditions = generateRandomConditions();
+      }
+
+      let entropy = await this.runWithConditions(params, conditions, options);
+      if (seed && !explicitConditions) {
+        entropy = { ...entropy, metadata: { ...entropy.metadata, seedStreamVersion } };
+      }
+      if (!gate.enabled) {
+        return { entropy, conditions, params, reproducible };
+      }
+
+      const report = evaluateChaosQuality(entropy.metadata, gate);
+      if (report.passed) {
+        return {
+          entropy: { ...entropy, metadata: { ...entropy.metadata, qualityGateRejections: attempt } },
+          conditions,
+          params,
+          reproducible
+        };
+      }
+      failures.push(...report.failures);
     }
 
+    throw new Error(
+      `Chaos quality gate rejected ${maxAttempts} initial conditions: ${failures[failures.length - 1]}`
+    );
+  }
+
+  /**
+   * Validates conditions, fills in default physics constants and runs the
+   * simulation, on the worker pool unless worker threads are disabled.
+   * Inline runs block the event loop and can only be cancelled before they
+   * start.
+   */
+  private async runWithConditions(
+    params: SimulationParams,
+    conditions: InitialConditions,
+    options: EntropyRequestOptions
+  ): Promise<RawEntropyResult> {
     // Validate conditions
     if (!validateConditions(conditions)) {
       throw new Error('Invalid initial conditions');
@@ -234,48 +411,74 @@ export class EntropyOracle {
     conditions.gravitationalConstant = conditions.gravitationalConstant || this.config.defaultGravitationalConstant;
     conditions.softeningParameter = conditions.softeningParameter || this.config.defaultSofteningParameter;
 
-    return runSimulation(params, conditions);
+    const { signal, onProgress } = options;
+    if (this.config.workerThreads) {
+      const pool = this.pool ?? getSharedSimulationPool();
+      return pool.run({ params, conditions }, { signal, onProgress });
+    }
+
+    if (signal?.aborted) {
+      throw new Error('Simulation job aborted');
+    }
+    return runSimulation(params, conditions, { onProgress });
   }
 
   /**
    * Pre-generates entropy for a session (for commitment before client seed).
    */
   async preGenerateEntropy(sessionId: string): Promise<string> {
-    const entropy = await this.generateEntropy({ sessionId });
-    this.cacheEntropy(sessionId, entropy);
-    return this.createCommitment(entropy);
+    return (await this.preGenerateCommitments(sessionId)).commitment;
   }
 
   /**
-   * Reveals pre-generated entropy after client provides seed.
+   * Pre-generates entropy for a session and commits both to the entropy and
+   * to the conditions, parameters, integrator and engine of the run behind
+   * it. Publishing the conditions commitment before the client seed is
+   * given lets the player check, once revealEntropy() opens it, that the
+   * run was fixed in advance (see commitment.ts).
+   * 
+   * The raw hex of the run passes the health tests before it is cached:
+   * revealEntropy() serves an HMAC of it, which looks uniform whatever the
+   * run produced.
+   * 
+   * @throws EntropyHealthError if the health circuit breaker is open or the
+   *   entropy fails a health test
+   */
+  async preGenerateCommitments(sessionId: string): Promise<SessionCommitments> {
+    this.health.assertAvailable();
+    const { entropy, conditions, params } = await this.generateEntropy({ sessionId });
+    this.health.check(entropy.hex);
+    const opening = createConditionsOpening(conditions, params, params.engine!);
+    await this.cacheEntropy(sessionId, entropy, opening);
+    return {
+      commitment: this.createCommitment(entropy),
+      conditionsCommitment: computeConditionsCommitment(opening)
+    };
+  }
+
+  /**
+   * Reveals pre-generated entropy after client provides seed, together with
+   * the opening of its conditions commitment. The combined entropy passes
+   * the health tests first.
+   * 
+   * @throws EntropyHealthError if the health circuit breaker is open or the
+   *   entropy fails a health test
    */
   async revealEntropy(
     sessionId: string,
     clientSeed: string,
     nonce: number
   ): Promise<EntropyResponse> {
-    const cachedEntropy = this.getCachedEntropy(sessionId);
+    this.health.assertAvailable();
+    const cached = await this.takeCachedEntry(sessionId);
     
-    if (!cachedEntropy) {
+    if (!cached) {
       throw new Error('No pre-generated entropy found for session');
     }
 
-    this.markCacheUsed(sessionId);
     const requestId = this.generateRequestId();
-
-    // Combine with client seed
-    const combinedHash = createHmac(this.config.hashAlgorithm, cachedEntropy.hex)
-      .update(`${clientSeed}:${nonce}`)
-      .digest('hex');
-
-    // Create modified entropy with combined hash
-    const entropy: RawEntropyResult = {
-      ...cachedEntropy,
-      hex: combinedHash,
-      sourceHash: createHash(this.config.hashAlgorithm)
-        .update(combinedHash)
-        .digest('hex')
-    };
+    const entropy = this.combineWithClientSeed(cached.entropy, clientSeed, nonce);
+    this.health.check(entropy.hex);
 
     const commitment = this.createCommitment(entropy);
     const proof = this.createProof(entropy, requestId, nonce);
@@ -285,17 +488,53 @@ export class EntropyOracle {
       commitment,
       entropy,
       proof,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      ...(cached.opening && { opening: cached.opening })
     };
   }
 
   /**
-   * Verifies an entropy proof.
+   * Combines pre-generated entropy with a client seed.
+   */
+  private combineWithClientSeed(entropy: RawEntropyResult, clientSeed: string, nonce: number): RawEntropyResult {
+    const combinedHash = createHmac(this.config.hashAlgorithm, entropy.hex)
+      .update(`${clientSeed}:${nonce}`)
+      .digest('hex');
+
+    return {
+      ...entropy,
+      hex: combinedHash,
+      sourceHash: createHash(this.config.hashAlgorithm)
+        .update(combinedHash)
+        .digest('hex')
+    };
+  }
+
+  /**
+   * Verifies an entropy proof. Version 2 proofs are checked against the
+   * registered key they name, which must not have expired; version 1 proofs
+   * against the server secret.
+   */
+  verifyProof(entropy: RawEntropyResult, proof: EntropyProof, commitment: string): VerificationResult;
+  /**
+   * Verifies a version 2 entropy proof with only the public key of the key
+   * that signed it, as a player can. Version 1 proofs fail the signature
+   * check, since only the signing server can verify them.
+   * 
+   * @param publicKey - SPKI PEM or key object of the Ed25519 signing key
+   * @throws Error if the key is not an Ed25519 key
    */
   verifyProof(
     entropy: RawEntropyResult,
     proof: EntropyProof,
-    commitment: string
+    commitment: string,
+    publicKey: string | KeyObject
+  ): VerificationResult;
+  verifyProof(
+    entropy: RawEntropyResult,
+    proof: EntropyProof,
+    commitment: string,
+    publicKey?: string | KeyObject
   ): VerificationResult {
     const checks: VerificationCheck[] = [];
 
@@ -337,16 +576,18 @@ export class EntropyOracle {
     });
 
     // Check 4: Verify signature
-    const signatureData = `${proof.proofId}:${proof.simulationHash}:${proof.entropyHash}:${entropy.timestamp}`;
-    const expectedSignature = createHmac(this.config.hashAlgorithm, this.serverSecret)
-      .update(signatureData)
-      .digest('hex');
-    const signatureValid = proof.signature === expectedSignature;
-    checks.push({
-      name: 'signature',
-      passed: signatureValid,
-      details: signatureValid ? 'Signature valid' : 'Signature invalid'
-    });
+    if (publicKey !== undefined) {
+      checks.push(checkProofSignature(proof, entropy.timestamp, publicKey));
+    } else if ((proof.version ?? 1) === 1) {
+      const signatureValid = proof.signature === this.createHmacSignature(proof, entropy.timestamp);
+      checks.push({
+        name: 'signature',
+        passed: signatureValid,
+        details: signatureValid ? 'Signature valid' : 'Signature invalid'
+      });
+    } else {
+      checks.push(this.keys.checkSignature(proof, entropy.timestamp));
+    }
 
     // Check 5: Verify proof ID format
     const proofIdValid = /^[0-9a-f]{32}$/.test(proof.proofId);
@@ -366,16 +607,129 @@ export class EntropyOracle {
     };
   }
 
+  /**
+   * Re-runs the simulation behind a response and compares the result with
+   * the response's entropy: simulationId, hex, sourceHash, value and every
+   * metadata field except those the oracle adds after the run (the chaos
+   * gate's rejection count and the seed stream version). Together with
+   * verifyProof this checks a response end to end, from the physics to the
+   * signature.
+   * 
+   * Runs are replayed inline on the engine recorded in the metadata unless
+   * the parameters name one. oracle-v1 runs are replayed under their
+   * recorded simulation ID, which that engine mixes into its hex, so the ID
+   * is an input of the replay, covered by the hex check, and not compared
+   * itself. Missing or zero physics constants in the conditions take the
+   * configured defaults, as they did when the entropy was generated.
+   * 
+   * A response serving pre-generated entropy carries the opening of its
+   * conditions commitment. The opening must then match the replayed run and
+   * open the commitment published by preGenerateCommitments(), or the
+   * response fails verification.
+   * 
+   * @param response - The response to verify
+   * @param initialConditions - Conditions the run started from, e.g. those
+   *   generateRandomConditions() derives from a seeded request's seed
+   * @param params - Parameters of the run
+   * @param reveal - Client seed and nonce of a response from revealEntropy(),
+   *   whose hex combines the run's hex with them
+   * @param conditionsCommitment - Conditions commitment published for the
+   *   session, required when the response carries an opening
+   * @returns One check per compared field; a failed replay yields a single
+   *   failed "replay" check
+   */
+  replayVerify(
+    response: EntropyResponse,
+    initialConditions: InitialConditions,
+    params: SimulationParams,
+    reveal?: RevealedSeed,
+    conditionsCommitment?: string
+  ): VerificationResult {
+    const claimed = response.entropy;
+    const conditions: InitialConditions = {
+      ...initialConditions,
+      gravitationalConstant: initialConditions.gravitationalConstant || this.config.defaultGravitationalConstant,
+      softeningParameter: initialConditions.softeningParameter || this.config.defaultSofteningParameter
+    };
+    const engine = params.engine ?? claimed.metadata.engine ?? 'oracle-v1';
+
+    let replayed: RawEntropyResult;
+    try {
+      replayed = runSimulation({ ...params, engine, simulationId: claimed.simulationId }, conditions);
+    } catch (error) {
+      const details = `Replay failed: ${error instanceof Error ? error.message : String(error)}`;
+      return { valid: false, checks: [{ name: 'replay', passed: false, details }], error: `replay: ${details}` };
+    }
+    if (reveal) {
+      replayed = this.combineWithClientSeed(replayed, reveal.clientSeed, reveal.nonce);
+    }
+
+    const checks = [
+      ...(engine === 'oracle-v1' ? [] : [compareReplayField('simulationId', replayed.simulationId, claimed.simulationId)]),
+      compareReplayField('hex', replayed.hex, claimed.hex),
+      compareReplayField('sourceHash', replayed.sourceHash, claimed.sourceHash),
+      compareReplayField('value', replayed.value, claimed.value)
+    ];
+    const fields = new Set([...Object.keys(replayed.metadata), ...Object.keys(claimed.metadata)]) as Set<keyof SimulationMetadata>;
+    for (const field of fields) {
+      if (!ORACLE_METADATA_FIELDS.includes(field)) {
+        checks.push(compareReplayField(`metadata.${field}`, replayed.metadata[field], claimed.metadata[field]));
+      }
+    }
+    if (response.opening) {
+      const replayedOpening = createConditionsOpening(conditions, params, engine, response.opening.salt);
+      checks.push(checkOpeningReplayed(response.opening, replayedOpening));
+      checks.push(conditionsCommitment === undefined
+        ? { name: 'conditionsCommitment', passed: false, details: 'No conditions commitment to check the opening against' }
+        : checkConditionsCommitment(conditionsCommitment, response.opening));
+    }
+
+    const failed = checks.filter(c => !c.passed);
+    return {
+      valid: failed.length === 0,
+      checks,
+      error: failed.length > 0
+        ? failed
+          .map(c => c.expected === undefined ? `${c.name}: ${c.details}` : `${c.name}: expected ${c.expected}, got ${c.actual}`)
+          .join('; ')
+        : undefined
+    };
+  }
+
   /**
    * Gets oracle statistics.
    */
   getStats(): OracleStats {
     return {
       ...this.stats,
-      uptime: Date.now() - this.startTime
+      uptime: Date.now() - this.startTime,
+      health: this.health.getStatus()
     };
   }
 
+  /**
+   * Closes the health circuit breaker and restarts the health tests, once
+   * the cause of a failure has been dealt with.
+   */
+  resetHealth(): void {
+    this.health.reset();
+  }
+
+  /**
+   * Gets the registry of proof signing keys, e.g. to rotate keys.
+   */
+  getKeyRegistry(): ProofKeyRegistry {
+    return this.keys;
+  }
+
+  /**
+   * Gets the public keys that verify version 2 proofs, for publishing to
+   * players.
+   */
+  getPublicKeys(): ProofKey[] {
+    return this.keys.getPublicKeys();
+  }
+
   /**
    * Gets the current configuration.
    */
@@ -384,17 +738,19 @@ export class EntropyOracle {
   }
 
   /**
-   * Clears the entropy cache.
+   * Clears the entropy cache. Asynchronous since caches became pluggable;
+   * it used to return void.
    */
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
   }
 
   /**
-   * Gets cache size.
+   * Gets cache size. Asynchronous since caches became pluggable; it used to
+   * return the number directly.
    */
-  getCacheSize(): number {
-    return this.cache.size;
+  async getCacheSize(): Promise<number> {
+    return this.cache.size();
   }
 
   /**
@@ -417,8 +773,11 @@ export class EntropyOracle {
  * Creates a new entropy oracle instance.
  */
 export function createOracle(
-  config?: Partial<OracleConfig>,
-  serverSecret?: string
+  config?: OracleConfigOverrides,
+  serverSecret?: string,
+  pool?: SimulationPool,
+  cache?: EntropyCache,
+  keys?: ProofKeyRegistry
 ): EntropyOracle {
-  return new EntropyOracle(config, serverSecret);
+  return new EntropyOracle(config, serverSecret, pool, cache, keys);
 }
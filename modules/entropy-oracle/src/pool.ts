@@ -0,0 +1,367 @@
+/**
+ * Simulation Worker Pool
+ * 
+ * Runs simulations on worker threads so that a long run never blocks the
+ * event loop. Jobs wait in a FIFO queue until a worker is free; workers are
+ * started on demand up to the pool size and exit after being idle for a
+ * while. Cancelling a running job terminates its worker, since a
+ * synchronous simulation cannot be interrupted from outside, and a fresh
+ * worker takes its place for the next job.
+ */
+
+import { Worker } from 'worker_threads';
+import { cpus } from 'os';
+import * as path from 'path';
+import {
+  InitialConditions,
+  RawEntropyResult,
+  SimulationJob,
+  SimulationJobOptions,
+  SimulationParams,
+  SimulationPoolOptions,
+  SimulationPoolStats,
+  SimulationProgress
+} from './types';
+import { runSimulation } from './simulation';
+
+/**
+ * Default pool parameters.
+ */
+const DEFAULT_IDLE_TIMEOUT = 10000;
+
+/**
+ * Message sent to a worker to start a job.
+ */
+export interface SimulationJobMessage {
+  id: number;
+  params: SimulationParams;
+  conditions: InitialConditions;
+  /** Steps between progress messages, or 0 for none */
+  progressInterval: number;
+}
+
+/**
+ * Message sent by a worker about a job.
+ */
+export type SimulationWorkerMessage =
+  | { type: 'progress'; id: number; progress: SimulationProgress }
+  | { type: 'result'; id: number; result: RawEntropyResult }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * Runs a job message and reports its progress and outcome through post.
+ * This is the whole of the worker's work; it is kept here so it can be
+ * exercised without a thread.
+ */
+export function executeSimulationJob(
+  message: SimulationJobMessage,
+  post: (reply: SimulationWorkerMessage) => void
+): void {
+  const { id, params, conditions, progressInterval } = message;
+  try {
+    const result = runSimulation(params, conditions, progressInterval > 0
+      ? { progressInterval, onProgress: progress => post({ type: 'progress', id, progress }) }
+      : {});
+    post({ type: 'result', id, result });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * A job waiting for or running on a worker.
+ */
+interface PendingJob {
+  message: SimulationJobMessage;
+  resolve: (result: RawEntropyResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: SimulationProgress) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * A worker thread and the job it is running.
+ */
+interface PooledWorker {
+  worker: Worker;
+  job: PendingJob | null;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Pool of simulation worker threads.
+ */
+export class SimulationPool {
+  private readonly size: number;
+  private readonly idleTimeout: number;
+  private readonly workerScript: string;
+  private readonly workers: PooledWorker[] = [];
+  private readonly queue: PendingJob[] = [];
+  private nextJobId = 1;
+  private closed = false;
+  private completed = 0;
+  private failed = 0;
+  private aborted = 0;
+
+  constructor(options: SimulationPoolOptions = {}) {
+    this.size = options.size ?? Math.max(1, cpus().length - 1);
+    this.idleTimeout = options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT;
+    this.workerScript = options.workerScript ?? path.join(__dirname, 'worker.js');
+
+    if (!Number.isInteger(this.size) || this.size < 1) {
+      throw new Error(`Pool size must be a positive integer, got ${this.size}`);
+    }
+    if (!(this.idleTimeout >= 0)) {
+      throw new Error(`Idle timeout must be non-negative, got ${this.idleTimeout}`);
+    }
+  }
+
+  /**
+   * Queues a simulation and resolves with its result.
+   * 
+   * @param job - Parameters and initial conditions of the run
+   * @param options - Cancellation signal and progress callback
+   * @returns The entropy result of the run
+   * @throws Error if the pool is closed, the job is aborted or the
+   *   simulation fails
+   */
+  run(job: SimulationJob, options: SimulationJobOptions = {}): Promise<RawEntropyResult> {
+    if (this.closed) {
+      return Promise.reject(new Error('Simulation pool is closed'));
+    }
+    if (options.signal?.aborted) {
+      this.aborted++;
+      return Promise.reject(new Error('Simulation job aborted'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingJob = {
+        message: {
+          id: this.nextJobId++,
+          params: job.params,
+          conditions: job.conditions,
+          progressInterval: options.onProgress ? options.progressInterval ?? 1000 : 0
+        },
+        resolve,
+        reject,
+        onProgress: options.onProgress,
+        signal: options.signal
+      };
+
+      if (options.signal) {
+        pending.onAbort = () => this.abort(pending);
+        options.signal.addEventListener('abort', pending.onAbort, { once: true });
+      }
+
+      this.queue.push(pending);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Checks whether the pool has been closed.
+   */
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Gets the pool counters.
+   */
+  getStats(): SimulationPoolStats {
+    return {
+      size: this.size,
+      workers: this.workers.length,
+      busy: this.workers.filter(w => w.job).length,
+      queued: this.queue.length,
+      completed: this.completed,
+      failed: this.failed,
+      aborted: this.aborted
+    };
+  }
+
+  /**
+   * Rejects all queued and running jobs and terminates every worker.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const error = new Error('Simulation pool is closed');
+
+    for (const pending of this.queue.splice(0)) {
+      this.settle(pending);
+      pending.reject(error);
+    }
+
+    const workers = this.workers.splice(0);
+    await Promise.all(workers.map(pooled => {
+      if (pooled.job) {
+        this.settle(pooled.job);
+        pooled.job.reject(error);
+        pooled.job = null;
+      }
+      return this.terminate(pooled);
+    }));
+  }
+
+  /**
+   * Hands queued jobs to idle workers, starting workers as needed.
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let pooled = this.workers.find(w => !w.job);
+      if (!pooled) {
+        if (this.workers.length >= this.size) {
+          return;
+        }
+        pooled = this.spawn();
+      }
+
+      const pending = this.queue.shift()!;
+      if (pooled.idleTimer) {
+        clearTimeout(pooled.idleTimer);
+        pooled.idleTimer = null;
+      }
+      pooled.job = pending;
+      pooled.worker.ref();
+      pooled.worker.postMessage(pending.message);
+    }
+  }
+
+  /**
+   * Starts a worker and wires up its events.
+   */
+  private spawn(): PooledWorker {
+    const worker = new Worker(this.workerScript);
+    const pooled: PooledWorker = { worker, job: null, idleTimer: null };
+
+    worker.on('message', (message: SimulationWorkerMessage) => this.handleMessage(pooled, message));
+    worker.on('error', error => this.handleFailure(pooled, error));
+    worker.on('exit', code => this.handleFailure(pooled, new Error(`Simulation worker exited with code ${code}`)));
+
+    this.workers.push(pooled);
+    return pooled;
+  }
+
+  /**
+   * Routes a worker message to the job it belongs to.
+   */
+  private handleMessage(pooled: PooledWorker, message: SimulationWorkerMessage): void {
+    const pending = pooled.job;
+    if (!pending || message.id !== pending.message.id) {
+      return;
+    }
+
+    if (message.type === 'progress') {
+      pending.onProgress?.(message.progress);
+      return;
+    }
+
+    this.settle(pending);
+    this.release(pooled);
+    if (message.type === 'result') {
+      this.completed++;
+      pending.resolve(message.result);
+    } else {
+      this.failed++;
+      pending.reject(new Error(message.message));
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Removes a worker that crashed or exited, failing its job.
+   */
+  private handleFailure(pooled: PooledWorker, error: Error): void {
+    const index = this.workers.indexOf(pooled);
+    if (index < 0) {
+      return;
+    }
+    this.workers.splice(index, 1);
+    if (pooled.idleTimer) {
+      clearTimeout(pooled.idleTimer);
+    }
+
+    if (pooled.job) {
+      const pending = pooled.job;
+      pooled.job = null;
+      this.settle(pending);
+      this.failed++;
+      pending.reject(error);
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Cancels a job: dequeues it, or terminates the worker running it.
+   */
+  private abort(pending: PendingJob): void {
+    this.aborted++;
+    this.settle(pending);
+
+    const queued = this.queue.indexOf(pending);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+    } else {
+      const pooled = this.workers.find(w => w.job === pending);
+      if (pooled) {
+        this.workers.splice(this.workers.indexOf(pooled), 1);
+        pooled.job = null;
+        void this.terminate(pooled);
+      }
+    }
+
+    pending.reject(new Error('Simulation job aborted'));
+    this.dispatch();
+  }
+
+  /**
+   * Marks a worker idle and schedules its exit.
+   */
+  private release(pooled: PooledWorker): void {
+    pooled.job = null;
+    pooled.worker.unref();
+    pooled.idleTimer = setTimeout(() => {
+      const index = this.workers.indexOf(pooled);
+      if (index >= 0 && !pooled.job) {
+        this.workers.splice(index, 1);
+        void this.terminate(pooled);
+      }
+    }, this.idleTimeout);
+    pooled.idleTimer.unref();
+  }
+
+  /**
+   * Detaches a job from its abort signal.
+   */
+  private settle(pending: PendingJob): void {
+    if (pending.signal && pending.onAbort) {
+      pending.signal.removeEventListener('abort', pending.onAbort);
+    }
+  }
+
+  /**
+   * Terminates a worker that has already been removed from the pool.
+   */
+  private async terminate(pooled: PooledWorker): Promise<void> {
+    if (pooled.idleTimer) {
+      clearTimeout(pooled.idleTimer);
+    }
+    await pooled.worker.terminate();
+  }
+}
+
+/**
+ * Pool shared by every oracle in the process.
+ */
+let sharedPool: SimulationPool | null = null;
+
+/**
+ * Gets the process-wide simulation pool, creating it on first use.
+ */
+export function getSharedSimulationPool(): SimulationPool {
+  if (!sharedPool || sharedPool.isClosed()) {
+    sharedPool = new SimulationPool();
+  }
+  return sharedPool;
+}
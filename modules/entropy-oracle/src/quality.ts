@@ -0,0 +1,65 @@
+/**
+ * Chaos Quality Gate
+ * 
+ * Screens simulation runs for the properties that make their output good
+ * entropy: a bound system, exponential divergence of nearby trajectories,
+ * no escaping bodies and repeated close encounters. Escaping or
+ * near-periodic systems are only weakly sensitive to their initial
+ * conditions and are rejected before entropy is issued.
+ */
+
+import { ChaosGateConfig, ChaosQualityReport, SimulationMetadata } from './types';
+
+/**
+ * Default gate configuration (disabled unless explicitly enabled).
+ */
+export const DEFAULT_CHAOS_GATE: ChaosGateConfig = {
+  enabled: false,
+  requireBoundEnergy: true,
+  minLyapunovExponent: 0.1,
+  maxEscapedBodies: 0,
+  minCloseEncounters: 1,
+  maxAttempts: 16
+};
+
+/**
+ * Evaluates a simulation run against the gate's checks.
+ * 
+ * Runs without the energy, encounter and escape diagnostics, i.e. oracle-v1
+ * runs, always fail.
+ */
+export function evaluateChaosQuality(
+  metadata: SimulationMetadata,
+  gate: ChaosGateConfig
+): ChaosQualityReport {
+  const { initialEnergy, closeEncounters, escapedBodies } = metadata;
+  if (initialEnergy === undefined || closeEncounters === undefined || escapedBodies === undefined) {
+    return { passed: false, failures: ['Run has no chaos diagnostics'] };
+  }
+  const failures: string[] = [];
+
+  if (gate.requireBoundEnergy && !(initialEnergy < 0)) {
+    failures.push(`System is not bound: total energy ${initialEnergy} is not negative`);
+  }
+
+  if (!(metadata.lyapunovEstimate >= gate.minLyapunovExponent)) {
+    failures.push(
+      `Lyapunov exponent ${metadata.lyapunovEstimate} is below the minimum ${gate.minLyapunovExponent}`
+    );
+  }
+
+  if (escapedBodies > gate.maxEscapedBodies) {
+    failures.push(`${escapedBodies} bodies escaped (maximum ${gate.maxEscapedBodies})`);
+  }
+
+  if (closeEncounters < gate.minCloseEncounters) {
+    failures.push(
+      `Only ${closeEncounters} close encounters (minimum ${gate.minCloseEncounters})`
+    );
+  }
+
+  return {
+    passed: failures.length === 0,
+    failures
+  };
+}
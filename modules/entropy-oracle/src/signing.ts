@@ -0,0 +1,327 @@
+/**
+ * Proof Signing
+ * 
+ * Version 2 proofs carry an Ed25519 signature over
+ * 
+ *   "v2:<keyId>:<proofId>:<simulationHash>:<entropyHash>:<timestamp>"
+ * 
+ * where timestamp is the entropy's, so anyone holding the public key of
+ * keyId can check a proof without the server secret. Version 1 proofs are
+ * an HMAC of the same fields without the "v2:<keyId>:" prefix under the
+ * server secret; they are still issued on request and still verify on the
+ * server that signed them.
+ * 
+ * ProofKeyRegistry holds the signing keys. Rotating it starts signing with
+ * a fresh key while the previous one keeps verifying until the end of a
+ * grace period; proofs signed with a key stop verifying once the key
+ * expires.
+ */
+
+import {
+  KeyObject,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify
+} from 'crypto';
+import { EntropyProof, ProofKey, ProofKeyOptions, ProofVersion, VerificationCheck } from './types';
+
+/**
+ * Signature scheme of new proofs.
+ */
+export const CURRENT_PROOF_VERSION: ProofVersion = 2;
+
+/**
+ * Milliseconds a rotated-out key keeps verifying proofs (default: 30 days).
+ */
+export const DEFAULT_KEY_GRACE_PERIOD = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Validates a proof version.
+ * 
+ * @throws Error if the version is not supported
+ */
+export function assertProofVersion(version: number): asserts version is ProofVersion {
+  if (version !== 1 && version !== 2) {
+    throw new Error(`Unsupported proof version ${version}`);
+  }
+}
+
+/**
+ * Builds the string a proof's signature covers.
+ */
+export function proofSignatureData(proof: Omit<EntropyProof, 'signature'>, timestamp: number): string {
+  const fields = `${proof.proofId}:${proof.simulationHash}:${proof.entropyHash}:${timestamp}`;
+  return (proof.version ?? 1) === 1 ? fields : `v${proof.version}:${proof.keyId}:${fields}`;
+}
+
+/**
+ * Parses a public key and checks that it is an Ed25519 key.
+ * 
+ * @throws Error if the key cannot be parsed or is not an Ed25519 key
+ */
+function toPublicKey(key: string | KeyObject): KeyObject {
+  const publicKey = typeof key !== 'string' && key.type === 'public' ? key : createPublicKey(key);
+  if (publicKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Proof keys must be Ed25519 keys, got ${publicKey.asymmetricKeyType}`);
+  }
+  return publicKey;
+}
+
+/**
+ * Derives the key ID of a public key.
+ * 
+ * @throws Error if the key is not an Ed25519 key
+ */
+export function computeKeyId(publicKey: string | KeyObject): string {
+  return createHash('sha256')
+    .update(toPublicKey(publicKey).export({ type: 'spki', format: 'der' }))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * Checks the Ed25519 signature of a version 2 proof against a public key.
+ * 
+ * @param proof - The proof
+ * @param timestamp - Timestamp of the entropy the proof is for
+ * @param publicKey - SPKI PEM or key object of the signing key
+ * @throws Error if the key is not an Ed25519 key
+ */
+export function checkProofSignature(
+  proof: EntropyProof,
+  timestamp: number,
+  publicKey: string | KeyObject
+): VerificationCheck {
+  const key = toPublicKey(publicKey);
+  const unsupported = unsupportedVersionCheck(proof);
+  if (unsupported) {
+    return unsupported;
+  }
+
+  const keyId = computeKeyId(key);
+  if (proof.keyId !== keyId) {
+    return {
+      name: 'signature',
+      passed: false,
+      expected: keyId,
+      actual: proof.keyId,
+      details: 'Proof was not signed with this key'
+    };
+  }
+
+  const valid = /^[0-9a-f]{128}$/.test(proof.signature) &&
+    verify(null, Buffer.from(proofSignatureData(proof, timestamp)), key, Buffer.from(proof.signature, 'hex'));
+  return signatureCheck(valid, valid ? 'Signature valid' : 'Signature invalid');
+}
+
+/**
+ * Fails the signature check of proofs that are not version 2, which no
+ * public key can verify.
+ */
+function unsupportedVersionCheck(proof: EntropyProof): VerificationCheck | null {
+  const version = proof.version ?? 1;
+  if (version === 2) {
+    return null;
+  }
+  return signatureCheck(false, version === 1
+    ? 'Version 1 proofs are HMACs that only the signing server can verify'
+    : `Unsupported proof version ${version}`);
+}
+
+/**
+ * Builds the signature verification check.
+ */
+function signatureCheck(passed: boolean, details: string): VerificationCheck {
+  return { name: 'signature', passed, details };
+}
+
+/**
+ * A key held by the registry.
+ */
+interface RegisteredKey {
+  key: ProofKey;
+  publicKey: KeyObject;
+  /** Null for keys trusted for verification only */
+  privateKey: KeyObject | null;
+}
+
+/**
+ * Ed25519 keys that sign and verify proofs.
+ */
+export class ProofKeyRegistry {
+  private readonly keys: Map<string, RegisteredKey> = new Map();
+  private activeKeyId: string | null = null;
+
+  /**
+   * Generates a key and adds it to the registry.
+   */
+  generateKey(options: ProofKeyOptions = {}): ProofKey {
+    return this.addKey(generateKeyPairSync('ed25519').privateKey, options);
+  }
+
+  /**
+   * Adds a signing key, e.g. one loaded from a secret store so that
+   * several oracle instances sign with the same key.
+   * 
+   * @param privateKey - PKCS#8 PEM or key object of an Ed25519 private key
+   * @throws Error if the key is not an Ed25519 private key
+   */
+  addKey(privateKey: string | KeyObject, options: ProofKeyOptions = {}): ProofKey {
+    const key = typeof privateKey === 'string' ? createPrivateKey(privateKey) : privateKey;
+    if (key.type !== 'private') {
+      throw new Error('Signing keys must be private keys');
+    }
+    const registered = this.register(createPublicKey(key), key, options);
+    if (options.activate ?? true) {
+      this.activeKeyId = registered.keyId;
+    }
+    return registered;
+  }
+
+  /**
+   * Trusts a public key for verification only, e.g. the key of another
+   * oracle instance or one whose private half was destroyed.
+   * 
+   * @param publicKey - SPKI PEM or key object of an Ed25519 public key
+   * @throws Error if the key is not an Ed25519 key
+   */
+  addPublicKey(publicKey: string | KeyObject, options: Omit<ProofKeyOptions, 'activate'> = {}): ProofKey {
+    return this.register(toPublicKey(publicKey), null, options);
+  }
+
+  /**
+   * Signs new proofs with a fresh key. The previously active key keeps
+   * verifying proofs for the grace period, then expires.
+   * 
+   * @param gracePeriod - Milliseconds the previous key stays valid
+   */
+  rotate(gracePeriod: number = DEFAULT_KEY_GRACE_PERIOD): ProofKey {
+    if (!(gracePeriod >= 0)) {
+      throw new Error(`Grace period must be non-negative, got ${gracePeriod}`);
+    }
+    const previous = this.activeKeyId;
+    const key = this.generateKey();
+    if (previous) {
+      this.expire(previous, Date.now() + gracePeriod);
+    }
+    return key;
+  }
+
+  /**
+   * Sets when a key stops verifying proofs. An earlier expiry already set
+   * is kept. Expiring the active key also stops it from signing.
+   * 
+   * @throws Error if the key is unknown
+   */
+  expire(keyId: string, at: number = Date.now()): void {
+    const registered = this.keys.get(keyId);
+    if (!registered) {
+      throw new Error(`Unknown proof key ${keyId}`);
+    }
+    const { expiresAt } = registered.key;
+    registered.key = { ...registered.key, expiresAt: expiresAt === undefined ? at : Math.min(expiresAt, at) };
+    if (this.activeKeyId === keyId) {
+      this.activeKeyId = null;
+    }
+  }
+
+  /**
+   * Removes expired keys.
+   * 
+   * @returns The number of keys removed
+   */
+  pruneExpired(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [keyId, { key }] of this.keys) {
+      if (key.expiresAt !== undefined && now > key.expiresAt) {
+        this.keys.delete(keyId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Gets the key that signs new proofs.
+   */
+  getActiveKey(): ProofKey | null {
+    return this.activeKeyId ? this.keys.get(this.activeKeyId)!.key : null;
+  }
+
+  /**
+   * Gets a key by ID.
+   */
+  getKey(keyId: string): ProofKey | undefined {
+    return this.keys.get(keyId)?.key;
+  }
+
+  /**
+   * Gets every key, for publishing to verifiers.
+   */
+  getPublicKeys(): ProofKey[] {
+    return [...this.keys.values()].map(({ key }) => key);
+  }
+
+  /**
+   * Signs a proof with the active key as a version 2 proof.
+   * 
+   * @param proof - The proof fields to sign
+   * @param timestamp - Timestamp of the entropy the proof is for
+   * @throws Error if there is no active key
+   */
+  signProof(proof: Omit<EntropyProof, 'signature' | 'version' | 'keyId'>, timestamp: number): EntropyProof {
+    const active = this.activeKeyId ? this.keys.get(this.activeKeyId)! : null;
+    if (!active || !active.privateKey) {
+      throw new Error('No active proof signing key');
+    }
+    const unsigned = { ...proof, version: 2 as const, keyId: active.key.keyId };
+    const signature = sign(null, Buffer.from(proofSignatureData(unsigned, timestamp)), active.privateKey);
+    return { ...unsigned, signature: signature.toString('hex') };
+  }
+
+  /**
+   * Checks a version 2 proof against the registered key it names.
+   * 
+   * @param proof - The proof
+   * @param timestamp - Timestamp of the entropy the proof is for
+   */
+  checkSignature(proof: EntropyProof, timestamp: number): VerificationCheck {
+    const unsupported = unsupportedVersionCheck(proof);
+    if (unsupported) {
+      return unsupported;
+    }
+    const registered = proof.keyId === undefined ? undefined : this.keys.get(proof.keyId);
+    if (!registered) {
+      return signatureCheck(false, `Unknown signing key ${proof.keyId}`);
+    }
+    const { expiresAt } = registered.key;
+    if (expiresAt !== undefined && Date.now() > expiresAt) {
+      return signatureCheck(false, `Signing key ${proof.keyId} expired`);
+    }
+    return checkProofSignature(proof, timestamp, registered.publicKey);
+  }
+
+  /**
+   * Adds a key to the registry.
+   * 
+   * @throws Error if the key is not an Ed25519 key or is already registered
+   */
+  private register(publicKey: KeyObject, privateKey: KeyObject | null, options: ProofKeyOptions): ProofKey {
+    const keyId = computeKeyId(publicKey);
+    if (this.keys.has(keyId)) {
+      throw new Error(`Proof key ${keyId} is already registered`);
+    }
+    const key: ProofKey = {
+      keyId,
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      createdAt: options.createdAt ?? Date.now(),
+      ...(options.expiresAt !== undefined && { expiresAt: options.expiresAt })
+    };
+    this.keys.set(keyId, { key, publicKey, privateKey });
+    return key;
+  }
+}
@@ -1,20 +1,36 @@
 /**
  * Three-Body Simulation for Entropy Generation
  * 
- * Implements the physics simulation that generates chaotic entropy
- * from three-body gravitational dynamics.
+ * Runs the physics simulation that generates chaotic entropy from
+ * three-body gravitational dynamics, and derives the initial conditions
+ * it starts from.
  */
 
 import { createHash } from 'crypto';
 import {
-  Vector3D,
-  Body,
+  createSeedStream,
+  assertSeedStreamVersion,
+  CURRENT_SEED_STREAM_VERSION,
+  SeedStreamVersion,
+  OrbitPreset,
+  ORBIT_PRESETS,
+  normalizeForceModel,
+  isDefaultForceModel
+} from '@three-body-entropy/physics-engine';
+import {
   InitialConditions,
   SimulationParams,
+  SimulationHooks,
   RawEntropyResult,
-  SimulationMetadata,
   PresetConditions
 } from './types';
+import {
+  DEFAULT_SIMULATION_ENGINE,
+  ResolvedSimulation,
+  assertSimulationEngine,
+  runEngineSimulation
+} from './engine-adapter';
+import { runLegacySimulation } from './legacy-simulation';
 
 /**
  * Default simulation parameters.
@@ -24,6 +40,22 @@ const DEFAULT_PARAMS: SimulationParams = {
   timeStep: 0.001
 };
 
+/**
+ * Default thresholds for encounter and escape diagnostics.
+ */
+const DEFAULT_CLOSE_ENCOUNTER_DISTANCE = 0.1;
+const DEFAULT_ESCAPE_DISTANCE = 10.0;
+
+/**
+ * Default number of steps between progress reports.
+ */
+const DEFAULT_PROGRESS_INTERVAL = 1000;
+
+/**
+ * Default phase-space recovery error allowed by the reversibility check.
+ */
+const DEFAULT_REVERSIBILITY_THRESHOLD = 1e-6;
+
 /**
  * Default initial conditions.
  */
@@ -38,271 +70,103 @@ const DEFAULT_CONDITIONS: InitialConditions = {
 };
 
 /**
- * Vector operations.
- */
-function addVectors(a: Vector3D, b: Vector3D): Vector3D {
-  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
-}
-
-function subtractVectors(a: Vector3D, b: Vector3D): Vector3D {
-  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
-}
-
-function scaleVector(v: Vector3D, s: number): Vector3D {
-  return { x: v.x * s, y: v.y * s, z: v.z * s };
-}
-
-function magnitude(v: Vector3D): number {
-  return Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
-}
-
-function dotProduct(a: Vector3D, b: Vector3D): number {
-  return a.x * b.x + a.y * b.y + a.z * b.z;
-}
-
-/**
- * Calculates gravitational acceleration on body i from all other bodies.
- */
-function calculateAcceleration(
-  bodies: Body[],
-  index: number,
-  G: number,
-  softening: number
-): Vector3D {
-  let acceleration: Vector3D = { x: 0, y: 0, z: 0 };
-  const body = bodies[index];
-
-  for (let j = 0; j < bodies.length; j++) {
-    if (j === index) continue;
-
-    const other = bodies[j];
-    const r = subtractVectors(other.position, body.position);
-    const distSq = dotProduct(r, r) + softening * softening;
-    const dist = Math.sqrt(distSq);
-    const forceMag = (G * other.mass) / distSq;
-    const forceDir = scaleVector(r, 1 / dist);
-    acceleration = addVectors(acceleration, scaleVector(forceDir, forceMag));
-  }
-
-  return acceleration;
-}
-
-/**
- * Performs one RK4 integration step.
+ * Runs the three-body simulation and generates entropy.
+ * 
+ * The run is synchronous; use a SimulationPool to keep it off the event
+ * loop. `hooks.onProgress` is called every `progressInterval` integration
+ * steps and once more when the integration completes, before the Lyapunov
+ * estimate is computed.
+ * 
+ * `params.engine` selects the implementation: "physics-engine-v1" (the
+ * default) runs the physics engine's ThreeBodySimulation through the
+ * adapter in engine-adapter.ts, and "oracle-v1" the oracle's original
+ * integrator, to reproduce runs recorded before the adapter.
+ * 
+ * With `params.reversibilityCheck`, the run (or its first `duration` time
+ * units) is integrated back to t = 0 and the run throws if the initial
+ * conditions are not recovered within the threshold; the report is recorded
+ * in the metadata. Long chaotic runs fail the default threshold.
  */
-function rk4Step(
-  bodies: Body[],
-  dt: number,
-  G: number,
-  softening: number
-): Body[] {
-  const n = bodies.length;
-
-  // Calculate k1
-  const k1v: Vector3D[] = [];
-  const k1r: Vector3D[] = [];
-  for (let i = 0; i < n; i++) {
-    k1v.push(calculateAcceleration(bodies, i, G, softening));
-    k1r.push(bodies[i].velocity);
+export function runSimulation(
+  params: SimulationParams = DEFAULT_PARAMS,
+  conditions: InitialConditions = DEFAULT_CONDITIONS,
+  hooks: SimulationHooks = {}
+): RawEntropyResult {
+  const engine = params.engine ?? DEFAULT_SIMULATION_ENGINE;
+  assertSimulationEngine(engine);
+  const progressInterval = hooks.progressInterval ?? DEFAULT_PROGRESS_INTERVAL;
+  if (!Number.isInteger(progressInterval) || progressInterval < 1) {
+    throw new Error(`Progress interval must be a positive integer, got ${progressInterval}`);
   }
-
-  // Calculate k2
-  const bodies2 = bodies.map((b, i) => ({
-    ...b,
-    position: addVectors(b.position, scaleVector(k1r[i], dt / 2)),
-    velocity: addVectors(b.velocity, scaleVector(k1v[i], dt / 2))
-  }));
-  const k2v: Vector3D[] = [];
-  const k2r: Vector3D[] = [];
-  for (let i = 0; i < n; i++) {
-    k2v.push(calculateAcceleration(bodies2, i, G, softening));
-    k2r.push(bodies2[i].velocity);
+  const requestedCheck = params.reversibilityCheck === true ? {} : params.reversibilityCheck || null;
+  const reversibilityCheck = requestedCheck && {
+    threshold: requestedCheck.threshold ?? DEFAULT_REVERSIBILITY_THRESHOLD,
+    ...(requestedCheck.duration !== undefined && { duration: requestedCheck.duration })
+  };
+  if (reversibilityCheck && (!(reversibilityCheck.threshold > 0) || !Number.isFinite(reversibilityCheck.threshold))) {
+    throw new Error(`Reversibility threshold must be a positive finite number, got ${reversibilityCheck.threshold}`);
   }
-
-  // Calculate k3
-  const bodies3 = bodies.map((b, i) => ({
-    ...b,
-    position: addVectors(b.position, scaleVector(k2r[i], dt / 2)),
-    velocity: addVectors(b.velocity, scaleVector(k2v[i], dt / 2))
-  }));
-  const k3v: Vector3D[] = [];
-  const k3r: Vector3D[] = [];
-  for (let i = 0; i < n; i++) {
-    k3v.push(calculateAcceleration(bodies3, i, G, softening));
-    k3r.push(bodies3[i].velocity);
+  if (reversibilityCheck && reversibilityCheck.duration !== undefined && !(reversibilityCheck.duration > 0)) {
+    throw new Error(`Reversibility duration must be positive, got ${reversibilityCheck.duration}`);
   }
 
-  // Calculate k4
-  const bodies4 = bodies.map((b, i) => ({
-    ...b,
-    position: addVectors(b.position, scaleVector(k3r[i], dt)),
-    velocity: addVectors(b.velocity, scaleVector(k3v[i], dt))
-  }));
-  const k4v: Vector3D[] = [];
-  const k4r: Vector3D[] = [];
-  for (let i = 0; i < n; i++) {
-    k4v.push(calculateAcceleration(bodies4, i, G, softening));
-    k4r.push(bodies4[i].velocity);
-  }
+  const run: ResolvedSimulation = {
+    params,
+    conditions,
+    gravitationalConstant: conditions.gravitationalConstant || 1.0,
+    softeningParameter: conditions.softeningParameter || 0.01,
+    // The default model is left out of the metadata, as before force models existed
+    forceModel: params.forceModel && !isDefaultForceModel(params.forceModel)
+      ? normalizeForceModel(params.forceModel)
+      : undefined,
+    closeEncounterDistance: params.closeEncounterDistance ?? DEFAULT_CLOSE_ENCOUNTER_DISTANCE,
+    escapeDistance: params.escapeDistance ?? DEFAULT_ESCAPE_DISTANCE,
+    reversibilityCheck,
+    progressInterval,
+    onProgress: hooks.onProgress
+  };
 
-  // Combine
-  return bodies.map((b, i) => ({
-    ...b,
-    position: addVectors(
-      b.position,
-      scaleVector(
-        addVectors(
-          addVectors(k1r[i], scaleVector(k2r[i], 2)),
-          addVectors(scaleVector(k3r[i], 2), k4r[i])
-        ),
-        dt / 6
-      )
-    ),
-    velocity: addVectors(
-      b.velocity,
-      scaleVector(
-        addVectors(
-          addVectors(k1v[i], scaleVector(k2v[i], 2)),
-          addVectors(scaleVector(k3v[i], 2), k4v[i])
-        ),
-        dt / 6
-      )
-    )
-  }));
+  return engine === 'oracle-v1' ? runLegacySimulation(run) : runEngineSimulation(run);
 }
 
 /**
- * Calculates total energy of the system.
+ * Draws 18 values in [-1, 1] from the seed.
+ * 
+ * Version 1 parses consecutive 12-bit chunks of the SHA-256 hex digest;
+ * version 2 reads 53-bit floats from the physics engine's seed stream.
  */
-function calculateEnergy(bodies: Body[], G: number, softening: number): number {
-  let kinetic = 0;
-  let potential = 0;
-
-  for (let i = 0; i < bodies.length; i++) {
-    const v = bodies[i].velocity;
-    kinetic += 0.5 * bodies[i].mass * dotProduct(v, v);
+function drawSeedValues(seed: string, version: SeedStreamVersion): number[] {
+  const values: number[] = [];
 
-    for (let j = i + 1; j < bodies.length; j++) {
-      const r = subtractVectors(bodies[j].position, bodies[i].position);
-      const dist = Math.sqrt(dotProduct(r, r) + softening * softening);
-      potential -= (G * bodies[i].mass * bodies[j].mass) / dist;
+  if (version === 2) {
+    const next = createSeedStream(seed);
+    for (let i = 0; i < 18; i++) {
+      values.push(next() * 2 - 1);
     }
+    return values;
   }
 
-  return kinetic + potential;
-}
-
-/**
- * Extracts entropy value from final simulation state.
- */
-function extractEntropy(bodies: Body[]): number {
-  // Combine all position and velocity components
-  let combined = 0;
-  for (const body of bodies) {
-    combined += Math.abs(body.position.x) + Math.abs(body.position.y) + Math.abs(body.position.z);
-    combined += Math.abs(body.velocity.x) + Math.abs(body.velocity.y) + Math.abs(body.velocity.z);
-  }
-
-  // Normalize to [0, 1)
-  const normalized = combined - Math.floor(combined);
-  return normalized;
-}
-
-/**
- * Generates entropy hash from simulation state.
- */
-function generateEntropyHash(bodies: Body[], simulationId: string): string {
-  const hash = createHash('sha256');
-  
-  for (const body of bodies) {
-    hash.update(body.position.x.toExponential(15));
-    hash.update(body.position.y.toExponential(15));
-    hash.update(body.position.z.toExponential(15));
-    hash.update(body.velocity.x.toExponential(15));
-    hash.update(body.velocity.y.toExponential(15));
-    hash.update(body.velocity.z.toExponential(15));
-  }
-  
-  hash.update(simulationId);
-  return hash.digest('hex');
-}
-
-/**
- * Runs the three-body simulation and generates entropy.
- */
-export function runSimulation(
-  params: SimulationParams = DEFAULT_PARAMS,
-  conditions: InitialConditions = DEFAULT_CONDITIONS
-): RawEntropyResult {
-  const { duration, timeStep } = params;
-  const G = conditions.gravitationalConstant || 1.0;
-  const softening = conditions.softeningParameter || 0.01;
-
-  // Deep copy initial bodies
-  let bodies = conditions.bodies.map(b => ({
-    mass: b.mass,
-    position: { ...b.position },
-    velocity: { ...b.velocity }
-  }));
-
-  const initialEnergy = calculateEnergy(bodies, G, softening);
-  const steps = Math.floor(duration / timeStep);
-  const simulationId = createHash('sha256')
-    .update(`${Date.now()}:${Math.random()}`)
-    .digest('hex')
-    .substring(0, 16);
-
-  // Run simulation
-  for (let i = 0; i < steps; i++) {
-    bodies = rk4Step(bodies, timeStep, G, softening);
+  const hash = createHash('sha256').update(seed).digest('hex');
+  for (let i = 0; i < 18; i++) {
+    const hexPart = hash.substring(i * 3, i * 3 + 3);
+    values.push((parseInt(hexPart, 16) / 4095) * 2 - 1); // Range [-1, 1]
   }
-
-  const finalEnergy = calculateEnergy(bodies, G, softening);
-  const energyDrift = Math.abs((finalEnergy - initialEnergy) / initialEnergy);
-
-  // Extract entropy
-  const entropyValue = extractEntropy(bodies);
-  const entropyHex = generateEntropyHash(bodies, simulationId);
-  const sourceHash = createHash('sha256')
-    .update(entropyHex)
-    .digest('hex');
-
-  // Estimate Lyapunov exponent (simplified)
-  const lyapunovEstimate = Math.log(1 + energyDrift * 1000) / duration;
-
-  const metadata: SimulationMetadata = {
-    duration,
-    timeStep,
-    steps,
-    finalEnergy,
-    energyDrift,
-    lyapunovEstimate
-  };
-
-  return {
-    value: entropyValue,
-    hex: entropyHex,
-    sourceHash,
-    simulationId,
-    timestamp: Date.now(),
-    metadata
-  };
+  return values;
 }
 
 /**
  * Generates random initial conditions.
+ * 
+ * @param seed - Optional seed; without one a time-based seed is used
+ * @param version - Seed stream version; pass 1 to reproduce conditions
+ *   derived before version 2 was introduced
  */
-export function generateRandomConditions(seed?: string): InitialConditions {
-  const hash = seed
-    ? createHash('sha256').update(seed).digest('hex')
-    : createHash('sha256').update(`${Date.now()}:${Math.random()}`).digest('hex');
-
-  // Use hash to generate deterministic "random" values
-  const values: number[] = [];
-  for (let i = 0; i < 18; i++) {
-    const hexPart = hash.substring(i * 3, i * 3 + 3);
-    values.push((parseInt(hexPart, 16) / 4095) * 2 - 1); // Range [-1, 1]
-  }
+export function generateRandomConditions(
+  seed?: string,
+  version: SeedStreamVersion = CURRENT_SEED_STREAM_VERSION
+): InitialConditions {
+  assertSeedStreamVersion(version);
+  const values = drawSeedValues(seed || `${Date.now()}:${Math.random()}`, version);
 
   return {
     bodies: [
@@ -328,7 +192,32 @@ export function generateRandomConditions(seed?: string): InitialConditions {
 }
 
 /**
- * Preset initial conditions for common scenarios.
+ * Converts a physics-engine orbit preset to oracle initial conditions named
+ * "orbit-<name>". The oracle treats zero softening as unset, so presets
+ * without softening carry the default softening they run with.
+ */
+function fromOrbitPreset(preset: OrbitPreset): PresetConditions {
+  const { masses, positions, velocities } = preset.initialConditions;
+  return {
+    name: `orbit-${preset.name}`,
+    description: preset.description,
+    conditions: {
+      bodies: masses.map((mass, i) => ({
+        mass,
+        position: { ...positions[i] },
+        velocity: { ...velocities[i] }
+      })),
+      gravitationalConstant: preset.gravitationalConstant,
+      softeningParameter: preset.softeningParameter || 0.01
+    }
+  };
+}
+
+/**
+ * Preset initial conditions for common scenarios: the original
+ * figure-eight, Lagrange and chaotic presets, whose values must not change
+ * so runs built from them reproduce, followed by the periodic orbits of the
+ * physics-engine catalog (ORBIT_PRESETS) under "orbit-" names.
  */
 export const PRESET_CONDITIONS: PresetConditions[] = [
   {
@@ -369,7 +258,8 @@ export const PRESET_CONDITIONS: PresetConditions[] = [
       gravitationalConstant: 1.0,
       softeningParameter: 0.01
     }
-  }
+  },
+  ...ORBIT_PRESETS.map(fromOrbitPreset)
 ];
 
 /**
@@ -5,6 +5,15 @@
  * that orchestrates physics simulation and cryptographic operations.
  */
 
+import {
+  ForceModel,
+  ReversibilityCheckOptions,
+  ReversibilityReport,
+  SeedStreamVersion
+} from '@three-body-entropy/physics-engine';
+
+export { ForceModel, ReversibilityCheckOptions, ReversibilityReport, SeedStreamVersion };
+
 /**
  * Vector in 3D space.
  */
@@ -32,13 +41,37 @@ export interface InitialConditions {
   softeningParameter?: number;
 }
 
+/**
+ * Implementation a simulation runs on.
+ * "physics-engine-v1" is the physics engine's ThreeBodySimulation with
+ * version 2 extraction; "oracle-v1" is the oracle's original integrator,
+ * under which runs recorded before the engine adapter replay.
+ */
+export type SimulationEngine = 'oracle-v1' | 'physics-engine-v1';
+
 /**
  * Simulation parameters.
  */
 export interface SimulationParams {
   duration: number;
   timeStep: number;
+  /** Implementation to run on (default: "physics-engine-v1") */
+  engine?: SimulationEngine;
   initialConditions?: InitialConditions;
+  /** Pair separation below which a close encounter is counted (default: 0.1) */
+  closeEncounterDistance?: number;
+  /** Distance from the other bodies beyond which an unbound body counts as escaped (default: 10) */
+  escapeDistance?: number;
+  /** Softening kernel and external perturbations (default: Plummer softening only) */
+  forceModel?: ForceModel;
+  /** Integrate the last steps backwards and fail the run if they do not return to where they started (default: off) */
+  reversibilityCheck?: boolean | ReversibilityCheckOptions;
+  /**
+   * Recorded ID of an oracle-v1 run to replay, which that engine mixes into
+   * its hex (default: a fresh random ID). Ignored by physics-engine-v1,
+   * whose ID is derived from its output.
+   */
+  simulationId?: string;
 }
 
 /**
@@ -63,6 +96,90 @@ export interface SimulationMetadata {
   finalEnergy: number;
   energyDrift: number;
   lyapunovEstimate: number;
+  /** Total energy of the initial conditions; absent for "oracle-v1" */
+  initialEnergy?: number;
+  /** Times a pair moved inside the close-encounter distance; absent for "oracle-v1" */
+  closeEncounters?: number;
+  /** Unbound bodies beyond the escape distance of all others; absent for "oracle-v1" */
+  escapedBodies?: number;
+  /** Number of initial conditions rejected by the chaos quality gate */
+  qualityGateRejections?: number;
+  /** Seed stream version used to derive seeded initial conditions */
+  seedStreamVersion?: SeedStreamVersion;
+  /** Force model of the run; absent for the default Plummer softening */
+  forceModel?: ForceModel;
+  /** Reversibility self-check of the run, present when it was requested */
+  reversibility?: ReversibilityReport;
+  /** Engine that ran the simulation; absent for "oracle-v1" */
+  engine?: SimulationEngine;
+}
+
+/**
+ * Progress of a running simulation.
+ */
+export interface SimulationProgress {
+  /** Integration steps completed */
+  completedSteps: number;
+  /** Integration steps in the run */
+  totalSteps: number;
+}
+
+/**
+ * Optional callbacks of runSimulation.
+ */
+export interface SimulationHooks {
+  /** Called every progressInterval steps and once the integration completes */
+  onProgress?: (progress: SimulationProgress) => void;
+  /** Steps between progress reports (default: 1000) */
+  progressInterval?: number;
+}
+
+/**
+ * Simulation run by the worker pool.
+ */
+export interface SimulationJob {
+  params: SimulationParams;
+  conditions: InitialConditions;
+}
+
+/**
+ * Per-job options of the worker pool.
+ */
+export interface SimulationJobOptions extends SimulationHooks {
+  /** Cancels the job; a running job's worker is terminated */
+  signal?: AbortSignal;
+}
+
+/**
+ * Worker pool configuration.
+ */
+export interface SimulationPoolOptions {
+  /** Maximum number of worker threads (default: CPU count - 1, at least 1) */
+  size?: number;
+  /** Milliseconds an idle worker is kept before it exits (default: 10000) */
+  idleTimeout?: number;
+  /** Worker entry script (default: the compiled worker.js next to the pool module) */
+  workerScript?: string;
+}
+
+/**
+ * Worker pool counters.
+ */
+export interface SimulationPoolStats {
+  /** Maximum number of workers */
+  size: number;
+  /** Live workers */
+  workers: number;
+  /** Workers running a job */
+  busy: number;
+  /** Jobs waiting for a worker */
+  queued: number;
+  /** Jobs that returned a result */
+  completed: number;
+  /** Jobs that failed */
+  failed: number;
+  /** Jobs cancelled through their signal */
+  aborted: number;
 }
 
 /**
@@ -73,6 +190,12 @@ export interface EntropyRequestOptions {
   clientSeed?: string;
   nonce?: number;
   simulationParams?: SimulationParams;
+  /** Overrides the configured seed stream version, e.g. to replay old sessions */
+  seedStreamVersion?: SeedStreamVersion;
+  /** Cancels the simulation; the request then rejects */
+  signal?: AbortSignal;
+  /** Receives the progress of the simulation */
+  onProgress?: (progress: SimulationProgress) => void;
 }
 
 /**
@@ -84,8 +207,47 @@ export interface EntropyResponse {
   entropy: RawEntropyResult;
   proof: EntropyProof;
   timestamp: number;
+  /**
+   * Opening of the conditions commitment published by
+   * preGenerateCommitments(), on responses serving pre-generated entropy
+   */
+  opening?: ConditionsOpening;
+}
+
+/**
+ * Everything that determines the run behind pre-generated entropy. The
+ * oracle commits to it before the client seed is known and reveals it with
+ * the entropy.
+ */
+export interface ConditionsOpening {
+  /** Random hex that keeps the commitment from revealing the rest */
+  salt: string;
+  engine: SimulationEngine;
+  /** Version of the integrator the engine steps with */
+  integrator: string;
+  /** Conditions of the run, with the physics constants it used */
+  initialConditions: InitialConditions;
+  /** Parameters of the run */
+  params: Omit<SimulationParams, 'engine' | 'initialConditions' | 'simulationId'>;
 }
 
+/**
+ * Commitments published for a session before the client seed is given.
+ */
+export interface SessionCommitments {
+  /** Commitment to the entropy, as returned by preGenerateEntropy() */
+  commitment: string;
+  /** Commitment to the run's conditions, parameters, integrator and engine */
+  conditionsCommitment: string;
+}
+
+/**
+ * Proof signature scheme: 1 is an HMAC under the server secret, which only
+ * the server can check; 2 is an Ed25519 signature anyone can check with
+ * the signing key's public key.
+ */
+export type ProofVersion = 1 | 2;
+
 /**
  * Entropy proof for verification.
  */
@@ -95,6 +257,119 @@ export interface EntropyProof {
   entropyHash: string;
   signature: string;
   chainIndex?: number;
+  /** Signature scheme (absent means 1, as for proofs issued before versioning) */
+  version?: ProofVersion;
+  /** ID of the Ed25519 key that signed a version 2 proof */
+  keyId?: string;
+}
+
+/**
+ * Public half of a proof signing key, as published to verifiers.
+ */
+export interface ProofKey {
+  /** First 16 hex characters of the SHA-256 of the DER-encoded public key */
+  keyId: string;
+  /** SPKI PEM-encoded Ed25519 public key */
+  publicKey: string;
+  createdAt: number;
+  /** When proofs signed with the key stop verifying; absent while the key is trusted indefinitely */
+  expiresAt?: number;
+}
+
+/**
+ * Options for adding a key to a ProofKeyRegistry.
+ */
+export interface ProofKeyOptions {
+  /** Default: now */
+  createdAt?: number;
+  expiresAt?: number;
+  /** Sign new proofs with the key (default: true) */
+  activate?: boolean;
+}
+
+/**
+ * Chaos quality gate configuration.
+ * Initial conditions whose run fails any enabled check are rejected and
+ * re-seeded before entropy is issued.
+ */
+export interface ChaosGateConfig {
+  enabled: boolean;
+  /** Require negative total energy (a gravitationally bound system) */
+  requireBoundEnergy: boolean;
+  /** Minimum maximal Lyapunov exponent */
+  minLyapunovExponent: number;
+  /** Maximum number of bodies allowed to escape */
+  maxEscapedBodies: number;
+  /** Minimum number of close encounters during the run */
+  minCloseEncounters: number;
+  /** Maximum number of conditions tried before giving up */
+  maxAttempts: number;
+}
+
+/**
+ * Outcome of evaluating a run against the chaos quality gate.
+ */
+export interface ChaosQualityReport {
+  passed: boolean;
+  failures: string[];
+}
+
+/**
+ * Online health tests run on the hex of every output the oracle serves,
+ * after NIST SP 800-90B section 4.4. Each byte of the hex is a sample.
+ */
+export interface HealthTestConfig {
+  enabled: boolean;
+  /** Min-entropy per sample, in bits, that the cutoffs assume (0 to 8) */
+  minEntropy: number;
+  /** Cutoffs are set for a false-positive probability of 2^-alphaExponent per sample */
+  alphaExponent: number;
+  /** Samples per adaptive proportion test window */
+  adaptiveProportionWindow: number;
+  /** Number of recent outputs a served output must differ from */
+  duplicateWindow: number;
+  /** Milliseconds the circuit breaker stays open before letting a request through */
+  cooldown: number;
+}
+
+/**
+ * Online health test.
+ */
+export type HealthTestName = 'repetitionCount' | 'adaptiveProportion' | 'duplicate';
+
+/**
+ * Health circuit breaker state. An open breaker refuses requests until its
+ * cooldown has passed; the next request then half-opens it, letting
+ * requests through until an output passes the tests, which closes it, or
+ * fails them, which reopens it.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * A health test failure.
+ */
+export interface HealthFailure {
+  test: HealthTestName;
+  message: string;
+  timestamp: number;
+}
+
+/**
+ * Health of the oracle's output.
+ */
+export interface HealthStatus {
+  enabled: boolean;
+  state: CircuitState;
+  /** Outputs and samples tested since the oracle started */
+  outputsTested: number;
+  samplesTested: number;
+  /** Test failures since the oracle started */
+  failures: number;
+  lastFailure?: HealthFailure;
+  /** When the breaker last opened */
+  openedAt?: number;
+  repetitionCountCutoff: number;
+  adaptiveProportionCutoff: number;
 }
 
 /**
@@ -108,16 +383,105 @@ export interface OracleConfig {
   hashAlgorithm: string;
   cacheEnabled: boolean;
   cacheTTL: number;
+  /** Entries kept by the default in-memory cache before LRU eviction */
+  cacheMaxEntries: number;
+  chaosGate: ChaosGateConfig;
+  seedStreamVersion: SeedStreamVersion;
+  /** Signature scheme of new proofs */
+  proofVersion: ProofVersion;
+  /** Run simulations on the shared worker-thread pool instead of the event loop */
+  workerThreads: boolean;
+  /** Engine of runs whose parameters do not name one */
+  engine: SimulationEngine;
+  healthTests: HealthTestConfig;
 }
 
+/**
+ * Oracle configuration overrides; unspecified fields keep their defaults.
+ */
+export type OracleConfigOverrides = Partial<Omit<OracleConfig, 'chaosGate' | 'healthTests'>> & {
+  chaosGate?: Partial<ChaosGateConfig>;
+  healthTests?: Partial<HealthTestConfig>;
+};
+
 /**
  * Entropy cache entry.
  */
 export interface CacheEntry {
   entropy: RawEntropyResult;
+  /** Opening of the conditions commitment of pre-generated entropy */
+  opening?: ConditionsOpening;
   createdAt: number;
   expiresAt: number;
-  used: boolean;
+}
+
+/**
+ * Storage for pre-generated entropy, keyed by session ID. Entries are
+ * single-use: take() removes the entry it returns, so two oracles sharing a
+ * store never serve the same entropy twice. Expired entries are never
+ * returned.
+ */
+export interface EntropyCache {
+  /** Returns the entry without consuming it */
+  get(key: string): Promise<CacheEntry | null>;
+  /** Stores an entry until its expiresAt, replacing any entry under the key */
+  set(key: string, entry: CacheEntry): Promise<void>;
+  /** Removes and returns the entry */
+  take(key: string): Promise<CacheEntry | null>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  /** Number of unexpired entries */
+  size(): Promise<number>;
+}
+
+/**
+ * In-memory LRU cache options.
+ */
+export interface MemoryEntropyCacheOptions {
+  /** Entries kept before the least recently used is evicted (default: 10000) */
+  maxEntries?: number;
+  /** Minimum milliseconds between sweeps of expired entries on writes (default: 60000) */
+  sweepInterval?: number;
+}
+
+/**
+ * The subset of Redis commands the key-value cache uses, with the
+ * positional signatures of ioredis, so an ioredis client (or a cluster
+ * client) can be passed as is.
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', milliseconds: number): Promise<unknown>;
+  /** Requires Redis 6.2 or later */
+  getdel(key: string): Promise<string | null>;
+  del(...keys: string[]): Promise<number>;
+  scan(cursor: string, match: 'MATCH', pattern: string, count: 'COUNT', limit: number): Promise<[string, string[]]>;
+}
+
+/**
+ * Key-value cache options.
+ */
+export interface KeyValueEntropyCacheOptions {
+  /** Prefix of every key the cache writes (default: "entropy-oracle:") */
+  prefix?: string;
+}
+
+/**
+ * In-process key-value store options.
+ */
+export interface InMemoryKeyValueStoreOptions {
+  /** Keys kept before the oldest written is evicted (default: 10000) */
+  maxKeys?: number;
+  /** Minimum milliseconds between sweeps of expired keys on writes (default: 60000) */
+  sweepInterval?: number;
+}
+
+/**
+ * Client seed and nonce a revealed response was combined with.
+ */
+export interface RevealedSeed {
+  clientSeed: string;
+  nonce: number;
 }
 
 /**
@@ -130,6 +494,7 @@ export interface OracleStats {
   cacheMisses: number;
   averageSimulationTime: number;
   uptime: number;
+  health: HealthStatus;
 }
 
 /**
@@ -160,3 +525,91 @@ export interface PresetConditions {
   description: string;
   conditions: InitialConditions;
 }
+
+/**
+ * An output fed to the test battery. Outputs without a value are read as
+ * the first 53 bits of their hex over 2^53, the physics engine's mapping.
+ */
+export interface BatterySample {
+  hex: string;
+  value?: number;
+}
+
+/**
+ * Test of the battery.
+ */
+export type BatteryTestName =
+  | 'frequency'
+  | 'blockFrequency'
+  | 'runs'
+  | 'longestRun'
+  | 'serial'
+  | 'approximateEntropy'
+  | 'cumulativeSums'
+  | 'reelChiSquare'
+  | 'kolmogorovSmirnov';
+
+/**
+ * Reels the chi-square test maps outputs onto, as the client library's
+ * calculateReelPositions() does.
+ */
+export interface BatteryReelConfig {
+  reelCount: number;
+  symbolsPerReel: number;
+  /** Client seed of the mapping; each output's index is its nonce */
+  clientSeed: string;
+}
+
+/**
+ * Test battery options.
+ */
+export interface BatteryOptions {
+  /** Significance level each p-value is compared with (default: 0.01) */
+  alpha?: number;
+  /** Block length of the block frequency test (default: the smallest giving under 100 blocks, at least 20) */
+  blockFrequencyBlockLength?: number;
+  /** Pattern length of the serial test (default: floor(log2 n) - 3, at most 16) */
+  serialBlockLength?: number;
+  /** Pattern length of the approximate entropy test (default: floor(log2 n) - 6, at most 10) */
+  approximateEntropyBlockLength?: number;
+  /** Reels of the chi-square test (default: 5 reels of 20 symbols) */
+  reels?: Partial<BatteryReelConfig>;
+}
+
+/**
+ * Statistic and p-values computed by a test of the battery.
+ */
+export interface BatteryStatistic {
+  statistic: number;
+  pValues: number[];
+}
+
+/**
+ * Outcome of one test of the battery.
+ */
+export interface BatteryTestResult {
+  name: BatteryTestName;
+  /** Test statistic; for tests with two p-values, that of the first */
+  statistic?: number;
+  /** Two for the serial and cumulative sums tests, one otherwise */
+  pValues: number[];
+  /** Whether every p-value is at least alpha; false for skipped tests */
+  passed: boolean;
+  /** Set when there was too little data to run the test */
+  skipped: boolean;
+  details: string;
+  parameters: Record<string, number>;
+}
+
+/**
+ * Outcome of a battery run.
+ */
+export interface BatteryReport {
+  createdAt: number;
+  samples: number;
+  bits: number;
+  alpha: number;
+  /** Whether every test ran and passed */
+  passed: boolean;
+  tests: BatteryTestResult[];
+}
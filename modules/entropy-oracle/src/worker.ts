@@ -0,0 +1,16 @@
+/**
+ * Simulation Worker
+ * 
+ * Entry point of the SimulationPool's worker threads: runs each job
+ * message it receives and posts back progress and the outcome.
+ */
+
+import { parentPort } from 'worker_threads';
+import { executeSimulationJob, SimulationJobMessage } from './pool';
+
+if (parentPort) {
+  const port = parentPort;
+  port.on('message', (message: SimulationJobMessage) => {
+    executeSimulationJob(message, reply => port.postMessage(reply));
+  });
+}
@@ -0,0 +1,312 @@
+/**
+ * Statistical Test Battery Unit Tests
+ */
+
+import { createHash, createHmac, randomBytes } from 'crypto';
+import {
+  runEntropyBattery,
+  runOracleBattery,
+  collectOracleSamples,
+  frequencyTest,
+  blockFrequencyTest,
+  runsTest,
+  longestRunTest,
+  serialTest,
+  approximateEntropyTest,
+  cumulativeSumsTest,
+  reelChiSquareTest,
+  kolmogorovSmirnovTest,
+  reelPositions,
+  hexToBits,
+  hexToUnitFloat,
+  formatBatteryJson,
+  formatBatteryHtml,
+  igamc,
+  erfc,
+  normalCdf,
+  chiSquareSurvival,
+  kolmogorovSurvival,
+  createOracle,
+  DEFAULT_BATTERY_REELS,
+  BatteryReport
+} from '../src';
+
+/**
+ * Bits of a string of 0s and 1s.
+ */
+const bitsOf = (text: string) => Uint8Array.from(text, c => Number(c));
+
+/**
+ * A deterministic stream of SHA-256 outputs.
+ */
+const hashStream = (count: number, label = 'battery') =>
+  Array.from({ length: count }, (_, i) => createHash('sha256').update(`${label}:${i}`).digest('hex'));
+
+describe('Statistical Test Battery', () => {
+  // Worked examples of NIST SP 800-22 Rev. 1a, section 2
+  const epsilon100 = bitsOf(
+    '1100100100001111110110101010001000100001011010001100001000110100110001001100011001100010100010111000'
+  );
+  const epsilon128 = bitsOf(
+    '11001100000101010110110001001100111000000000001001001101010100010001001111010110100000001101011111001100111001101101100010110010'
+  );
+
+  describe('statistical functions', () => {
+    it('should match reference values', () => {
+      expect(erfc(0)).toBe(1);
+      expect(erfc(1)).toBeCloseTo(0.157299207, 8);
+      expect(erfc(-1)).toBeCloseTo(1.842700793, 8);
+      expect(normalCdf(1.959963985)).toBeCloseTo(0.975, 8);
+      expect(chiSquareSurvival(3.841458821, 1)).toBeCloseTo(0.05, 8);
+      expect(chiSquareSurvival(18.307038, 10)).toBeCloseTo(0.05, 6);
+      expect(igamc(2, 0)).toBe(1);
+      expect(igamc(2, Infinity)).toBe(0);
+      expect(kolmogorovSurvival(1.358099)).toBeCloseTo(0.05, 5);
+      expect(kolmogorovSurvival(0.01)).toBe(1);
+    });
+
+    it('should reject arguments outside the domain', () => {
+      expect(() => igamc(0, 1)).toThrow('igamc is undefined for a = 0, x = 1');
+      expect(() => igamc(1, -1)).toThrow('igamc is undefined for a = 1, x = -1');
+    });
+  });
+
+  describe('SP 800-22 tests', () => {
+    it('should reproduce the frequency test example', () => {
+      expect(frequencyTest(epsilon100).pValues[0]).toBeCloseTo(0.109599, 6);
+      expect(frequencyTest(bitsOf('1011010101')).pValues[0]).toBeCloseTo(0.527089, 6);
+    });
+
+    it('should reproduce the block frequency test example', () => {
+      expect(blockFrequencyTest(epsilon100, 10).pValues[0]).toBeCloseTo(0.706438, 6);
+      expect(blockFrequencyTest(bitsOf('0110011010'), 3).pValues[0]).toBeCloseTo(0.801252, 6);
+    });
+
+    it('should reproduce the runs test example', () => {
+      expect(runsTest(epsilon100)).toEqual({ statistic: 52, pValues: [expect.closeTo(0.500798, 6)] });
+    });
+
+    it('should fail the runs test outright when ones and zeros are unbalanced', () => {
+      expect(runsTest(bitsOf('1'.repeat(80) + '0'.repeat(20))).pValues).toEqual([0]);
+    });
+
+    it('should reproduce the longest run test example', () => {
+      const { statistic, pValues } = longestRunTest(epsilon128);
+
+      expect(statistic).toBeCloseTo(4.882605, 5);
+      // The publication gives 0.180609; the closed form of Q(3/2, χ²/2) at its
+      // χ² is 0.180598
+      expect(pValues[0]).toBeCloseTo(0.180598, 6);
+      expect(() => longestRunTest(epsilon100)).toThrow('The longest run test needs at least 128 bits, got 100');
+    });
+
+    it('should pick the longest run block length by input length', () => {
+      const bits = hexToBits(hashStream(30).join(''));
+
+      expect(bits.length).toBeGreaterThanOrEqual(6272);
+      expect(longestRunTest(bits).pValues[0]).toBeGreaterThan(0.01);
+    });
+
+    it('should reproduce the serial test example', () => {
+      const { pValues } = serialTest(bitsOf('0011011101'), 3);
+
+      expect(pValues[0]).toBeCloseTo(0.808792, 6);
+      expect(pValues[1]).toBeCloseTo(0.670320, 6);
+    });
+
+    it('should reproduce the approximate entropy test examples', () => {
+      expect(approximateEntropyTest(bitsOf('0100110101'), 3).pValues[0]).toBeCloseTo(0.261961, 6);
+      expect(approximateEntropyTest(epsilon100, 2).pValues[0]).toBeCloseTo(0.235301, 6);
+    });
+
+    it('should reproduce the cumulative sums test examples', () => {
+      expect(cumulativeSumsTest(bitsOf('1011010111')).pValues[0]).toBeCloseTo(0.4116588, 6);
+
+      const { statistic, pValues } = cumulativeSumsTest(epsilon100);
+      expect(statistic).toBe(16);
+      expect(pValues[0]).toBeCloseTo(0.219194, 6);
+      expect(pValues[1]).toBeCloseTo(0.114866, 6);
+    });
+  });
+
+  describe('output tests', () => {
+    it('should map outputs to reel positions as the client library does', () => {
+      const hex = hashStream(1)[0];
+      const reels = { reelCount: 3, symbolsPerReel: 7, clientSeed: 'client' };
+      const expected = [0, 1, 2].map(reel =>
+        parseInt(createHmac('sha256', hex).update(`client:4:${reel}`).digest('hex').substring(0, 8), 16) % 7
+      );
+
+      expect(reelPositions(hex, reels, 4)).toEqual(expected);
+    });
+
+    it('should sum the chi-square statistics of every reel', () => {
+      const hexes = hashStream(400);
+      const counts = Array.from({ length: 5 }, () => new Array(20).fill(0));
+      hexes.forEach((hex, nonce) => reelPositions(hex, DEFAULT_BATTERY_REELS, nonce).forEach((p, reel) => counts[reel][p]++));
+      const expected = counts.flat().reduce((sum, count) => sum + (count - 20) ** 2 / 20, 0);
+
+      const { statistic, pValues } = reelChiSquareTest(hexes, DEFAULT_BATTERY_REELS);
+
+      expect(statistic).toBeCloseTo(expected, 10);
+      expect(pValues[0]).toBeCloseTo(chiSquareSurvival(expected, 95), 10);
+      expect(pValues[0]).toBeGreaterThan(0.01);
+    });
+
+    it('should compare floats with the uniform distribution', () => {
+      const uniform = Array.from({ length: 200 }, (_, i) => (i + 0.5) / 200);
+      const skewed = uniform.map(x => x * x);
+
+      expect(kolmogorovSmirnovTest(uniform)).toEqual({ statistic: expect.closeTo(0.0025, 10), pValues: [1] });
+      expect(kolmogorovSmirnovTest(skewed).pValues[0]).toBeLessThan(1e-6);
+    });
+
+    it('should read hex as bits and floats', () => {
+      expect(Array.from(hexToBits('a5'))).toEqual([1, 0, 1, 0, 0, 1, 0, 1]);
+      expect(() => hexToBits('xyz')).toThrow('Invalid hex "xyz"');
+      expect(hexToUnitFloat('80000000000000ff')).toBe(0.5);
+      expect(hexToUnitFloat('fffffffffffff8')).toBe(1 - 2 ** -53);
+      expect(() => hexToUnitFloat('abc')).toThrow('At least 14 hex digits are needed for a float, got "abc"');
+    });
+  });
+
+  describe('runEntropyBattery', () => {
+    it('should pass a stream of hash outputs', () => {
+      const report = runEntropyBattery(hashStream(500));
+
+      expect(report).toMatchObject({ samples: 500, bits: 128000, alpha: 0.01, passed: true });
+      expect(report.tests.map(test => test.name)).toEqual([
+        'frequency', 'blockFrequency', 'runs', 'longestRun', 'serial',
+        'approximateEntropy', 'cumulativeSums', 'reelChiSquare', 'kolmogorovSmirnov'
+      ]);
+      expect(report.tests.every(test => test.passed && !test.skipped)).toBe(true);
+      expect(report.tests.find(test => test.name === 'serial')).toMatchObject({
+        parameters: { blockLength: 13 },
+        pValues: [expect.any(Number), expect.any(Number)]
+      });
+      expect(report.tests.find(test => test.name === 'blockFrequency')!.parameters).toEqual({ blockLength: 1293 });
+    });
+
+    it('should fail a biased stream', () => {
+      // Clearing one bit in every byte skews the balance of ones and zeros
+      const biased = hashStream(500).map(hex => Buffer.from(Buffer.from(hex, 'hex').map(byte => byte & 0xfe)).toString('hex'));
+      const report = runEntropyBattery(biased);
+      const frequency = report.tests.find(test => test.name === 'frequency')!;
+
+      expect(report.passed).toBe(false);
+      expect(frequency.passed).toBe(false);
+      expect(frequency.details).toBe(`p-value ${frequency.pValues[0]} is below 0.01`);
+    });
+
+    it('should use sample values for the float test', () => {
+      const samples = hashStream(50).map(hex => ({ hex, value: 0.5 }));
+      const report = runEntropyBattery(samples);
+
+      expect(report.tests.find(test => test.name === 'kolmogorovSmirnov')!.passed).toBe(false);
+    });
+
+    it('should skip tests that need more data', () => {
+      const report = runEntropyBattery(hashStream(2), { serialBlockLength: 8 });
+
+      expect(report.bits).toBe(512);
+      expect(report.tests.filter(test => !test.skipped).map(test => test.name)).toEqual([
+        'frequency', 'blockFrequency', 'runs', 'longestRun', 'approximateEntropy', 'cumulativeSums'
+      ]);
+      expect(report.tests.find(test => test.name === 'serial')!.details).toBe('Needs at least 2048 bits, got 512');
+      expect(report.tests.find(test => test.name === 'reelChiSquare')).toMatchObject({
+        skipped: true,
+        passed: false,
+        pValues: [],
+        details: 'Needs at least 100 samples, got 2'
+      });
+      expect(report.tests.find(test => test.name === 'kolmogorovSmirnov')!.details).toBe('Needs at least 10 samples, got 2');
+      expect(report.passed).toBe(false);
+    });
+
+    it('should not pass an empty stream', () => {
+      const report = runEntropyBattery([]);
+
+      expect(report.passed).toBe(false);
+      expect(report.tests.every(test => test.skipped)).toBe(true);
+    });
+
+    it('should apply the configured alpha and test parameters', () => {
+      const report = runEntropyBattery(hashStream(100), {
+        alpha: 0.5,
+        blockFrequencyBlockLength: 128,
+        serialBlockLength: 4,
+        approximateEntropyBlockLength: 3,
+        reels: { symbolsPerReel: 10 }
+      });
+
+      expect(report.alpha).toBe(0.5);
+      expect(report.tests.map(test => test.parameters)).toEqual([
+        {}, { blockLength: 128 }, {}, {}, { blockLength: 4 }, { blockLength: 3 }, {},
+        { reelCount: 5, symbolsPerReel: 10 }, {}
+      ]);
+      expect(report.tests.every(test => test.passed === test.pValues.every(p => p >= 0.5))).toBe(true);
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => runEntropyBattery(['zz'])).toThrow('Invalid hex');
+      expect(() => runEntropyBattery([{ hex: hashStream(1)[0], value: 1 }])).toThrow('Sample values must be in [0, 1), got 1');
+      expect(() => runEntropyBattery([], { alpha: 1 })).toThrow('alpha must be in (0, 1), got 1');
+      expect(() => runEntropyBattery([], { reels: { reelCount: 0 } })).toThrow('reelCount must be a positive integer, got 0');
+      expect(() => runEntropyBattery([], { reels: { symbolsPerReel: 1 } }))
+        .toThrow('symbolsPerReel must be an integer of at least 2, got 1');
+      expect(() => runEntropyBattery([], { blockFrequencyBlockLength: 0 }))
+        .toThrow('blockFrequencyBlockLength must be a positive integer, got 0');
+      expect(() => runEntropyBattery([], { serialBlockLength: 25 }))
+        .toThrow('serialBlockLength must be an integer from 2 to 24, got 25');
+      expect(() => runEntropyBattery([], { approximateEntropyBlockLength: 0 }))
+        .toThrow('approximateEntropyBlockLength must be an integer from 1 to 24, got 0');
+    });
+  });
+
+  describe('EntropyOracle', () => {
+    it('should collect unseeded outputs and test them', async () => {
+      const oracle = createOracle({ defaultDuration: 0.2, defaultTimeStep: 0.01, workerThreads: false });
+      const samples = await collectOracleSamples(oracle, 3, 'collect');
+
+      expect(samples).toHaveLength(3);
+      expect(new Set(samples.map(sample => sample.hex)).size).toBe(3);
+
+      const report = await runOracleBattery(oracle, 12);
+      expect(report.samples).toBe(12);
+      expect(report.tests.find(test => test.name === 'frequency')!.skipped).toBe(false);
+      expect(oracle.getStats().totalRequests).toBe(15);
+    });
+  });
+
+  describe('reports', () => {
+    const report: BatteryReport = {
+      ...runEntropyBattery([randomBytes(32).toString('hex'), randomBytes(32).toString('hex')]),
+      createdAt: Date.UTC(2026, 0, 2, 3, 4, 5)
+    };
+
+    it('should write JSON that parses back to the report', () => {
+      expect(JSON.parse(formatBatteryJson(report))).toEqual(report);
+    });
+
+    it('should write a standalone HTML page', () => {
+      const html = formatBatteryHtml(report, 'Lab <submission>');
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('<title>Lab &lt;submission&gt;</title>');
+      expect(html).toContain('2026-01-02T03:04:05.000Z');
+      expect(html).toContain('Frequency (monobit)');
+      expect(html).toContain('Kolmogorov–Smirnov on floats');
+      expect(html).toContain('<td class="skipped">SKIPPED</td>');
+      expect(html).toContain('<td class="failed">FAILED</td>');
+      expect(html).not.toMatch(/<(script|link)\b/);
+    });
+
+    it('should show p-values and results of tests that ran', () => {
+      const html = formatBatteryHtml(runEntropyBattery(hashStream(500)));
+
+      expect(html).toContain('<td class="passed">PASSED</td>');
+      expect(html).not.toContain('FAILED');
+      expect(html).toContain('blockLength = 13');
+    });
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Entropy Cache Unit Tests
+ */
+
+import {
+  MemoryEntropyCache,
+  KeyValueEntropyCache,
+  InMemoryKeyValueStore,
+  DEFAULT_CACHE_KEY_PREFIX,
+  CacheEntry,
+  EntropyCache,
+  createOracle,
+  runSimulation,
+  ProofKeyRegistry
+} from '../src';
+
+describe('Entropy Caches', () => {
+  const entropy = runSimulation({ duration: 0.1, timeStep: 0.01 });
+
+  const entry = (ttl = 60000): CacheEntry => {
+    const now = Date.now();
+    return { entropy, createdAt: now, expiresAt: now + ttl };
+  };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const sharedBehaviour = (create: () => EntropyCache) => {
+    it('should store and return entries', async () => {
+      const cache = create();
+      const stored = entry();
+      await cache.set('session', stored);
+
+      expect(await cache.get('session')).toEqual(stored);
+      expect(await cache.get('other')).toBeNull();
+      expect(await cache.size()).toBe(1);
+    });
+
+    it('should serve an entry to take() only once', async () => {
+      const cache = create();
+      await cache.set('session', entry());
+
+      expect((await cache.take('session'))!.entropy).toEqual(entropy);
+      expect(await cache.take('session')).toBeNull();
+      expect(await cache.size()).toBe(0);
+    });
+
+    it('should not return expired entries', async () => {
+      jest.useFakeTimers({ now: 1000000 });
+      const cache = create();
+      await cache.set('short', entry(100));
+      await cache.set('long', entry(1000));
+
+      jest.setSystemTime(1000500);
+
+      expect(await cache.get('short')).toBeNull();
+      expect(await cache.take('short')).toBeNull();
+      expect(await cache.size()).toBe(1);
+      expect(await cache.get('long')).not.toBeNull();
+    });
+
+    it('should delete and clear entries', async () => {
+      const cache = create();
+      await cache.set('a', entry());
+      await cache.set('b', entry());
+      await cache.set('c', entry());
+
+      await cache.delete('a');
+      expect(await cache.get('a')).toBeNull();
+      expect(await cache.size()).toBe(2);
+
+      await cache.clear();
+      expect(await cache.size()).toBe(0);
+    });
+  };
+
+  describe('MemoryEntropyCache', () => {
+    sharedBehaviour(() => new MemoryEntropyCache());
+
+    it('should evict the least recently used entry when full', async () => {
+      const cache = new MemoryEntropyCache({ maxEntries: 2 });
+      await cache.set('a', entry());
+      await cache.set('b', entry());
+      await cache.get('a');
+      await cache.set('c', entry());
+
+      expect(await cache.get('a')).not.toBeNull();
+      expect(await cache.get('b')).toBeNull();
+      expect(await cache.get('c')).not.toBeNull();
+      expect(cache.getEvictions()).toBe(1);
+    });
+
+    it('should sweep expired entries on writes once the sweep interval has passed', async () => {
+      jest.useFakeTimers({ now: 1000000 });
+      const cache = new MemoryEntropyCache({ sweepInterval: 1000 });
+      await cache.set('a', entry(100));
+      await cache.set('b', entry(100));
+
+      jest.setSystemTime(1000500);
+      await cache.set('c', entry());
+      expect(cache.sweep()).toBe(2);
+
+      await cache.set('d', entry(100));
+      jest.setSystemTime(1002000);
+      const sweep = jest.spyOn(cache, 'sweep');
+      await cache.set('e', entry());
+
+      expect(sweep).toHaveBeenCalledTimes(1);
+      expect(await cache.get('d')).toBeNull();
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => new MemoryEntropyCache({ maxEntries: 0 })).toThrow('maxEntries must be a positive integer, got 0');
+      expect(() => new MemoryEntropyCache({ sweepInterval: -1 })).toThrow('sweepInterval must be non-negative, got -1');
+    });
+  });
+
+  describe('KeyValueEntropyCache', () => {
+    sharedBehaviour(() => new KeyValueEntropyCache(new InMemoryKeyValueStore()));
+
+    it('should store entries as JSON under the prefix with a TTL', async () => {
+      jest.useFakeTimers({ now: 1000000 });
+      const store = new InMemoryKeyValueStore();
+      const set = jest.spyOn(store, 'set');
+      const stored = entry(5000);
+      await new KeyValueEntropyCache(store).set('session', stored);
+
+      expect(set).toHaveBeenCalledWith(`${DEFAULT_CACHE_KEY_PREFIX}session`, JSON.stringify(stored), 'PX', 5000);
+    });
+
+    it('should keep caches with different prefixes apart', async () => {
+      const store = new InMemoryKeyValueStore();
+      const blue = new KeyValueEntropyCache(store, { prefix: 'blue*:' });
+      const green = new KeyValueEntropyCache(store, { prefix: 'green:' });
+      await blue.set('session', entry());
+      await green.set('session', entry());
+      await green.set('other', entry());
+      await store.set('blue-unrelated', 'x', 'PX', 60000);
+
+      expect(await blue.size()).toBe(1);
+      await green.clear();
+      expect(await green.size()).toBe(0);
+      expect(await blue.get('session')).not.toBeNull();
+      expect(await store.get('blue-unrelated')).toBe('x');
+    });
+
+    it('should not store entries that have already expired', async () => {
+      const store = new InMemoryKeyValueStore();
+      const cache = new KeyValueEntropyCache(store);
+      await cache.set('session', entry());
+      await cache.set('session', entry(-1));
+
+      expect(await cache.get('session')).toBeNull();
+      expect(await store.get(`${DEFAULT_CACHE_KEY_PREFIX}session`)).toBeNull();
+    });
+
+    it('should follow a SCAN cursor across batches', async () => {
+      const store = new InMemoryKeyValueStore();
+      const cache = new KeyValueEntropyCache(store);
+      await cache.set('a', entry());
+      await cache.set('b', entry());
+      const scan = jest.spyOn(store, 'scan')
+        .mockResolvedValueOnce(['7', [`${DEFAULT_CACHE_KEY_PREFIX}a`]])
+        .mockResolvedValueOnce(['0', [`${DEFAULT_CACHE_KEY_PREFIX}b`]]);
+
+      expect(await cache.size()).toBe(2);
+      expect(scan).toHaveBeenLastCalledWith('7', 'MATCH', `${DEFAULT_CACHE_KEY_PREFIX}*`, 'COUNT', 100);
+    });
+  });
+
+  describe('InMemoryKeyValueStore', () => {
+    it('should reject writes without a positive TTL', async () => {
+      await expect(new InMemoryKeyValueStore().set('key', 'value', 'PX', 0))
+        .rejects.toThrow('ERR invalid expire time');
+    });
+
+    it('should report how many live keys were deleted', async () => {
+      const store = new InMemoryKeyValueStore();
+      await store.set('a', '1', 'PX', 60000);
+
+      expect(await store.del('a', 'missing')).toBe(1);
+      expect(await store.getdel('a')).toBeNull();
+    });
+
+    it('should evict the oldest written key when full', async () => {
+      const store = new InMemoryKeyValueStore({ maxKeys: 2 });
+      await store.set('a', '1', 'PX', 60000);
+      await store.set('b', '2', 'PX', 60000);
+      await store.set('a', '3', 'PX', 60000);
+      await store.set('c', '4', 'PX', 60000);
+
+      expect(await store.get('a')).toBe('3');
+      expect(await store.get('b')).toBeNull();
+      expect(await store.get('c')).toBe('4');
+      expect(store.getEvictions()).toBe(1);
+    });
+
+    it('should sweep expired keys on writes once the sweep interval has passed', async () => {
+      jest.useFakeTimers({ now: 1000000 });
+      const store = new InMemoryKeyValueStore({ sweepInterval: 1000 });
+      await store.set('a', '1', 'PX', 100);
+      await store.set('b', '2', 'PX', 100);
+
+      jest.setSystemTime(1000500);
+      await store.set('c', '3', 'PX', 60000);
+      expect(store.sweep()).toBe(2);
+
+      await store.set('d', '4', 'PX', 100);
+      jest.setSystemTime(1002000);
+      const sweep = jest.spyOn(store, 'sweep');
+      await store.set('e', '5', 'PX', 60000);
+
+      expect(sweep).toHaveBeenCalledTimes(1);
+      expect((await store.scan('0', 'MATCH', '*', 'COUNT', 100))[1]).toEqual(['c', 'e']);
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => new InMemoryKeyValueStore({ maxKeys: 0 })).toThrow('maxKeys must be a positive integer, got 0');
+      expect(() => new InMemoryKeyValueStore({ sweepInterval: -1 })).toThrow('sweepInterval must be non-negative, got -1');
+    });
+  });
+
+  describe('EntropyOracle with a shared store', () => {
+    it('should serve entropy pre-generated by another oracle exactly once', async () => {
+      const store = new InMemoryKeyValueStore();
+      const config = { defaultDuration: 0.5, defaultTimeStep: 0.01, workerThreads: false };
+      const keys = new ProofKeyRegistry();
+      keys.generateKey();
+      const first = createOracle(config, 'shared-secret', undefined, new KeyValueEntropyCache(store), keys);
+      const second = createOracle(config, 'shared-secret', undefined, new KeyValueEntropyCache(store), keys);
+
+      const commitment = await first.preGenerateEntropy('shared-session');
+      const response = await second.requestEntropy({ sessionId: 'shared-session' });
+
+      expect(response.commitment).toBe(commitment);
+      expect(second.getStats().cacheHits).toBe(1);
+      expect(first.verifyProof(response.entropy, response.proof, response.commitment).valid).toBe(true);
+      await expect(first.revealEntropy('shared-session', 'seed', 1))
+        .rejects.toThrow('No pre-generated entropy found for session');
+    });
+
+    it('should bound the default in-memory cache', async () => {
+      const oracle = createOracle({ defaultDuration: 0.1, defaultTimeStep: 0.01, workerThreads: false, cacheMaxEntries: 2 });
+      await oracle.preGenerateEntropy('a');
+      await oracle.preGenerateEntropy('b');
+      await oracle.preGenerateEntropy('c');
+
+      expect(await oracle.getCacheSize()).toBe(2);
+      await expect(oracle.revealEntropy('a', 'seed', 1)).rejects.toThrow('No pre-generated entropy found for session');
+    });
+
+    it('should bypass the cache when caching is disabled', async () => {
+      const oracle = createOracle({ defaultDuration: 0.1, defaultTimeStep: 0.01, workerThreads: false, cacheEnabled: false });
+      await oracle.preGenerateEntropy('session');
+
+      expect(await oracle.getCacheSize()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Conditions Commitment Unit Tests
+ */
+
+import { createHash } from 'crypto';
+import {
+  CONDITIONS_COMMITMENT_LABEL,
+  INTEGRATOR_VERSIONS,
+  canonicalJson,
+  createConditionsOpening,
+  computeConditionsCommitment,
+  checkConditionsCommitment,
+  createOracle,
+  getPresetConditions,
+  generateRandomConditions,
+  ConditionsOpening,
+  EntropyOracle,
+  InMemoryKeyValueStore,
+  KeyValueEntropyCache
+} from '../src';
+
+describe('Conditions Commitments', () => {
+  const conditions = { ...getPresetConditions('chaotic')!, gravitationalConstant: 1, softeningParameter: 0.01 };
+  const params = { duration: 0.5, timeStep: 0.01 };
+
+  describe('canonicalJson', () => {
+    it('should sort object keys at every depth and drop undefined members', () => {
+      expect(canonicalJson({ b: 1, a: { d: [3, { f: true, e: null }], c: 'x' }, u: undefined }))
+        .toBe('{"a":{"c":"x","d":[3,{"e":null,"f":true}]},"b":1}');
+    });
+
+    it('should encode numbers in their shortest round-trip form', () => {
+      expect(canonicalJson([0.1 + 0.2, -0, 1e21, 5e-7])).toBe('[0.30000000000000004,0,1e+21,5e-7]');
+    });
+
+    it('should reject values JSON cannot represent', () => {
+      expect(() => canonicalJson({ x: NaN })).toThrow('Cannot encode non-finite number NaN');
+      expect(() => canonicalJson([Infinity])).toThrow('Cannot encode non-finite number Infinity');
+      expect(() => canonicalJson(() => 1)).toThrow('Cannot encode function value');
+    });
+  });
+
+  describe('createConditionsOpening', () => {
+    it('should record the engine and its integrator version apart from the parameters', () => {
+      const opening = createConditionsOpening(
+        conditions,
+        { ...params, engine: 'oracle-v1', initialConditions: conditions, simulationId: 'abc' },
+        'oracle-v1'
+      );
+
+      expect(opening.salt).toMatch(/^[0-9a-f]{64}$/);
+      expect(opening).toMatchObject({ engine: 'oracle-v1', integrator: INTEGRATOR_VERSIONS['oracle-v1'] });
+      expect(opening.initialConditions).toBe(conditions);
+      expect(opening.params).toEqual(params);
+    });
+
+    it('should use a fresh salt for each opening', () => {
+      const first = createConditionsOpening(conditions, params, 'physics-engine-v1');
+      const second = createConditionsOpening(conditions, params, 'physics-engine-v1');
+
+      expect(first.salt).not.toBe(second.salt);
+      expect(computeConditionsCommitment(first)).not.toBe(computeConditionsCommitment(second));
+    });
+  });
+
+  describe('computeConditionsCommitment', () => {
+    it('should hash the label and the canonical encoding', () => {
+      const opening = createConditionsOpening(conditions, params, 'physics-engine-v1', 'ab'.repeat(32));
+      const expected = createHash('sha256')
+        .update(`${CONDITIONS_COMMITMENT_LABEL}\n${canonicalJson(opening)}`)
+        .digest('hex');
+
+      expect(computeConditionsCommitment(opening)).toBe(expected);
+    });
+
+    it('should not depend on key order', () => {
+      const opening = createConditionsOpening(conditions, params, 'physics-engine-v1', 'ab'.repeat(32));
+      const reordered: ConditionsOpening = {
+        params: { timeStep: params.timeStep, duration: params.duration },
+        initialConditions: opening.initialConditions,
+        integrator: opening.integrator,
+        engine: opening.engine,
+        salt: opening.salt
+      };
+
+      expect(computeConditionsCommitment(reordered)).toBe(computeConditionsCommitment(opening));
+    });
+  });
+
+  describe('checkConditionsCommitment', () => {
+    const opening = createConditionsOpening(conditions, params, 'physics-engine-v1');
+    const commitment = computeConditionsCommitment(opening);
+
+    it('should pass for the committed opening', () => {
+      expect(checkConditionsCommitment(commitment, opening)).toEqual({
+        name: 'conditionsCommitment',
+        passed: true,
+        expected: commitment,
+        actual: commitment,
+        details: 'Conditions commitment matches'
+      });
+    });
+
+    it('should fail when any part of the opening changed', () => {
+      const bodies = opening.initialConditions.bodies.map((b, i) =>
+        i === 0 ? { ...b, position: { ...b.position, x: b.position.x + 1e-12 } } : b
+      );
+
+      const changed: ConditionsOpening[] = [
+        { ...opening, initialConditions: { ...opening.initialConditions, bodies } },
+        { ...opening, initialConditions: { ...opening.initialConditions, softeningParameter: 0.02 } },
+        { ...opening, params: { ...opening.params, duration: 1 } },
+        { ...opening, integrator: 'rk4-v2' },
+        { ...opening, engine: 'oracle-v1' },
+        { ...opening, salt: '00'.repeat(32) }
+      ];
+
+      for (const other of changed) {
+        expect(checkConditionsCommitment(commitment, other)).toMatchObject({
+          passed: false,
+          details: 'Conditions commitment mismatch'
+        });
+      }
+    });
+
+    it('should fail openings that cannot be encoded', () => {
+      const broken = { ...opening, params: { ...opening.params, duration: NaN } };
+
+      expect(checkConditionsCommitment(commitment, broken)).toEqual({
+        name: 'conditionsCommitment',
+        passed: false,
+        details: 'Opening cannot be encoded: Cannot encode non-finite number NaN'
+      });
+    });
+  });
+
+  describe('EntropyOracle', () => {
+    let oracle: EntropyOracle;
+
+    beforeEach(() => {
+      oracle = createOracle({ defaultDuration: 0.5, defaultTimeStep: 0.01, workerThreads: false });
+    });
+
+    it('should open the published commitment when revealing entropy', async () => {
+      const { commitment, conditionsCommitment } = await oracle.preGenerateCommitments('two-phase');
+      const response = await oracle.revealEntropy('two-phase', 'player-seed', 3);
+      const opening = response.opening!;
+
+      expect(commitment).toMatch(/^[0-9a-f]{64}$/);
+      expect(checkConditionsCommitment(conditionsCommitment, opening).passed).toBe(true);
+      expect(opening).toMatchObject({
+        engine: 'physics-engine-v1',
+        integrator: INTEGRATOR_VERSIONS['physics-engine-v1'],
+        params: { duration: 0.5, timeStep: 0.01 }
+      });
+      expect(opening.initialConditions.gravitationalConstant).toBe(1);
+      expect(opening.initialConditions.softeningParameter).toBe(0.01);
+    });
+
+    it('should replay the revealed conditions to the revealed entropy', async () => {
+      const { conditionsCommitment } = await oracle.preGenerateCommitments('replay-opening');
+      const response = await oracle.revealEntropy('replay-opening', 'player-seed', 3);
+      const { initialConditions, params: runParams, engine } = response.opening!;
+
+      expect(checkConditionsCommitment(conditionsCommitment, response.opening!).passed).toBe(true);
+      expect(oracle.replayVerify(
+        response, initialConditions, { ...runParams, engine }, { clientSeed: 'player-seed', nonce: 3 }, conditionsCommitment
+      ).valid).toBe(true);
+    });
+
+    it('should reject a tampered opening when replaying', async () => {
+      const { conditionsCommitment } = await oracle.preGenerateCommitments('tampered-opening');
+      const response = await oracle.revealEntropy('tampered-opening', 'player-seed', 3);
+      const { initialConditions, params: runParams, engine } = response.opening!;
+      const reveal = { clientSeed: 'player-seed', nonce: 3 };
+      const tampered = { ...response, opening: { ...response.opening!, salt: '00'.repeat(32) } };
+
+      const result = oracle.replayVerify(tampered, initialConditions, { ...runParams, engine }, reveal, conditionsCommitment);
+
+      expect(result.valid).toBe(false);
+      expect(result.checks.filter(c => !c.passed).map(c => c.name)).toEqual(['conditionsCommitment']);
+      expect(result.error).toBe(`conditionsCommitment: expected ${computeConditionsCommitment(tampered.opening)}, got ${conditionsCommitment}`);
+    });
+
+    it('should reject an opening that does not describe the replayed run', async () => {
+      const { conditionsCommitment } = await oracle.preGenerateCommitments('other-run');
+      const response = await oracle.revealEntropy('other-run', 'player-seed', 3);
+      const { params: runParams, engine } = response.opening!;
+
+      const result = oracle.replayVerify(
+        response, generateRandomConditions('other'), { ...runParams, engine }, { clientSeed: 'player-seed', nonce: 3 }, conditionsCommitment
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.checks.find(c => c.name === 'opening')?.passed).toBe(false);
+      expect(result.checks.find(c => c.name === 'conditionsCommitment')?.passed).toBe(true);
+    });
+
+    it('should reject an opening without the published commitment', async () => {
+      await oracle.preGenerateCommitments('no-commitment');
+      const response = await oracle.revealEntropy('no-commitment', 'player-seed', 3);
+      const { initialConditions, params: runParams, engine } = response.opening!;
+
+      const result = oracle.replayVerify(response, initialConditions, { ...runParams, engine }, { clientSeed: 'player-seed', nonce: 3 });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('conditionsCommitment: No conditions commitment to check the opening against');
+    });
+
+    it('should commit to oracle-v1 runs under their engine tag', async () => {
+      const legacy = createOracle({ defaultDuration: 0.5, defaultTimeStep: 0.01, workerThreads: false, engine: 'oracle-v1' });
+      const { conditionsCommitment } = await legacy.preGenerateCommitments('legacy-opening');
+      const response = await legacy.revealEntropy('legacy-opening', 'seed', 1);
+      const { initialConditions, params: runParams, engine } = response.opening!;
+
+      expect(engine).toBe('oracle-v1');
+      expect(checkConditionsCommitment(conditionsCommitment, response.opening!).passed).toBe(true);
+      expect(legacy.replayVerify(
+        response, initialConditions, { ...runParams, engine }, { clientSeed: 'seed', nonce: 1 }, conditionsCommitment
+      ).valid).toBe(true);
+    });
+
+    it('should keep returning the entropy commitment from preGenerateEntropy', async () => {
+      const commitment = await oracle.preGenerateEntropy('entropy-only');
+      const response = await oracle.requestEntropy({ sessionId: 'entropy-only' });
+
+      expect(response.commitment).toBe(commitment);
+      expect(response.opening).toBeDefined();
+    });
+
+    it('should not attach an opening to freshly simulated entropy', async () => {
+      const response = await oracle.requestEntropy({ sessionId: 'fresh' });
+
+      expect(response.opening).toBeUndefined();
+    });
+
+    it('should carry the opening through a shared store', async () => {
+      const store = new InMemoryKeyValueStore();
+      const config = { defaultDuration: 0.5, defaultTimeStep: 0.01, workerThreads: false };
+      const first = createOracle(config, undefined, undefined, new KeyValueEntropyCache(store));
+      const second = createOracle(config, undefined, undefined, new KeyValueEntropyCache(store));
+
+      const { conditionsCommitment } = await first.preGenerateCommitments('shared-opening');
+      const response = await second.revealEntropy('shared-opening', 'seed', 1);
+
+      expect(checkConditionsCommitment(conditionsCommitment, response.opening!).passed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Output Health Test Unit Tests
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  EntropyHealthMonitor,
+  EntropyHealthError,
+  DEFAULT_HEALTH_TESTS,
+  repetitionCountCutoff,
+  adaptiveProportionCutoff,
+  createOracle,
+  CacheEntry,
+  EntropyCache,
+  MemoryEntropyCache,
+  HealthTestConfig,
+  runSimulation
+} from '../src';
+import * as simulation from '../src/simulation';
+
+describe('Output Health Tests', () => {
+  const random = () => randomBytes(32).toString('hex');
+  const monitor = (overrides: Partial<HealthTestConfig> = {}) =>
+    new EntropyHealthMonitor({ ...DEFAULT_HEALTH_TESTS, ...overrides });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('cutoffs', () => {
+    it('should match the SP 800-90B cutoffs at alpha = 2^-20', () => {
+      expect(repetitionCountCutoff(8, 20)).toBe(4);
+      expect(repetitionCountCutoff(1, 20)).toBe(21);
+      expect(adaptiveProportionCutoff(8, 20, 512)).toBe(13);
+      expect(adaptiveProportionCutoff(1, 20, 1024)).toBe(589);
+    });
+
+    it('should tighten as alpha grows', () => {
+      expect(repetitionCountCutoff(8, 40)).toBe(6);
+      expect(adaptiveProportionCutoff(8, 40, 512)).toBe(19);
+      expect(adaptiveProportionCutoff(8, 40, 512)).toBeGreaterThan(adaptiveProportionCutoff(8, 20, 512));
+    });
+
+    it('should not underflow for low-entropy samples', () => {
+      const cutoff = adaptiveProportionCutoff(0.5, 20, 512);
+
+      expect(cutoff).toBeGreaterThan(512 * Math.SQRT1_2);
+      expect(cutoff).toBeLessThanOrEqual(512);
+    });
+  });
+
+  describe('EntropyHealthMonitor', () => {
+    it('should pass random output', () => {
+      const health = monitor();
+      for (let i = 0; i < 200; i++) {
+        health.check(random());
+      }
+
+      expect(health.getStatus()).toMatchObject({
+        enabled: true,
+        state: 'closed',
+        outputsTested: 200,
+        samplesTested: 6400,
+        failures: 0,
+        repetitionCountCutoff: 6,
+        adaptiveProportionCutoff: 19
+      });
+    });
+
+    it('should fail on a stuck sample', () => {
+      const health = monitor();
+
+      expect(() => health.check('00'.repeat(32))).toThrow(
+        'Health test repetitionCount failed: Sample 0x00 repeated 6 times in a row (cutoff 6)'
+      );
+      expect(health.getStatus()).toMatchObject({ state: 'open', failures: 1, lastFailure: { test: 'repetitionCount' } });
+    });
+
+    it('should count repetitions across outputs', () => {
+      const health = monitor();
+      health.check(`${random().slice(0, 60)}ffff`);
+
+      expect(() => health.check(`ffffffff${random().slice(8)}`)).toThrow(EntropyHealthError);
+    });
+
+    it('should fail when one sample dominates a window', () => {
+      const health = monitor({ adaptiveProportionWindow: 64 });
+      const cutoff = adaptiveProportionCutoff(8, 40, 64);
+
+      // Interleave other samples so the repetition count test stays quiet
+      const hex = Array.from({ length: 32 }, (_, i) => (i % 4 === 0 ? 'ab' : (i + 16).toString(16))).join('');
+      health.check(hex, false);
+
+      let error: unknown;
+      try {
+        health.check(hex, false);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(EntropyHealthError);
+      expect((error as EntropyHealthError).test).toBe('adaptiveProportion');
+      expect((error as Error).message).toBe(
+        `Health test adaptiveProportion failed: Sample 0xab occurred ${cutoff} times in a window of 64 (cutoff ${cutoff})`
+      );
+    });
+
+    it('should fail on an output repeated within the duplicate window', () => {
+      const health = monitor({ duplicateWindow: 2 });
+      const first = random();
+      health.check(first);
+      health.check(random());
+      health.check(random());
+      health.check(first);
+
+      expect(() => health.check(first)).toThrow(
+        'Health test duplicate failed: Output repeats one of the last 2 outputs'
+      );
+    });
+
+    it('should not compare outputs that are not required to be unique', () => {
+      const health = monitor();
+      const output = random();
+      health.check(output, false);
+      health.check(output, false);
+
+      expect(health.getStatus().state).toBe('closed');
+    });
+
+    it('should refuse requests until the cooldown has passed', () => {
+      jest.useFakeTimers({ now: 1000000 });
+      const health = monitor({ cooldown: 5000 });
+      const stuck = random();
+      health.check(stuck);
+      expect(() => health.check(stuck)).toThrow(EntropyHealthError);
+
+      jest.setSystemTime(1004999);
+      expect(() => health.assertAvailable()).toThrow(
+        'Entropy health circuit breaker is open after duplicate failure: Output repeats one of the last 1024 outputs'
+      );
+      expect(() => health.check(random())).toThrow('Entropy health circuit breaker is open');
+
+      jest.setSystemTime(1005000);
+      health.assertAvailable();
+      expect(health.getStatus()).toMatchObject({ state: 'half-open', openedAt: 1000000 });
+
+      // The duplicate window survives the cooldown
+      expect(() => health.check(stuck)).toThrow('Health test duplicate failed');
+      expect(health.getStatus()).toMatchObject({ state: 'open', openedAt: 1005000, failures: 2 });
+
+      jest.setSystemTime(1010000);
+      health.assertAvailable();
+      health.check(random());
+      expect(health.getStatus().state).toBe('closed');
+    });
+
+    it('should close the breaker and forget recent outputs on reset', () => {
+      const health = monitor();
+      const output = random();
+      health.check(output);
+      expect(() => health.check(output)).toThrow(EntropyHealthError);
+
+      health.reset();
+      health.check(output);
+
+      expect(health.getStatus()).toMatchObject({ state: 'closed', failures: 1, outputsTested: 3 });
+    });
+
+    it('should test nothing when disabled', () => {
+      const health = monitor({ enabled: false });
+      health.check('00'.repeat(32));
+      health.assertAvailable();
+
+      expect(health.getStatus()).toMatchObject({ enabled: false, state: 'closed', outputsTested: 0 });
+    });
+
+    it('should reject invalid configurations', () => {
+      expect(() => monitor({ minEntropy: 9 })).toThrow('minEntropy must be in (0, 8], got 9');
+      expect(() => monitor({ alphaExponent: 0 })).toThrow('alphaExponent must be positive, got 0');
+      expect(() => monitor({ adaptiveProportionWindow: 1 }))
+        .toThrow('adaptiveProportionWindow must be an integer of at least 2, got 1');
+      expect(() => monitor({ duplicateWindow: 1.5 })).toThrow('duplicateWindow must be a non-negative integer, got 1.5');
+      expect(() => monitor({ cooldown: -1 })).toThrow('cooldown must be non-negative, got -1');
+    });
+  });
+
+  describe('EntropyOracle', () => {
+    const config = { defaultDuration: 0.5, defaultTimeStep: 0.01, workerThreads: false };
+
+    /**
+     * A cache that keeps serving the first entry it was given.
+     */
+    class StuckCache extends MemoryEntropyCache implements EntropyCache {
+      private stuck: CacheEntry | null = null;
+
+      async set(key: string, entry: CacheEntry): Promise<void> {
+        this.stuck = this.stuck ?? entry;
+      }
+
+      async take(key: string): Promise<CacheEntry | null> {
+        return this.stuck;
+      }
+    }
+
+    it('should test the raw hex of pre-generated entropy', async () => {
+      const oracle = createOracle(config);
+      const stuck = { ...runSimulation({ duration: 0.5, timeStep: 0.01 }), hex: randomBytes(32).toString('hex') };
+      const run = jest.spyOn(simulation, 'runSimulation').mockReturnValue(stuck);
+      await oracle.preGenerateEntropy('first');
+      await oracle.revealEntropy('first', 'seed', 1);
+
+      await expect(oracle.preGenerateEntropy('second')).rejects.toThrow('Health test duplicate failed');
+      await expect(oracle.revealEntropy('first', 'seed', 2)).rejects.toThrow('circuit breaker is open');
+      await expect(oracle.requestEntropy({ sessionId: 'third' }))
+        .rejects.toThrow('Entropy health circuit breaker is open after duplicate failure');
+      run.mockRestore();
+
+      const { health } = oracle.getStats();
+      expect(health).toMatchObject({ state: 'open', failures: 1, outputsTested: 3, lastFailure: { test: 'duplicate' } });
+    });
+
+    it('should trip the breaker when a pre-generated run has stuck bytes', async () => {
+      const oracle = createOracle(config);
+      const stuck = { ...runSimulation({ duration: 0.5, timeStep: 0.01 }), hex: '00'.repeat(32) };
+      const run = jest.spyOn(simulation, 'runSimulation').mockReturnValueOnce(stuck);
+
+      await expect(oracle.preGenerateCommitments('stuck')).rejects.toThrow('Health test repetitionCount failed');
+      await expect(oracle.revealEntropy('stuck', 'seed', 1)).rejects.toThrow(EntropyHealthError);
+      run.mockRestore();
+
+      expect(await oracle.getCacheSize()).toBe(0);
+    });
+
+    it('should test revealed entropy', async () => {
+      const oracle = createOracle(config, undefined, undefined, new StuckCache());
+      await oracle.preGenerateEntropy('stuck');
+      await oracle.revealEntropy('stuck', 'seed', 1);
+
+      await expect(oracle.revealEntropy('stuck', 'seed', 1)).rejects.toThrow('Health test duplicate failed');
+      await expect(oracle.revealEntropy('stuck', 'other-seed', 1)).rejects.toThrow('circuit breaker is open');
+
+      oracle.resetHealth();
+      await expect(oracle.revealEntropy('stuck', 'other-seed', 1)).resolves.toBeDefined();
+    });
+
+    it('should let seeded requests reproduce their entropy', async () => {
+      const oracle = createOracle(config);
+      const first = await oracle.requestEntropy({ sessionId: 'seeded', clientSeed: 'seed', nonce: 1 });
+      const second = await oracle.requestEntropy({ sessionId: 'seeded', clientSeed: 'seed', nonce: 1 });
+
+      expect(second.entropy.hex).toBe(first.entropy.hex);
+      expect(oracle.getStats().health).toMatchObject({ state: 'closed', outputsTested: 2 });
+    });
+
+    it('should keep the health status across resetStats', async () => {
+      const oracle = createOracle({ ...config, healthTests: { duplicateWindow: 0 } });
+      await oracle.requestEntropy({ sessionId: 'counted' });
+      oracle.resetStats();
+
+      expect(oracle.getStats().health.outputsTested).toBe(1);
+      expect(oracle.getConfig().healthTests).toEqual({ ...DEFAULT_HEALTH_TESTS, duplicateWindow: 0 });
+    });
+  });
+});
@@ -10,21 +10,27 @@ import {
   getPresetConditions,
   PRESET_CONDITIONS
 } from '../src';
+import { createTestPool } from './support/pool';
 
 describe('Entropy Oracle Integration', () => {
+  const pool = createTestPool();
   let oracle: EntropyOracle;
 
+  afterAll(async () => {
+    await pool.close();
+  });
+
   beforeEach(() => {
     oracle = createOracle({
       defaultDuration: 1.0,
       defaultTimeStep: 0.01,
       cacheEnabled: true,
       cacheTTL: 60000
-    }, 'integration-test-secret');
+    }, 'integration-test-secret', pool);
   });
 
-  afterEach(() => {
-    oracle.clearCache();
+  afterEach(async () => {
+    await oracle.clearCache();
   });
 
   describe('Complete entropy generation workflow', () => {
@@ -257,7 +263,7 @@ describe('Entropy Oracle Integration', () => {
 
       // Pre-generate
       await oracle.preGenerateEntropy(sessionId);
-      expect(oracle.getCacheSize()).toBe(1);
+      expect(await oracle.getCacheSize()).toBe(1);
 
       // Reveal (uses cache)
       await oracle.revealEntropy(sessionId, 'seed', 1);
@@ -272,11 +278,11 @@ describe('Entropy Oracle Integration', () => {
       await oracle.preGenerateEntropy('clear-1');
       await oracle.preGenerateEntropy('clear-2');
 
-      expect(oracle.getCacheSize()).toBe(2);
+      expect(await oracle.getCacheSize()).toBe(2);
 
-      oracle.clearCache();
+      await oracle.clearCache();
 
-      expect(oracle.getCacheSize()).toBe(0);
+      expect(await oracle.getCacheSize()).toBe(0);
     });
   });
 });
@@ -2,26 +2,38 @@
  * Entropy Oracle Unit Tests
  */
 
+import { readFileSync } from 'fs';
+import { join } from 'path';
 import {
   EntropyOracle,
   createOracle,
-  EntropyRequestOptions
+  EntropyRequestOptions,
+  runSimulation,
+  generateRandomConditions,
+  getPresetConditions
 } from '../src';
+import { createTestPool } from './support/pool';
+import * as simulation from '../src/simulation';
 
 describe('EntropyOracle', () => {
+  const pool = createTestPool();
   let oracle: EntropyOracle;
 
+  afterAll(async () => {
+    await pool.close();
+  });
+
   beforeEach(() => {
     oracle = createOracle({
       defaultDuration: 1.0,
       defaultTimeStep: 0.01,
       cacheEnabled: true,
       cacheTTL: 60000
-    }, 'test-server-secret');
+    }, 'test-server-secret', pool);
   });
 
-  afterEach(() => {
-    oracle.clearCache();
+  afterEach(async () => {
+    await oracle.clearCache();
   });
 
   describe('constructor', () => {
@@ -32,6 +44,7 @@ describe('EntropyOracle', () => {
       expect(config.defaultDuration).toBe(10.0);
       expect(config.defaultTimeStep).toBe(0.001);
       expect(config.cacheEnabled).toBe(true);
+      expect(config.seedStreamVersion).toBe(2);
     });
 
     it('should create oracle with custom config', () => {
@@ -113,7 +126,9 @@ describe('EntropyOracle', () => {
       expect(response.proof.proofId).toMatch(/^[0-9a-f]{32}$/);
       expect(response.proof.simulationHash).toMatch(/^[0-9a-f]{64}$/);
       expect(response.proof.entropyHash).toMatch(/^[0-9a-f]{64}$/);
-      expect(response.proof.signature).toMatch(/^[0-9a-f]{64}$/);
+      expect(response.proof.signature).toMatch(/^[0-9a-f]{128}$/);
+      expect(response.proof.version).toBe(2);
+      expect(response.proof.keyId).toBe(oracle.getKeyRegistry().getActiveKey()!.keyId);
     });
   });
 
@@ -122,7 +137,7 @@ describe('EntropyOracle', () => {
       const commitment = await oracle.preGenerateEntropy('pre-session');
 
       expect(commitment).toMatch(/^[0-9a-f]{64}$/);
-      expect(oracle.getCacheSize()).toBe(1);
+      expect(await oracle.getCacheSize()).toBe(1);
     });
   });
 
@@ -199,6 +214,110 @@ describe('EntropyOracle', () => {
     });
   });
 
+  describe('replayVerify', () => {
+    const params = { duration: 1.0, timeStep: 0.01 };
+
+    const seededRequest = async () => {
+      const response = await oracle.requestEntropy({ sessionId: 'replay', clientSeed: 'client', nonce: 3 });
+      return { response, conditions: generateRandomConditions('replay:client:3') };
+    };
+
+    it('should confirm entropy produced by the physics', async () => {
+      const { response, conditions } = await seededRequest();
+
+      const result = oracle.replayVerify(response, conditions, params);
+
+      expect(result.valid).toBe(true);
+      expect(result.error).toBeUndefined();
+      expect(result.checks.map(c => c.name)).toEqual(expect.arrayContaining([
+        'simulationId', 'hex', 'sourceHash', 'value', 'metadata.finalEnergy', 'metadata.lyapunovEstimate', 'metadata.engine'
+      ]));
+      expect(result.checks.find(c => c.name === 'metadata.seedStreamVersion')).toBeUndefined();
+    });
+
+    it('should report every mismatched field with both values', async () => {
+      const { response, conditions } = await seededRequest();
+      const forged = {
+        ...response,
+        entropy: {
+          ...response.entropy,
+          hex: 'ab'.repeat(32),
+          metadata: { ...response.entropy.metadata, finalEnergy: 1, closeEncounters: undefined as never }
+        }
+      };
+
+      const result = oracle.replayVerify(forged, conditions, params);
+      const finalEnergy = result.checks.find(c => c.name === 'metadata.finalEnergy')!;
+
+      expect(result.valid).toBe(false);
+      expect(result.checks.filter(c => !c.passed).map(c => c.name)).toEqual(['hex', 'metadata.finalEnergy', 'metadata.closeEncounters']);
+      expect(finalEnergy.expected).toBe(JSON.stringify(response.entropy.metadata.finalEnergy));
+      expect(finalEnergy.actual).toBe('1');
+      expect(finalEnergy.details).toBe(`Replay mismatch: expected ${finalEnergy.expected}, got 1`);
+      expect(result.error).toBe([
+        `hex: expected "${response.entropy.hex}", got "${'ab'.repeat(32)}"`,
+        `metadata.finalEnergy: expected ${finalEnergy.expected}, got 1`,
+        `metadata.closeEncounters: expected ${response.entropy.metadata.closeEncounters}, got absent`
+      ].join('; '));
+    });
+
+    it('should reject entropy claimed for other conditions or parameters', async () => {
+      const { response, conditions } = await seededRequest();
+
+      expect(oracle.replayVerify(response, generateRandomConditions('other'), params).valid).toBe(false);
+      expect(oracle.replayVerify(response, conditions, { duration: 1.0, timeStep: 0.02 }).error)
+        .toContain('metadata.timeStep: expected 0.02, got 0.01');
+    });
+
+    it('should replay oracle-v1 runs under their recorded simulation ID', async () => {
+      const legacyOracle = createOracle({ defaultDuration: 1.0, defaultTimeStep: 0.01, engine: 'oracle-v1', workerThreads: false });
+      const response = await legacyOracle.requestEntropy({ sessionId: 'replay', clientSeed: 'client', nonce: 3 });
+
+      const result = legacyOracle.replayVerify(response, generateRandomConditions('replay:client:3'), params);
+      const forged = { ...response, entropy: { ...response.entropy, simulationId: 'forged' } };
+
+      expect(result.valid).toBe(true);
+      expect(result.checks.find(c => c.name === 'simulationId')).toBeUndefined();
+      expect(legacyOracle.replayVerify(forged, generateRandomConditions('replay:client:3'), params).error)
+        .toMatch(/^hex: expected /);
+    });
+
+    it('should accept entropy recorded by the oracle before the engine adapter', () => {
+      // Produced by the original oracle for the request below, with the
+      // server secret 'baseline-secret'
+      const response = JSON.parse(readFileSync(join(__dirname, 'fixtures', 'oracle-v1-response.json'), 'utf8'));
+      const baseline = createOracle({ defaultDuration: 1.0, defaultTimeStep: 0.01, workerThreads: false }, 'baseline-secret');
+
+      const result = baseline.replayVerify(response, generateRandomConditions('baseline:client:3', 1), params);
+
+      expect(result.error).toBeUndefined();
+      expect(result.valid).toBe(true);
+      expect(baseline.verifyProof(response.entropy, response.proof, response.commitment).valid).toBe(true);
+    });
+
+    it('should replay revealed entropy with the client seed', async () => {
+      const conditions = generateRandomConditions('pre-generated');
+      const generate = jest.spyOn(simulation, 'generateRandomConditions').mockReturnValueOnce(conditions);
+      const { conditionsCommitment } = await oracle.preGenerateCommitments('replay-reveal');
+      generate.mockRestore();
+      const response = await oracle.revealEntropy('replay-reveal', 'client', 7);
+
+      expect(oracle.replayVerify(response, conditions, params, { clientSeed: 'client', nonce: 7 }, conditionsCommitment).valid).toBe(true);
+      expect(oracle.replayVerify(response, conditions, params, { clientSeed: 'client', nonce: 8 }, conditionsCommitment).valid).toBe(false);
+      expect(oracle.replayVerify(response, conditions, params, undefined, conditionsCommitment).valid).toBe(false);
+    });
+
+    it('should fail with a single check when the replay cannot run', async () => {
+      const { response, conditions } = await seededRequest();
+
+      const result = oracle.replayVerify(response, conditions, { ...params, reversibilityCheck: { threshold: -1 } });
+
+      expect(result.valid).toBe(false);
+      expect(result.checks).toHaveLength(1);
+      expect(result.error).toBe('replay: Replay failed: Reversibility threshold must be a positive finite number, got -1');
+    });
+  });
+
   describe('getStats', () => {
     it('should track statistics', async () => {
       await oracle.requestEntropy({ sessionId: 'stats-1' });
@@ -225,21 +344,21 @@ describe('EntropyOracle', () => {
       await oracle.preGenerateEntropy('cache-1');
       await oracle.preGenerateEntropy('cache-2');
 
-      expect(oracle.getCacheSize()).toBe(2);
+      expect(await oracle.getCacheSize()).toBe(2);
 
-      oracle.clearCache();
+      await oracle.clearCache();
 
-      expect(oracle.getCacheSize()).toBe(0);
+      expect(await oracle.getCacheSize()).toBe(0);
     });
 
     it('should report cache size', async () => {
-      expect(oracle.getCacheSize()).toBe(0);
+      expect(await oracle.getCacheSize()).toBe(0);
 
       await oracle.preGenerateEntropy('size-1');
-      expect(oracle.getCacheSize()).toBe(1);
+      expect(await oracle.getCacheSize()).toBe(1);
 
       await oracle.preGenerateEntropy('size-2');
-      expect(oracle.getCacheSize()).toBe(2);
+      expect(await oracle.getCacheSize()).toBe(2);
     });
   });
 
@@ -268,5 +387,123 @@ describe('EntropyOracle', () => {
       expect(response.entropy.metadata.duration).toBe(2.0);
       expect(response.entropy.metadata.timeStep).toBe(0.02);
     });
+
+    it('should run on the configured engine unless the request picks one', async () => {
+      const legacyOracle = createOracle({ defaultDuration: 1.0, defaultTimeStep: 0.01, engine: 'oracle-v1' }, undefined, pool);
+      const legacy = await legacyOracle.requestEntropy({ sessionId: 'legacy-engine' });
+      const override = await legacyOracle.requestEntropy({
+        sessionId: 'engine-override',
+        simulationParams: { duration: 1.0, timeStep: 0.01, engine: 'physics-engine-v1' }
+      });
+      const current = await oracle.requestEntropy({ sessionId: 'default-engine' });
+
+      expect(legacy.entropy.metadata.engine).toBeUndefined();
+      expect(legacyOracle.verifyProof(legacy.entropy, legacy.proof, legacy.commitment).valid).toBe(true);
+      expect(override.entropy.metadata.engine).toBe('physics-engine-v1');
+      expect(current.entropy.metadata.engine).toBe('physics-engine-v1');
+      expect(oracle.verifyProof(current.entropy, current.proof, current.commitment).valid).toBe(true);
+    });
+
+    it('should reject unknown engines in the config', () => {
+      expect(() => createOracle({ engine: 'other' as never })).toThrow('Unknown simulation engine "other"');
+    });
+  });
+
+  describe('chaos quality gate', () => {
+    const createGatedOracle = (maxAttempts = 16) => createOracle({
+      defaultDuration: 1.0,
+      defaultTimeStep: 0.01,
+      chaosGate: { enabled: true, minCloseEncounters: 2, maxAttempts }
+    }, 'test-server-secret', pool);
+
+    it('should merge partial gate settings with defaults', () => {
+      const config = createGatedOracle().getConfig();
+
+      expect(config.chaosGate.enabled).toBe(true);
+      expect(config.chaosGate.minCloseEncounters).toBe(2);
+      expect(config.chaosGate.requireBoundEnergy).toBe(true);
+    });
+
+    it('should not record rejections when the gate is disabled', async () => {
+      const response = await oracle.requestEntropy({ sessionId: 'no-gate', clientSeed: 'client' });
+
+      expect(response.entropy.metadata.qualityGateRejections).toBeUndefined();
+    });
+
+    it('should re-seed rejected conditions deterministically and record the rejection count', async () => {
+      const response = await createGatedOracle().requestEntropy({
+        sessionId: 'gate-session',
+        clientSeed: 'client',
+        nonce: 0
+      });
+
+      // Attempt 0 has a single close encounter; attempt 1 passes
+      const expected = runSimulation(
+        { duration: 1.0, timeStep: 0.01 },
+        generateRandomConditions('gate-session:client:0:1')
+      );
+
+      expect(response.entropy.metadata.qualityGateRejections).toBe(1);
+      expect(response.entropy.metadata.seedStreamVersion).toBe(2);
+      expect(response.entropy.metadata.initialEnergy).toBe(expected.metadata.initialEnergy);
+      expect(response.entropy.metadata.closeEncounters).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should re-seed with the requested seed stream version', async () => {
+      const response = await createGatedOracle().requestEntropy({
+        sessionId: 'gate-session',
+        clientSeed: 'client',
+        nonce: 0,
+        seedStreamVersion: 1
+      });
+
+      // Under version 1, attempts 0 and 1 have a single close encounter
+      const expected = runSimulation(
+        { duration: 1.0, timeStep: 0.01 },
+        generateRandomConditions('gate-session:client:0:2', 1)
+      );
+
+      expect(response.entropy.metadata.qualityGateRejections).toBe(2);
+      expect(response.entropy.metadata.seedStreamVersion).toBe(1);
+      expect(response.entropy.metadata.initialEnergy).toBe(expected.metadata.initialEnergy);
+    });
+
+    it('should include the rejection count in the proof', async () => {
+      const gated = createGatedOracle();
+      const response = await gated.requestEntropy({ sessionId: 'gate-session', clientSeed: 'client' });
+      const tampered = {
+        ...response.entropy,
+        metadata: { ...response.entropy.metadata, qualityGateRejections: 0 }
+      };
+
+      expect(gated.verifyProof(response.entropy, response.proof, response.commitment).valid).toBe(true);
+      expect(gated.verifyProof(tampered, response.proof, response.commitment).valid).toBe(false);
+    });
+
+    it('should reject oracle-v1 runs, which carry no diagnostics', async () => {
+      await expect(createGatedOracle().requestEntropy({
+        sessionId: 'legacy',
+        simulationParams: { duration: 1.0, timeStep: 0.01, engine: 'oracle-v1' }
+      })).rejects.toThrow('The chaos quality gate is not supported by the oracle-v1 engine');
+    });
+
+    it('should fail when explicit conditions do not pass the gate', async () => {
+      await expect(createGatedOracle().requestEntropy({
+        sessionId: 'explicit',
+        simulationParams: {
+          duration: 1.0,
+          timeStep: 0.01,
+          initialConditions: getPresetConditions('figure-eight')
+        }
+      })).rejects.toThrow('Chaos quality gate rejected 1 initial conditions');
+    });
+
+    it('should fail after the maximum number of attempts', async () => {
+      await expect(createGatedOracle(1).requestEntropy({
+        sessionId: 'gate-session',
+        clientSeed: 'client',
+        nonce: 0
+      })).rejects.toThrow('Chaos quality gate rejected 1 initial conditions');
+    });
   });
 });
@@ -0,0 +1,229 @@
+/**
+ * Simulation Worker Pool Unit Tests
+ */
+
+import { writeFileSync, mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import {
+  SimulationPool,
+  getSharedSimulationPool,
+  executeSimulationJob,
+  SimulationWorkerMessage
+} from '../src/pool';
+import { createOracle, runSimulation, generateRandomConditions, SimulationProgress } from '../src';
+import { createTestPool } from './support/pool';
+
+describe('SimulationPool', () => {
+  const job = (duration = 0.5, seed = 'pool-seed') => ({
+    params: { duration, timeStep: 0.01 },
+    conditions: generateRandomConditions(seed)
+  });
+
+  let pool: SimulationPool;
+
+  beforeEach(() => {
+    pool = createTestPool({ size: 1 });
+  });
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  describe('run', () => {
+    it('should produce the same simulation as an inline run', async () => {
+      const { params, conditions } = job();
+      const result = await pool.run({ params, conditions });
+      const inline = runSimulation(params, conditions);
+
+      expect(result.value).toBe(inline.value);
+      expect(result.metadata).toEqual(inline.metadata);
+      expect(pool.getStats()).toMatchObject({ workers: 1, busy: 0, queued: 0, completed: 1 });
+    });
+
+    it('should keep the event loop responsive while simulating', async () => {
+      let ticks = 0;
+      const timer = setInterval(() => ticks++, 5);
+      await pool.run({ params: { duration: 30, timeStep: 0.001 }, conditions: generateRandomConditions('busy') });
+      clearInterval(timer);
+
+      expect(ticks).toBeGreaterThan(0);
+    });
+
+    it('should queue jobs beyond the pool size and run them in order', async () => {
+      const order: number[] = [];
+      const runs = [0, 1, 2].map(i => pool.run(job(0.2, `queued-${i}`)).then(() => order.push(i)));
+
+      expect(pool.getStats()).toMatchObject({ busy: 1, queued: 2 });
+      await Promise.all(runs);
+      expect(order).toEqual([0, 1, 2]);
+    });
+
+    it('should report progress', async () => {
+      const progress: SimulationProgress[] = [];
+      await pool.run(job(1), { onProgress: p => progress.push(p), progressInterval: 25 });
+
+      expect(progress.map(p => p.completedSteps)).toEqual([25, 50, 75, 100]);
+      expect(progress.every(p => p.totalSteps === 100)).toBe(true);
+    });
+
+    it('should reject when the simulation fails', async () => {
+      await expect(pool.run(job(), { onProgress: () => undefined, progressInterval: 1.5 }))
+        .rejects.toThrow('Progress interval must be a positive integer');
+      expect(pool.getStats().failed).toBe(1);
+    });
+
+    it('should reject jobs when a worker cannot start', async () => {
+      const directory = mkdtempSync(path.join(tmpdir(), 'pool-'));
+      const script = path.join(directory, 'broken-worker.js');
+      writeFileSync(script, "throw new Error('worker failed to load');");
+      const broken = new SimulationPool({ size: 1, workerScript: script });
+
+      await expect(broken.run(job())).rejects.toThrow('worker failed to load');
+      expect(broken.getStats()).toMatchObject({ workers: 0, failed: 1 });
+      await broken.close();
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should reject a job whose signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(pool.run(job(), { signal: controller.signal })).rejects.toThrow('Simulation job aborted');
+      expect(pool.getStats()).toMatchObject({ aborted: 1, workers: 0 });
+    });
+
+    it('should remove an aborted job from the queue', async () => {
+      const controller = new AbortController();
+      const first = pool.run(job());
+      const second = pool.run(job(), { signal: controller.signal });
+      controller.abort();
+
+      await expect(second).rejects.toThrow('Simulation job aborted');
+      await expect(first).resolves.toBeDefined();
+      expect(pool.getStats()).toMatchObject({ completed: 1, aborted: 1, queued: 0 });
+    });
+
+    it('should terminate the worker of an aborted running job and recover', async () => {
+      const controller = new AbortController();
+      const running = pool.run(job(1000), {
+        signal: controller.signal,
+        onProgress: () => controller.abort(),
+        progressInterval: 10
+      });
+
+      await expect(running).rejects.toThrow('Simulation job aborted');
+      expect(pool.getStats()).toMatchObject({ workers: 0, busy: 0, aborted: 1 });
+      await expect(pool.run(job())).resolves.toBeDefined();
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should retire idle workers after the idle timeout', async () => {
+      const shortLived = createTestPool({ size: 1, idleTimeout: 0 });
+      await shortLived.run(job(0.1));
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(shortLived.getStats().workers).toBe(0);
+      await expect(shortLived.run(job(0.1))).resolves.toBeDefined();
+      await shortLived.close();
+    });
+
+    it('should reject queued and running jobs on close', async () => {
+      const running = expect(pool.run(job(1000))).rejects.toThrow('Simulation pool is closed');
+      const queued = expect(pool.run(job())).rejects.toThrow('Simulation pool is closed');
+      await pool.close();
+
+      await running;
+      await queued;
+      await expect(pool.run(job())).rejects.toThrow('Simulation pool is closed');
+      expect(pool.isClosed()).toBe(true);
+    });
+
+    it('should validate options', () => {
+      expect(() => new SimulationPool({ size: 0 })).toThrow('Pool size must be a positive integer');
+      expect(() => new SimulationPool({ idleTimeout: -1 })).toThrow('Idle timeout must be non-negative');
+    });
+
+    it('should share one pool until it is closed', async () => {
+      const shared = getSharedSimulationPool();
+
+      expect(getSharedSimulationPool()).toBe(shared);
+      await shared.close();
+      expect(getSharedSimulationPool()).not.toBe(shared);
+    });
+  });
+
+  describe('executeSimulationJob', () => {
+    it('should post progress and the result', () => {
+      const replies: SimulationWorkerMessage[] = [];
+      const { params, conditions } = job(0.2);
+      executeSimulationJob({ id: 7, params, conditions, progressInterval: 10 }, reply => replies.push(reply));
+
+      expect(replies.map(reply => reply.type)).toEqual(['progress', 'progress', 'result']);
+      expect(replies.every(reply => reply.id === 7)).toBe(true);
+    });
+
+    it('should post errors as messages', () => {
+      const replies: SimulationWorkerMessage[] = [];
+      executeSimulationJob({ id: 1, ...job(), progressInterval: 1.5 }, reply => replies.push(reply));
+
+      expect(replies).toEqual([{ type: 'error', id: 1, message: 'Progress interval must be a positive integer, got 1.5' }]);
+    });
+  });
+});
+
+describe('EntropyOracle on the worker pool', () => {
+  let pool: SimulationPool;
+
+  beforeEach(() => {
+    pool = createTestPool({ size: 2 });
+  });
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  it('should dispatch requests to the pool', async () => {
+    const oracle = createOracle({ defaultDuration: 0.5, defaultTimeStep: 0.01 }, 'secret', pool);
+    const responses = await Promise.all([
+      oracle.requestEntropy({ sessionId: 'a', clientSeed: 'seed' }),
+      oracle.requestEntropy({ sessionId: 'b', clientSeed: 'seed' })
+    ]);
+
+    expect(pool.getStats().completed).toBe(2);
+    expect(responses[0].entropy.hex).not.toBe(responses[1].entropy.hex);
+    expect(oracle.verifyProof(responses[0].entropy, responses[0].proof, responses[0].commitment).valid).toBe(true);
+  });
+
+  it('should forward cancellation and progress', async () => {
+    const oracle = createOracle({ defaultDuration: 1000, defaultTimeStep: 0.01 }, 'secret', pool);
+    const controller = new AbortController();
+    const progress: SimulationProgress[] = [];
+
+    await expect(oracle.requestEntropy({
+      sessionId: 'cancelled',
+      signal: controller.signal,
+      onProgress: p => {
+        progress.push(p);
+        controller.abort();
+      }
+    })).rejects.toThrow('Simulation job aborted');
+    expect(progress[0].totalSteps).toBe(100000);
+  });
+
+  it('should run inline when worker threads are disabled', async () => {
+    const oracle = createOracle({ defaultDuration: 0.5, defaultTimeStep: 0.01, workerThreads: false }, 'secret', pool);
+    const progress: SimulationProgress[] = [];
+    await oracle.requestEntropy({ sessionId: 'inline', onProgress: p => progress.push(p) });
+
+    expect(pool.getStats().completed).toBe(0);
+    expect(progress).toEqual([{ completedSteps: 50, totalSteps: 50 }]);
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(oracle.requestEntropy({ sessionId: 'inline-aborted', signal: controller.signal }))
+      .rejects.toThrow('Simulation job aborted');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Chaos Quality Gate Unit Tests
+ */
+
+import {
+  evaluateChaosQuality,
+  DEFAULT_CHAOS_GATE,
+  ChaosGateConfig,
+  SimulationMetadata
+} from '../src';
+
+describe('Chaos Quality Gate', () => {
+  const gate: ChaosGateConfig = { ...DEFAULT_CHAOS_GATE, enabled: true };
+
+  const createMetadata = (overrides: Partial<SimulationMetadata> = {}): SimulationMetadata => ({
+    duration: 1,
+    timeStep: 0.01,
+    steps: 100,
+    finalEnergy: -2,
+    energyDrift: 0.001,
+    lyapunovEstimate: 1.5,
+    initialEnergy: -2,
+    closeEncounters: 3,
+    escapedBodies: 0,
+    ...overrides
+  });
+
+  it('should be disabled by default', () => {
+    expect(DEFAULT_CHAOS_GATE.enabled).toBe(false);
+  });
+
+  it('should pass a bound, chaotic run with encounters and no escapes', () => {
+    const report = evaluateChaosQuality(createMetadata(), gate);
+
+    expect(report.passed).toBe(true);
+    expect(report.failures).toEqual([]);
+  });
+
+  it('should reject unbound systems', () => {
+    const report = evaluateChaosQuality(createMetadata({ initialEnergy: 0.5 }), gate);
+
+    expect(report.passed).toBe(false);
+    expect(report.failures[0]).toContain('not bound');
+  });
+
+  it('should allow unbound systems when bound energy is not required', () => {
+    const report = evaluateChaosQuality(
+      createMetadata({ initialEnergy: 0.5 }),
+      { ...gate, requireBoundEnergy: false }
+    );
+
+    expect(report.passed).toBe(true);
+  });
+
+  it('should reject a Lyapunov exponent below the minimum', () => {
+    const report = evaluateChaosQuality(createMetadata({ lyapunovEstimate: 0.01 }), gate);
+
+    expect(report.failures[0]).toContain('Lyapunov exponent');
+  });
+
+  it('should reject a non-finite Lyapunov exponent', () => {
+    const report = evaluateChaosQuality(createMetadata({ lyapunovEstimate: NaN }), gate);
+
+    expect(report.passed).toBe(false);
+  });
+
+  it('should reject escaping bodies', () => {
+    const report = evaluateChaosQuality(createMetadata({ escapedBodies: 1 }), gate);
+
+    expect(report.failures[0]).toContain('1 bodies escaped');
+  });
+
+  it('should reject too few close encounters', () => {
+    const report = evaluateChaosQuality(createMetadata({ closeEncounters: 0 }), gate);
+
+    expect(report.failures[0]).toContain('close encounters');
+  });
+
+  it('should reject runs without diagnostics', () => {
+    const { initialEnergy, closeEncounters, escapedBodies, ...legacy } = createMetadata();
+    const report = evaluateChaosQuality(legacy, gate);
+
+    expect(report.passed).toBe(false);
+    expect(report.failures).toEqual(['Run has no chaos diagnostics']);
+  });
+
+  it('should report every failed check', () => {
+    const report = evaluateChaosQuality(
+      createMetadata({ initialEnergy: 1, lyapunovEstimate: 0, escapedBodies: 2, closeEncounters: 0 }),
+      gate
+    );
+
+    expect(report.failures).toHaveLength(4);
+  });
+});
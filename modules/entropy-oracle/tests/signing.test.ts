@@ -0,0 +1,242 @@
+/**
+ * Proof Signing Unit Tests
+ */
+
+import { createHash, createHmac, generateKeyPairSync } from 'crypto';
+import {
+  ProofKeyRegistry,
+  CURRENT_PROOF_VERSION,
+  DEFAULT_KEY_GRACE_PERIOD,
+  assertProofVersion,
+  computeKeyId,
+  checkProofSignature,
+  proofSignatureData,
+  createOracle,
+  EntropyOracle,
+  EntropyProof
+} from '../src';
+
+describe('Proof Signing', () => {
+  const fields = { proofId: 'ab'.repeat(16), simulationHash: 'cd'.repeat(32), entropyHash: 'ef'.repeat(32) };
+  const timestamp = 1700000000000;
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('assertProofVersion', () => {
+    it('should accept versions 1 and 2 only', () => {
+      expect(CURRENT_PROOF_VERSION).toBe(2);
+      expect(() => assertProofVersion(1)).not.toThrow();
+      expect(() => assertProofVersion(2)).not.toThrow();
+      expect(() => assertProofVersion(3)).toThrow('Unsupported proof version 3');
+    });
+  });
+
+  describe('proofSignatureData', () => {
+    it('should prefix version 2 data with the version and key ID', () => {
+      const base = `${fields.proofId}:${fields.simulationHash}:${fields.entropyHash}:${timestamp}`;
+
+      expect(proofSignatureData(fields, timestamp)).toBe(base);
+      expect(proofSignatureData({ ...fields, version: 1 }, timestamp)).toBe(base);
+      expect(proofSignatureData({ ...fields, version: 2, keyId: '0123456789abcdef' }, timestamp))
+        .toBe(`v2:0123456789abcdef:${base}`);
+    });
+  });
+
+  describe('computeKeyId', () => {
+    it('should hash the DER-encoded public key', () => {
+      const { publicKey } = generateKeyPairSync('ed25519');
+      const expected = createHash('sha256').update(publicKey.export({ type: 'spki', format: 'der' })).digest('hex').slice(0, 16);
+
+      expect(computeKeyId(publicKey)).toBe(expected);
+      expect(computeKeyId(publicKey.export({ type: 'spki', format: 'pem' }).toString())).toBe(expected);
+    });
+
+    it('should reject keys that are not Ed25519 keys', () => {
+      const { publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+      expect(() => computeKeyId(publicKey)).toThrow('Proof keys must be Ed25519 keys, got ec');
+    });
+  });
+
+  describe('ProofKeyRegistry', () => {
+    it('should sign proofs that verify with the public key alone', () => {
+      const registry = new ProofKeyRegistry();
+      const key = registry.generateKey();
+      const proof = registry.signProof(fields, timestamp);
+
+      expect(proof).toMatchObject({ ...fields, version: 2, keyId: key.keyId });
+      expect(proof.signature).toMatch(/^[0-9a-f]{128}$/);
+      expect(checkProofSignature(proof, timestamp, key.publicKey).passed).toBe(true);
+      expect(registry.checkSignature(proof, timestamp).passed).toBe(true);
+    });
+
+    it('should reject proofs whose fields or timestamp were changed', () => {
+      const registry = new ProofKeyRegistry();
+      const { publicKey } = registry.generateKey();
+      const proof = registry.signProof(fields, timestamp);
+
+      expect(checkProofSignature(proof, timestamp + 1, publicKey).passed).toBe(false);
+      expect(checkProofSignature({ ...proof, entropyHash: '00'.repeat(32) }, timestamp, publicKey).passed).toBe(false);
+      expect(checkProofSignature({ ...proof, signature: 'zz' }, timestamp, publicKey).details).toBe('Signature invalid');
+    });
+
+    it('should reject proofs signed with another key', () => {
+      const registry = new ProofKeyRegistry();
+      registry.generateKey();
+      const proof = registry.signProof(fields, timestamp);
+      const other = new ProofKeyRegistry().generateKey();
+
+      expect(checkProofSignature(proof, timestamp, other.publicKey)).toMatchObject({
+        passed: false,
+        expected: other.keyId,
+        actual: proof.keyId,
+        details: 'Proof was not signed with this key'
+      });
+      expect(new ProofKeyRegistry().checkSignature(proof, timestamp).details).toBe(`Unknown signing key ${proof.keyId}`);
+    });
+
+    it('should keep verifying rotated-out keys until their grace period ends', () => {
+      jest.useFakeTimers({ now: timestamp });
+      const registry = new ProofKeyRegistry();
+      const old = registry.generateKey();
+      const oldProof = registry.signProof(fields, timestamp);
+
+      const current = registry.rotate(1000);
+      const newProof = registry.signProof(fields, timestamp);
+
+      expect(newProof.keyId).toBe(current.keyId);
+      expect(registry.getActiveKey()).toEqual(current);
+      expect(registry.getKey(old.keyId)!.expiresAt).toBe(timestamp + 1000);
+      expect(registry.checkSignature(oldProof, timestamp).passed).toBe(true);
+
+      jest.setSystemTime(timestamp + 1001);
+
+      expect(registry.checkSignature(oldProof, timestamp).details).toBe(`Signing key ${old.keyId} expired`);
+      expect(registry.checkSignature(newProof, timestamp).passed).toBe(true);
+      expect(registry.pruneExpired()).toBe(1);
+      expect(registry.getPublicKeys()).toEqual([current]);
+    });
+
+    it('should stop signing with an expired active key', () => {
+      const registry = new ProofKeyRegistry();
+      const key = registry.generateKey();
+      registry.expire(key.keyId);
+
+      expect(registry.getActiveKey()).toBeNull();
+      expect(() => registry.signProof(fields, timestamp)).toThrow('No active proof signing key');
+      expect(() => registry.expire('missing')).toThrow('Unknown proof key missing');
+    });
+
+    it('should keep the earliest expiry', () => {
+      const registry = new ProofKeyRegistry();
+      const key = registry.generateKey({ expiresAt: timestamp });
+      registry.expire(key.keyId, timestamp + 1000);
+
+      expect(registry.getKey(key.keyId)!.expiresAt).toBe(timestamp);
+    });
+
+    it('should import PEM keys so instances can share them', () => {
+      const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+      const signer = new ProofKeyRegistry();
+      const key = signer.addKey(privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(), { createdAt: 5 });
+      const verifier = new ProofKeyRegistry();
+      verifier.addPublicKey(publicKey.export({ type: 'spki', format: 'pem' }).toString());
+      const proof = signer.signProof(fields, timestamp);
+
+      expect(key).toEqual({ keyId: computeKeyId(publicKey), publicKey: publicKey.export({ type: 'spki', format: 'pem' }), createdAt: 5 });
+      expect(verifier.checkSignature(proof, timestamp).passed).toBe(true);
+      expect(verifier.getActiveKey()).toBeNull();
+      expect(() => verifier.signProof(fields, timestamp)).toThrow('No active proof signing key');
+    });
+
+    it('should reject invalid keys', () => {
+      const registry = new ProofKeyRegistry();
+      const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+      registry.addKey(privateKey);
+
+      expect(() => registry.addKey(publicKey)).toThrow('Signing keys must be private keys');
+      expect(() => registry.addPublicKey(publicKey)).toThrow(`Proof key ${computeKeyId(publicKey)} is already registered`);
+      expect(() => registry.addKey(generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey))
+        .toThrow('Proof keys must be Ed25519 keys, got ec');
+      expect(() => registry.rotate(-1)).toThrow('Grace period must be non-negative, got -1');
+      expect(DEFAULT_KEY_GRACE_PERIOD).toBe(30 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should not verify version 1 proofs with a key', () => {
+      const registry = new ProofKeyRegistry();
+      const { publicKey } = registry.generateKey();
+      const hmacProof: EntropyProof = { ...fields, signature: '00'.repeat(32) };
+
+      expect(checkProofSignature(hmacProof, timestamp, publicKey).details)
+        .toBe('Version 1 proofs are HMACs that only the signing server can verify');
+      expect(registry.checkSignature({ ...hmacProof, version: 3 as never }, timestamp).details)
+        .toBe('Unsupported proof version 3');
+    });
+  });
+
+  describe('EntropyOracle', () => {
+    let oracle: EntropyOracle;
+
+    beforeEach(() => {
+      oracle = createOracle({ defaultDuration: 0.5, defaultTimeStep: 0.01, workerThreads: false }, 'signing-secret');
+    });
+
+    it('should issue proofs a player can verify with the published public key', async () => {
+      const response = await oracle.requestEntropy({ sessionId: 'public-verify' });
+      const [key] = oracle.getPublicKeys();
+
+      const result = createOracle().verifyProof(response.entropy, response.proof, response.commitment, key.publicKey);
+
+      expect(result.valid).toBe(true);
+      expect(response.proof.keyId).toBe(key.keyId);
+    });
+
+    it('should fail the public-key check on tampered entropy', async () => {
+      await oracle.preGenerateEntropy('public-tamper');
+      const response = await oracle.revealEntropy('public-tamper', 'seed', 1);
+      const [key] = oracle.getPublicKeys();
+      const tampered = { ...response.entropy, timestamp: response.entropy.timestamp + 1 };
+
+      const result = oracle.verifyProof(tampered, response.proof, response.commitment, key.publicKey);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('signature: Signature invalid');
+    });
+
+    it('should keep verifying proofs after a key rotation', async () => {
+      const before = await oracle.requestEntropy({ sessionId: 'before-rotation' });
+      oracle.getKeyRegistry().rotate();
+      const after = await oracle.requestEntropy({ sessionId: 'after-rotation' });
+
+      expect(after.proof.keyId).not.toBe(before.proof.keyId);
+      expect(oracle.verifyProof(before.entropy, before.proof, before.commitment).valid).toBe(true);
+      expect(oracle.verifyProof(after.entropy, after.proof, after.commitment).valid).toBe(true);
+      expect(oracle.getPublicKeys()).toHaveLength(2);
+    });
+
+    it('should still issue and verify HMAC proofs under version 1', async () => {
+      const legacy = createOracle({ defaultDuration: 0.5, defaultTimeStep: 0.01, workerThreads: false, proofVersion: 1 }, 'signing-secret');
+      const response = await legacy.requestEntropy({ sessionId: 'hmac-proof' });
+      const { proofId, simulationHash, entropyHash } = response.proof;
+      const expected = createHmac('sha256', 'signing-secret')
+        .update(`${proofId}:${simulationHash}:${entropyHash}:${response.entropy.timestamp}`)
+        .digest('hex');
+
+      expect(response.proof.version).toBe(1);
+      expect(response.proof.keyId).toBeUndefined();
+      expect(response.proof.signature).toBe(expected);
+      expect(oracle.verifyProof(response.entropy, response.proof, response.commitment).valid).toBe(true);
+
+      // Proofs issued before versioning carry no version field
+      const { version, ...unversioned } = response.proof;
+      expect(oracle.verifyProof(response.entropy, unversioned, response.commitment).valid).toBe(true);
+      expect(createOracle({}, 'other-secret').verifyProof(response.entropy, unversioned, response.commitment).valid).toBe(false);
+    });
+
+    it('should reject unsupported proof versions in the config', () => {
+      expect(() => createOracle({ proofVersion: 3 as never })).toThrow('Unsupported proof version 3');
+    });
+  });
+});
@@ -9,8 +9,11 @@ import {
   validateConditions,
   PRESET_CONDITIONS,
   SimulationParams,
-  InitialConditions
+  InitialConditions,
+  DEFAULT_SIMULATION_ENGINE
 } from '../src';
+import { createHash } from 'crypto';
+import { ThreeBodySimulation, createSeedStream, ORBIT_PRESETS } from '@three-body-entropy/physics-engine';
 
 describe('Simulation', () => {
   describe('runSimulation', () => {
@@ -68,10 +71,11 @@ describe('Simulation', () => {
     });
 
     it('should produce different results for different conditions', () => {
-      const result1 = runSimulation({ duration: 1.0, timeStep: 0.01 });
-      const result2 = runSimulation({ duration: 1.0, timeStep: 0.01 });
+      const result1 = runSimulation({ duration: 1.0, timeStep: 0.01 }, generateRandomConditions('first'));
+      const result2 = runSimulation({ duration: 1.0, timeStep: 0.01 }, generateRandomConditions('second'));
 
-      // Results should differ due to different simulation IDs
+      // Simulation IDs are derived from the output
+      expect(result1.hex).not.toBe(result2.hex);
       expect(result1.simulationId).not.toBe(result2.simulationId);
     });
 
@@ -81,6 +85,191 @@ describe('Simulation', () => {
       // Energy drift should be small for short simulations
       expect(result.metadata.energyDrift).toBeLessThan(0.1);
     });
+
+    it('should estimate a Lyapunov exponent from the shadow trajectory', () => {
+      const params = { duration: 5.0, timeStep: 0.01 };
+      const chaotic = runSimulation(params, getPresetConditions('chaotic')!);
+      const periodic = runSimulation(params, getPresetConditions('figure-eight')!);
+
+      expect(chaotic.metadata.lyapunovEstimate).toBeGreaterThan(0);
+      expect(chaotic.metadata.lyapunovEstimate).toBeGreaterThan(periodic.metadata.lyapunovEstimate);
+    });
+
+    it('should count close encounters', () => {
+      const conditions: InitialConditions = {
+        bodies: [
+          { mass: 1.0, position: { x: -1, y: 0, z: 0 }, velocity: { x: 1, y: 0, z: 0 } },
+          { mass: 1.0, position: { x: 1, y: 0.02, z: 0 }, velocity: { x: -1, y: 0, z: 0 } },
+          { mass: 1.0, position: { x: 0, y: 20, z: 0 }, velocity: { x: 0, y: 0, z: 0 } }
+        ]
+      };
+
+      const result = runSimulation({ duration: 1.5, timeStep: 0.001 }, conditions);
+
+      expect(result.metadata.closeEncounters).toBeGreaterThanOrEqual(1);
+    });
+
+    it('should detect escaping bodies', () => {
+      const conditions: InitialConditions = {
+        bodies: [
+          { mass: 1.0, position: { x: -0.5, y: 0, z: 0 }, velocity: { x: 0, y: 0.7, z: 0 } },
+          { mass: 1.0, position: { x: 0.5, y: 0, z: 0 }, velocity: { x: 0, y: -0.7, z: 0 } },
+          { mass: 1.0, position: { x: 20, y: 0, z: 0 }, velocity: { x: 5, y: 0, z: 0 } }
+        ]
+      };
+
+      const result = runSimulation({ duration: 1.0, timeStep: 0.01 }, conditions);
+
+      expect(result.metadata.escapedBodies).toBe(1);
+      expect(result.metadata.closeEncounters).toBe(0);
+    });
+
+    it('should report the initial energy', () => {
+      const result = runSimulation({ duration: 1.0, timeStep: 0.01 }, getPresetConditions('chaotic')!);
+
+      expect(result.metadata.initialEnergy).toBeLessThan(0);
+    });
+
+    it('should leave the default force model out of the metadata', () => {
+      const conditions = getPresetConditions('chaotic')!;
+      const legacy = runSimulation({ duration: 1.0, timeStep: 0.01 }, conditions);
+      const explicit = runSimulation({ duration: 1.0, timeStep: 0.01, forceModel: { kernel: 'plummer' } }, conditions);
+
+      expect(explicit.metadata.forceModel).toBeUndefined();
+      expect(explicit.value).toBe(legacy.value);
+      expect(explicit.metadata.finalEnergy).toBe(legacy.metadata.finalEnergy);
+    });
+
+    it('should run with and record a non-default force model', () => {
+      const conditions = getPresetConditions('chaotic')!;
+      const params = { duration: 1.0, timeStep: 0.01 };
+      const plain = runSimulation(params, conditions);
+      const spline = runSimulation({ ...params, forceModel: { kernel: 'spline', drag: 0 } }, conditions);
+      const dragged = runSimulation({ ...params, forceModel: { kernel: 'plummer', drag: 0.2 } }, conditions);
+
+      expect(spline.metadata.forceModel).toEqual({ kernel: 'spline' });
+      expect(spline.metadata.energyDrift).toBeLessThan(1e-3);
+      expect(dragged.metadata.forceModel).toEqual({ kernel: 'plummer', drag: 0.2 });
+      expect(dragged.metadata.finalEnergy).toBeLessThan(plain.metadata.finalEnergy);
+    });
+
+    it('should reject invalid force models', () => {
+      expect(() => runSimulation({ duration: 1.0, timeStep: 0.01, forceModel: { kernel: 'plummer', drag: -1 } }))
+        .toThrow('Drag coefficient must be a non-negative finite number, got -1');
+    });
+
+    it('should record a passing reversibility check in the metadata', () => {
+      const conditions = getPresetConditions('figure-eight')!;
+      const checked = runSimulation({ duration: 1.0, timeStep: 0.01, reversibilityCheck: true }, conditions);
+      const plain = runSimulation({ duration: 1.0, timeStep: 0.01 }, conditions);
+
+      expect(checked.metadata.reversibility).toEqual({
+        time: expect.closeTo(1.0, 12),
+        steps: 100,
+        recoveryError: expect.any(Number),
+        threshold: 1e-6,
+        passed: true
+      });
+      expect(checked.metadata.reversibility!.recoveryError).toBeLessThan(1e-8);
+      expect(checked.value).toBe(plain.value);
+      expect(plain.metadata.reversibility).toBeUndefined();
+    });
+
+    it('should fail long chaotic runs unless the checked duration is shortened', () => {
+      const conditions = getPresetConditions('chaotic')!;
+
+      expect(() => runSimulation({ duration: 10.0, timeStep: 0.001, reversibilityCheck: true }, conditions))
+        .toThrow('Reversibility check failed: recovery error');
+      expect(runSimulation({ duration: 10.0, timeStep: 0.001, reversibilityCheck: { duration: 1 } }, conditions).metadata.reversibility)
+        .toMatchObject({ time: expect.closeTo(1, 9), passed: true });
+    });
+
+    it('should fail runs that do not return to their initial conditions', () => {
+      const check = jest.spyOn(ThreeBodySimulation.prototype, 'checkReversibility').mockReturnValueOnce({
+        time: 1,
+        steps: 100,
+        recoveryError: 1,
+        threshold: 1e-6,
+        passed: false
+      });
+
+      expect(() => runSimulation({ duration: 1.0, timeStep: 0.01, reversibilityCheck: true }))
+        .toThrow('Reversibility check failed: recovery error 1 exceeds threshold 0.000001');
+      check.mockRestore();
+    });
+
+    it('should reject invalid reversibility thresholds and durations', () => {
+      expect(() => runSimulation({ duration: 1.0, timeStep: 0.01, reversibilityCheck: { threshold: -1 } }))
+        .toThrow('Reversibility threshold must be a positive finite number, got -1');
+      expect(() => runSimulation({ duration: 1.0, timeStep: 0.01, reversibilityCheck: { duration: 0 } }))
+        .toThrow('Reversibility duration must be positive, got 0');
+    });
+
+    it('should report a zero Lyapunov estimate when no steps are taken', () => {
+      const result = runSimulation({ duration: 0.005, timeStep: 0.01 });
+
+      expect(result.metadata.steps).toBe(0);
+      expect(result.metadata.lyapunovEstimate).toBe(0);
+    });
+
+    it('should run on the physics engine by default', () => {
+      const conditions = getPresetConditions('chaotic')!;
+      const first = runSimulation({ duration: 1.0, timeStep: 0.01 }, conditions);
+      const second = runSimulation({ duration: 1.0, timeStep: 0.01 }, conditions);
+
+      expect(DEFAULT_SIMULATION_ENGINE).toBe('physics-engine-v1');
+      expect(first.metadata.engine).toBe('physics-engine-v1');
+      expect(first.metadata.steps).toBe(100);
+      expect(first.hex).toBe(second.hex);
+      expect(first.value).toBe(second.value);
+      expect(first.simulationId).toBe(second.simulationId);
+      expect(first.sourceHash).toBe(createHash('sha256').update(first.hex).digest('hex'));
+    });
+
+    it('should keep the original integrator available as oracle-v1', () => {
+      const conditions = getPresetConditions('chaotic')!;
+      const legacy = runSimulation({ duration: 1.0, timeStep: 0.01, engine: 'oracle-v1' }, conditions);
+      const engine = runSimulation({ duration: 1.0, timeStep: 0.01 }, conditions);
+
+      expect(legacy.metadata.engine).toBeUndefined();
+      expect(legacy.metadata.steps).toBe(engine.metadata.steps);
+      expect(legacy.metadata.finalEnergy).toBeCloseTo(engine.metadata.finalEnergy, 6);
+      expect(legacy.hex).not.toBe(engine.hex);
+    });
+
+    it('should keep the original oracle-v1 metadata', () => {
+      const { metadata } = runSimulation({ duration: 1.0, timeStep: 0.01, engine: 'oracle-v1' }, getPresetConditions('chaotic')!);
+
+      expect(Object.keys(metadata)).toEqual(['duration', 'timeStep', 'steps', 'finalEnergy', 'energyDrift', 'lyapunovEstimate']);
+      expect(metadata.lyapunovEstimate).toBe(Math.log(1 + metadata.energyDrift * 1000) / metadata.duration);
+    });
+
+    it('should reject features that oracle-v1 does not support', () => {
+      const params: SimulationParams = { duration: 1.0, timeStep: 0.01, engine: 'oracle-v1' };
+
+      expect(() => runSimulation({ ...params, forceModel: { kernel: 'spline' } }))
+        .toThrow('Force models are not supported by the oracle-v1 engine');
+      expect(() => runSimulation({ ...params, reversibilityCheck: true }))
+        .toThrow('The reversibility check is not supported by the oracle-v1 engine');
+      expect(runSimulation({ ...params, forceModel: { kernel: 'plummer' } }).metadata.forceModel).toBeUndefined();
+    });
+
+    it('should reproduce an oracle-v1 run from its simulation ID', () => {
+      const conditions = getPresetConditions('chaotic')!;
+      const params: SimulationParams = { duration: 1.0, timeStep: 0.01, engine: 'oracle-v1' };
+      const original = runSimulation(params, conditions);
+      const fresh = runSimulation(params, conditions);
+      const replayed = runSimulation({ ...params, simulationId: original.simulationId }, conditions);
+
+      expect(fresh.hex).not.toBe(original.hex);
+      expect(replayed.hex).toBe(original.hex);
+      expect(replayed.metadata).toEqual(original.metadata);
+    });
+
+    it('should reject unknown engines', () => {
+      expect(() => runSimulation({ duration: 1.0, timeStep: 0.01, engine: 'other' as never }))
+        .toThrow('Unknown simulation engine "other"');
+    });
   });
 
   describe('generateRandomConditions', () => {
@@ -100,6 +289,26 @@ describe('Simulation', () => {
       expect(conditions1.bodies[1].velocity).toEqual(conditions2.bodies[1].velocity);
     });
 
+    it('should reproduce legacy hex-chunk conditions under version 1', () => {
+      const hash = createHash('sha256').update('test-seed').digest('hex');
+      const conditions = generateRandomConditions('test-seed', 1);
+
+      expect(conditions.bodies[0].position.x).toBe((parseInt(hash.substring(3, 6), 16) / 4095) * 2 - 1);
+    });
+
+    it('should derive seeded conditions from the version 2 seed stream by default', () => {
+      const next = createSeedStream('test-seed');
+      const conditions = generateRandomConditions('test-seed');
+
+      expect(conditions.bodies[0].mass).toBe(1.0 + Math.abs(next() * 2 - 1) * 0.5);
+      expect(conditions.bodies[0].position.x).toBe(next() * 2 - 1);
+      expect(conditions).not.toEqual(generateRandomConditions('test-seed', 1));
+    });
+
+    it('should reject unsupported seed stream versions', () => {
+      expect(() => generateRandomConditions('test-seed', 0 as never)).toThrow('Unsupported seed stream version 0');
+    });
+
     it('should generate different conditions for different seeds', () => {
       const conditions1 = generateRandomConditions('seed1');
       const conditions2 = generateRandomConditions('seed2');
@@ -212,6 +421,30 @@ describe('Simulation', () => {
       expect(PRESET_CONDITIONS.length).toBeGreaterThan(0);
     });
 
+    it('should keep the original presets unchanged', () => {
+      const figureEight = getPresetConditions('figure-eight')!;
+      const lagrange = getPresetConditions('lagrange')!;
+
+      expect(PRESET_CONDITIONS.slice(0, 3).map(p => p.name)).toEqual(['figure-eight', 'lagrange', 'chaotic']);
+      expect(figureEight.bodies[0]).toEqual({
+        mass: 1, position: { x: -0.97000436, y: 0.24308753, z: 0 }, velocity: { x: 0.466203685, y: 0.43236573, z: 0 }
+      });
+      expect(figureEight.softeningParameter).toBe(0.001);
+      expect(lagrange.bodies[1]).toEqual({
+        mass: 1, position: { x: -0.5, y: 0.866, z: 0 }, velocity: { x: -0.433, y: -0.25, z: 0 }
+      });
+    });
+
+    it('should include every physics-engine orbit preset', () => {
+      for (const orbit of ORBIT_PRESETS) {
+        const conditions = getPresetConditions(`orbit-${orbit.name}`)!;
+
+        expect(conditions.bodies.map(b => b.mass)).toEqual(orbit.initialConditions.masses);
+        expect(conditions.bodies.map(b => b.position)).toEqual(orbit.initialConditions.positions);
+        expect(conditions.bodies.map(b => b.velocity)).toEqual(orbit.initialConditions.velocities);
+      }
+    });
+
     it('should have valid presets', () => {
       for (const preset of PRESET_CONDITIONS) {
         expect(preset.name).toBeTruthy();
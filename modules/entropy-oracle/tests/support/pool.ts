@@ -0,0 +1,19 @@
+/**
+ * Test Pool Helpers
+ */
+
+import * as path from 'path';
+import { SimulationPool } from '../../src/pool';
+import { SimulationPoolOptions } from '../../src/types';
+
+/**
+ * Worker script that runs the TypeScript sources, for pools in tests.
+ */
+export const TEST_WORKER_SCRIPT = path.join(__dirname, 'worker.js');
+
+/**
+ * Creates a pool whose workers run the TypeScript sources.
+ */
+export function createTestPool(options: SimulationPoolOptions = {}): SimulationPool {
+  return new SimulationPool({ workerScript: TEST_WORKER_SCRIPT, ...options });
+}
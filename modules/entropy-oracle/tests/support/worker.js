@@ -0,0 +1,22 @@
+/**
+ * Test Worker Entry
+ * 
+ * Worker script for pools created in tests, which run from source: loads
+ * src/worker.ts by transpiling TypeScript modules on require with the
+ * compiler the package is built with.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+require.extensions['.ts'] = (module, filename) => {
+  const source = fs.readFileSync(filename, 'utf8');
+  const output = ts.transpileModule(source, {
+    fileName: filename,
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+  });
+  module._compile(output.outputText, filename);
+};
+
+require(path.join(__dirname, '..', '..', 'src', 'worker.ts'));
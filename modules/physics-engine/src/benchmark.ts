@@ -0,0 +1,156 @@
+/**
+ * Benchmark Module
+ * 
+ * Measures the throughput of the RK4 kernels and of complete entropy
+ * requests. Run it from the command line with `npm run bench`, optionally
+ * followed by `--steps <n>` and `--requests <n>`.
+ */
+
+import { BenchmarkOptions, BenchmarkReport, BenchmarkResult, SystemConfiguration } from './types';
+import { rk4Step, rk4StepReference } from './integrator';
+import { RK4Workspace } from './soa';
+import { ThreeBodySimulation, generateRandomInitialConditions } from './simulation';
+
+/**
+ * Default benchmark parameters, matching a default entropy request.
+ */
+const DEFAULT_STEPS_PER_REQUEST = 10000;
+const DEFAULT_REQUESTS = 5;
+const DEFAULT_TIME_STEP = 0.001;
+const DEFAULT_SEED = 'benchmark';
+
+/**
+ * Gets the elapsed wall-clock time since start in seconds.
+ */
+function secondsSince(start: bigint): number {
+  return Number(process.hrtime.bigint() - start) / 1e9;
+}
+
+/**
+ * Flattens the positions and velocities of a configuration.
+ */
+function components(config: SystemConfiguration): number[] {
+  return config.bodies.flatMap(b => [b.position.x, b.position.y, b.position.z, b.velocity.x, b.velocity.y, b.velocity.z]);
+}
+
+/**
+ * Times a kernel that advances a configuration the given number of steps.
+ */
+function timeKernel(
+  name: string,
+  steps: number,
+  run: () => SystemConfiguration
+): { result: BenchmarkResult; final: SystemConfiguration } {
+  const start = process.hrtime.bigint();
+  const final = run();
+  const seconds = secondsSince(start);
+  return { result: { name, steps, seconds, stepsPerSecond: steps / seconds }, final };
+}
+
+/**
+ * Benchmarks the object-based RK4 reference, rk4Step and the in-place
+ * workspace on the same initial conditions, then times complete entropy
+ * requests through ThreeBodySimulation.
+ * 
+ * @param options - Benchmark parameters
+ * @returns The measured throughput
+ * @throws Error if a count is not a positive integer
+ */
+export function runBenchmark(options: BenchmarkOptions = {}): BenchmarkReport {
+  const stepsPerRequest = options.stepsPerRequest ?? DEFAULT_STEPS_PER_REQUEST;
+  const requests = options.requests ?? DEFAULT_REQUESTS;
+  const timeStep = options.timeStep ?? DEFAULT_TIME_STEP;
+  const seed = options.seed ?? DEFAULT_SEED;
+
+  for (const [name, value] of [['stepsPerRequest', stepsPerRequest], ['requests', requests]] as const) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`${name} must be a positive integer, got ${value}`);
+    }
+  }
+
+  const conditions = generateRandomInitialConditions(seed);
+  const simulation = new ThreeBodySimulation();
+  simulation.initializeSystem(conditions.masses, conditions.positions, conditions.velocities);
+  const initial = simulation.getConfiguration();
+  const steps = stepsPerRequest * requests;
+
+  const advance = (step: (config: SystemConfiguration, dt: number) => SystemConfiguration) => () => {
+    let config = initial;
+    for (let i = 0; i < steps; i++) {
+      config = step(config, timeStep);
+    }
+    return config;
+  };
+
+  const runs = [
+    timeKernel('rk4-reference', steps, advance(rk4StepReference)),
+    timeKernel('rk4Step', steps, advance(rk4Step)),
+    timeKernel('rk4-workspace', steps, () => {
+      const workspace = new RK4Workspace();
+      workspace.load(initial);
+      for (let i = 0; i < steps; i++) {
+        workspace.step(timeStep);
+      }
+      return workspace.toConfiguration();
+    })
+  ];
+
+  const reference = components(runs[0].final);
+  const identical = runs.every(run => components(run.final).every((value, i) => Object.is(value, reference[i])));
+
+  const start = process.hrtime.bigint();
+  for (let r = 0; r < requests; r++) {
+    const request = new ThreeBodySimulation();
+    const { masses, positions, velocities } = generateRandomInitialConditions(`${seed}:${r}`);
+    request.initializeSystem(masses, positions, velocities);
+    request.simulateForTime(stepsPerRequest * timeStep, timeStep);
+    request.getEntropyValue();
+  }
+  const requestsPerSecond = requests / secondsSince(start);
+
+  return {
+    stepsPerRequest,
+    requests,
+    timeStep,
+    kernels: runs.map(run => run.result),
+    requestsPerSecond,
+    identical
+  };
+}
+
+/**
+ * Formats a benchmark report as a plain-text table.
+ */
+export function formatBenchmarkReport(report: BenchmarkReport): string {
+  const baseline = report.kernels[0].stepsPerSecond;
+  const lines = [
+    `RK4 benchmark: ${report.requests} requests x ${report.stepsPerRequest} steps, dt = ${report.timeStep}`,
+    '',
+    `${'kernel'.padEnd(16)}${'steps/sec'.padStart(14)}${'speed-up'.padStart(10)}`,
+    ...report.kernels.map(kernel =>
+      `${kernel.name.padEnd(16)}${Math.round(kernel.stepsPerSecond).toString().padStart(14)}` +
+      `${(kernel.stepsPerSecond / baseline).toFixed(2).padStart(9)}x`
+    ),
+    '',
+    `requests/sec: ${report.requestsPerSecond.toFixed(2)}`,
+    `bit-identical: ${report.identical ? 'yes' : 'NO'}`
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Reads a numeric command-line flag.
+ */
+function readFlag(args: string[], flag: string): number | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? Number(args[index + 1]) : undefined;
+}
+
+/* istanbul ignore next */
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  console.log(formatBenchmarkReport(runBenchmark({
+    stepsPerRequest: readFlag(args, '--steps'),
+    requests: readFlag(args, '--requests')
+  })));
+}
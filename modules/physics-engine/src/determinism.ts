@@ -0,0 +1,86 @@
+/**
+ * Determinism Module
+ * 
+ * Runs the golden vectors of the canonical computation profile and
+ * compares every output bit. Under the profile (see docs/DETERMINISM.md)
+ * fixed-step runs use only IEEE-754 basic operations and Math.sqrt, all of
+ * which are correctly rounded, so any conforming runtime reproduces the
+ * published outputs exactly.
+ */
+
+import {
+  ConformanceReport,
+  GoldenVector,
+  GoldenVectorMismatch,
+  GoldenVectorOutputs,
+  SimulationState
+} from './types';
+import { ThreeBodySimulation } from './simulation';
+import { getIntegrator } from './symplectic';
+import { GOLDEN_VECTORS } from './golden-vectors';
+
+/**
+ * Identifier of the canonical computation profile.
+ */
+export const COMPUTATION_PROFILE = 'three-body-canonical-v1';
+
+/**
+ * Encodes the time and the body states of a simulation state as big-endian
+ * IEEE-754 doubles: time, then x, y, z position and x, y, z velocity of
+ * each body in order, 1 + 6N doubles for N bodies.
+ */
+export function encodeStateHex(state: SimulationState): string {
+  const buffer = Buffer.alloc(8 * (1 + 6 * state.configuration.bodies.length));
+  let offset = buffer.writeDoubleBE(state.time, 0);
+  for (const body of state.configuration.bodies) {
+    for (const value of [body.position, body.velocity].flatMap(v => [v.x, v.y, v.z])) {
+      offset = buffer.writeDoubleBE(value, offset);
+    }
+  }
+  return buffer.toString('hex');
+}
+
+/**
+ * Runs a golden vector and returns its outputs.
+ */
+export function runGoldenVector(vector: GoldenVector): GoldenVectorOutputs {
+  const simulation = new ThreeBodySimulation({
+    integrator: getIntegrator(vector.integrator),
+    regularization: vector.regularization,
+    extraction: { version: vector.extractionVersion ?? 1 }
+  });
+  const { masses, positions, velocities } = vector.initialConditions;
+  simulation.setGravitationalConstant(vector.gravitationalConstant);
+  simulation.setSofteningParameter(vector.softeningParameter);
+  simulation.initializeSystem(masses, positions, velocities);
+
+  const state = simulation.simulateForTime(vector.duration, vector.timeStep);
+  const entropy = simulation.getEntropyValue();
+
+  return {
+    stepCount: state.stepCount,
+    stateHex: encodeStateHex(state),
+    entropyHex: entropy.hex,
+    entropyValue: entropy.value,
+    initialConditionsHash: entropy.initialConditionsHash
+  };
+}
+
+/**
+ * Runs golden vectors, by default the published suite, and reports every
+ * output that differs from the published value.
+ */
+export function checkConformance(vectors: GoldenVector[] = GOLDEN_VECTORS): ConformanceReport {
+  const mismatches: GoldenVectorMismatch[] = [];
+
+  for (const vector of vectors) {
+    const actual = runGoldenVector(vector);
+    for (const field of Object.keys(vector.expected) as Array<keyof GoldenVectorOutputs>) {
+      if (!Object.is(actual[field], vector.expected[field])) {
+        mismatches.push({ vector: vector.name, field, expected: vector.expected[field], actual: actual[field] });
+      }
+    }
+  }
+
+  return { passed: mismatches.length === 0, checked: vectors.length, mismatches };
+}
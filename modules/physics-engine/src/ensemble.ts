@@ -0,0 +1,300 @@
+/**
+ * Ensemble Analysis Module
+ * 
+ * Quantifies the butterfly effect behind the entropy: a reference run and
+ * many copies of it, each displaced by a tiny phase-space perturbation, are
+ * integrated side by side. The report shows how fast the copies diverge
+ * from the reference, how many bits their entropy hashes share, and whether
+ * their extracted values retain any correlation with the perturbations.
+ * 
+ * Perturbation directions are drawn from the version 2 seed stream, so an
+ * analysis is reproducible from its seed.
+ */
+
+import {
+  EnsembleCorrelationStatistics,
+  EnsembleDivergenceSample,
+  EnsembleHammingStatistics,
+  EnsembleMember,
+  EnsembleOptions,
+  EnsembleReport,
+  InitialConditions,
+  ObservedStep,
+  SystemConfiguration,
+  Vector3D
+} from './types';
+import { RK4_INTEGRATOR } from './integrator';
+import { createSeedStream } from './seed-stream';
+import { ThreeBodySimulation } from './simulation';
+import { phaseSpaceDistance } from './lyapunov';
+
+/**
+ * Default analysis parameters, matching a default entropy request.
+ */
+const DEFAULT_DURATION = 10.0;
+const DEFAULT_TIME_STEP = 0.001;
+const DEFAULT_DIVERGENCE_SAMPLES = 20;
+const DEFAULT_SEED = 'ensemble';
+const DEFAULT_GRAVITATIONAL_CONSTANT = 1.0;
+const DEFAULT_SOFTENING_PARAMETER = 0.01;
+
+/**
+ * Two-sided 95% quantile of the standard normal distribution.
+ */
+const NORMAL_QUANTILE_95 = 1.959963984540054;
+
+/**
+ * Bits set in each value of a hex digit.
+ */
+const HEX_DIGIT_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/**
+ * Number of bits in which two equally long hex strings differ.
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error(`Hex strings must have equal length, got ${a.length} and ${b.length}`);
+  }
+  let bits = 0;
+  for (let i = 0; i < a.length; i++) {
+    bits += HEX_DIGIT_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return bits;
+}
+
+/**
+ * Mean and population standard deviation of a series.
+ */
+function meanAndDeviation(values: number[]): { mean: number; standardDeviation: number } {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / values.length;
+  return { mean, standardDeviation: Math.sqrt(variance) };
+}
+
+/**
+ * Pearson correlation of two equally long series, or 0 when either is
+ * constant.
+ */
+export function pearsonCorrelation(x: number[], y: number[]): number {
+  const mx = x.reduce((sum, v) => sum + v, 0) / x.length;
+  const my = y.reduce((sum, v) => sum + v, 0) / y.length;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < x.length; i++) {
+    sxy += (x[i] - mx) * (y[i] - my);
+    sxx += (x[i] - mx) * (x[i] - mx);
+    syy += (y[i] - my) * (y[i] - my);
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+}
+
+/**
+ * Draws a phase-space direction of the given size from the seed stream.
+ */
+function perturbationVector(seed: string, dimension: number, magnitude: number): number[] {
+  const next = createSeedStream(seed);
+  const direction = Array.from({ length: dimension }, () => next() * 2 - 1);
+  const norm = Math.sqrt(direction.reduce((sum, v) => sum + v * v, 0));
+  return direction.map(v => (v / norm) * magnitude);
+}
+
+/**
+ * Integrates one member and records its phase-space state at the sample
+ * times. Every member takes the same step sequence, so the samples of all
+ * members fall on the same steps.
+ */
+function runMember(
+  conditions: InitialConditions,
+  options: Required<Omit<EnsembleOptions, 'seed'>>
+): { samples: SystemConfiguration[]; times: number[]; value: number; hex: string } {
+  const { duration, timeStep, divergenceSamples, gravitationalConstant, softeningParameter, integrator } = options;
+  const simulation = new ThreeBodySimulation({ integrator });
+  simulation.setGravitationalConstant(gravitationalConstant);
+  simulation.setSofteningParameter(softeningParameter);
+  simulation.initializeSystem(conditions.masses, conditions.positions, conditions.velocities);
+
+  const samples: SystemConfiguration[] = [];
+  const times: number[] = [];
+  const sampleTime = (k: number) => (k === divergenceSamples ? duration : (k * duration) / divergenceSamples);
+  const record = (step: ObservedStep, final: boolean) => {
+    while (samples.length < divergenceSamples && (final || step.time >= sampleTime(samples.length + 1))) {
+      samples.push(step.configuration);
+      times.push(step.time);
+    }
+  };
+  simulation.simulateForTime({ duration, timeStep, recorder: { observe: record } });
+
+  const { value, hex } = simulation.getEntropyValue();
+  return { samples, times, value, hex };
+}
+
+/**
+ * Runs an ensemble of perturbed copies of a system and reports how they
+ * diverge and how independent their outputs are.
+ * 
+ * Member 0 is the unperturbed reference. Member k is displaced along a
+ * phase-space direction drawn from the seed stream of `${seed}:${k}`, scaled
+ * to `perturbationMagnitude` over all position and velocity components.
+ * 
+ * @param baseConditions - Initial conditions of the reference run
+ * @param perturbationMagnitude - Phase-space size of every perturbation
+ * @param count - Number of perturbed members, at least 2
+ * @param options - Duration, time step, sampling, seed and physics settings
+ * @returns Divergence over time, Hamming and correlation statistics and
+ *   the members' outputs
+ * @throws Error if the magnitude is not a positive finite number, the count
+ *   is below 2, the divergence sample count is below 1, or the duration or
+ *   time step is not positive
+ */
+export function ensembleAnalysis(
+  baseConditions: InitialConditions,
+  perturbationMagnitude: number,
+  count: number,
+  options: EnsembleOptions = {}
+): EnsembleReport {
+  const resolved = {
+    duration: options.duration ?? DEFAULT_DURATION,
+    timeStep: options.timeStep ?? DEFAULT_TIME_STEP,
+    divergenceSamples: options.divergenceSamples ?? DEFAULT_DIVERGENCE_SAMPLES,
+    gravitationalConstant: options.gravitationalConstant ?? DEFAULT_GRAVITATIONAL_CONSTANT,
+    softeningParameter: options.softeningParameter ?? DEFAULT_SOFTENING_PARAMETER,
+    integrator: options.integrator ?? RK4_INTEGRATOR
+  };
+  const seed = options.seed ?? DEFAULT_SEED;
+
+  if (!(perturbationMagnitude > 0) || !Number.isFinite(perturbationMagnitude)) {
+    throw new Error(`Perturbation magnitude must be a positive finite number, got ${perturbationMagnitude}`);
+  }
+  if (!Number.isInteger(count) || count < 2) {
+    throw new Error(`Ensemble count must be an integer of at least 2, got ${count}`);
+  }
+  if (!Number.isInteger(resolved.divergenceSamples) || resolved.divergenceSamples < 1) {
+    throw new Error(`Divergence samples must be a positive integer, got ${resolved.divergenceSamples}`);
+  }
+  if (!(resolved.duration > 0) || !(resolved.timeStep > 0)) {
+    throw new Error(`Duration and time step must be positive, got ${resolved.duration} and ${resolved.timeStep}`);
+  }
+
+  const reference = runMember(baseConditions, resolved);
+  const dimension = 6 * baseConditions.masses.length;
+  const perturbations: number[][] = [];
+  const members: EnsembleMember[] = [{
+    index: 0,
+    perturbation: 0,
+    finalDistance: 0,
+    value: reference.value,
+    hex: reference.hex,
+    hammingDistanceToReference: 0
+  }];
+  const distances: number[][] = reference.samples.map(() => []);
+
+  for (let k = 1; k <= count; k++) {
+    const delta = perturbationVector(`${seed}:${k}`, dimension, perturbationMagnitude);
+    const shift = (v: Vector3D, offset: number): Vector3D => ({
+      x: v.x + delta[offset],
+      y: v.y + delta[offset + 1],
+      z: v.z + delta[offset + 2]
+    });
+    const conditions: InitialConditions = {
+      masses: [...baseConditions.masses],
+      positions: baseConditions.positions.map((p, i) => shift(p, 6 * i)),
+      velocities: baseConditions.velocities.map((v, i) => shift(v, 6 * i + 3))
+    };
+    perturbations.push(delta);
+
+    const member = runMember(conditions, resolved);
+    member.samples.forEach((sample, s) => distances[s].push(phaseSpaceDistance(sample, reference.samples[s])));
+    members.push({
+      index: k,
+      perturbation: perturbationMagnitude,
+      finalDistance: distances[distances.length - 1][k - 1],
+      value: member.value,
+      hex: member.hex,
+      hammingDistanceToReference: hammingDistance(member.hex, reference.hex)
+    });
+  }
+
+  const divergence: EnsembleDivergenceSample[] = distances.map((row, s) => ({
+    time: reference.times[s],
+    meanDistance: row.reduce((sum, d) => sum + d, 0) / row.length,
+    minDistance: Math.min(...row),
+    maxDistance: Math.max(...row),
+    meanLogGrowth: row.reduce((sum, d) => sum + Math.log(d / perturbationMagnitude), 0) / row.length
+  }));
+
+  return {
+    perturbationMagnitude,
+    count,
+    duration: resolved.duration,
+    timeStep: resolved.timeStep,
+    seed,
+    integrator: { name: resolved.integrator.name, order: resolved.integrator.order },
+    members,
+    divergence,
+    hamming: hammingStatistics(members.map(m => m.hex)),
+    correlation: correlationStatistics(members.slice(1).map(m => m.value), perturbations)
+  };
+}
+
+/**
+ * Summarizes the Hamming distances of every pair of outputs.
+ */
+function hammingStatistics(hexes: string[]): EnsembleHammingStatistics {
+  const pairDistances: number[] = [];
+  for (let i = 0; i < hexes.length; i++) {
+    for (let j = i + 1; j < hexes.length; j++) {
+      pairDistances.push(hammingDistance(hexes[i], hexes[j]));
+    }
+  }
+  return {
+    bits: hexes[0].length * 4,
+    pairs: pairDistances.length,
+    ...meanAndDeviation(pairDistances),
+    min: Math.min(...pairDistances),
+    max: Math.max(...pairDistances)
+  };
+}
+
+/**
+ * Correlates the members' values with each other and with their
+ * perturbations.
+ */
+function correlationStatistics(values: number[], perturbations: number[][]): EnsembleCorrelationStatistics {
+  let maxComponentCorrelation = 0;
+  for (let c = 0; c < perturbations[0].length; c++) {
+    const r = pearsonCorrelation(values, perturbations.map(delta => delta[c]));
+    maxComponentCorrelation = Math.max(maxComponentCorrelation, Math.abs(r));
+  }
+  return {
+    ...meanAndDeviation(values),
+    serialCorrelation: pearsonCorrelation(values.slice(0, -1), values.slice(1)),
+    maxComponentCorrelation,
+    significanceBound: NORMAL_QUANTILE_95 / Math.sqrt(values.length)
+  };
+}
+
+/**
+ * Exports an ensemble report as JSON.
+ */
+export function exportEnsembleJSON(report: EnsembleReport): string {
+  return JSON.stringify(report);
+}
+
+/**
+ * Exports one table of an ensemble report as CSV with a header row: the
+ * members (default) or the divergence samples. The summary statistics are
+ * only part of the JSON export.
+ */
+export function exportEnsembleCSV(report: EnsembleReport, table: 'members' | 'divergence' = 'members'): string {
+  const rows = table === 'members'
+    ? [
+      'index,perturbation,finalDistance,value,hex,hammingDistanceToReference',
+      ...report.members.map(m => [m.index, m.perturbation, m.finalDistance, m.value, m.hex, m.hammingDistanceToReference].join(','))
+    ]
+    : [
+      'time,meanDistance,minDistance,maxDistance,meanLogGrowth',
+      ...report.divergence.map(d => [d.time, d.meanDistance, d.minDistance, d.maxDistance, d.meanLogGrowth].join(','))
+    ];
+  return rows.join('\n') + '\n';
+}
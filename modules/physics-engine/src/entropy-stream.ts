@@ -0,0 +1,140 @@
+/**
+ * Entropy Stream Module
+ * 
+ * Hash chain of the samples emitted by ThreeBodySimulation.entropyStream().
+ * Each sample commits to the previous one:
+ * 
+ *   hash_i = SHA-256("<previousHash>:<step>:<stateHash>")
+ * 
+ * where previousHash is hash_(i-1), or the initial-conditions hash for the
+ * first sample, and stateHash is the version 1 state hash of the state at
+ * the sample, i.e. getEntropyValue().hex under version 1 extraction. The
+ * output of a sample is expanded from its hash in counter mode,
+ * SHA-256("<hash>:<counter>") for counter = 0, 1, ..., truncated to the
+ * requested number of bytes.
+ * 
+ * The chain can be checked offline with verifyEntropyChain(). Replaying the
+ * simulation with verifyEntropySample() additionally proves that each state
+ * hash comes from the dynamics.
+ */
+
+import { createHash } from 'crypto';
+import { EntropySample, EntropyStreamOptions } from './types';
+import { ThreeBodySimulation } from './simulation';
+
+/**
+ * Default and maximum output per sample.
+ */
+export const DEFAULT_STREAM_OUTPUT_BYTES = 32;
+export const MAX_STREAM_OUTPUT_BYTES = 1024;
+
+/**
+ * Default integration time step of a stream.
+ */
+export const DEFAULT_STREAM_TIME_STEP = 0.001;
+
+/**
+ * Validates stream options.
+ * 
+ * @throws Error if sampleEvery, outputBytes or maxSamples is not a positive
+ *   integer, outputBytes exceeds the maximum, or the time step is not a
+ *   positive finite number
+ */
+export function validateEntropyStreamOptions(options: EntropyStreamOptions): void {
+  const { sampleEvery, outputBytes = DEFAULT_STREAM_OUTPUT_BYTES, timeStep = DEFAULT_STREAM_TIME_STEP, maxSamples } = options;
+  if (!Number.isInteger(sampleEvery) || sampleEvery < 1) {
+    throw new Error(`sampleEvery must be a positive integer, got ${sampleEvery}`);
+  }
+  if (!Number.isInteger(outputBytes) || outputBytes < 1 || outputBytes > MAX_STREAM_OUTPUT_BYTES) {
+    throw new Error(`outputBytes must be an integer from 1 to ${MAX_STREAM_OUTPUT_BYTES}, got ${outputBytes}`);
+  }
+  if (!(timeStep > 0) || !Number.isFinite(timeStep)) {
+    throw new Error(`Time step must be a positive finite number, got ${timeStep}`);
+  }
+  if (maxSamples !== undefined && (!Number.isInteger(maxSamples) || maxSamples < 1)) {
+    throw new Error(`maxSamples must be a positive integer, got ${maxSamples}`);
+  }
+}
+
+/**
+ * Computes the hash that links a sample to its predecessor.
+ */
+export function chainSampleHash(previousHash: string, step: number, stateHash: string): string {
+  return createHash('sha256').update(`${previousHash}:${step}:${stateHash}`).digest('hex');
+}
+
+/**
+ * Expands a sample hash to the requested number of output bytes.
+ */
+export function expandSampleOutput(hash: string, outputBytes: number): string {
+  const blocks: Buffer[] = [];
+  for (let counter = 0; blocks.length * 32 < outputBytes; counter++) {
+    blocks.push(createHash('sha256').update(`${hash}:${counter}`).digest());
+  }
+  return Buffer.concat(blocks).subarray(0, outputBytes).toString('hex');
+}
+
+/**
+ * Checks the links of a run of consecutive samples without replaying the
+ * simulation: every hash and output is recomputed from the sample's fields,
+ * each sample must point at the hash of the one before it, and indices and
+ * steps must increase.
+ * 
+ * @param samples - Consecutive samples, in order
+ * @param previousHash - Hash the first sample must point at; the
+ *   initial-conditions hash when the samples start at index 0
+ * @returns Whether the chain is intact
+ */
+export function verifyEntropyChain(samples: EntropySample[], previousHash: string): boolean {
+  let expectedPrevious = previousHash;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i];
+    if (i > 0 && (sample.index !== samples[i - 1].index + 1 || sample.step <= samples[i - 1].step)) {
+      return false;
+    }
+    if (sample.previousHash !== expectedPrevious) {
+      return false;
+    }
+    const hash = chainSampleHash(sample.previousHash, sample.step, sample.stateHash);
+    if (hash !== sample.hash || expandSampleOutput(hash, sample.output.length / 2) !== sample.output) {
+      return false;
+    }
+    expectedPrevious = sample.hash;
+  }
+  return true;
+}
+
+/**
+ * Replays a stream up to a sample and checks that the replay emits exactly
+ * that sample.
+ * 
+ * @param simulation - A simulation configured and initialized exactly like
+ *   the one that produced the stream, with no steps taken
+ * @param options - The stream's sampleEvery, outputBytes and timeStep
+ * @param sample - The sample to verify
+ * @returns Whether the replayed sample matches
+ */
+export async function verifyEntropySample(
+  simulation: ThreeBodySimulation,
+  options: EntropyStreamOptions,
+  sample: EntropySample
+): Promise<boolean> {
+  let replayed: EntropySample | undefined;
+  const stream = simulation.entropyStream({
+    sampleEvery: options.sampleEvery,
+    outputBytes: options.outputBytes,
+    timeStep: options.timeStep,
+    maxSamples: sample.index + 1
+  });
+  for await (const next of stream) {
+    replayed = next;
+  }
+  return !!replayed &&
+    replayed.index === sample.index &&
+    replayed.step === sample.step &&
+    replayed.time === sample.time &&
+    replayed.stateHash === sample.stateHash &&
+    replayed.previousHash === sample.previousHash &&
+    replayed.hash === sample.hash &&
+    replayed.output === sample.output;
+}
@@ -0,0 +1,291 @@
+/**
+ * Simulation Event Module
+ * 
+ * Detects the physically interesting moments of a run from the sequence of
+ * accepted configurations: close encounters between pairs, the formation of
+ * isolated bound binaries, and the escape of a single body. Events are
+ * reported once per occurrence; a condition must lapse before the same
+ * event can be reported again.
+ * 
+ * Pairs are tracked in listBodyPairs order, so for three bodies they are
+ * (0, 1), (0, 2), (1, 2).
+ */
+
+import {
+  Body,
+  EventDetectionOptions,
+  EventDetectorState,
+  SimulationEvent,
+  SystemConfiguration,
+  TrackedEncounter
+} from './types';
+import * as vec from './vector';
+import { listBodyPairs } from './integrator';
+
+/**
+ * Default event thresholds.
+ */
+export const DEFAULT_EVENT_DETECTION: EventDetectionOptions = {
+  closeEncounterDistance: 0.1,
+  escapeDistance: 10.0,
+  binaryIsolationFactor: 3.0
+};
+
+/**
+ * Orbital elements of a two-body relative orbit.
+ */
+export interface TwoBodyElements {
+  /** Relative energy (negative when bound) */
+  energy: number;
+  /** Semi-major axis (Infinity when unbound) */
+  semiMajorAxis: number;
+  /** Eccentricity */
+  eccentricity: number;
+}
+
+/**
+ * Computes the unsoftened relative orbit of two bodies.
+ */
+export function calculateTwoBodyElements(a: Body, b: Body, G: number): TwoBodyElements {
+  const r = vec.subtract(b.position, a.position);
+  const v = vec.subtract(b.velocity, a.velocity);
+  const distance = vec.magnitude(r);
+  const reducedMass = (a.mass * b.mass) / (a.mass + b.mass);
+  const k = G * a.mass * b.mass;
+
+  const energy = 0.5 * reducedMass * vec.magnitudeSquared(v) - k / distance;
+  const angularMomentum = reducedMass * vec.magnitude(vec.cross(r, v));
+  const eccentricity = Math.sqrt(Math.max(0, 1 + (2 * energy * angularMomentum * angularMomentum) / (reducedMass * k * k)));
+  const semiMajorAxis = energy < 0 ? -k / (2 * energy) : Infinity;
+
+  return { energy, semiMajorAxis, eccentricity };
+}
+
+/**
+ * Combines two bodies into a single body at their center of mass.
+ */
+function combineBodies(a: Body, b: Body): Body {
+  const mass = a.mass + b.mass;
+  return {
+    mass,
+    position: vec.scale(vec.add(vec.scale(a.position, a.mass), vec.scale(b.position, b.mass)), 1 / mass),
+    velocity: vec.scale(vec.add(vec.scale(a.velocity, a.mass), vec.scale(b.velocity, b.mass)), 1 / mass)
+  };
+}
+
+/**
+ * Combines bodies into a single body at their center of mass, adding them
+ * in order. A single body is returned as is.
+ */
+function combineAll(bodies: Body[]): Body {
+  return bodies.reduce(combineBodies);
+}
+
+/**
+ * Validates event thresholds.
+ * 
+ * @throws Error if a threshold is not a positive finite number
+ */
+export function validateEventDetectionOptions(options: EventDetectionOptions): void {
+  for (const [name, value] of Object.entries(options)) {
+    if (!(value > 0) || !Number.isFinite(value)) {
+      throw new Error(`Event option ${name} must be a positive finite number, got ${value}`);
+    }
+  }
+}
+
+/**
+ * Tracks pair and body state across configurations and emits events on
+ * transitions.
+ */
+export class EventDetector {
+  private readonly options: EventDetectionOptions;
+  private pairs: Array<[number, number]> = [];
+  private encounters: Array<TrackedEncounter | null> = [];
+  private binaries: boolean[] = [];
+  private escaped: boolean[] = [];
+
+  constructor(options: Partial<EventDetectionOptions> = {}) {
+    this.options = { ...DEFAULT_EVENT_DETECTION, ...options };
+    validateEventDetectionOptions(this.options);
+    this.reset();
+  }
+
+  /**
+   * Gets the thresholds in use.
+   */
+  getOptions(): EventDetectionOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Forgets all tracked state and prepares for systems of bodyCount bodies.
+   */
+  reset(bodyCount: number = 3): void {
+    this.pairs = listBodyPairs(bodyCount);
+    this.encounters = this.pairs.map(() => null);
+    this.binaries = this.pairs.map(() => false);
+    this.escaped = new Array<boolean>(bodyCount).fill(false);
+  }
+
+  /**
+   * Gets a copy of the tracked state.
+   */
+  getState(): EventDetectorState {
+    return {
+      encounters: this.encounters.map(encounter => (encounter ? { ...encounter } : null)),
+      binaries: [...this.binaries],
+      escaped: [...this.escaped]
+    };
+  }
+
+  /**
+   * Replaces the tracked state, e.g. when resuming from a snapshot.
+   * 
+   * @throws Error if the state does not cover every pair and body of the
+   *   system size given to the last reset()
+   */
+  restoreState(state: EventDetectorState): void {
+    const pairCount = this.pairs.length;
+    if (
+      state.encounters.length !== pairCount ||
+      state.binaries.length !== pairCount ||
+      state.escaped.length !== this.escaped.length
+    ) {
+      throw new Error(`Event detector state must cover ${pairCount} pairs and ${this.escaped.length} bodies`);
+    }
+    this.encounters = state.encounters.map(encounter => (encounter ? { ...encounter } : null));
+    this.binaries = [...state.binaries];
+    this.escaped = [...state.escaped];
+  }
+
+  /**
+   * Inspects a configuration and returns the events it completes.
+   */
+  observe(config: SystemConfiguration, time: number, step: number): SimulationEvent[] {
+    return [
+      ...this.detectCloseEncounters(config, time, step),
+      ...this.detectBinaries(config, time, step),
+      ...this.detectEscapes(config, time, step)
+    ];
+  }
+
+  /**
+   * Reports each encounter at its smallest sampled separation, once the pair
+   * starts to separate again or leaves the encounter distance.
+   */
+  private detectCloseEncounters(config: SystemConfiguration, time: number, step: number): SimulationEvent[] {
+    const events: SimulationEvent[] = [];
+
+    this.pairs.forEach(([i, j], index) => {
+      const a = config.bodies[i];
+      const b = config.bodies[j];
+      const distance = vec.distance(a.position, b.position);
+      const current = this.encounters[index];
+
+      if (distance >= this.options.closeEncounterDistance) {
+        if (current && !current.reported) {
+          events.push(this.encounterEvent(i, j, current));
+        }
+        this.encounters[index] = null;
+        return;
+      }
+
+      const relativeSpeed = vec.distance(a.velocity, b.velocity);
+      if (!current) {
+        this.encounters[index] = { distance, relativeSpeed, time, step, reported: false };
+      } else if (distance < current.distance) {
+        this.encounters[index] = { distance, relativeSpeed, time, step, reported: false };
+      } else if (!current.reported && distance > current.distance) {
+        events.push(this.encounterEvent(i, j, current));
+        current.reported = true;
+      }
+    });
+
+    return events;
+  }
+
+  private encounterEvent(
+    i: number,
+    j: number,
+    minimum: TrackedEncounter
+  ): SimulationEvent {
+    return {
+      type: 'close-encounter',
+      time: minimum.time,
+      step: minimum.step,
+      bodies: [i, j],
+      distance: minimum.distance,
+      relativeSpeed: minimum.relativeSpeed
+    };
+  }
+
+  /**
+   * A pair is a binary when it is bound and every other body stays further
+   * from the pair's center of mass than binaryIsolationFactor apocenters.
+   * A two-body system is a binary whenever it is bound.
+   */
+  private detectBinaries(config: SystemConfiguration, time: number, step: number): SimulationEvent[] {
+    const events: SimulationEvent[] = [];
+    const G = config.gravitationalConstant;
+
+    this.pairs.forEach(([i, j], index) => {
+      const a = config.bodies[i];
+      const b = config.bodies[j];
+      const elements = calculateTwoBodyElements(a, b, G);
+      const apocenter = elements.semiMajorAxis * (1 + elements.eccentricity);
+      const center = combineBodies(a, b).position;
+      let nearestOther = Infinity;
+      config.bodies.forEach((other, k) => {
+        if (k !== i && k !== j) {
+          nearestOther = Math.min(nearestOther, vec.distance(center, other.position));
+        }
+      });
+      const isBinary = elements.energy < 0 && nearestOther > this.options.binaryIsolationFactor * apocenter;
+
+      if (isBinary && !this.binaries[index]) {
+        events.push({
+          type: 'binary-formation',
+          time,
+          step,
+          bodies: [i, j],
+          distance: vec.distance(a.position, b.position),
+          semiMajorAxis: elements.semiMajorAxis,
+          eccentricity: elements.eccentricity
+        });
+      }
+      this.binaries[index] = isBinary;
+    });
+
+    return events;
+  }
+
+  /**
+   * A body has escaped when it is beyond the escape distance of every other
+   * body, unbound from their combined mass, and moving away from them.
+   * Requiring every distance keeps a member of a wide binary from being
+   * mistaken for an escaper.
+   */
+  private detectEscapes(config: SystemConfiguration, time: number, step: number): SimulationEvent[] {
+    const events: SimulationEvent[] = [];
+
+    for (let k = 0; k < config.bodies.length; k++) {
+      const body = config.bodies[k];
+      const others = config.bodies.filter((_, index) => index !== k);
+      const rest = combineAll(others);
+      const separation = vec.subtract(body.position, rest.position);
+      const distance = vec.magnitude(separation);
+      const receding = vec.dot(separation, vec.subtract(body.velocity, rest.velocity)) > 0;
+      const { energy } = calculateTwoBodyElements(rest, body, config.gravitationalConstant);
+      const nearest = Math.min(...others.map(other => vec.distance(body.position, other.position)));
+      const hasEscaped = nearest > this.options.escapeDistance && energy > 0 && receding;
+
+      if (hasEscaped && !this.escaped[k]) {
+        events.push({ type: 'escape', time, step, body: k, distance, energy });
+      }
+      this.escaped[k] = hasEscaped;
+    }
+
+    return events;
+  }
+}
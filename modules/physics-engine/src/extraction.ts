@@ -0,0 +1,158 @@
+/**
+ * Entropy Extraction Module
+ * 
+ * Versioned algorithms that turn a run into entropy. Version 1 looks at the
+ * final state only: hex is the SHA-256 of the position and velocity
+ * components written with toExponential(15) and joined with ":", and value
+ * is the chaotic metric of the final state. Version 2 absorbs states along
+ * the whole trajectory into an incremental hash chain:
+ * 
+ *   d_0   = SHA-256(UTF-8("three-body-entropy:extraction:v2:" + initialConditionsHash))
+ *   d_k   = SHA-256(d_(k-1) || 0x01 || record(state after step k * absorbEvery))
+ *   hex   = SHA-256(d_K || 0x02 || record(state at extraction))
+ *   value = (first 53 bits of hex) / 2^53
+ * 
+ * where record(state) is the step count, the time and then the x, y, z
+ * position and x, y, z velocity of each body, all as big-endian IEEE-754
+ * doubles. The 256-bit output commits to every absorbed state, and the
+ * value is uniformly distributed in [0, 1) with the full 53 bits of double
+ * precision. Version 1 is kept so that entropy issued before version 2
+ * still verifies.
+ */
+
+import { createHash } from 'crypto';
+import { Body, ExtractionVersion, TrajectoryDigestState } from './types';
+
+/**
+ * Version used for new simulations.
+ */
+export const CURRENT_EXTRACTION_VERSION: ExtractionVersion = 2;
+
+/**
+ * Default number of steps between absorbed states (version 2).
+ */
+export const DEFAULT_ABSORB_EVERY = 100;
+
+/**
+ * Domain-separation label that starts the version 2 chain.
+ */
+export const EXTRACTION_V2_LABEL = 'three-body-entropy:extraction:v2';
+
+const ABSORB_TAG = 0x01;
+const FINALIZE_TAG = 0x02;
+const TWO_POW_21 = 0x200000;
+const TWO_POW_53 = 0x20000000000000;
+
+/**
+ * Validates an extraction version.
+ * 
+ * @throws Error if the version is not supported
+ */
+export function assertExtractionVersion(version: number): asserts version is ExtractionVersion {
+  if (version !== 1 && version !== 2) {
+    throw new Error(`Unsupported extraction version ${version}`);
+  }
+}
+
+/**
+ * Encodes the step count, time and body states of a trajectory point as
+ * big-endian IEEE-754 doubles, 2 + 6N doubles for N bodies.
+ */
+export function encodeTrajectoryRecord(stepCount: number, time: number, bodies: Body[]): Buffer {
+  const buffer = Buffer.alloc(8 * (2 + 6 * bodies.length));
+  let offset = buffer.writeDoubleBE(stepCount, 0);
+  offset = buffer.writeDoubleBE(time, offset);
+  for (const body of bodies) {
+    offset = buffer.writeDoubleBE(body.position.x, offset);
+    offset = buffer.writeDoubleBE(body.position.y, offset);
+    offset = buffer.writeDoubleBE(body.position.z, offset);
+    offset = buffer.writeDoubleBE(body.velocity.x, offset);
+    offset = buffer.writeDoubleBE(body.velocity.y, offset);
+    offset = buffer.writeDoubleBE(body.velocity.z, offset);
+  }
+  return buffer;
+}
+
+/**
+ * Reads the first 53 bits of a buffer as a float uniformly distributed in
+ * [0, 1).
+ */
+export function uniformFloat53(bytes: Buffer): number {
+  const high = bytes.readUInt32BE(0);
+  const low = bytes.readUInt32BE(4) >>> 11;
+  return (high * TWO_POW_21 + low) / TWO_POW_53;
+}
+
+/**
+ * Incremental hash chain of the version 2 extraction.
+ */
+export class TrajectoryAbsorber {
+  private readonly absorbEvery: number;
+  private digest: Buffer;
+  private absorbed: number = 0;
+
+  /**
+   * @param initialConditionsHash - Hash of the run's initial conditions
+   * @param absorbEvery - Steps between absorbed states
+   */
+  constructor(initialConditionsHash: string, absorbEvery: number = DEFAULT_ABSORB_EVERY) {
+    this.absorbEvery = absorbEvery;
+    this.digest = createHash('sha256').update(`${EXTRACTION_V2_LABEL}:${initialConditionsHash}`, 'utf8').digest();
+  }
+
+  /**
+   * Absorbs the state after an accepted step when the step count is a
+   * multiple of absorbEvery.
+   */
+  observe(stepCount: number, time: number, bodies: Body[]): void {
+    if (stepCount % this.absorbEvery === 0) {
+      this.digest = this.chain(ABSORB_TAG, encodeTrajectoryRecord(stepCount, time, bodies));
+      this.absorbed++;
+    }
+  }
+
+  /**
+   * Computes the 256-bit output for the state at extraction. The chain
+   * itself is left unchanged, so the run can continue.
+   */
+  finalize(stepCount: number, time: number, bodies: Body[]): Buffer {
+    return this.chain(FINALIZE_TAG, encodeTrajectoryRecord(stepCount, time, bodies));
+  }
+
+  /**
+   * Number of states absorbed so far.
+   */
+  getAbsorbedStates(): number {
+    return this.absorbed;
+  }
+
+  /**
+   * Captures the chain for a snapshot.
+   */
+  getState(): TrajectoryDigestState {
+    return { digest: this.digest.toString('hex'), absorbedStates: this.absorbed };
+  }
+
+  /**
+   * Continues the chain captured by getState().
+   * 
+   * @throws Error if the state is malformed
+   */
+  restoreState(state: TrajectoryDigestState): void {
+    if (typeof state.digest !== 'string' || !/^[0-9a-f]{64}$/.test(state.digest)) {
+      throw new Error('Trajectory digest must be 64 hex characters');
+    }
+    if (!Number.isInteger(state.absorbedStates) || state.absorbedStates < 0) {
+      throw new Error(`Absorbed state count must be a non-negative integer, got ${state.absorbedStates}`);
+    }
+    this.digest = Buffer.from(state.digest, 'hex');
+    this.absorbed = state.absorbedStates;
+  }
+
+  /**
+   * Hashes the chain value with a tagged record.
+   */
+  private chain(tag: number, record: Buffer): Buffer {
+    return createHash('sha256').update(this.digest).update(Buffer.of(tag)).update(record).digest();
+  }
+}
@@ -0,0 +1,444 @@
+/**
+ * Golden Vectors
+ * 
+ * Published reference runs of the canonical computation profile. Each
+ * vector fixes the initial conditions and the simulateForTime() arguments,
+ * and records the step count, the final state as IEEE-754 hex and the
+ * entropy output, extracted with version 1 unless the vector names another
+ * extraction version. Numbers are written in their shortest round-trip
+ * form, which every conforming parser reads back to the same double.
+ * 
+ * These values are a compatibility contract: a change that alters any of
+ * them changes the entropy players verify, and needs a new profile version
+ * rather than an update here.
+ */
+
+import { GoldenVector } from './types';
+
+/**
+ * The golden vector suite of the three-body-canonical-v1 profile.
+ */
+export const GOLDEN_VECTORS: GoldenVector[] = [
+  {
+    name: 'figure-eight-rk4',
+    description: 'Figure-eight orbit with the default RK4 integrator and softening',
+    initialConditions: {
+      masses: [1, 1, 1],
+      positions: [
+        { x: -1, y: 0, z: 0 },
+        { x: 1, y: 0, z: 0 },
+        { x: 0, y: 0, z: 0 }
+      ],
+      velocities: [
+        { x: 0.347111, y: 0.532728, z: 0 },
+        { x: 0.347111, y: 0.532728, z: 0 },
+        { x: -0.694222, y: -1.065456, z: 0 }
+      ]
+    },
+    gravitationalConstant: 1,
+    softeningParameter: 0.01,
+    integrator: 'rk4',
+    regularization: 'none',
+    duration: 1,
+    timeStep: 0.001,
+    expected: {
+      stepCount: 1000,
+      stateHex:
+        '3ff0000000000000bfaf12087232b4543fa1129562f9597100000000000000003ff1e2f3c8c2d184bfe358dae5d89fb0' +
+        '00000000000000003fed23128f193e923fdd111ae34c614a0000000000000000bfdfefea7e5fe60d3fd56e58a7c85d5f' +
+        '0000000000000000bfeb31f207f61351bfdf336d8fab8c840000000000000000bfe3cdf25255afec3fd1435d23e8e1f0' +
+        '0000000000000000',
+      entropyHex: '6527d5a1e9371fc403c8c7f7e823fb030bb063c7c1167d4bfded17dd375c57c2',
+      entropyValue: 0.061186579512135825,
+      initialConditionsHash: '26e5102766634f8910f4b692baead1d8750e4606e43d42e386b3b4f6c7a0321d'
+    }
+  },
+  {
+    name: 'seeded-rk4',
+    description: 'Version 2 seed stream conditions integrated with RK4',
+    initialConditions: {
+      masses: [1.304092563708413, 1.1739109340648364, 1.862272674389539],
+      positions: [
+        { x: -3.3524764238330307, y: 2.7534603663893726, z: -2.4767047663839667 },
+        { x: -4.526362094449939, y: -2.1677320521849754, z: 0.1159684846579836 },
+        { x: -1.728568503143518, y: 3.51322851213226, z: 3.108086961637607 }
+      ],
+      velocities: [
+        { x: 0.5336400500415097, y: 0.3430303429634485, z: -0.8501235138960961 },
+        { x: 0.4418010127493217, y: -0.3747248010525761, z: -0.7971752348842984 },
+        { x: -0.907175935453516, y: 0.9320679736476443, z: -0.687391017586718 }
+      ]
+    },
+    gravitationalConstant: 1,
+    softeningParameter: 0.01,
+    integrator: 'rk4',
+    regularization: 'none',
+    duration: 2,
+    timeStep: 0.001,
+    expected: {
+      stepCount: 2001,
+      stateHex:
+        '4000000000000000c00248eacf289a04400b3d370b593badc0102dbdb1b58cfd3fe0d024244c037d3fd41b154069726f' +
+        'bfe71c510f96faf8c00ce29ecb798738c006605c04a4a8cfbff7b35193da68353fddf2b32eeb05a5bfd0ac8f93099bca' +
+        'bfe9998423174377c00c80c3982bb84e40154db5d81e812e3ffa47ab67665825bfed5f54e5947b5c3fec2b7979ca9daa' +
+        'bfe8ce61ce4f4a3d',
+      entropyHex: '85e0223f7dfcb30d3715896a9104cc49e4179e308746da73149704904aaf609a',
+      entropyValue: 0.8498542826553278,
+      initialConditionsHash: 'c509e0b5e653892c2bf0f121f4afdbc7b6f71114a58e821a4b45977f5ea471e0'
+    }
+  },
+  {
+    name: 'legacy-seed-rk4',
+    description: 'Version 1 seed stream conditions with a coarse RK4 step',
+    initialConditions: {
+      masses: [1.7058823529411766, 1.1352941176470588, 1.1294117647058823],
+      positions: [
+        { x: 4.568627450980392, y: -1.5098039215686274, z: 3.4705882352941178 },
+        { x: 4.450980392156863, y: 2.9607843137254894, z: -2.450980392156863 },
+        { x: 1.9411764705882355, y: 4.568627450980392, z: -3.1176470588235294 }
+      ],
+      velocities: [
+        { x: 0.019607843137254832, y: 0.4274509803921569, z: 0.5529411764705883 },
+        { x: -0.4274509803921569, y: -0.0117647058823529, z: 0.07450980392156858 },
+        { x: -0.07450980392156858, y: 0.6549019607843136, z: -0.6313725490196078 }
+      ]
+    },
+    gravitationalConstant: 1,
+    softeningParameter: 0.01,
+    integrator: 'rk4',
+    regularization: 'none',
+    duration: 10,
+    timeStep: 0.01,
+    expected: {
+      stepCount: 1001,
+      stateHex:
+        '4024000000000000401214634894f55b400ab09ffb8d9621401fd82b1b928e97bf9e2c429727a1fc3fe067e275c51a4d' +
+        '3fd7bf7888bdf8a0bfecaad8cfff819f4013364be6fdb11ac003eb7c402d8064bfdec610356c7c5d3fd31e4e9faa6c5f' +
+        'bfaf88c15fb63d3f4005265d96083f654020918efbca92f5c01c4bcba45ece5a3fab4734521f5ab33fcb66635bc42b6d' +
+        'bfcc24072daebc22',
+      entropyHex: '09186bd50f55647ef0338e78b36638f262211cd61a1a4e04e37a27b1fb9e8e29',
+      entropyValue: 0.8683472478714139,
+      initialConditionsHash: 'f9a16f9a00c3f36d4e2d5eafcc8eff096d4ea0476f8b2387c9993861905858f2'
+    }
+  },
+  {
+    name: 'scaled-rk4',
+    description: 'Non-unit gravitational constant and softening',
+    initialConditions: {
+      masses: [0.6656691335349435, 1.9185226945506715, 0.9314464026150924],
+      positions: [
+        { x: 1.0416170255431574, y: 4.99602546088377, z: -3.401761620170023 },
+        { x: 0.35768320434337575, y: 3.377095038307287, z: 1.1522091372832834 },
+        { x: 0.22049591113205125, y: 2.244315823588386, z: 2.4631139778768336 }
+      ],
+      velocities: [
+        { x: 0.11086746546499526, y: -0.8728866405151385, z: -0.36752601290872766 },
+        { x: 0.23028485695677103, y: 0.8421437030386218, z: -0.26317426797599563 },
+        { x: -0.871759021142255, y: -0.0860289117254267, z: -0.9577092962949172 }
+      ]
+    },
+    gravitationalConstant: 0.5,
+    softeningParameter: 0.05,
+    integrator: 'rk4',
+    regularization: 'none',
+    duration: 2,
+    timeStep: 0.002,
+    expected: {
+      stepCount: 1000,
+      stateHex:
+        '40000000000000003ff3eebd3e93eb964009dbd6509b3d14c0101fdb89358ad73fb7690f84b66c7ebfec31f86a9dca80' +
+        'bfd0b2f897e25e5d3fe7e794c22f492840138f4772bafc043fe67fd498e13da93fc446bf204cf7aa3fe647f59f9ef60c' +
+        'bfcce605e030ba04bff5d1e7dcddd1df40038179e35044ef3fd4090f3eafc7ffbfe6b6f8ce0099783fcc31d9b584d2c8' +
+        'bff1c665e603a97a',
+      entropyHex: 'b50328d2683f6e69d0cdd800f93885c088c0ad4eb19dfa06ea1afc0ca53670a9',
+      entropyValue: 0.04998412135299796,
+      initialConditionsHash: 'd6b792f705b067a79d6fb56c7a35c2e7fb29085b1a85041e0f5ec3bb05e5280c'
+    }
+  },
+  {
+    name: 'velocity-verlet',
+    description: 'Velocity Verlet splitting',
+    initialConditions: {
+      masses: [1.4447514922567677, 1.4646567931046583, 1.7361473492572113],
+      positions: [
+        { x: -2.5391945155627758, y: -0.6571139379639002, z: -4.318017743492901 },
+        { x: 3.996058281942849, y: 3.732240707238052, z: 4.628682196771267 },
+        { x: -4.418820427441009, y: 2.6636841485351628, z: -2.6769107137295487 }
+      ],
+      velocities: [
+        { x: 0.5908662023761149, y: 0.5890080034806402, z: -0.10576374681823131 },
+        { x: -0.3819451636764435, y: 0.652219205829113, z: 0.8831364679199372 },
+        { x: 0.725803725319278, y: 0.6998995271010444, z: 0.5157991181199018 }
+      ]
+    },
+    gravitationalConstant: 1,
+    softeningParameter: 0.01,
+    integrator: 'velocity-verlet',
+    regularization: 'none',
+    duration: 1,
+    timeStep: 0.001,
+    expected: {
+      stepCount: 1000,
+      stateHex:
+        '3ff0000000000000bfff773541985b28bf9cad17abc7802ac011986ef2f6d9f23fe1c944365a94ad3fe55b2ac9556978' +
+        'bfac1233339f92b6400cd9a60b9c4e98401187188926b9434016032b463a4407bfd96fdec685e6f03fe4b591c1314059' +
+        '3febb08df4471b96c00d5e9ba687c4d2400aa8a5a5df80d9c001655afb5a91c13fe893e11d2765363fe472410a1f2db7' +
+        '3fdf42df9687d14a',
+      entropyHex: '1f2548a638efa922de1f7dbb0d821329010ba97612bf21ad4a879abe0e5adb5b',
+      entropyValue: 0.1969489678373143,
+      initialConditionsHash: '4242f6b9ff92dd878f458f03e59e0c6841c47b050bf9f836f1ea7a0b665084b0'
+    }
+  },
+  {
+    name: 'yoshida4',
+    description: 'Yoshida 4th-order composition',
+    initialConditions: {
+      masses: [1.545140350233918, 1.6575217922869168, 1.9600644221488617],
+      positions: [
+        { x: -1.9046759581058303, y: 2.333135118038059, z: -1.2499124698822381 },
+        { x: 1.9522681538124775, y: -3.858911785085394, z: 4.214883227283735 },
+        { x: 2.5471263713910215, y: -2.5707947076379423, z: 0.1302331155914107 }
+      ],
+      velocities: [
+        { x: 0.8538781496605548, y: -0.24359868013633523, z: -0.7494055245887252 },
+        { x: 0.247516277946646, y: -0.6087771462274265, z: -0.8481061642783998 },
+        { x: -0.3595683364240856, y: -0.6742613176516608, z: -0.7082946743855909 }
+      ]
+    },
+    gravitationalConstant: 1,
+    softeningParameter: 0.01,
+    integrator: 'yoshida4',
+    regularization: 'none',
+    duration: 1,
+    timeStep: 0.001,
+    expected: {
+      stepCount: 1000,
+      stateHex:
+        '3ff0000000000000bff087b3b2d1d97a4000861c09f06604bfffd143e71324003fec6db25de4f9a9bfd2c816b275aebb' +
+        'bfe748201a17e52840019b9127e25f00c011c7931e536ada400a796806856b383fcfae55b57207d0bfe1fdaec71af81a' +
+        'bfeee7e09a71a6044001618f078aa70ac009f683afc12358bfe13672f8536821bfd8c0cda82c99b0bfe594152295ce5f' +
+        'bfe408188eba0088',
+      entropyHex: 'f001c17de18a049256530914b4f261b60ef5543e8e4219e2f612a8ca5afc0f3d',
+      entropyValue: 0.9969525172849993,
+      initialConditionsHash: '9bf81513dad6dcf41fafc8ea9d545462c5bb18dc5d4d7d9aea74ce9a1c2b08b4'
+    }
+  },
+  {
+    name: 'forest-ruth',
+    description: 'Forest-Ruth 4th-order composition',
+    initialConditions: {
+      masses: [1.3946635264475034, 1.270527589667964, 0.6455440173207714],
+      positions: [
+        { x: -2.4131547021581765, y: -2.4175794436925404, z: 1.3080419158481522 },
+        { x: -4.741130476946953, y: -0.4096038500009165, z: -0.4945424523680284 },
+        { x: 2.374470660155204, y: -0.25717746863830104, z: -3.2483823409511716 }
+      ],
+      velocities: [
+        { x: -0.4840843261609791, y: -0.9820488155639577, z: -0.9817396427329048 },
+        { x: 0.5260548972689534, y: -0.42370982693627, z: -0.29479971599240673 },
+        { x: 0.844142385030817, y: -0.8698236211436976, z: -0.733654425504541 }
+      ]
+    },
+    gravitationalConstant: 1,
+    softeningParameter: 0.01,
+    integrator: 'forest-ruth',
+    regularization: 'none',
+    duration: 1,
+    timeStep: 0.001,
+    expected: {
+      stepCount: 1000,
+      stateHex:
+        '3ff0000000000000c00768958ea0f0b8c00ae186403f74003fd2f301fe379760bfe1511111dc5152bfec8fb7ea792a6a' +
+        'bff0ab7d994e71c0c010b1b9fcfad643bfebfcc8c31994a8bfe8656f5ca52b103fe375661afae461bfe09448d78cc62f' +
+        'bfcecec07b690c5b400997ef1144babebff218ed44c91eb6c00fc22b1a3037e23fe9ca991fdcbd1dbfec13cf7a0e40e1' +
+        'bfe6ba6dc5cdff63',
+      entropyHex: 'b3dde370cb16f19b62b90d8896aa356942a39ac6fceea945fd18fb692318c52d',
+      entropyValue: 0.9803756949095271,
+      initialConditionsHash: '8c113a5fa5089cea361f7fb65ec9ee62f972a8baad650fd624ae4a6f9f706ae7'
+    }
+  },
+  {
+    name: 'ks-close-pair',
+    description: 'Tight pair without softening under KS regularization',
+    initialConditions: {
+      masses: [1, 1, 0.5],
+      positions: [
+        { x: -0.05, y: 0, z: 0 },
+        { x: 0.05, y: 0, z: 0 },
+        { x: 0, y: 2, z: 0.25 }
+      ],
+      velocities: [
+        { x: 0, y: -2, z: 0 },
+        { x: 0, y: 2, z: 0.1 },
+        { x: 0.3, y: 0, z: 0 }
+      ]
+    },
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    integrator: 'rk4',
+    regularization: 'ks',
+    duration: 1,
+    timeStep: 0.01,
+    expected: {
+      stepCount: 100,
+      stateHex:
+        '3ff00000000000003f8b1f703df5e2443f9c4468c9a1a4723facf429fa6589e940036d69a0fae5e93ff46765b4cd1b8b' +
+        '3fb7de4a3eb1bb50bf79d09b2c45026c3fb9e48d8de5bf663fade5b71dceaec9c0033ecb6409da53bff00de027e1d235' +
+        '3fa2ed4509c4d0753fd24fc108b5fcfb3ffbe14b07f63af63fcc2ca90d7f7d503fd0494f642279a7bfe1661633ad2562' +
+        'bfaeed4ca7ea27a9',
+      entropyHex: '96d999d74437439943f13e5d6cdc16d4002535b1fe04add9821ee1d901bb127e',
+      entropyValue: 0.08356618229852655,
+      initialConditionsHash: '945b36bb2d14cb2f4268349afccf942b3339739a015f0162167bdda23f55f7af'
+    }
+  },
+  {
+    name: 'five-body-cluster-rk4',
+    description: 'Five-body cluster with the default RK4 integrator and softening',
+    initialConditions: {
+      masses: [1, 0.75, 1.25, 0.5, 1],
+      positions: [
+        { x: 0, y: 0, z: 0 },
+        { x: 1.5, y: 0.25, z: 0 },
+        { x: -0.75, y: 1.25, z: 0.125 },
+        { x: -1, y: -1.5, z: -0.25 },
+        { x: 0.5, y: -0.75, z: 0.5 }
+      ],
+      velocities: [
+        { x: 0, y: 0.125, z: 0 },
+        { x: -0.25, y: 0.5, z: 0 },
+        { x: -0.375, y: -0.25, z: 0.0625 },
+        { x: 0.5, y: -0.125, z: 0 },
+        { x: 0.25, y: 0.375, z: -0.125 }
+      ]
+    },
+    gravitationalConstant: 1,
+    softeningParameter: 0.01,
+    integrator: 'rk4',
+    regularization: 'none',
+    duration: 1,
+    timeStep: 0.001,
+    expected: {
+      stepCount: 1000,
+      stateHex:
+        '3ff00000000000003fdb3f9104de670e3fd61e33263c1edbbfa4fb1202857f633fdaf8b9fe3888b13ffdbd84e0cae480' +
+        'bfdb30a7e885a72f3fe287cc9d8bf3873fd920b5773e85503fb91e82baa9b408c00536f26d279cd6bfefb0e52e194b94' +
+        'bfb8d022f75b8062bfea66443291bb2b3fe56d4da2e4ad493fc60a2c9ca35cf03fd73002179ae49dbfed188769522702' +
+        '3f9e691c4d8f3b3ebfd162cfefb4ebc1bff45f87e70cfb14bfc32bfd0d9e696d3fee1232bcee54fc3fe5be4edd883cfb' +
+        '3fcadb20e3ea514f3fd5a5ce85167565bfb723b62332f7af3fd3ee4d1ed25e663fdf42bf364531953fc7248fd77f07d5' +
+        '3fd3c0b007dd0a46',
+      entropyHex: '0408a630d205ed1abf3e772d3a3467e3a2a33dd89f65cf1910840e938819e74b',
+      entropyValue: 0.22182417150565498,
+      initialConditionsHash: 'c5d7b56bb6ba00250fa552f6b4e6f11a09c5a73e87c80e43be7225aa246d8ff5'
+    }
+  },
+  {
+    name: 'four-body-ks',
+    description: 'Tight pair with two perturbers without softening under KS regularization',
+    initialConditions: {
+      masses: [1, 1, 0.5, 0.25],
+      positions: [
+        { x: -0.05, y: 0, z: 0 },
+        { x: 0.05, y: 0, z: 0 },
+        { x: 0, y: 2, z: 0.25 },
+        { x: 1.5, y: -1, z: 0 }
+      ],
+      velocities: [
+        { x: 0, y: -2, z: 0 },
+        { x: 0, y: 2, z: 0.1 },
+        { x: 0.3, y: 0, z: 0 },
+        { x: 0, y: 0.5, z: -0.125 }
+      ]
+    },
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    integrator: 'rk4',
+    regularization: 'ks',
+    duration: 1,
+    timeStep: 0.01,
+    expected: {
+      stepCount: 100,
+      stateHex:
+        '3ff00000000000003fab74fb300246ca3f76b3dcc5c9ab683fabf21fa10aa04d4004322102eae2aa3ff39b46b453f771' +
+        '3fb5de6bbe8c8ab03fa18a5c7bead4e83fb4452bae03e9a23face2d42f12a7f7c0027a8f6c37370abff0b80a116a5fd5' +
+        '3f9e8ed4c830aba13fd2bca52f4a3fef3ffbb15e1c3294ca3fcc046d70f3c7eb3fd15e43ee6156dfbfe2421c990760d5' +
+        'bfb04946880a3ae83ff29b5c0c76d65ebfd33b5a5bf52aa9bfbb5536fda349f0bfe9a42a2668dd193fed6a541ac204df' +
+        'bfae1f2097cff406',
+      entropyHex: '6b6b215dac03896b9d2bdbfbcfae5a839d386489326d91c47c50a61b90f794cf',
+      entropyValue: 0.08424606797543495,
+      initialConditionsHash: 'e33872e722b7bb6cefcf471075c8e8f97f32cb6246213486cdd3dcd59a1ac57b'
+    }
+  },
+  {
+    name: 'figure-eight-rk4-extraction-v2',
+    description: 'Figure-eight orbit with RK4 and version 2 trajectory extraction',
+    initialConditions: {
+      masses: [1, 1, 1],
+      positions: [
+        { x: -1, y: 0, z: 0 },
+        { x: 1, y: 0, z: 0 },
+        { x: 0, y: 0, z: 0 }
+      ],
+      velocities: [
+        { x: 0.347111, y: 0.532728, z: 0 },
+        { x: 0.347111, y: 0.532728, z: 0 },
+        { x: -0.694222, y: -1.065456, z: 0 }
+      ]
+    },
+    gravitationalConstant: 1,
+    softeningParameter: 0.01,
+    integrator: 'rk4',
+    regularization: 'none',
+    duration: 1,
+    timeStep: 0.001,
+    extractionVersion: 2,
+    expected: {
+      stepCount: 1000,
+      stateHex:
+        '3ff0000000000000bfaf12087232b4543fa1129562f9597100000000000000003ff1e2f3c8c2d184bfe358dae5d89fb0' +
+        '00000000000000003fed23128f193e923fdd111ae34c614a0000000000000000bfdfefea7e5fe60d3fd56e58a7c85d5f' +
+        '0000000000000000bfeb31f207f61351bfdf336d8fab8c840000000000000000bfe3cdf25255afec3fd1435d23e8e1f0' +
+        '0000000000000000',
+      entropyHex: '311dd3a7dbc75a20ba1f83c270826cb98225fa120ace033008854dc36b541798',
+      entropyValue: 0.19186137054546515,
+      initialConditionsHash: '26e5102766634f8910f4b692baead1d8750e4606e43d42e386b3b4f6c7a0321d'
+    }
+  },
+  {
+    name: 'four-body-ks-extraction-v2',
+    description: 'Tight pair with two perturbers under KS regularization and version 2 trajectory extraction',
+    initialConditions: {
+      masses: [1, 1, 0.5, 0.25],
+      positions: [
+        { x: -0.05, y: 0, z: 0 },
+        { x: 0.05, y: 0, z: 0 },
+        { x: 0, y: 2, z: 0.25 },
+        { x: 1.5, y: -1, z: 0 }
+      ],
+      velocities: [
+        { x: 0, y: -2, z: 0 },
+        { x: 0, y: 2, z: 0.1 },
+        { x: 0.3, y: 0, z: 0 },
+        { x: 0, y: 0.5, z: -0.125 }
+      ]
+    },
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    integrator: 'rk4',
+    regularization: 'ks',
+    duration: 1,
+    timeStep: 0.01,
+    extractionVersion: 2,
+    expected: {
+      stepCount: 100,
+      stateHex:
+        '3ff00000000000003fab74fb300246ca3f76b3dcc5c9ab683fabf21fa10aa04d4004322102eae2aa3ff39b46b453f771' +
+        '3fb5de6bbe8c8ab03fa18a5c7bead4e83fb4452bae03e9a23face2d42f12a7f7c0027a8f6c37370abff0b80a116a5fd5' +
+        '3f9e8ed4c830aba13fd2bca52f4a3fef3ffbb15e1c3294ca3fcc046d70f3c7eb3fd15e43ee6156dfbfe2421c990760d5' +
+        'bfb04946880a3ae83ff29b5c0c76d65ebfd33b5a5bf52aa9bfbb5536fda349f0bfe9a42a2668dd193fed6a541ac204df' +
+        'bfae1f2097cff406',
+      entropyHex: '13a4b5d84027710b54f752ea8e38e6fdf4430245f2f7b96264a3fe5dccd76d17',
+      entropyValue: 0.07673203019672115,
+      initialConditionsHash: 'e33872e722b7bb6cefcf471075c8e8f97f32cb6246213486cdd3dcd59a1ac57b'
+    }
+  }
+];
@@ -4,7 +4,8 @@
  * This module provides a high-precision three-body gravitational simulation
  * for generating chaotic entropy values. The three-body problem is inherently
  * chaotic, making it an excellent source of unpredictable yet deterministic
- * entropy for provably fair gaming systems.
+ * entropy for provably fair gaming systems. Systems of any other number of
+ * bodies from two upwards are supported as well.
  * 
  * @packageDocumentation
  */
@@ -14,9 +15,61 @@ export {
   Vector3D,
   Body,
   SystemConfiguration,
+  SofteningKernel,
+  ForceModel,
   SimulationState,
   SimulationOptions,
+  IntegratorDescriptor,
+  Integrator,
+  ThreeBodySimulationOptions,
+  LyapunovOptions,
+  LyapunovSample,
+  LyapunovEstimate,
+  AdaptiveStepResult,
+  RegularizationMode,
+  ReversibilityCheckOptions,
+  ReversibilityReport,
+  ReversibilityStep,
+  ReversibilityCheckState,
+  EventDetectionOptions,
+  SimulationEventBase,
+  CloseEncounterEvent,
+  BinaryFormationEvent,
+  EscapeEvent,
+  SimulationEvent,
+  SimulationEventLog,
+  TrackedEncounter,
+  EventDetectorState,
+  SimulationSnapshot,
+  ObservedStep,
+  TrajectoryObserver,
+  TrajectoryRecorderOptions,
+  TrajectorySample,
+  TrajectoryRecording,
+  GoldenVectorOutputs,
+  GoldenVector,
+  GoldenVectorMismatch,
+  ConformanceReport,
+  OrbitFamily,
+  OrbitPreset,
+  PeriodicityOptions,
+  PeriodicitySample,
+  PeriodicityReport,
+  EntropyStreamOptions,
+  EntropySample,
+  EnsembleOptions,
+  EnsembleMember,
+  EnsembleDivergenceSample,
+  EnsembleHammingStatistics,
+  EnsembleCorrelationStatistics,
+  EnsembleReport,
+  BenchmarkOptions,
+  BenchmarkResult,
+  BenchmarkReport,
   EntropyResult,
+  ExtractionVersion,
+  ExtractionOptions,
+  TrajectoryDigestState,
   InitialConditions
 } from './types';
 
@@ -28,13 +81,141 @@ export {
   calculateGravitationalAcceleration,
   calculateAccelerations,
   rk4Step,
+  dormandPrince54Step,
+  DORMAND_PRINCE_54,
+  RK4_INTEGRATOR,
   calculateKineticEnergy,
   calculatePotentialEnergy,
   calculateTotalEnergy,
   calculateAngularMomentum,
-  calculateCenterOfMass
+  calculateCenterOfMass,
+  listBodyPairs
 } from './integrator';
 
+// Export the force models
+export {
+  DEFAULT_FORCE_MODEL,
+  SPLINE_SUPPORT_FACTOR,
+  validateForceModel,
+  normalizeForceModel,
+  isDefaultForceModel,
+  hasExternalForces,
+  pairAccelerationFactor,
+  pairPotentialEnergy,
+  externalAcceleration,
+  externalPotentialEnergy
+} from './forces';
+
+// Export the typed-array RK4 core and its benchmark
+export { RK4Workspace } from './soa';
+export { runBenchmark, formatBenchmarkReport } from './benchmark';
+
+// Export event detection
+export {
+  EventDetector,
+  DEFAULT_EVENT_DETECTION,
+  TwoBodyElements,
+  calculateTwoBodyElements,
+  validateEventDetectionOptions
+} from './events';
+
+// Export KS regularization
+export {
+  KSVector,
+  toKustaanheimoStiefel,
+  fromKustaanheimoStiefel,
+  findClosestPair,
+  ksRegularizedStep
+} from './regularization';
+
+// Export the trajectory recorder
+export {
+  TrajectoryRecorder,
+  decodeTrajectory,
+  readTrajectory
+} from './recorder';
+
+// Export the snapshot encoding
+export {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  encodeSnapshot,
+  decodeSnapshot
+} from './snapshot';
+
+// Export the versioned entropy extraction
+export {
+  CURRENT_EXTRACTION_VERSION,
+  DEFAULT_ABSORB_EVERY,
+  EXTRACTION_V2_LABEL,
+  TrajectoryAbsorber,
+  assertExtractionVersion,
+  encodeTrajectoryRecord,
+  uniformFloat53
+} from './extraction';
+
+// Export the versioned seed stream
+export {
+  SeedStream,
+  SeedStreamVersion,
+  CURRENT_SEED_STREAM_VERSION,
+  SEED_STREAM_V2_LABEL,
+  createSeedStream,
+  assertSeedStreamVersion
+} from './seed-stream';
+
+// Export symplectic integrators and the integrator registry
+export {
+  velocityVerletStep,
+  yoshida4Step,
+  forestRuthStep,
+  VELOCITY_VERLET_INTEGRATOR,
+  YOSHIDA4_INTEGRATOR,
+  FOREST_RUTH_INTEGRATOR,
+  INTEGRATORS,
+  getIntegrator
+} from './symplectic';
+
+// Export chaos diagnostics
+export {
+  estimateLyapunovExponent,
+  phaseSpaceDistance
+} from './lyapunov';
+
+// Export the canonical computation profile and its golden vectors
+export {
+  COMPUTATION_PROFILE,
+  encodeStateHex,
+  runGoldenVector,
+  checkConformance
+} from './determinism';
+export { GOLDEN_VECTORS } from './golden-vectors';
+
+// Export the periodic orbit catalog and its periodicity check
+export { ORBIT_PRESETS, getOrbitPreset } from './presets';
+export { verifyPeriodicity } from './periodicity';
+
+// Export the entropy stream hash chain
+export {
+  DEFAULT_STREAM_OUTPUT_BYTES,
+  MAX_STREAM_OUTPUT_BYTES,
+  DEFAULT_STREAM_TIME_STEP,
+  validateEntropyStreamOptions,
+  chainSampleHash,
+  expandSampleOutput,
+  verifyEntropyChain,
+  verifyEntropySample
+} from './entropy-stream';
+
+// Export the butterfly-effect ensemble analysis
+export {
+  ensembleAnalysis,
+  exportEnsembleJSON,
+  exportEnsembleCSV,
+  hammingDistance,
+  pearsonCorrelation
+} from './ensemble';
+
 // Export simulation class and utilities
 export {
   ThreeBodySimulation,
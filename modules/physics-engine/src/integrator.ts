@@ -2,56 +2,91 @@
  * Numerical Integrator Module
  * 
  * Implements the 4th-order Runge-Kutta (RK4) integrator for high-precision
- * simulation of the three-body gravitational system.
+ * simulation of the gravitational system, along with the embedded
+ * Dormand-Prince 5(4) pair used for adaptive time stepping. Every function
+ * works for any number of bodies; pairwise sums run over j = 0, 1, ... in
+ * index order.
  */
 
-import { Body, SystemConfiguration, Vector3D } from './types';
+import {
+  AdaptiveStepResult,
+  Body,
+  Integrator,
+  IntegratorDescriptor,
+  SofteningKernel,
+  SystemConfiguration,
+  Vector3D
+} from './types';
 import * as vec from './vector';
+import { RK4Workspace } from './soa';
+import {
+  externalAcceleration,
+  externalPotentialEnergy,
+  hasExternalForces,
+  pairAccelerationFactor,
+  pairPotentialEnergy
+} from './forces';
 
 /**
  * Represents the derivative state (velocities and accelerations) of the system.
  */
 interface DerivativeState {
-  velocities: [Vector3D, Vector3D, Vector3D];
-  accelerations: [Vector3D, Vector3D, Vector3D];
+  velocities: Vector3D[];
+  accelerations: Vector3D[];
+}
+
+/**
+ * Lists the pairs (i, j) with i < j of a system of bodyCount bodies in
+ * lexicographic order: (0, 1), (0, 2), ..., (1, 2), ...
+ */
+export function listBodyPairs(bodyCount: number): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < bodyCount; i++) {
+    for (let j = i + 1; j < bodyCount; j++) {
+      pairs.push([i, j]);
+    }
+  }
+  return pairs;
 }
 
 /**
  * Calculates the gravitational acceleration on body i due to body j.
  * Uses Newton's law of gravitation with a softening parameter to prevent
- * singularities when bodies get very close.
+ * singularities when bodies get very close, applied through the given
+ * softening kernel (default: Plummer).
  */
 export function calculateGravitationalAcceleration(
   bodyI: Body,
   bodyJ: Body,
   G: number,
-  softening: number
+  softening: number,
+  kernel: SofteningKernel = 'plummer'
 ): Vector3D {
   const r = vec.subtract(bodyJ.position, bodyI.position);
-  const distSq = vec.magnitudeSquared(r) + softening * softening;
-  const dist = Math.sqrt(distSq);
-  const forceMagnitude = (G * bodyJ.mass) / (distSq * dist);
+  const forceMagnitude = pairAccelerationFactor(kernel, G * bodyJ.mass, vec.magnitudeSquared(r), softening);
   return vec.scale(r, forceMagnitude);
 }
 
 /**
- * Calculates the total acceleration on each body in the system.
+ * Calculates the total acceleration on each body in the system: pairwise
+ * gravity under the configuration's force model, then any external
+ * perturbations.
  */
-export function calculateAccelerations(config: SystemConfiguration): [Vector3D, Vector3D, Vector3D] {
-  const { bodies, gravitationalConstant: G, softeningParameter: softening } = config;
-  const accelerations: [Vector3D, Vector3D, Vector3D] = [
-    vec.zeroVector(),
-    vec.zeroVector(),
-    vec.zeroVector()
-  ];
+export function calculateAccelerations(config: SystemConfiguration): Vector3D[] {
+  const { bodies, gravitationalConstant: G, softeningParameter: softening, forceModel } = config;
+  const kernel = forceModel?.kernel ?? 'plummer';
+  const accelerations = bodies.map(() => vec.zeroVector());
 
-  for (let i = 0; i < 3; i++) {
-    for (let j = 0; j < 3; j++) {
+  for (let i = 0; i < bodies.length; i++) {
+    for (let j = 0; j < bodies.length; j++) {
       if (i !== j) {
-        const acc = calculateGravitationalAcceleration(bodies[i], bodies[j], G, softening);
+        const acc = calculateGravitationalAcceleration(bodies[i], bodies[j], G, softening, kernel);
         accelerations[i] = vec.add(accelerations[i], acc);
       }
     }
+    if (forceModel && hasExternalForces(forceModel)) {
+      accelerations[i] = vec.add(accelerations[i], externalAcceleration(forceModel, bodies[i].position, bodies[i].velocity));
+    }
   }
 
   return accelerations;
@@ -63,11 +98,7 @@ export function calculateAccelerations(config: SystemConfiguration): [Vector3D,
 function calculateDerivatives(config: SystemConfiguration): DerivativeState {
   const accelerations = calculateAccelerations(config);
   return {
-    velocities: [
-      vec.clone(config.bodies[0].velocity),
-      vec.clone(config.bodies[1].velocity),
-      vec.clone(config.bodies[2].velocity)
-    ],
+    velocities: config.bodies.map(body => vec.clone(body.velocity)),
     accelerations
   };
 }
@@ -80,28 +111,17 @@ function applyDerivatives(
   derivatives: DerivativeState,
   dt: number
 ): SystemConfiguration {
-  const newBodies: [Body, Body, Body] = [
-    {
-      mass: config.bodies[0].mass,
-      position: vec.add(config.bodies[0].position, vec.scale(derivatives.velocities[0], dt)),
-      velocity: vec.add(config.bodies[0].velocity, vec.scale(derivatives.accelerations[0], dt))
-    },
-    {
-      mass: config.bodies[1].mass,
-      position: vec.add(config.bodies[1].position, vec.scale(derivatives.velocities[1], dt)),
-      velocity: vec.add(config.bodies[1].velocity, vec.scale(derivatives.accelerations[1], dt))
-    },
-    {
-      mass: config.bodies[2].mass,
-      position: vec.add(config.bodies[2].position, vec.scale(derivatives.velocities[2], dt)),
-      velocity: vec.add(config.bodies[2].velocity, vec.scale(derivatives.accelerations[2], dt))
-    }
-  ];
+  const newBodies = config.bodies.map((body, i) => ({
+    mass: body.mass,
+    position: vec.add(body.position, vec.scale(derivatives.velocities[i], dt)),
+    velocity: vec.add(body.velocity, vec.scale(derivatives.accelerations[i], dt))
+  }));
 
   return {
     bodies: newBodies,
     gravitationalConstant: config.gravitationalConstant,
-    softeningParameter: config.softeningParameter
+    softeningParameter: config.softeningParameter,
+    ...(config.forceModel && { forceModel: config.forceModel })
   };
 }
 
@@ -115,11 +135,11 @@ function combineDerivatives(
   d4: DerivativeState
 ): DerivativeState {
   const combined: DerivativeState = {
-    velocities: [vec.zeroVector(), vec.zeroVector(), vec.zeroVector()],
-    accelerations: [vec.zeroVector(), vec.zeroVector(), vec.zeroVector()]
+    velocities: d1.velocities.map(() => vec.zeroVector()),
+    accelerations: d1.accelerations.map(() => vec.zeroVector())
   };
 
-  for (let i = 0; i < 3; i++) {
+  for (let i = 0; i < d1.velocities.length; i++) {
     combined.velocities[i] = vec.scale(
       vec.add(
         vec.add(d1.velocities[i], vec.scale(d2.velocities[i], 2)),
@@ -139,14 +159,46 @@ function combineDerivatives(
   return combined;
 }
 
+/**
+ * Workspaces shared by rk4Step calls, one per body count. Steps are
+ * synchronous, so a single set of buffers serves every caller.
+ */
+const sharedWorkspaces = new Map<number, RK4Workspace>();
+
+/**
+ * Gets the shared workspace for a number of bodies.
+ */
+function sharedWorkspace(bodyCount: number): RK4Workspace {
+  let workspace = sharedWorkspaces.get(bodyCount);
+  if (!workspace) {
+    workspace = new RK4Workspace(bodyCount);
+    sharedWorkspaces.set(bodyCount, workspace);
+  }
+  return workspace;
+}
+
 /**
  * Performs a single RK4 integration step.
  * 
  * The 4th-order Runge-Kutta method provides high accuracy by evaluating
  * the derivatives at multiple points within the time step and combining
- * them with appropriate weights.
+ * them with appropriate weights. The step runs on the typed-array core in
+ * RK4Workspace and only allocates the returned configuration.
  */
 export function rk4Step(config: SystemConfiguration, dt: number): SystemConfiguration {
+  const workspace = sharedWorkspace(config.bodies.length);
+  workspace.load(config);
+  workspace.step(dt);
+  return workspace.toConfiguration();
+}
+
+/**
+ * Object-based RK4 step that rk4Step replaced.
+ * 
+ * Kept as the readable reference the typed-array core is verified against
+ * bit for bit, and as the baseline of the benchmark.
+ */
+export function rk4StepReference(config: SystemConfiguration, dt: number): SystemConfiguration {
   // k1 = f(t, y)
   const k1 = calculateDerivatives(config);
 
@@ -168,6 +220,143 @@ export function rk4Step(config: SystemConfiguration, dt: number): SystemConfigur
   return applyDerivatives(config, combined, dt);
 }
 
+/**
+ * Classic 4th-order Runge-Kutta, the default integrator.
+ */
+export const RK4_INTEGRATOR: Integrator = {
+  name: 'rk4',
+  order: 4,
+  symplectic: false,
+  step: rk4Step
+};
+
+/**
+ * Dormand-Prince 5(4) Butcher tableau.
+ * Row i holds the coefficients a(i+1, 1..i) used to build stage i+1.
+ */
+const DP_A: number[][] = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84]
+];
+
+/**
+ * 5th-order solution weights (identical to the last tableau row).
+ */
+const DP_B: number[] = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+
+/**
+ * Differences between the 5th- and embedded 4th-order weights, used for
+ * the local error estimate.
+ */
+const DP_E: number[] = [
+  35 / 384 - 5179 / 57600,
+  0,
+  500 / 1113 - 7571 / 16695,
+  125 / 192 - 393 / 640,
+  -2187 / 6784 + 92097 / 339200,
+  11 / 84 - 187 / 2100,
+  -1 / 40
+];
+
+/**
+ * Creates a temporary configuration by applying a weighted sum of
+ * derivative stages scaled by dt.
+ */
+function applyWeightedDerivatives(
+  config: SystemConfiguration,
+  stages: DerivativeState[],
+  weights: number[],
+  dt: number
+): SystemConfiguration {
+  const bodies = config.bodies.map((body, i) => {
+    let dPosition = vec.zeroVector();
+    let dVelocity = vec.zeroVector();
+    for (let s = 0; s < stages.length; s++) {
+      if (weights[s] === 0) continue;
+      dPosition = vec.add(dPosition, vec.scale(stages[s].velocities[i], weights[s]));
+      dVelocity = vec.add(dVelocity, vec.scale(stages[s].accelerations[i], weights[s]));
+    }
+    return {
+      mass: body.mass,
+      position: vec.add(body.position, vec.scale(dPosition, dt)),
+      velocity: vec.add(body.velocity, vec.scale(dVelocity, dt))
+    };
+  });
+
+  return {
+    bodies,
+    gravitationalConstant: config.gravitationalConstant,
+    softeningParameter: config.softeningParameter,
+    ...(config.forceModel && { forceModel: config.forceModel })
+  };
+}
+
+/**
+ * Descriptor reported for runs advanced with adaptive Dormand-Prince steps.
+ */
+export const DORMAND_PRINCE_54: IntegratorDescriptor = {
+  name: 'dormand-prince-5(4)',
+  order: 5
+};
+
+/**
+ * Performs a single Dormand-Prince 5(4) integration step.
+ * 
+ * Advances the system with the 5th-order solution and estimates the local
+ * truncation error from the embedded 4th-order solution. The returned error
+ * is the RMS norm of the component errors, each scaled by
+ * `tolerance * (1 + max(|y_old|, |y_new|))`, so a value of at most 1 means
+ * the step meets the requested tolerance.
+ */
+export function dormandPrince54Step(
+  config: SystemConfiguration,
+  dt: number,
+  tolerance: number
+): AdaptiveStepResult {
+  const stages: DerivativeState[] = [calculateDerivatives(config)];
+
+  for (let s = 1; s < DP_A.length; s++) {
+    const stageConfig = applyWeightedDerivatives(config, stages, DP_A[s], dt);
+    stages.push(calculateDerivatives(stageConfig));
+  }
+
+  const configuration = applyWeightedDerivatives(config, stages, DP_B, dt);
+
+  let sumSquares = 0;
+  let componentCount = 0;
+  const accumulate = (delta: Vector3D, before: Vector3D, after: Vector3D): void => {
+    const components: Array<'x' | 'y' | 'z'> = ['x', 'y', 'z'];
+    for (const c of components) {
+      const scale = tolerance * (1 + Math.max(Math.abs(before[c]), Math.abs(after[c])));
+      const ratio = (delta[c] * dt) / scale;
+      sumSquares += ratio * ratio;
+      componentCount++;
+    }
+  };
+
+  for (let i = 0; i < config.bodies.length; i++) {
+    let positionError = vec.zeroVector();
+    let velocityError = vec.zeroVector();
+    for (let s = 0; s < stages.length; s++) {
+      if (DP_E[s] === 0) continue;
+      positionError = vec.add(positionError, vec.scale(stages[s].velocities[i], DP_E[s]));
+      velocityError = vec.add(velocityError, vec.scale(stages[s].accelerations[i], DP_E[s]));
+    }
+    accumulate(positionError, config.bodies[i].position, configuration.bodies[i].position);
+    accumulate(velocityError, config.bodies[i].velocity, configuration.bodies[i].velocity);
+  }
+
+  return {
+    configuration,
+    error: Math.sqrt(sumSquares / componentCount)
+  };
+}
+
 /**
  * Calculates the total kinetic energy of the system.
  */
@@ -181,17 +370,24 @@ export function calculateKineticEnergy(config: SystemConfiguration): number {
 }
 
 /**
- * Calculates the total potential energy of the system.
+ * Calculates the total potential energy of the system, including the
+ * energy in an external tidal field.
  */
 export function calculatePotentialEnergy(config: SystemConfiguration): number {
-  const { bodies, gravitationalConstant: G, softeningParameter: softening } = config;
+  const { bodies, gravitationalConstant: G, softeningParameter: softening, forceModel } = config;
+  const kernel = forceModel?.kernel ?? 'plummer';
   let pe = 0;
 
-  for (let i = 0; i < 3; i++) {
-    for (let j = i + 1; j < 3; j++) {
+  for (let i = 0; i < bodies.length; i++) {
+    for (let j = i + 1; j < bodies.length; j++) {
       const r = vec.distance(bodies[i].position, bodies[j].position);
-      const softR = Math.sqrt(r * r + softening * softening);
-      pe -= (G * bodies[i].mass * bodies[j].mass) / softR;
+      pe += pairPotentialEnergy(kernel, G * bodies[i].mass * bodies[j].mass, r, softening);
+    }
+  }
+
+  if (forceModel?.tidalTensor) {
+    for (const body of bodies) {
+      pe += externalPotentialEnergy(forceModel, body.mass, body.position);
     }
   }
 
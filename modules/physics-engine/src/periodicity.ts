@@ -0,0 +1,103 @@
+/**
+ * Periodicity Module
+ * 
+ * Integrates a periodic orbit preset for whole periods and measures how far
+ * the system lands from its initial state each time round. For a perfect
+ * integrator and exact initial conditions this return-map error is zero;
+ * in practice it combines the precision of the published initial conditions
+ * with the integration error, which makes it a direct accuracy check of an
+ * integrator and time step.
+ */
+
+import {
+  OrbitPreset,
+  PeriodicityOptions,
+  PeriodicityReport,
+  PeriodicitySample
+} from './types';
+import * as vec from './vector';
+import { RK4_INTEGRATOR } from './integrator';
+import { getOrbitPreset } from './presets';
+import { ThreeBodySimulation } from './simulation';
+
+/**
+ * Default verification parameters. Most catalogued orbits pass through
+ * close approaches that fixed steps of this size cannot resolve, so
+ * verification uses adaptive steps unless told otherwise.
+ */
+const DEFAULT_STEPS_PER_PERIOD = 2000;
+const DEFAULT_TOLERANCE = 1e-10;
+
+/**
+ * Verifies that a preset returns to its initial state after each period.
+ * 
+ * @param preset - The preset, or the name of a catalogued preset
+ * @param periods - Number of periods to integrate (default: 1)
+ * @param options - Adaptive tolerance, or fixed time step and integrator
+ * @returns The return-map error after each period
+ */
+export function verifyPeriodicity(
+  preset: OrbitPreset | string,
+  periods: number = 1,
+  options: PeriodicityOptions = {}
+): PeriodicityReport {
+  const orbit = typeof preset === 'string' ? getOrbitPreset(preset) : preset;
+  const {
+    timeStep = orbit.period / DEFAULT_STEPS_PER_PERIOD,
+    integrator = RK4_INTEGRATOR,
+    adaptiveTimeStep = true,
+    tolerance = DEFAULT_TOLERANCE
+  } = options;
+
+  if (!Number.isInteger(periods) || periods < 1) {
+    throw new Error(`Periods must be a positive integer, got ${periods}`);
+  }
+  if (!(orbit.period > 0) || !Number.isFinite(orbit.period)) {
+    throw new Error(`Period must be a positive finite number, got ${orbit.period}`);
+  }
+
+  const simulation = new ThreeBodySimulation({ integrator });
+  const { masses, positions, velocities } = orbit.initialConditions;
+  simulation.setGravitationalConstant(orbit.gravitationalConstant);
+  simulation.setSofteningParameter(orbit.softeningParameter);
+  simulation.initializeSystem(masses, positions, velocities);
+
+  const initial = simulation.getConfiguration();
+  const initialEnergy = simulation.getTotalEnergy();
+  const scale = Math.sqrt(initial.bodies.reduce(
+    (sum, body) => sum + vec.magnitudeSquared(body.position) + vec.magnitudeSquared(body.velocity),
+    0
+  ));
+
+  const samples: PeriodicitySample[] = [];
+  for (let k = 1; k <= periods; k++) {
+    simulation.simulateForTime({ duration: orbit.period, timeStep, adaptiveTimeStep, tolerance });
+    const current = simulation.getConfiguration();
+
+    let positionSquares = 0;
+    let velocitySquares = 0;
+    for (let i = 0; i < current.bodies.length; i++) {
+      positionSquares += vec.distanceSquared(current.bodies[i].position, initial.bodies[i].position);
+      velocitySquares += vec.distanceSquared(current.bodies[i].velocity, initial.bodies[i].velocity);
+    }
+    const returnError = Math.sqrt(positionSquares + velocitySquares);
+
+    samples.push({
+      periods: k,
+      time: simulation.getTime(),
+      positionError: Math.sqrt(positionSquares),
+      velocityError: Math.sqrt(velocitySquares),
+      returnError,
+      relativeReturnError: returnError / scale,
+      energyError: Math.abs((simulation.getTotalEnergy() - initialEnergy) / initialEnergy)
+    });
+  }
+
+  return {
+    preset: orbit.name,
+    period: orbit.period,
+    samples,
+    maxReturnError: Math.max(...samples.map(s => s.returnError)),
+    maxRelativeReturnError: Math.max(...samples.map(s => s.relativeReturnError))
+  };
+}
@@ -0,0 +1,234 @@
+/**
+ * Periodic Orbit Presets
+ * 
+ * Catalog of known periodic orbits of the planar three-body problem with
+ * equal unit masses and G = 1. Each preset carries its period and the
+ * publication its initial conditions come from, so that integrator accuracy
+ * can be regression-tested against orbits that must close on themselves,
+ * and so that explainers can show what a non-chaotic system looks like.
+ * 
+ * Initial conditions are given to the precision they are published with,
+ * typically six to ten significant digits; the orbits therefore return to
+ * within about 1e-3 of their initial state rather than exactly. Use
+ * verifyPeriodicity() to measure the return-map error.
+ */
+
+import { InitialConditions, OrbitPreset } from './types';
+
+/**
+ * Reference of the Šuvakov–Dmitrašinović orbits.
+ */
+const SUVAKOV_DMITRASINOVIC =
+  'M. Šuvakov and V. Dmitrašinović, Three Classes of Newtonian Three-Body Planar Periodic Orbits, Phys. Rev. Lett. 110, 114301 (2013)';
+
+/**
+ * Reference of the Broucke orbits.
+ */
+const BROUCKE =
+  'R. Broucke, On Relative Periodic Solutions of the Planar General Three-Body Problem, Celest. Mech. 12, 439 (1975)';
+
+/**
+ * Isosceles collinear initial conditions of Šuvakov and Dmitrašinović: the
+ * outer bodies start at (-1, 0) and (1, 0) with velocity (p1, p2), the middle
+ * body at the origin with velocity (-2 p1, -2 p2).
+ */
+function isoscelesConditions(p1: number, p2: number): InitialConditions {
+  return {
+    masses: [1, 1, 1],
+    positions: [
+      { x: -1, y: 0, z: 0 },
+      { x: 1, y: 0, z: 0 },
+      { x: 0, y: 0, z: 0 }
+    ],
+    velocities: [
+      { x: p1, y: p2, z: 0 },
+      { x: p1, y: p2, z: 0 },
+      { x: -2 * p1, y: -2 * p2, z: 0 }
+    ]
+  };
+}
+
+/**
+ * Collinear initial conditions of Broucke: all bodies start on the x axis
+ * and move perpendicular to it.
+ */
+function collinearConditions(x: [number, number, number], vy: [number, number, number]): InitialConditions {
+  return {
+    masses: [1, 1, 1],
+    positions: x.map(value => ({ x: value, y: 0, z: 0 })),
+    velocities: vy.map(value => ({ x: 0, y: value, z: 0 }))
+  };
+}
+
+/**
+ * Equilateral triangle of unit circumradius rotating rigidly at the
+ * circular speed 3^(-1/4).
+ */
+function lagrangeConditions(): InitialConditions {
+  const h = Math.sqrt(3) / 2;
+  const v = 1 / Math.sqrt(Math.sqrt(3));
+
+  return {
+    masses: [1, 1, 1],
+    positions: [
+      { x: 1, y: 0, z: 0 },
+      { x: -0.5, y: h, z: 0 },
+      { x: -0.5, y: -h, z: 0 }
+    ],
+    velocities: [
+      { x: 0, y: v, z: 0 },
+      { x: -v * h, y: -v / 2, z: 0 },
+      { x: v * h, y: -v / 2, z: 0 }
+    ]
+  };
+}
+
+/**
+ * The periodic orbit catalog.
+ */
+export const ORBIT_PRESETS: OrbitPreset[] = [
+  {
+    name: 'figure-eight',
+    description: 'All three bodies chase each other along one figure-eight curve',
+    family: 'figure-eight',
+    initialConditions: isoscelesConditions(0.347111, 0.532728),
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    period: 6.3259,
+    reference: `A. Chenciner and R. Montgomery, Ann. of Math. 152, 881 (2000); initial conditions from ${SUVAKOV_DMITRASINOVIC}`
+  },
+  {
+    name: 'lagrange',
+    description: 'Equilateral triangle rotating rigidly about its center',
+    family: 'lagrange',
+    initialConditions: lagrangeConditions(),
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    period: 2 * Math.PI * Math.sqrt(Math.sqrt(3)),
+    reference: 'J.-L. Lagrange, Essai sur le problème des trois corps (1772)'
+  },
+  {
+    name: 'broucke-a1',
+    description: 'Broucke A1, started collinear with velocities across the line',
+    family: 'broucke-henon',
+    initialConditions: collinearConditions(
+      [-0.9892620043, 2.2096177241, -1.2203557197],
+      [1.9169244185, 0.1910268738, -2.1079512924]
+    ),
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    period: 6.283213,
+    reference: BROUCKE
+  },
+  {
+    name: 'broucke-a2',
+    description: 'Broucke A2, the next member of the A family',
+    family: 'broucke-henon',
+    initialConditions: collinearConditions(
+      [0.3361300950, 0.7699893804, -1.1061194753],
+      [1.5324315370, -0.6287350978, -0.9036964391]
+    ),
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    period: 7.702408,
+    reference: BROUCKE
+  },
+  {
+    name: 'broucke-r1',
+    description: 'Broucke R1, the first member of the retrograde R family',
+    family: 'broucke-henon',
+    initialConditions: collinearConditions(
+      [0.8083106230, -0.4954148566, -0.3128957664],
+      [0.9901979166, -2.7171431768, 1.7269452602]
+    ),
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    period: 5.226525,
+    reference: BROUCKE
+  },
+  {
+    name: 'butterfly-1',
+    description: 'Butterfly I: two wings traced around the collision points',
+    family: 'suvakov-dmitrasinovic',
+    initialConditions: isoscelesConditions(0.306893, 0.125507),
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    period: 6.2356,
+    reference: SUVAKOV_DMITRASINOVIC
+  },
+  {
+    name: 'butterfly-2',
+    description: 'Butterfly II: a slimmer butterfly with longer wings',
+    family: 'suvakov-dmitrasinovic',
+    initialConditions: isoscelesConditions(0.392955, 0.097579),
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    period: 7.0039,
+    reference: SUVAKOV_DMITRASINOVIC
+  },
+  {
+    name: 'moth-1',
+    description: 'Moth I: a figure-eight with an extra loop in each wing',
+    family: 'suvakov-dmitrasinovic',
+    initialConditions: isoscelesConditions(0.464445, 0.396060),
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    period: 14.8939,
+    reference: SUVAKOV_DMITRASINOVIC
+  },
+  {
+    name: 'moth-2',
+    description: 'Moth II: a moth with more loops per period',
+    family: 'suvakov-dmitrasinovic',
+    initialConditions: isoscelesConditions(0.439166, 0.452968),
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    period: 28.6703,
+    reference: SUVAKOV_DMITRASINOVIC
+  },
+  {
+    name: 'yin-yang-1a',
+    description: 'Yin-yang Ia: two interlocking lobes around the center',
+    family: 'suvakov-dmitrasinovic',
+    initialConditions: isoscelesConditions(0.513938, 0.304736),
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    period: 17.3284,
+    reference: SUVAKOV_DMITRASINOVIC
+  },
+  {
+    name: 'yin-yang-1b',
+    description: 'Yin-yang Ib: the second solution of the yin-yang I orbit',
+    family: 'suvakov-dmitrasinovic',
+    initialConditions: isoscelesConditions(0.282699, 0.327209),
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    period: 10.9626,
+    reference: SUVAKOV_DMITRASINOVIC
+  },
+  {
+    name: 'yin-yang-2a',
+    description: 'Yin-yang IIa: a longer yin-yang with more windings per period',
+    family: 'suvakov-dmitrasinovic',
+    initialConditions: isoscelesConditions(0.416822, 0.330333),
+    gravitationalConstant: 1,
+    softeningParameter: 0,
+    period: 55.7898,
+    reference: SUVAKOV_DMITRASINOVIC
+  }
+];
+
+/**
+ * Looks up a periodic orbit preset by name.
+ * 
+ * @param name - Name of the preset
+ * @returns The catalogued preset
+ * @throws Error if no preset has the name
+ */
+export function getOrbitPreset(name: string): OrbitPreset {
+  const preset = ORBIT_PRESETS.find(p => p.name === name);
+  if (!preset) {
+    throw new Error(`Unknown orbit preset "${name}"`);
+  }
+  return preset;
+}
@@ -0,0 +1,484 @@
+/**
+ * Trajectory Recorder Module
+ * 
+ * Opt-in recording of a simulation's trajectory, so the evolution that led
+ * to an entropy value can be shown or audited. A recorder is attached to
+ * simulateForTime through SimulationOptions.recorder, samples every N steps
+ * or every Δt, and keeps within a memory budget by decimation: when the
+ * budget is exceeded, every other sample is dropped and the sampling
+ * interval doubles. Recordings export to JSON, CSV and a compact binary
+ * format, and the JSON and binary forms can be read back into states.
+ */
+
+import {
+  IntegratorDescriptor,
+  ObservedStep,
+  SimulationState,
+  TrajectoryObserver,
+  TrajectoryRecorderOptions,
+  TrajectoryRecording,
+  TrajectorySample,
+  Vector3D
+} from './types';
+import { calculateTotalEnergy } from './integrator';
+
+/**
+ * Binary format identification.
+ */
+const BINARY_MAGIC = 'TBTR';
+const FORMAT_NAME = 'three-body-trajectory';
+const FORMAT_VERSION = 1;
+
+/**
+ * Float64 fields per sample: time, stepCount, acceptedSteps, rejectedSteps,
+ * totalEnergy, then position and velocity components of each body.
+ */
+const HEADER_FIELDS = 5;
+const FIELDS_PER_BODY = 6;
+
+/**
+ * Number of float64 fields in a sample of a system of bodyCount bodies
+ * (23 for three bodies).
+ */
+function fieldsPerSample(bodyCount: number): number {
+  return HEADER_FIELDS + FIELDS_PER_BODY * bodyCount;
+}
+
+/**
+ * Size of the fixed part of the binary header, in bytes: 32 bytes of fields
+ * followed by the masses, gravitational constant and softening parameter
+ * (72 bytes for three bodies).
+ */
+function headerSize(bodyCount: number): number {
+  return 32 + (bodyCount + 2) * 8;
+}
+
+/**
+ * CSV column names, matching the sample field order.
+ */
+function csvColumns(bodyCount: number): string[] {
+  return [
+    'time', 'stepCount', 'acceptedSteps', 'rejectedSteps', 'totalEnergy',
+    ...Array.from({ length: bodyCount }, (_, i) => ['px', 'py', 'pz', 'vx', 'vy', 'vz'].map(c => `${c}${i}`)).flat()
+  ];
+}
+
+/**
+ * Recording constants captured from the first sample.
+ */
+interface RecordingConstants {
+  masses: number[];
+  gravitationalConstant: number;
+  softeningParameter: number;
+  integrator: IntegratorDescriptor;
+}
+
+/**
+ * Records sampled states of a simulation.
+ */
+export class TrajectoryRecorder implements TrajectoryObserver {
+  private readonly everySteps?: number;
+  private readonly everyTime?: number;
+  private readonly maxBytes?: number;
+  private maxSamples: number = Infinity;
+  private samples: Float64Array[] = [];
+  /** Position of each sample on the sampling grid (NaN for forced final samples) */
+  private gridIndices: number[] = [];
+  private decimation: number = 1;
+  private constants: RecordingConstants | null = null;
+  private gridOrigin: number = 0;
+  private nextGridIndex: number = 0;
+
+  constructor(options: TrajectoryRecorderOptions = {}) {
+    const { everySteps, everyTime, maxBytes } = options;
+
+    if (everySteps !== undefined && everyTime !== undefined) {
+      throw new Error('Specify at most one of everySteps and everyTime');
+    }
+    if (everySteps !== undefined && (!Number.isInteger(everySteps) || everySteps < 1)) {
+      throw new Error(`everySteps must be a positive integer, got ${everySteps}`);
+    }
+    if (everyTime !== undefined && (!(everyTime > 0) || !Number.isFinite(everyTime))) {
+      throw new Error(`everyTime must be a positive finite number, got ${everyTime}`);
+    }
+    // The body count is only known once recording starts, so check against
+    // the smallest system here and against the actual one in observe()
+    if (maxBytes !== undefined) {
+      assertSampleBudget(maxBytes, 2);
+    }
+
+    this.everyTime = everyTime;
+    this.everySteps = everyTime === undefined ? everySteps ?? 1 : undefined;
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Receives a step from the simulation and records it if it is due.
+   */
+  observe(step: ObservedStep, final: boolean): void {
+    const last = this.samples[this.samples.length - 1];
+    if (last && last[1] === step.stepCount && last[0] === step.time) {
+      return;
+    }
+
+    if (!this.constants) {
+      const { bodies, gravitationalConstant, softeningParameter } = step.configuration;
+      if (this.maxBytes !== undefined) {
+        assertSampleBudget(this.maxBytes, bodies.length);
+        this.maxSamples = Math.floor(this.maxBytes / (fieldsPerSample(bodies.length) * 8));
+      }
+      this.constants = {
+        masses: bodies.map(body => body.mass),
+        gravitationalConstant,
+        softeningParameter,
+        integrator: { name: step.integrator.name, order: step.integrator.order }
+      };
+      this.gridOrigin = this.everyTime === undefined ? 0 : step.time;
+    }
+
+    const gridIndex = this.dueGridIndex(step);
+    if (gridIndex === null && !final) {
+      return;
+    }
+
+    this.samples.push(this.encodeSample(step));
+    this.gridIndices.push(gridIndex ?? NaN);
+    if (gridIndex !== null && this.everyTime !== undefined) {
+      this.advanceTimeGrid(step.time);
+    }
+
+    if (this.samples.length > this.maxSamples) {
+      this.decimate();
+    }
+  }
+
+  /**
+   * Returns the grid index of the step if it should be sampled, or null.
+   */
+  private dueGridIndex(step: ObservedStep): number | null {
+    if (this.everySteps !== undefined) {
+      const interval = this.everySteps * this.decimation;
+      return step.stepCount % interval === 0 ? step.stepCount / this.everySteps : null;
+    }
+    const dueTime = this.gridOrigin + this.nextGridIndex * (this.everyTime as number);
+    return step.time >= dueTime ? this.nextGridIndex : null;
+  }
+
+  /**
+   * Moves the next due time past the given time, in multiples of the
+   * current (decimated) interval.
+   */
+  private advanceTimeGrid(time: number): void {
+    const everyTime = this.everyTime as number;
+    while (this.gridOrigin + this.nextGridIndex * everyTime <= time) {
+      this.nextGridIndex += this.decimation;
+    }
+  }
+
+  /**
+   * Halves the sampling rate, keeping the samples on the coarser grid and
+   * the most recent sample.
+   */
+  private decimate(): void {
+    this.decimation *= 2;
+    const lastIndex = this.samples.length - 1;
+    const keep = this.gridIndices.map((gridIndex, index) =>
+      index === lastIndex || gridIndex % this.decimation === 0
+    );
+    this.samples = this.samples.filter((_, index) => keep[index]);
+    this.gridIndices = this.gridIndices.filter((_, index) => keep[index]);
+
+    if (this.everyTime !== undefined) {
+      // Realign the next due time with the coarser grid
+      this.nextGridIndex = Math.ceil(this.nextGridIndex / this.decimation) * this.decimation;
+    }
+  }
+
+  /**
+   * Packs a step into a sample record.
+   */
+  private encodeSample(step: ObservedStep): Float64Array {
+    const sample = new Float64Array(fieldsPerSample(step.configuration.bodies.length));
+    sample[0] = step.time;
+    sample[1] = step.stepCount;
+    sample[2] = step.acceptedSteps;
+    sample[3] = step.rejectedSteps;
+    sample[4] = calculateTotalEnergy(step.configuration);
+    step.configuration.bodies.forEach((body, i) => {
+      const offset = 5 + i * 6;
+      sample[offset] = body.position.x;
+      sample[offset + 1] = body.position.y;
+      sample[offset + 2] = body.position.z;
+      sample[offset + 3] = body.velocity.x;
+      sample[offset + 4] = body.velocity.y;
+      sample[offset + 5] = body.velocity.z;
+    });
+    return sample;
+  }
+
+  /**
+   * Gets the number of recorded samples.
+   */
+  getSampleCount(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Gets the factor by which decimation has reduced the sampling rate.
+   */
+  getDecimation(): number {
+    return this.decimation;
+  }
+
+  /**
+   * Gets the memory used by the samples, in bytes.
+   */
+  getByteSize(): number {
+    return this.samples.reduce((total, sample) => total + sample.byteLength, 0);
+  }
+
+  /**
+   * Discards all samples and settings captured from the simulation.
+   */
+  clear(): void {
+    this.samples = [];
+    this.gridIndices = [];
+    this.decimation = 1;
+    this.constants = null;
+    this.maxSamples = Infinity;
+    this.gridOrigin = 0;
+    this.nextGridIndex = 0;
+  }
+
+  /**
+   * Builds the recording.
+   * 
+   * @throws Error if nothing has been recorded
+   */
+  toRecording(): TrajectoryRecording {
+    if (!this.constants) {
+      throw new Error('Nothing has been recorded');
+    }
+    return {
+      format: FORMAT_NAME,
+      version: FORMAT_VERSION,
+      masses: [...this.constants.masses],
+      gravitationalConstant: this.constants.gravitationalConstant,
+      softeningParameter: this.constants.softeningParameter,
+      integrator: { ...this.constants.integrator },
+      sampling: {
+        ...(this.everySteps !== undefined ? { everySteps: this.everySteps } : { everyTime: this.everyTime }),
+        decimation: this.decimation
+      },
+      samples: this.samples.map(sample => decodeSample(sample, this.constants!.masses.length))
+    };
+  }
+
+  /**
+   * Exports the recording as JSON.
+   */
+  exportJSON(): string {
+    return JSON.stringify(this.toRecording());
+  }
+
+  /**
+   * Exports the samples as CSV with a header row. CSV carries no recording
+   * constants, so it is meant for analysis rather than for reading back.
+   */
+  exportCSV(): string {
+    const bodyCount = this.constants?.masses.length ?? 3;
+    const rows = this.samples.map(sample => Array.from(sample).join(','));
+    return [csvColumns(bodyCount).join(','), ...rows].join('\n') + '\n';
+  }
+
+  /**
+   * Exports the recording in the little-endian binary format.
+   * 
+   * Layout (all little-endian), for a system of b bodies:
+   * 
+   *   0   char[4]  magic "TBTR"
+   *   4   uint16   format version
+   *   6   uint16   float64 fields per sample, 5 + 6b (23 for three bodies)
+   *   8   uint32   sample count
+   *   12  uint16   integrator order
+   *   14  uint16   integrator name length n (bytes)
+   *   16  uint8    sampling mode (0 = every N steps, 1 = every Δt)
+   *   17  uint8[3] reserved (zero)
+   *   20  uint32   decimation factor
+   *   24  float64  sampling interval (N or Δt)
+   *   32  float64  masses[0..b-1], gravitational constant, softening parameter
+   *   h   utf8     integrator name, zero-padded to a multiple of 8 bytes,
+   *                at h = 32 + 8 (b + 2) (72 for three bodies)
+   *   ..  float64  samples, in CSV column order
+   * 
+   * The body count follows from the field count, so three-body recordings
+   * are laid out exactly as before other system sizes were supported.
+   */
+  exportBinary(): Buffer {
+    const recording = this.toRecording();
+    const bodyCount = recording.masses.length;
+    const fields = fieldsPerSample(bodyCount);
+    const bytesPerSample = fields * 8;
+    const name = Buffer.from(recording.integrator.name, 'utf8');
+    const paddedNameLength = Math.ceil(name.length / 8) * 8;
+    const dataOffset = headerSize(bodyCount) + paddedNameLength;
+    const buffer = Buffer.alloc(dataOffset + this.samples.length * bytesPerSample);
+
+    buffer.write(BINARY_MAGIC, 0, 'ascii');
+    buffer.writeUInt16LE(FORMAT_VERSION, 4);
+    buffer.writeUInt16LE(fields, 6);
+    buffer.writeUInt32LE(this.samples.length, 8);
+    buffer.writeUInt16LE(recording.integrator.order, 12);
+    buffer.writeUInt16LE(name.length, 14);
+    buffer.writeUInt8(this.everySteps !== undefined ? 0 : 1, 16);
+    buffer.writeUInt32LE(this.decimation, 20);
+    buffer.writeDoubleLE(this.everySteps ?? (this.everyTime as number), 24);
+    [...recording.masses, recording.gravitationalConstant, recording.softeningParameter]
+      .forEach((value, i) => buffer.writeDoubleLE(value, 32 + i * 8));
+    name.copy(buffer, headerSize(bodyCount));
+
+    this.samples.forEach((sample, index) => {
+      const offset = dataOffset + index * bytesPerSample;
+      sample.forEach((value, field) => buffer.writeDoubleLE(value, offset + field * 8));
+    });
+
+    return buffer;
+  }
+}
+
+/**
+ * Checks that a memory budget holds at least two samples of a system of
+ * bodyCount bodies.
+ * 
+ * @throws Error if the budget is too small
+ */
+function assertSampleBudget(maxBytes: number, bodyCount: number): void {
+  const minimum = 2 * fieldsPerSample(bodyCount) * 8;
+  if (!(maxBytes >= minimum)) {
+    throw new Error(`maxBytes must allow at least two samples (${minimum} bytes), got ${maxBytes}`);
+  }
+}
+
+/**
+ * Unpacks a sample record.
+ */
+function decodeSample(sample: ArrayLike<number>, bodyCount: number): TrajectorySample {
+  const vector = (offset: number): Vector3D => ({ x: sample[offset], y: sample[offset + 1], z: sample[offset + 2] });
+  const bodies = Array.from({ length: bodyCount }, (_, i) => HEADER_FIELDS + i * FIELDS_PER_BODY);
+  return {
+    time: sample[0],
+    stepCount: sample[1],
+    acceptedSteps: sample[2],
+    rejectedSteps: sample[3],
+    totalEnergy: sample[4],
+    positions: bodies.map(offset => vector(offset)),
+    velocities: bodies.map(offset => vector(offset + 3))
+  };
+}
+
+/**
+ * Parses a binary recording.
+ * 
+ * @throws Error if the data is not a supported binary recording
+ */
+function parseBinary(buffer: Buffer): TrajectoryRecording {
+  if (buffer.length < 32 || buffer.toString('ascii', 0, 4) !== BINARY_MAGIC) {
+    throw new Error('Not a binary trajectory recording');
+  }
+  const version = buffer.readUInt16LE(4);
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported trajectory format version ${version}`);
+  }
+  const fields = buffer.readUInt16LE(6);
+  const bodyCount = (fields - HEADER_FIELDS) / FIELDS_PER_BODY;
+  if (!Number.isInteger(bodyCount) || bodyCount < 2) {
+    throw new Error(`Unexpected field count ${fields} per sample`);
+  }
+
+  const bytesPerSample = fields * 8;
+  const nameOffset = headerSize(bodyCount);
+  const sampleCount = buffer.readUInt32LE(8);
+  const nameLength = buffer.readUInt16LE(14);
+  const dataOffset = nameOffset + Math.ceil(nameLength / 8) * 8;
+  if (buffer.length !== dataOffset + sampleCount * bytesPerSample) {
+    throw new Error(`Truncated trajectory recording: expected ${sampleCount} samples`);
+  }
+
+  const interval = buffer.readDoubleLE(24);
+  const constants = Array.from({ length: bodyCount + 2 }, (_, i) => buffer.readDoubleLE(32 + i * 8));
+  const samples: TrajectorySample[] = [];
+  for (let index = 0; index < sampleCount; index++) {
+    const offset = dataOffset + index * bytesPerSample;
+    const values = Array.from({ length: fields }, (_, field) => buffer.readDoubleLE(offset + field * 8));
+    samples.push(decodeSample(values, bodyCount));
+  }
+
+  return {
+    format: FORMAT_NAME,
+    version,
+    masses: constants.slice(0, bodyCount),
+    gravitationalConstant: constants[bodyCount],
+    softeningParameter: constants[bodyCount + 1],
+    integrator: {
+      name: buffer.toString('utf8', nameOffset, nameOffset + nameLength),
+      order: buffer.readUInt16LE(12)
+    },
+    sampling: {
+      ...(buffer.readUInt8(16) === 0 ? { everySteps: interval } : { everyTime: interval }),
+      decimation: buffer.readUInt32LE(20)
+    },
+    samples
+  };
+}
+
+/**
+ * Parses a JSON recording.
+ * 
+ * @throws Error if the data is not a supported JSON recording
+ */
+function parseJSON(text: string): TrajectoryRecording {
+  const recording = JSON.parse(text) as TrajectoryRecording;
+  if (recording.format !== FORMAT_NAME) {
+    throw new Error('Not a JSON trajectory recording');
+  }
+  if (recording.version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported trajectory format version ${recording.version}`);
+  }
+  return recording;
+}
+
+/**
+ * Decodes a recording exported as binary (Buffer) or JSON (string).
+ */
+export function decodeTrajectory(input: Buffer | string): TrajectoryRecording {
+  return typeof input === 'string' ? parseJSON(input) : parseBinary(input);
+}
+
+/**
+ * Loads a recording back into simulation state snapshots.
+ * 
+ * @param input - Binary (Buffer) or JSON (string) export, or a decoded recording
+ * @returns One state per sample, in recording order
+ */
+export function readTrajectory(input: Buffer | string | TrajectoryRecording): SimulationState[] {
+  const recording = typeof input === 'string' || Buffer.isBuffer(input) ? decodeTrajectory(input) : input;
+  const { masses, gravitationalConstant, softeningParameter, integrator } = recording;
+
+  return recording.samples.map(sample => ({
+    time: sample.time,
+    configuration: {
+      bodies: masses.map((mass, i) => ({
+        mass,
+        position: { ...sample.positions[i] },
+        velocity: { ...sample.velocities[i] }
+      })),
+      gravitationalConstant,
+      softeningParameter
+    },
+    totalEnergy: sample.totalEnergy,
+    stepCount: sample.stepCount,
+    acceptedSteps: sample.acceptedSteps,
+    rejectedSteps: sample.rejectedSteps,
+    integrator: { ...integrator }
+  }));
+}
@@ -0,0 +1,364 @@
+/**
+ * Kustaanheimo-Stiefel Regularization Module
+ * 
+ * Integrates a close pair in Kustaanheimo-Stiefel (KS) coordinates. The
+ * relative position r is written as r = L(u) u for a 4-vector u, and time
+ * is replaced by the fictitious time s with dt = |r| ds. In these variables
+ * the Kepler problem becomes a harmonic oscillator,
+ * 
+ *   u'' = (h / 2) u + (|r| / 2) L(u)^T P,   h' = 2 u' . L(u)^T P,   t' = |r|,
+ * 
+ * where h is the relative Kepler energy per unit reduced mass and P is every
+ * relative acceleration other than the pair's own Newtonian attraction. The
+ * equations stay smooth through collisions, so the pair needs no softening.
+ * The softening kernel and external perturbations of the configuration's
+ * force model enter through P.
+ * The pair's center of mass and every other body are advanced in the same
+ * fictitious time.
+ */
+
+import { SofteningKernel, SystemConfiguration, Vector3D } from './types';
+import * as vec from './vector';
+import { listBodyPairs } from './integrator';
+import { externalAcceleration, hasExternalForces, pairAccelerationFactor } from './forces';
+
+/**
+ * A vector in the 4-dimensional KS space.
+ */
+export type KSVector = [number, number, number, number];
+
+/**
+ * Fictitious-time steps per oscillator period.
+ */
+const KS_STEPS_PER_PERIOD = 128;
+
+/**
+ * Relative tolerance for landing on the requested physical time.
+ */
+const KS_TIME_TOLERANCE = 1e-14;
+
+/**
+ * Upper bound on substeps within one regularized step.
+ */
+const KS_MAX_SUBSTEPS = 1000000;
+
+/**
+ * Layout of the regularized state vector. The pair's variables are followed
+ * by the position and velocity of each perturber, PERTURBER_SIZE entries
+ * apiece, starting at XK and VK.
+ */
+const U = 0;
+const W = 4;
+const H = 8;
+const T = 9;
+const R = 10;
+const V = 13;
+const XK = 16;
+const VK = 19;
+const PERTURBER_SIZE = 6;
+
+/**
+ * Computes L(u) w.
+ */
+function multiplyL(u: KSVector, w: KSVector): KSVector {
+  return [
+    u[0] * w[0] - u[1] * w[1] - u[2] * w[2] + u[3] * w[3],
+    u[1] * w[0] + u[0] * w[1] - u[3] * w[2] - u[2] * w[3],
+    u[2] * w[0] + u[3] * w[1] + u[0] * w[2] + u[1] * w[3],
+    u[3] * w[0] - u[2] * w[1] + u[1] * w[2] - u[0] * w[3]
+  ];
+}
+
+/**
+ * Computes L(u)^T w.
+ */
+function multiplyLTranspose(u: KSVector, w: KSVector): KSVector {
+  return [
+    u[0] * w[0] + u[1] * w[1] + u[2] * w[2] + u[3] * w[3],
+    -u[1] * w[0] + u[0] * w[1] + u[3] * w[2] - u[2] * w[3],
+    -u[2] * w[0] - u[3] * w[1] + u[0] * w[2] + u[1] * w[3],
+    u[3] * w[0] - u[2] * w[1] + u[1] * w[2] - u[0] * w[3]
+  ];
+}
+
+function toKS(v: Vector3D): KSVector {
+  return [v.x, v.y, v.z, 0];
+}
+
+function fromKS(w: KSVector): Vector3D {
+  return vec.createVector(w[0], w[1], w[2]);
+}
+
+/**
+ * Maps a relative position to KS coordinates.
+ * Of the circle of equivalent 4-vectors, the one with u[3] = 0 (or u[2] = 0
+ * when x < 0, for numerical stability) is returned.
+ */
+export function toKustaanheimoStiefel(r: Vector3D): KSVector {
+  const distance = vec.magnitude(r);
+  if (r.x >= 0) {
+    const u0 = Math.sqrt((distance + r.x) / 2);
+    return u0 === 0 ? [0, 0, 0, 0] : [u0, r.y / (2 * u0), r.z / (2 * u0), 0];
+  }
+  const u1 = Math.sqrt((distance - r.x) / 2);
+  return [r.y / (2 * u1), u1, 0, r.z / (2 * u1)];
+}
+
+/**
+ * Maps KS coordinates back to the relative position r = L(u) u.
+ */
+export function fromKustaanheimoStiefel(u: KSVector): Vector3D {
+  return fromKS(multiplyL(u, u));
+}
+
+/**
+ * Acceleration of body a due to body b with the configured softening kernel.
+ */
+function pull(a: Vector3D, b: Vector3D, massB: number, G: number, softening: number, kernel: SofteningKernel): Vector3D {
+  const r = vec.subtract(b, a);
+  return vec.scale(r, pairAccelerationFactor(kernel, G * massB, vec.magnitudeSquared(r), softening));
+}
+
+/**
+ * Integrates the pair (i, j) of a configuration in KS variables, with every
+ * other body, in index order, as a perturber.
+ */
+class RegularizedPair {
+  private readonly mi: number;
+  private readonly mj: number;
+  private readonly perturbers: number[];
+  private readonly totalMass: number;
+  private readonly G: number;
+  private readonly softening: number;
+  private readonly kernel: SofteningKernel;
+  private readonly stateSize: number;
+
+  constructor(
+    private readonly config: SystemConfiguration,
+    private readonly i: number,
+    private readonly j: number
+  ) {
+    this.mi = config.bodies[i].mass;
+    this.mj = config.bodies[j].mass;
+    this.perturbers = config.bodies.map((_, k) => k).filter(k => k !== i && k !== j);
+    this.totalMass = this.mi + this.mj;
+    this.G = config.gravitationalConstant;
+    this.softening = config.softeningParameter;
+    this.kernel = config.forceModel?.kernel ?? 'plummer';
+    this.stateSize = XK + PERTURBER_SIZE * this.perturbers.length;
+  }
+
+  /**
+   * Builds the regularized state vector at t = 0.
+   */
+  encode(): number[] {
+    const { bodies } = this.config;
+    const bi = bodies[this.i];
+    const bj = bodies[this.j];
+    const r = vec.subtract(bj.position, bi.position);
+    const v = vec.subtract(bj.velocity, bi.velocity);
+    const u = toKustaanheimoStiefel(r);
+    const w = multiplyLTranspose(u, toKS(v)).map(c => c / 2);
+    const h = 0.5 * vec.magnitudeSquared(v) - (this.G * this.totalMass) / vec.magnitude(r);
+    const com = vec.scale(vec.add(vec.scale(bi.position, this.mi), vec.scale(bj.position, this.mj)), 1 / this.totalMass);
+    const comVelocity = vec.scale(vec.add(vec.scale(bi.velocity, this.mi), vec.scale(bj.velocity, this.mj)), 1 / this.totalMass);
+
+    return [
+      ...u, ...w, h, 0,
+      com.x, com.y, com.z,
+      comVelocity.x, comVelocity.y, comVelocity.z,
+      ...this.perturbers.flatMap(k => [
+        bodies[k].position.x, bodies[k].position.y, bodies[k].position.z,
+        bodies[k].velocity.x, bodies[k].velocity.y, bodies[k].velocity.z
+      ])
+    ];
+  }
+
+  /**
+   * Rebuilds the physical configuration from a regularized state vector.
+   */
+  decode(y: number[]): SystemConfiguration {
+    const u = y.slice(U, U + 4) as KSVector;
+    const w = y.slice(W, W + 4) as KSVector;
+    const distance = u[0] * u[0] + u[1] * u[1] + u[2] * u[2] + u[3] * u[3];
+    const r = fromKustaanheimoStiefel(u);
+    const v = vec.scale(fromKS(multiplyL(u, w)), 2 / distance);
+    const com = vec.createVector(y[R], y[R + 1], y[R + 2]);
+    const comVelocity = vec.createVector(y[V], y[V + 1], y[V + 2]);
+
+    const bodies = this.config.bodies.map(b => ({ ...b }));
+    bodies[this.i] = {
+      mass: this.mi,
+      position: vec.subtract(com, vec.scale(r, this.mj / this.totalMass)),
+      velocity: vec.subtract(comVelocity, vec.scale(v, this.mj / this.totalMass))
+    };
+    bodies[this.j] = {
+      mass: this.mj,
+      position: vec.add(com, vec.scale(r, this.mi / this.totalMass)),
+      velocity: vec.add(comVelocity, vec.scale(v, this.mi / this.totalMass))
+    };
+    this.perturbers.forEach((k, p) => {
+      const offset = p * PERTURBER_SIZE;
+      bodies[k] = {
+        mass: bodies[k].mass,
+        position: vec.createVector(y[XK + offset], y[XK + offset + 1], y[XK + offset + 2]),
+        velocity: vec.createVector(y[VK + offset], y[VK + offset + 1], y[VK + offset + 2])
+      };
+    });
+
+    return {
+      bodies,
+      gravitationalConstant: this.config.gravitationalConstant,
+      softeningParameter: this.config.softeningParameter,
+      ...(this.config.forceModel && { forceModel: this.config.forceModel })
+    };
+  }
+
+  /**
+   * Derivatives of the regularized state with respect to fictitious time.
+   * 
+   * Pulls on a body are summed starting with the pair and then over the
+   * perturbers in index order, so a three-body run evaluates exactly the
+   * terms it did before perturbers were generalized.
+   */
+  derivatives(y: number[]): number[] {
+    const { G, softening, kernel, mi, mj, totalMass } = this;
+    const { bodies, forceModel } = this.config;
+    const u = y.slice(U, U + 4) as KSVector;
+    const w = y.slice(W, W + 4) as KSVector;
+    const h = y[H];
+    const distance = u[0] * u[0] + u[1] * u[1] + u[2] * u[2] + u[3] * u[3];
+    const r = fromKustaanheimoStiefel(u);
+    const com = vec.createVector(y[R], y[R + 1], y[R + 2]);
+    const xi = vec.subtract(com, vec.scale(r, mj / totalMass));
+    const xj = vec.add(com, vec.scale(r, mi / totalMass));
+    const positions = this.perturbers.map((_, p) => {
+      const offset = XK + p * PERTURBER_SIZE;
+      return vec.createVector(y[offset], y[offset + 1], y[offset + 2]);
+    });
+    const masses = this.perturbers.map(k => bodies[k].mass);
+
+    // Pulls on x from every perturber except the one at index skip
+    const pullsOn = (x: Vector3D, skip: number): Vector3D[] =>
+      positions.flatMap((xk, p) => (p === skip ? [] : [pull(x, xk, masses[p], G, softening, kernel)]));
+    const sum = (terms: Vector3D[]): Vector3D =>
+      terms.length === 0 ? vec.zeroVector() : terms.reduce((total, term) => vec.add(total, term));
+
+    let ai = sum(pullsOn(xi, -1));
+    let aj = sum(pullsOn(xj, -1));
+    const ak = positions.map((xk, p) =>
+      sum([pull(xk, xi, mi, G, softening, kernel), pull(xk, xj, mj, G, softening, kernel), ...pullsOn(xk, p)])
+    );
+
+    // External perturbations, with the pair's velocities rebuilt from w
+    if (forceModel && hasExternalForces(forceModel)) {
+      const v = vec.scale(fromKS(multiplyL(u, w)), 2 / distance);
+      const comVelocity = vec.createVector(y[V], y[V + 1], y[V + 2]);
+      ai = vec.add(ai, externalAcceleration(forceModel, xi, vec.subtract(comVelocity, vec.scale(v, mj / totalMass))));
+      aj = vec.add(aj, externalAcceleration(forceModel, xj, vec.add(comVelocity, vec.scale(v, mi / totalMass))));
+      positions.forEach((xk, p) => {
+        const offset = VK + p * PERTURBER_SIZE;
+        const vk = vec.createVector(y[offset], y[offset + 1], y[offset + 2]);
+        ak[p] = vec.add(ak[p], externalAcceleration(forceModel, xk, vk));
+      });
+    }
+
+    // Everything except the pair's unsoftened Kepler attraction
+    let relative = vec.subtract(aj, ai);
+    if (kernel !== 'none' && softening > 0) {
+      const softened = pairAccelerationFactor(kernel, 1, distance * distance, softening);
+      const kepler = 1 / (distance * distance * distance);
+      relative = vec.add(relative, vec.scale(r, -G * totalMass * (softened - kepler)));
+    }
+    const projected = multiplyLTranspose(u, toKS(relative));
+    const comAcceleration = vec.scale(vec.add(vec.scale(ai, mi), vec.scale(aj, mj)), 1 / totalMass);
+    const comAccelerationComponents = [comAcceleration.x, comAcceleration.y, comAcceleration.z];
+
+    const dy = new Array<number>(this.stateSize);
+    for (let n = 0; n < 4; n++) {
+      dy[U + n] = w[n];
+      dy[W + n] = (h / 2) * u[n] + (distance / 2) * projected[n];
+    }
+    dy[H] = 2 * (w[0] * projected[0] + w[1] * projected[1] + w[2] * projected[2] + w[3] * projected[3]);
+    dy[T] = distance;
+    for (let n = 0; n < 3; n++) {
+      dy[R + n] = distance * y[V + n];
+      dy[V + n] = distance * comAccelerationComponents[n];
+    }
+    ak.forEach((acceleration, p) => {
+      const offset = p * PERTURBER_SIZE;
+      const components = [acceleration.x, acceleration.y, acceleration.z];
+      for (let n = 0; n < 3; n++) {
+        dy[XK + offset + n] = distance * y[VK + offset + n];
+        dy[VK + offset + n] = distance * components[n];
+      }
+    });
+    return dy;
+  }
+
+  /**
+   * Classical RK4 step in fictitious time.
+   */
+  step(y: number[], ds: number): number[] {
+    const axpy = (a: number[], b: number[], scale: number) => a.map((value, n) => value + b[n] * scale);
+    const k1 = this.derivatives(y);
+    const k2 = this.derivatives(axpy(y, k1, ds / 2));
+    const k3 = this.derivatives(axpy(y, k2, ds / 2));
+    const k4 = this.derivatives(axpy(y, k3, ds));
+    return y.map((value, n) => value + (ds / 6) * (k1[n] + 2 * k2[n] + 2 * k3[n] + k4[n]));
+  }
+}
+
+/**
+ * Finds the closest pair of bodies.
+ */
+export function findClosestPair(config: SystemConfiguration): { bodies: [number, number]; distance: number } {
+  let closest: { bodies: [number, number]; distance: number } = { bodies: [0, 1], distance: Infinity };
+  for (const [i, j] of listBodyPairs(config.bodies.length)) {
+    const distance = vec.distance(config.bodies[i].position, config.bodies[j].position);
+    if (distance < closest.distance) {
+      closest = { bodies: [i, j], distance };
+    }
+  }
+  return closest;
+}
+
+/**
+ * Advances the configuration by dt with the pair (i, j) regularized.
+ * 
+ * The fictitious-time step resolves the pair's oscillator, whose frequency is
+ * sqrt(|h| / 2), floored at the Kepler frequency of the regularization
+ * radius so hyperbolic and parabolic passages are resolved too. The last
+ * substeps are sized from dt/ds = |r| so the step lands on t + dt.
+ * 
+ * @param config - Configuration to advance
+ * @param dt - Physical time step (may be negative)
+ * @param pair - Indices of the pair to regularize
+ * @param radius - Regularization radius used to floor the oscillator frequency
+ * @returns The configuration at t + dt
+ */
+export function ksRegularizedStep(
+  config: SystemConfiguration,
+  dt: number,
+  pair: [number, number],
+  radius: number
+): SystemConfiguration {
+  const [i, j] = pair;
+  const regularized = new RegularizedPair(config, i, j);
+  const GM = config.gravitationalConstant * (config.bodies[i].mass + config.bodies[j].mass);
+  let y = regularized.encode();
+
+  for (let substep = 0; substep < KS_MAX_SUBSTEPS; substep++) {
+    const remaining = dt - y[T];
+    if (Math.abs(remaining) <= KS_TIME_TOLERANCE * Math.abs(dt)) {
+      return regularized.decode(y);
+    }
+    const distance = y[U] * y[U] + y[U + 1] * y[U + 1] + y[U + 2] * y[U + 2] + y[U + 3] * y[U + 3];
+    const frequency = Math.sqrt(Math.max(Math.abs(y[H]), GM / (2 * radius)) / 2);
+    const maxStep = (2 * Math.PI) / (KS_STEPS_PER_PERIOD * frequency);
+    const ds = Math.sign(remaining) * Math.min(Math.abs(remaining) / distance, maxStep);
+    y = regularized.step(y, ds);
+  }
+
+  throw new Error(`KS regularized step did not reach dt=${dt} within ${KS_MAX_SUBSTEPS} substeps`);
+}
@@ -1,27 +1,74 @@
 /**
  * Three-Body Simulation Module
  * 
- * Main simulation class that orchestrates the three-body gravitational
- * dynamics and extracts entropy values from the chaotic system.
+ * Main simulation class that orchestrates the gravitational dynamics and
+ * extracts entropy values from the chaotic system. Three bodies are the
+ * default; any system of two or more bodies can be initialized, and
+ * three-body runs produce the same hashes and entropy as before systems of
+ * other sizes were supported.
  */
 
 import { createHash } from 'crypto';
 import {
-  Body,
   EntropyResult,
+  EntropySample,
+  EntropyStreamOptions,
+  ExtractionVersion,
+  ForceModel,
   InitialConditions,
+  Integrator,
+  IntegratorDescriptor,
+  ObservedStep,
+  RegularizationMode,
+  ReversibilityReport,
+  ReversibilityStep,
+  SimulationEvent,
+  SimulationEventLog,
   SimulationOptions,
+  SimulationSnapshot,
   SimulationState,
   SystemConfiguration,
+  ThreeBodySimulationOptions,
+  TrajectoryObserver,
   Vector3D
 } from './types';
 import * as vec from './vector';
 import {
-  rk4Step,
+  dormandPrince54Step,
+  DORMAND_PRINCE_54,
+  RK4_INTEGRATOR,
   calculateTotalEnergy,
   calculateAngularMomentum,
   calculateCenterOfMass
 } from './integrator';
+import {
+  SeedStreamVersion,
+  CURRENT_SEED_STREAM_VERSION,
+  assertSeedStreamVersion,
+  createSeedStream
+} from './seed-stream';
+import { EventDetector } from './events';
+import { findClosestPair, ksRegularizedStep } from './regularization';
+import { getIntegrator } from './symplectic';
+import { RK4Workspace } from './soa';
+import { getOrbitPreset } from './presets';
+import { phaseSpaceDistance } from './lyapunov';
+import {
+  DEFAULT_STREAM_OUTPUT_BYTES,
+  DEFAULT_STREAM_TIME_STEP,
+  chainSampleHash,
+  expandSampleOutput,
+  validateEntropyStreamOptions
+} from './entropy-stream';
+import { DEFAULT_FORCE_MODEL, isDefaultForceModel, normalizeForceModel, validateForceModel } from './forces';
+import { SNAPSHOT_FORMAT, SNAPSHOT_VERSION, decodeSnapshot, encodeSnapshot } from './snapshot';
+import {
+  CURRENT_EXTRACTION_VERSION,
+  DEFAULT_ABSORB_EVERY,
+  TrajectoryAbsorber,
+  assertExtractionVersion,
+  uniformFloat53
+} from './extraction';
 
 /**
  * Default simulation parameters.
@@ -30,20 +77,109 @@ const DEFAULT_GRAVITATIONAL_CONSTANT = 1.0;
 const DEFAULT_SOFTENING_PARAMETER = 0.01;
 const DEFAULT_TIME_STEP = 0.001;
 const DEFAULT_DURATION = 10.0;
+const DEFAULT_TOLERANCE = 1e-9;
+const DEFAULT_REGULARIZATION_RADIUS = 0.5;
+const DEFAULT_REVERSIBILITY_THRESHOLD = 1e-6;
 
 /**
- * ThreeBodySimulation class manages the complete lifecycle of a three-body
- * gravitational simulation for entropy generation.
+ * Weights of the distance and speed terms of the chaotic metric, in the
+ * order distance 0, speed 0, distance 1, ... These are the values
+ * Math.pow(10, -k) returned when the metric was introduced. Math.pow is not
+ * correctly rounded and 10^-5 comes out one ulp below 1e-5 in V8, so the
+ * weights are pinned as literals to give the same bits on every runtime.
+ */
+const CHAOTIC_METRIC_WEIGHTS = [1, 0.01, 0.000009999999999999999, 1e-7, 1e-10, 1e-12];
+
+/**
+ * Weight of a term of the chaotic metric. Terms past the pinned weights of
+ * the first three bodies continue the pattern 10^-5i for distance i and
+ * 10^-(5i+2) for speed i, parsed from decimal literals, which unlike
+ * Math.pow is correctly rounded. They fall below the precision of the
+ * metric, so larger systems are dominated by the first three terms.
+ */
+function chaoticMetricWeight(index: number): number {
+  if (index < CHAOTIC_METRIC_WEIGHTS.length) {
+    return CHAOTIC_METRIC_WEIGHTS[index];
+  }
+  const body = Math.floor(index / 2);
+  const exponent = index % 2 === 0 ? 5 * body : 5 * body + 2;
+  return Number(`1e-${exponent}`);
+}
+
+/**
+ * Step-size controller parameters for adaptive time stepping.
+ */
+const ADAPTIVE_SAFETY_FACTOR = 0.9;
+const ADAPTIVE_MIN_FACTOR = 0.2;
+const ADAPTIVE_MAX_FACTOR = 5.0;
+const ADAPTIVE_MIN_STEP = 1e-14;
+
+/**
+ * ThreeBodySimulation class manages the complete lifecycle of a
+ * gravitational simulation for entropy generation. Despite its name it
+ * accepts systems of two or more bodies.
  */
 export class ThreeBodySimulation {
   private configuration: SystemConfiguration;
   private time: number = 0;
   private stepCount: number = 0;
+  private acceptedSteps: number = 0;
+  private rejectedSteps: number = 0;
   private initialConditionsHash: string = '';
+  private initialConditions: InitialConditions | null = null;
   private initialized: boolean = false;
+  private integrator: Integrator;
+  private activeIntegrator: IntegratorDescriptor;
+  private adaptiveTolerance: number | null = null;
+  private eventDetector: EventDetector;
+  private events: SimulationEvent[] = [];
+  private regularization: RegularizationMode;
+  private regularizationRadius: number;
+  private workspace = new RK4Workspace();
+  private reversibilityThreshold: number | null;
+  private reversibilityDuration: number;
+  private stepHistory: ReversibilityStep[] = [];
+  private reversibilityEnd: { time: number; configuration: SystemConfiguration } | null = null;
+  private extractionVersion: ExtractionVersion;
+  private absorbEvery: number;
+  private trajectory: TrajectoryAbsorber | null = null;
 
-  constructor() {
+  constructor(options: ThreeBodySimulationOptions = {}) {
     this.configuration = this.createDefaultConfiguration();
+    this.integrator = options.integrator ?? RK4_INTEGRATOR;
+    this.activeIntegrator = this.describeIntegrator(this.integrator);
+    this.eventDetector = new EventDetector(options.events);
+    this.regularization = options.regularization ?? 'none';
+    this.regularizationRadius = options.regularizationRadius ?? DEFAULT_REGULARIZATION_RADIUS;
+    const reversibilityCheck = options.reversibilityCheck === true ? {} : options.reversibilityCheck || null;
+    this.reversibilityThreshold = reversibilityCheck ? reversibilityCheck.threshold ?? DEFAULT_REVERSIBILITY_THRESHOLD : null;
+    this.reversibilityDuration = reversibilityCheck?.duration ?? Infinity;
+    this.extractionVersion = options.extraction?.version ?? CURRENT_EXTRACTION_VERSION;
+    this.absorbEvery = options.extraction?.absorbEvery ?? DEFAULT_ABSORB_EVERY;
+
+    assertExtractionVersion(this.extractionVersion);
+    if (!Number.isInteger(this.absorbEvery) || this.absorbEvery < 1) {
+      throw new Error(`absorbEvery must be a positive integer, got ${this.absorbEvery}`);
+    }
+    if (this.regularization !== 'none' && this.regularization !== 'ks') {
+      throw new Error(`Unknown regularization mode "${this.regularization}"`);
+    }
+    if (!(this.regularizationRadius > 0) || !Number.isFinite(this.regularizationRadius)) {
+      throw new Error(`Regularization radius must be a positive finite number, got ${this.regularizationRadius}`);
+    }
+    if (this.reversibilityThreshold !== null && (!(this.reversibilityThreshold > 0) || !Number.isFinite(this.reversibilityThreshold))) {
+      throw new Error(`Reversibility threshold must be a positive finite number, got ${this.reversibilityThreshold}`);
+    }
+    if (!(this.reversibilityDuration > 0)) {
+      throw new Error(`Reversibility duration must be positive, got ${this.reversibilityDuration}`);
+    }
+  }
+
+  /**
+   * Extracts the identifying fields of an integrator.
+   */
+  private describeIntegrator(integrator: IntegratorDescriptor): IntegratorDescriptor {
+    return { name: integrator.name, order: integrator.order };
   }
 
   /**
@@ -62,43 +198,62 @@ export class ThreeBodySimulation {
   }
 
   /**
-   * Initializes the three-body system with the specified masses, positions, and velocities.
+   * Initializes the system with the specified masses, positions, and velocities.
    * 
-   * @param masses - Array of three masses for each body
-   * @param positions - Array of three position vectors
-   * @param velocities - Array of three velocity vectors
+   * @param masses - Mass of each body, at least two
+   * @param positions - Position vector of each body
+   * @param velocities - Velocity vector of each body
    * @returns The initialized system configuration
+   * @throws Error if there are fewer than two bodies, the arrays differ in
+   *   length, or a value is invalid
    */
   initializeSystem(
-    masses: [number, number, number],
-    positions: [Vector3D, Vector3D, Vector3D],
-    velocities: [Vector3D, Vector3D, Vector3D]
+    masses: number[],
+    positions: Vector3D[],
+    velocities: Vector3D[]
   ): SystemConfiguration {
     // Validate inputs
+    if (masses.length < 2) {
+      throw new Error(`At least two bodies are required, got ${masses.length}`);
+    }
     this.validateMasses(masses);
-    this.validateVectors(positions, 'positions');
-    this.validateVectors(velocities, 'velocities');
+    this.validateVectors(positions, masses.length, 'positions');
+    this.validateVectors(velocities, masses.length, 'velocities');
 
     // Create bodies
-    const bodies: [Body, Body, Body] = [
-      { mass: masses[0], position: vec.clone(positions[0]), velocity: vec.clone(velocities[0]) },
-      { mass: masses[1], position: vec.clone(positions[1]), velocity: vec.clone(velocities[1]) },
-      { mass: masses[2], position: vec.clone(positions[2]), velocity: vec.clone(velocities[2]) }
-    ];
+    const bodies = masses.map((mass, i) => ({
+      mass,
+      position: vec.clone(positions[i]),
+      velocity: vec.clone(velocities[i])
+    }));
 
     this.configuration = {
       bodies,
       gravitationalConstant: this.configuration.gravitationalConstant,
-      softeningParameter: this.configuration.softeningParameter
+      softeningParameter: this.configuration.softeningParameter,
+      ...(this.configuration.forceModel && { forceModel: this.configuration.forceModel })
     };
 
     // Reset simulation state
     this.time = 0;
     this.stepCount = 0;
+    this.acceptedSteps = 0;
+    this.rejectedSteps = 0;
     this.initialized = true;
+    this.stepHistory = [];
+    this.reversibilityEnd = null;
+    this.adaptiveTolerance = null;
 
     // Calculate hash of initial conditions for verification
-    this.initialConditionsHash = this.hashInitialConditions(masses, positions, velocities);
+    this.initialConditions = this.cloneInitialConditions({ masses, positions, velocities });
+    this.initialConditionsHash = this.hashInitialConditions(this.initialConditions);
+    this.activeIntegrator = this.describeIntegrator(this.integrator);
+    this.resetTrajectory();
+
+    // Events already present in the initial configuration are reported at t=0
+    this.events = [];
+    this.eventDetector.reset(bodies.length);
+    this.recordEvents();
 
     return this.cloneConfiguration();
   }
@@ -106,8 +261,8 @@ export class ThreeBodySimulation {
   /**
    * Validates that all masses are positive.
    */
-  private validateMasses(masses: [number, number, number]): void {
-    for (let i = 0; i < 3; i++) {
+  private validateMasses(masses: number[]): void {
+    for (let i = 0; i < masses.length; i++) {
       if (masses[i] <= 0) {
         throw new Error(`Mass at index ${i} must be positive, got ${masses[i]}`);
       }
@@ -118,10 +273,14 @@ export class ThreeBodySimulation {
   }
 
   /**
-   * Validates that all vectors have finite components.
+   * Validates that there is one vector per body and that all vectors have
+   * finite components.
    */
-  private validateVectors(vectors: [Vector3D, Vector3D, Vector3D], name: string): void {
-    for (let i = 0; i < 3; i++) {
+  private validateVectors(vectors: Vector3D[], bodyCount: number, name: string): void {
+    if (vectors.length !== bodyCount) {
+      throw new Error(`Expected ${bodyCount} ${name}, one per body, got ${vectors.length}`);
+    }
+    for (let i = 0; i < bodyCount; i++) {
       const v = vectors[i];
       if (!Number.isFinite(v.x) || !Number.isFinite(v.y) || !Number.isFinite(v.z)) {
         throw new Error(`${name}[${i}] contains non-finite values: (${v.x}, ${v.y}, ${v.z})`);
@@ -131,62 +290,440 @@ export class ThreeBodySimulation {
 
   /**
    * Creates a cryptographic hash of the initial conditions.
+   * 
+   * Any integrator other than the default RK4, KS regularization, and any
+   * force model other than plain Plummer softening are included in the
+   * hashed data, so the hash identifies the scheme and the dynamics that
+   * produced the entropy while plain RK4 hashes stay identical to those
+   * issued before integrators existed. A run advanced with adaptive steps
+   * hashes Dormand-Prince and its tolerance in place of the configured
+   * integrator, which it does not use.
    */
-  private hashInitialConditions(
-    masses: [number, number, number],
-    positions: [Vector3D, Vector3D, Vector3D],
-    velocities: [Vector3D, Vector3D, Vector3D]
-  ): string {
-    const data = JSON.stringify({ masses, positions, velocities });
-    return createHash('sha256').update(data).digest('hex');
+  private hashInitialConditions(conditions: InitialConditions): string {
+    const { masses, positions, velocities } = conditions;
+    const data: Record<string, unknown> = { masses, positions, velocities };
+    if (this.adaptiveTolerance !== null) {
+      data.integrator = { ...this.describeIntegrator(DORMAND_PRINCE_54), tolerance: this.adaptiveTolerance };
+    } else if (this.integrator.name !== RK4_INTEGRATOR.name) {
+      data.integrator = this.describeIntegrator(this.integrator);
+    }
+    if (this.regularization !== 'none') {
+      data.regularization = { mode: this.regularization, radius: this.regularizationRadius };
+    }
+    if (!isDefaultForceModel(this.configuration.forceModel)) {
+      data.forceModel = this.configuration.forceModel;
+    }
+    return createHash('sha256').update(JSON.stringify(data)).digest('hex');
+  }
+
+  /**
+   * Selects fixed steps (null) or adaptive steps with the given tolerance
+   * for the run, rehashing the initial conditions when the scheme changes
+   * before the first step.
+   * 
+   * @throws Error if the simulation has already advanced with another scheme
+   */
+  private useScheme(adaptiveTolerance: number | null): void {
+    if (adaptiveTolerance === this.adaptiveTolerance) {
+      return;
+    }
+    if (this.stepCount > 0) {
+      throw new Error('Integration scheme cannot be changed after the simulation has started');
+    }
+    this.adaptiveTolerance = adaptiveTolerance;
+    if (this.initialConditions) {
+      this.initialConditionsHash = this.hashInitialConditions(this.initialConditions);
+      this.resetTrajectory();
+    }
+  }
+
+  /**
+   * Sets the integrator used for fixed-step runs.
+   * 
+   * @throws Error if the simulation has already advanced
+   */
+  setIntegrator(integrator: Integrator): void {
+    if (this.stepCount > 0) {
+      throw new Error('Integrator cannot be changed after the simulation has started');
+    }
+    this.integrator = integrator;
+    this.activeIntegrator = this.describeIntegrator(integrator);
+    if (this.initialConditions) {
+      this.initialConditionsHash = this.hashInitialConditions(this.initialConditions);
+      this.resetTrajectory();
+    }
+  }
+
+  /**
+   * Gets the integrator used for fixed-step runs.
+   */
+  getIntegrator(): Integrator {
+    return this.integrator;
+  }
+
+  /**
+   * Sets the force model: the softening kernel of pairwise gravity and any
+   * external perturbations. The softening parameter set separately is the
+   * kernel's softening length.
+   * 
+   * @throws Error if the model is invalid or the simulation has already
+   *   advanced
+   */
+  setForceModel(model: ForceModel): void {
+    if (this.stepCount > 0) {
+      throw new Error('Force model cannot be changed after the simulation has started');
+    }
+    const normalized = normalizeForceModel(model);
+    if (isDefaultForceModel(normalized)) {
+      delete this.configuration.forceModel;
+    } else {
+      this.configuration.forceModel = normalized;
+    }
+    if (this.initialConditions) {
+      this.initialConditionsHash = this.hashInitialConditions(this.initialConditions);
+      this.resetTrajectory();
+    }
+  }
+
+  /**
+   * Gets the force model.
+   */
+  getForceModel(): ForceModel {
+    return normalizeForceModel(this.configuration.forceModel ?? DEFAULT_FORCE_MODEL);
   }
 
   /**
    * Runs the simulation for the specified duration.
    * 
-   * @param duration - Total time to simulate
+   * Accepts either a duration and fixed time step, or a `SimulationOptions`
+   * object. When `adaptiveTimeStep` is set, the system is advanced with the
+   * Dormand-Prince 5(4) pair: `timeStep` becomes the initial step size and
+   * steps are accepted or rejected against `tolerance`. Both modes land
+   * exactly on the requested duration.
+   * 
+   * The initial-conditions hash records the scheme a run advances with, so
+   * a run cannot switch between fixed and adaptive steps, or change its
+   * tolerance, once it has started.
+   * 
+   * With KS regularization enabled, fixed steps taken while the closest pair
+   * is inside the regularization radius are integrated in KS variables
+   * instead of with the configured integrator.
+   * 
+   * A `recorder` in the options observes the starting state, every accepted
+   * step and the final state.
+   * 
+   * @param duration - Total time to simulate, or the full simulation options
    * @param timeStep - Integration time step (smaller = more accurate but slower)
    * @returns The final simulation state
    */
   simulateForTime(
-    duration: number = DEFAULT_DURATION,
+    duration: number | SimulationOptions = DEFAULT_DURATION,
     timeStep: number = DEFAULT_TIME_STEP
   ): SimulationState {
+    const options: SimulationOptions = typeof duration === 'number'
+      ? { duration, timeStep }
+      : duration;
+
     if (!this.initialized) {
       throw new Error('System must be initialized before simulation. Call initializeSystem() first.');
     }
 
-    if (duration <= 0) {
-      throw new Error(`Duration must be positive, got ${duration}`);
+    if (options.duration <= 0) {
+      throw new Error(`Duration must be positive, got ${options.duration}`);
     }
 
-    if (timeStep <= 0) {
-      throw new Error(`Time step must be positive, got ${timeStep}`);
+    if (options.timeStep <= 0) {
+      throw new Error(`Time step must be positive, got ${options.timeStep}`);
     }
 
-    const targetTime = this.time + duration;
+    const targetTime = this.time + options.duration;
+    const recorder = options.recorder;
+
+    if (options.adaptiveTimeStep) {
+      const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+      if (!(tolerance > 0) || !Number.isFinite(tolerance)) {
+        throw new Error(`Tolerance must be a positive finite number, got ${tolerance}`);
+      }
+      if (this.regularization !== 'none') {
+        throw new Error('KS regularization requires fixed time steps');
+      }
+      this.useScheme(tolerance);
+      this.activeIntegrator = this.describeIntegrator(DORMAND_PRINCE_54);
+      recorder?.observe(this.observedStep(), false);
+      this.integrateAdaptive(targetTime, options.timeStep, tolerance, recorder);
+      recorder?.observe(this.observedStep(), true);
+      return this.getCurrentState();
+    }
+
+    this.useScheme(null);
+    this.activeIntegrator = this.describeIntegrator(this.integrator);
+    recorder?.observe(this.observedStep(), false);
     
     while (this.time < targetTime) {
       // Adjust final step to hit exact target time
-      const dt = Math.min(timeStep, targetTime - this.time);
-      
-      // Perform RK4 integration step
-      this.configuration = rk4Step(this.configuration, dt);
-      this.time += dt;
-      this.stepCount++;
+      this.advanceFixed(Math.min(options.timeStep, targetTime - this.time));
+      recorder?.observe(this.observedStep(), false);
+    }
+
+    recorder?.observe(this.observedStep(), true);
+    return this.getCurrentState();
+  }
 
-      // Check for numerical instability
-      this.checkNumericalStability();
+  /**
+   * Takes exactly `steps` fixed steps of `timeStep` with the configured
+   * integrator and regularization, without shortening the last one, and
+   * returns the state reached. A `recorder` observes the starting state,
+   * every step and the final state, as in simulateForTime().
+   * 
+   * @param steps - Number of steps, zero or more
+   * @param timeStep - Integration time step
+   * @param recorder - Optional trajectory observer
+   * @returns The final simulation state
+   */
+  simulateSteps(steps: number, timeStep: number, recorder?: TrajectoryObserver): SimulationState {
+    if (!this.initialized) {
+      throw new Error('System must be initialized before simulation. Call initializeSystem() first.');
+    }
+    if (!Number.isInteger(steps) || steps < 0) {
+      throw new Error(`Step count must be a non-negative integer, got ${steps}`);
+    }
+    if (!(timeStep > 0) || !Number.isFinite(timeStep)) {
+      throw new Error(`Time step must be a positive finite number, got ${timeStep}`);
     }
 
+    this.useScheme(null);
+    this.activeIntegrator = this.describeIntegrator(this.integrator);
+    recorder?.observe(this.observedStep(), false);
+    for (let i = 0; i < steps; i++) {
+      this.advanceFixed(timeStep);
+      recorder?.observe(this.observedStep(), false);
+    }
+    recorder?.observe(this.observedStep(), true);
     return this.getCurrentState();
   }
 
+  /**
+   * Takes one fixed step and updates the counters, step history and events.
+   */
+  private advanceFixed(dt: number): void {
+    this.configuration = this.fixedStep(this.configuration, dt);
+    this.time += dt;
+    this.stepCount++;
+    this.acceptedSteps++;
+    this.recordStep(dt, false);
+
+    // Check for numerical instability
+    this.checkNumericalStability();
+    this.recordEvents();
+    this.trajectory?.observe(this.stepCount, this.time, this.configuration.bodies);
+  }
+
+  /**
+   * Keeps the system running and emits a hash-chained sample every
+   * `sampleEvery` fixed steps of `timeStep`.
+   * 
+   * Each sample carries the step count and the state hash at which it was
+   * taken and commits to the previous sample, starting from the
+   * initial-conditions hash, so a verifier can replay the simulation up to
+   * any sample (see verifyEntropySample). The stream yields to the event
+   * loop between samples. It ends after `maxSamples` samples or when the
+   * consumer stops iterating; the simulation must not be advanced by other
+   * calls in the meantime.
+   * 
+   * A stream over a simulation that has already advanced, e.g. one restored
+   * from a snapshot, continues the chain of `resumeFrom`, the last sample
+   * emitted before.
+   * 
+   * @param options - Sampling interval, output size, time step and limits
+   * @returns An async iterable of samples
+   * @throws Error if the options are invalid, the system is not initialized,
+   *   or the simulation has advanced and is not at the `resumeFrom` sample
+   */
+  async *entropyStream(options: EntropyStreamOptions): AsyncGenerator<EntropySample, void, undefined> {
+    validateEntropyStreamOptions(options);
+    if (!this.initialized) {
+      throw new Error('System must be initialized before streaming entropy. Call initializeSystem() first.');
+    }
+    const {
+      sampleEvery,
+      outputBytes = DEFAULT_STREAM_OUTPUT_BYTES,
+      timeStep = DEFAULT_STREAM_TIME_STEP,
+      maxSamples = Infinity,
+      resumeFrom
+    } = options;
+
+    let previousHash = this.initialConditionsHash;
+    let index = 0;
+    if (resumeFrom) {
+      if (resumeFrom.step !== this.stepCount || resumeFrom.stateHash !== this.stateHash().toString('hex')) {
+        throw new Error(`Simulation is not at the state of sample ${resumeFrom.index}`);
+      }
+      previousHash = resumeFrom.hash;
+      index = resumeFrom.index + 1;
+    } else if (this.stepCount > 0) {
+      throw new Error('Entropy stream must start from the initial conditions or resume from a sample');
+    }
+
+    this.useScheme(null);
+    this.activeIntegrator = this.describeIntegrator(this.integrator);
+    for (let emitted = 0; emitted < maxSamples; emitted++, index++) {
+      const startStep = this.stepCount;
+      for (let i = 0; i < sampleEvery; i++) {
+        this.advanceFixed(timeStep);
+      }
+
+      const stateHash = this.stateHash().toString('hex');
+      const hash = chainSampleHash(previousHash, this.stepCount, stateHash);
+      const sample: EntropySample = {
+        index,
+        step: this.stepCount,
+        time: this.time,
+        stateHash,
+        previousHash,
+        hash,
+        output: expandSampleOutput(hash, outputBytes)
+      };
+      previousHash = hash;
+      yield sample;
+
+      if (this.stepCount !== startStep + sampleEvery) {
+        throw new Error('Simulation was advanced outside the entropy stream');
+      }
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+
+  /**
+   * Describes the current progress for a trajectory observer. The
+   * configuration is a copy, since fixed steps update the simulation's own
+   * in place.
+   */
+  private observedStep(): ObservedStep {
+    return {
+      time: this.time,
+      configuration: this.cloneConfiguration(),
+      stepCount: this.stepCount,
+      acceptedSteps: this.acceptedSteps,
+      rejectedSteps: this.rejectedSteps,
+      integrator: this.activeIntegrator
+    };
+  }
+
+  /**
+   * Performs one fixed step, regularizing the closest pair when KS
+   * regularization is enabled and the pair is inside the radius.
+   * Plain RK4 steps update the configuration in place.
+   */
+  private fixedStep(configuration: SystemConfiguration, dt: number): SystemConfiguration {
+    if (this.regularization === 'ks') {
+      const closest = findClosestPair(configuration);
+      if (closest.distance < this.regularizationRadius) {
+        return ksRegularizedStep(configuration, dt, closest.bodies, this.regularizationRadius);
+      }
+    }
+    if (this.integrator === RK4_INTEGRATOR) {
+      // Advance the default integrator in place, without allocating
+      if (this.workspace.bodyCount !== configuration.bodies.length) {
+        this.workspace = new RK4Workspace(configuration.bodies.length);
+      }
+      this.workspace.load(configuration);
+      this.workspace.step(dt);
+      this.workspace.store(configuration);
+      return configuration;
+    }
+    return this.integrator.step(configuration, dt);
+  }
+
+  /**
+   * Remembers an accepted step when the reversibility check is enabled,
+   * until the run reaches the check's duration; the state at that point is
+   * the one the check integrates back from.
+   */
+  private recordStep(dt: number, adaptive: boolean): void {
+    if (this.reversibilityThreshold === null || this.reversibilityEnd) {
+      return;
+    }
+    this.stepHistory.push({ dt, adaptive });
+    if (this.time >= this.reversibilityDuration) {
+      this.reversibilityEnd = { time: this.time, configuration: this.cloneConfiguration() };
+    }
+  }
+
+  /**
+   * Starts the trajectory hash chain from the initial-conditions hash under
+   * version 2 extraction.
+   */
+  private resetTrajectory(): void {
+    this.trajectory = this.extractionVersion === 2 && this.initialized
+      ? new TrajectoryAbsorber(this.initialConditionsHash, this.absorbEvery)
+      : null;
+  }
+
+  /**
+   * Appends the events completed by the current configuration to the log.
+   */
+  private recordEvents(): void {
+    this.events.push(...this.eventDetector.observe(this.configuration, this.time, this.stepCount));
+  }
+
+  /**
+   * Advances the system to the target time with error-controlled steps.
+   * 
+   * Each trial step is accepted when its scaled error estimate is at most 1;
+   * otherwise it is rejected and retried with a smaller step. The next step
+   * size follows the standard controller h * 0.9 * err^(-1/5), clamped so it
+   * changes by no more than a factor of 5 per step.
+   */
+  private integrateAdaptive(
+    targetTime: number,
+    initialStep: number,
+    tolerance: number,
+    recorder?: TrajectoryObserver
+  ): void {
+    let stepSize = initialStep;
+
+    while (this.time < targetTime) {
+      const remaining = targetTime - this.time;
+      const isFinalStep = stepSize >= remaining;
+      const dt = isFinalStep ? remaining : stepSize;
+
+      if (dt < ADAPTIVE_MIN_STEP * Math.max(1, Math.abs(this.time))) {
+        throw new Error(
+          `Adaptive step size underflow at t=${this.time}: step ${dt} cannot meet tolerance ${tolerance}`
+        );
+      }
+
+      const result = dormandPrince54Step(this.configuration, dt, tolerance);
+      const factor = result.error > 0
+        ? Math.min(ADAPTIVE_MAX_FACTOR, Math.max(ADAPTIVE_MIN_FACTOR, ADAPTIVE_SAFETY_FACTOR * Math.pow(result.error, -0.2)))
+        : ADAPTIVE_MAX_FACTOR;
+
+      if (result.error <= 1) {
+        this.configuration = result.configuration;
+        this.time = isFinalStep ? targetTime : this.time + dt;
+        this.stepCount++;
+        this.acceptedSteps++;
+        this.recordStep(dt, true);
+        this.checkNumericalStability();
+        this.recordEvents();
+        this.trajectory?.observe(this.stepCount, this.time, this.configuration.bodies);
+        recorder?.observe(this.observedStep(), false);
+        // A final step shortened to land on the target says nothing about the
+        // step size the dynamics allow, so it never shrinks the next step.
+        stepSize = isFinalStep ? Math.max(stepSize, dt * factor) : dt * factor;
+      } else {
+        // Also reached when the error estimate is NaN
+        this.rejectedSteps++;
+        stepSize = dt * (Number.isNaN(factor) ? ADAPTIVE_MIN_FACTOR : Math.min(1, factor));
+      }
+    }
+  }
+
   /**
    * Checks for numerical instability in the simulation.
    */
   private checkNumericalStability(): void {
-    for (let i = 0; i < 3; i++) {
+    for (let i = 0; i < this.configuration.bodies.length; i++) {
       const body = this.configuration.bodies[i];
       const pos = body.position;
       const vel = body.velocity;
@@ -201,19 +738,125 @@ export class ThreeBodySimulation {
     }
   }
 
+  /**
+   * Integrates the run backwards to t = 0 and measures how far it lands from
+   * the initial conditions.
+   * 
+   * Every accepted step up to the check's `duration` (default: the whole
+   * run) is replayed in reverse order with negative dt, using the same scheme
+   * as the forward step (Dormand-Prince steps without error control, or the
+   * configured integrator and regularization), starting from the state the
+   * run reached at that point. The recovery error combines the truncation
+   * and rounding error of both directions, amplified like e^(λt) by the
+   * chaos of the run, so long chaotic runs fail the default threshold;
+   * shorten `duration` or raise `threshold` for them. A large error on a
+   * short span points at an integrator regression, corrupted state or a time
+   * step too coarse for the encounters of the run. The simulation state is
+   * left unchanged.
+   * 
+   * @returns The recovery error and whether it is within the threshold
+   * @throws Error if the reversibility check is not enabled or the system is
+   *   not initialized
+   */
+  checkReversibility(): ReversibilityReport {
+    if (this.reversibilityThreshold === null) {
+      throw new Error('Reversibility check is not enabled. Pass the reversibilityCheck option to the constructor.');
+    }
+    if (!this.initialized || !this.initialConditions) {
+      throw new Error('System must be initialized before checking reversibility. Call initializeSystem() first.');
+    }
+
+    const end = this.reversibilityEnd ?? { time: this.time, configuration: this.configuration };
+    let configuration = this.cloneConfiguration(end.configuration);
+    for (let k = this.stepHistory.length - 1; k >= 0; k--) {
+      const { dt, adaptive } = this.stepHistory[k];
+      configuration = this.replayStep(configuration, -dt, adaptive);
+    }
+
+    const { masses, positions, velocities } = this.initialConditions;
+    const initial: SystemConfiguration = {
+      ...configuration,
+      bodies: masses.map((mass, i) => ({ mass, position: positions[i], velocity: velocities[i] }))
+    };
+    const recoveryError = phaseSpaceDistance(configuration, initial);
+
+    return {
+      time: end.time,
+      steps: this.stepHistory.length,
+      recoveryError,
+      threshold: this.reversibilityThreshold,
+      passed: recoveryError <= this.reversibilityThreshold
+    };
+  }
+
+  /**
+   * Takes one step of a recorded kind without error control, advancing the
+   * given configuration (in place for the default integrator).
+   */
+  private replayStep(configuration: SystemConfiguration, dt: number, adaptive: boolean): SystemConfiguration {
+    return adaptive
+      ? dormandPrince54Step(configuration, dt, DEFAULT_TOLERANCE).configuration
+      : this.fixedStep(configuration, dt);
+  }
+
   /**
    * Extracts the entropy value from the current simulation state.
    * 
    * The entropy is derived from the chaotic positions and velocities of the
-   * three bodies, which are highly sensitive to initial conditions.
+   * bodies, which are highly sensitive to initial conditions. Under version
+   * 2 extraction (the default) the hex output commits to the states absorbed
+   * along the trajectory as well as the current one, and the value is a
+   * uniform 53-bit float read from it; version 1 hashes the current state
+   * and returns its chaotic metric. See the extraction module.
+   * 
+   * With the reversibility check enabled, extraction first runs
+   * checkReversibility() and attaches its report to the result.
    * 
    * @returns The entropy result containing the value and metadata
+   * @throws Error if the reversibility check fails
    */
   getEntropyValue(): EntropyResult {
     if (!this.initialized) {
       throw new Error('System must be initialized before extracting entropy. Call initializeSystem() first.');
     }
 
+    const reversibility = this.reversibilityThreshold !== null ? this.checkReversibility() : undefined;
+    if (reversibility && !reversibility.passed) {
+      throw new Error(
+        `Reversibility check failed: recovery error ${reversibility.recoveryError} exceeds threshold ${reversibility.threshold}`
+      );
+    }
+
+    const result = {
+      finalState: this.getCurrentState(),
+      initialConditionsHash: this.initialConditionsHash,
+      ...(reversibility && { reversibility })
+    };
+
+    if (this.trajectory) {
+      const output = this.trajectory.finalize(this.stepCount, this.time, this.configuration.bodies);
+      return {
+        value: uniformFloat53(output),
+        hex: output.toString('hex'),
+        extractionVersion: 2,
+        absorbedStates: this.trajectory.getAbsorbedStates(),
+        ...result
+      };
+    }
+
+    return {
+      value: this.calculateChaoticMetric(),
+      hex: this.stateHash().toString('hex'),
+      extractionVersion: 1,
+      ...result
+    };
+  }
+
+  /**
+   * Hashes all position and velocity components of the current state, the
+   * version 1 entropy output.
+   */
+  private stateHash(): Buffer {
     // Combine all position and velocity components into a single value
     const components: number[] = [];
     
@@ -224,50 +867,30 @@ export class ThreeBodySimulation {
 
     // Create a hash of all components for the entropy value
     const dataString = components.map(c => c.toExponential(15)).join(':');
-    const hash = createHash('sha256').update(dataString).digest();
-
-    // Convert first 8 bytes to a normalized floating-point value [0, 1)
-    const highBits = hash.readUInt32BE(0);
-    const lowBits = hash.readUInt32BE(4);
-    const combined = highBits * 0x100000000 + lowBits;
-    const normalizedValue = combined / 0x10000000000000000;
-
-    // Also create a raw chaotic metric from the positions
-    const chaoticMetric = this.calculateChaoticMetric();
-
-    return {
-      value: chaoticMetric,
-      hex: hash.toString('hex'),
-      finalState: this.getCurrentState(),
-      initialConditionsHash: this.initialConditionsHash
-    };
+    return createHash('sha256').update(dataString).digest();
   }
 
   /**
    * Calculates a chaotic metric from the current state.
    * This metric is highly sensitive to initial conditions.
+   * 
+   * Distance i is between body i and body i + 1, wrapping around to body 0,
+   * so a three-body system uses the sides of its triangle in the order
+   * (0, 1), (1, 2), (2, 0).
    */
   private calculateChaoticMetric(): number {
     const bodies = this.configuration.bodies;
+    const n = bodies.length;
     
     // Calculate various chaotic indicators
-    const distances = [
-      vec.distance(bodies[0].position, bodies[1].position),
-      vec.distance(bodies[1].position, bodies[2].position),
-      vec.distance(bodies[2].position, bodies[0].position)
-    ];
-
-    const speeds = [
-      vec.magnitude(bodies[0].velocity),
-      vec.magnitude(bodies[1].velocity),
-      vec.magnitude(bodies[2].velocity)
-    ];
+    const distances = bodies.map((body, i) => vec.distance(body.position, bodies[(i + 1) % n].position));
+    const speeds = bodies.map(body => vec.magnitude(body.velocity));
 
     // Combine into a single metric using fractional parts
     let metric = 0;
-    for (let i = 0; i < 3; i++) {
-      metric += (distances[i] % 1) * Math.pow(10, -i * 5);
-      metric += (speeds[i] % 1) * Math.pow(10, -(i * 5 + 2));
+    for (let i = 0; i < n; i++) {
+      metric += (distances[i] % 1) * chaoticMetricWeight(2 * i);
+      metric += (speeds[i] % 1) * chaoticMetricWeight(2 * i + 1);
     }
 
     // Normalize to [0, 1)
@@ -282,7 +905,29 @@ export class ThreeBodySimulation {
       time: this.time,
       configuration: this.cloneConfiguration(),
       totalEnergy: calculateTotalEnergy(this.configuration),
-      stepCount: this.stepCount
+      stepCount: this.stepCount,
+      acceptedSteps: this.acceptedSteps,
+      rejectedSteps: this.rejectedSteps,
+      integrator: { ...this.activeIntegrator }
+    };
+  }
+
+  /**
+   * Gets the events detected so far, in the order they occurred.
+   */
+  getEvents(): SimulationEvent[] {
+    return this.events.map(event => ({ ...event }));
+  }
+
+  /**
+   * Exports the event log together with the current state.
+   */
+  exportEventLog(): SimulationEventLog {
+    return {
+      state: this.getCurrentState(),
+      events: this.getEvents(),
+      detection: this.eventDetector.getOptions(),
+      regularization: this.regularization
     };
   }
 
@@ -294,30 +939,167 @@ export class ThreeBodySimulation {
   }
 
   /**
-   * Creates a deep clone of the current configuration.
+   * Creates a deep clone of a configuration, by default the current one.
    */
-  private cloneConfiguration(): SystemConfiguration {
+  private cloneConfiguration(configuration: SystemConfiguration = this.configuration): SystemConfiguration {
     return {
-      bodies: [
-        {
-          mass: this.configuration.bodies[0].mass,
-          position: vec.clone(this.configuration.bodies[0].position),
-          velocity: vec.clone(this.configuration.bodies[0].velocity)
-        },
-        {
-          mass: this.configuration.bodies[1].mass,
-          position: vec.clone(this.configuration.bodies[1].position),
-          velocity: vec.clone(this.configuration.bodies[1].velocity)
-        },
-        {
-          mass: this.configuration.bodies[2].mass,
-          position: vec.clone(this.configuration.bodies[2].position),
-          velocity: vec.clone(this.configuration.bodies[2].velocity)
+      bodies: configuration.bodies.map(body => ({
+        mass: body.mass,
+        position: vec.clone(body.position),
+        velocity: vec.clone(body.velocity)
+      })),
+      gravitationalConstant: configuration.gravitationalConstant,
+      softeningParameter: configuration.softeningParameter,
+      ...(configuration.forceModel && { forceModel: normalizeForceModel(configuration.forceModel) })
+    };
+  }
+
+  /**
+   * Clones initial conditions.
+   */
+  private cloneInitialConditions(conditions: InitialConditions): InitialConditions {
+    return {
+      masses: [...conditions.masses],
+      positions: conditions.positions.map(vec.clone),
+      velocities: conditions.velocities.map(vec.clone)
+    };
+  }
+
+  /**
+   * Captures the complete simulation state in the canonical snapshot format.
+   * 
+   * The snapshot covers the configuration, time, step counters, initial
+   * conditions and their hash, the detected events, the steps held by the
+   * reversibility check and the construction options, so a simulation
+   * restored from it continues exactly as this one would have.
+   * 
+   * @returns The canonical snapshot text
+   */
+  toSnapshot(): string {
+    const snapshot: SimulationSnapshot = {
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      options: {
+        integrator: this.integrator.name,
+        events: this.eventDetector.getOptions(),
+        regularization: this.regularization,
+        regularizationRadius: this.regularizationRadius,
+        extraction: { version: this.extractionVersion, absorbEvery: this.absorbEvery },
+        ...(this.reversibilityThreshold !== null && {
+          reversibilityCheck: {
+            threshold: this.reversibilityThreshold,
+            ...(Number.isFinite(this.reversibilityDuration) && { duration: this.reversibilityDuration })
+          }
+        })
+      },
+      initialized: this.initialized,
+      time: this.time,
+      stepCount: this.stepCount,
+      acceptedSteps: this.acceptedSteps,
+      rejectedSteps: this.rejectedSteps,
+      activeIntegrator: { ...this.activeIntegrator },
+      ...(this.adaptiveTolerance !== null && { adaptiveTolerance: this.adaptiveTolerance }),
+      configuration: this.cloneConfiguration(),
+      initialConditions: this.initialConditions,
+      initialConditionsHash: this.initialConditionsHash,
+      events: this.events,
+      detector: this.eventDetector.getState(),
+      trajectory: this.trajectory?.getState(),
+      reversibility: this.reversibilityThreshold !== null && this.initialized
+        ? {
+          steps: this.stepHistory,
+          ...(this.reversibilityEnd && { end: this.reversibilityEnd })
         }
-      ],
-      gravitationalConstant: this.configuration.gravitationalConstant,
-      softeningParameter: this.configuration.softeningParameter
+        : undefined
     };
+    return encodeSnapshot(snapshot);
+  }
+
+  /**
+   * Restores a simulation from a snapshot.
+   * 
+   * Built-in integrators are looked up by name; a custom integrator must be
+   * passed in and have the name recorded in the snapshot. Snapshots taken
+   * before extraction was versioned restore with version 1 extraction.
+   * 
+   * @param snapshot - Snapshot text from toSnapshot(), or its parsed form
+   * @param integrator - Integrator to use instead of the built-in lookup
+   * @returns A simulation in the captured state
+   * @throws Error if the snapshot is malformed, of an unsupported version,
+   *   or its initial conditions do not match their hash
+   */
+  static fromSnapshot(snapshot: string | SimulationSnapshot, integrator?: Integrator): ThreeBodySimulation {
+    const decoded = decodeSnapshot(snapshot);
+    const { options } = decoded;
+    const resolved = integrator ?? getIntegrator(options.integrator);
+    if (resolved.name !== options.integrator) {
+      throw new Error(`Snapshot was taken with integrator "${options.integrator}", got "${resolved.name}"`);
+    }
+
+    const simulation = new ThreeBodySimulation({
+      integrator: resolved,
+      events: options.events,
+      regularization: options.regularization,
+      regularizationRadius: options.regularizationRadius,
+      extraction: options.extraction ?? { version: 1 },
+      reversibilityCheck: options.reversibilityCheck ?? false
+    });
+    simulation.restoreSnapshot(decoded);
+    return simulation;
+  }
+
+  /**
+   * Loads the state captured in a decoded snapshot.
+   */
+  private restoreSnapshot(snapshot: SimulationSnapshot): void {
+    if (snapshot.initialized && !snapshot.initialConditions) {
+      throw new Error('Snapshot of an initialized simulation must include its initial conditions');
+    }
+
+    if (snapshot.configuration.forceModel) {
+      validateForceModel(snapshot.configuration.forceModel);
+    }
+    this.configuration = this.cloneConfiguration(snapshot.configuration);
+    this.time = snapshot.time;
+    this.stepCount = snapshot.stepCount;
+    this.acceptedSteps = snapshot.acceptedSteps;
+    this.rejectedSteps = snapshot.rejectedSteps;
+    this.initialized = snapshot.initialized;
+    this.initialConditions = snapshot.initialConditions && this.cloneInitialConditions(snapshot.initialConditions);
+    this.initialConditionsHash = snapshot.initialConditionsHash;
+    this.activeIntegrator = this.describeIntegrator(snapshot.activeIntegrator);
+    this.adaptiveTolerance = snapshot.adaptiveTolerance ?? null;
+    this.events = snapshot.events.map(event => ({ ...event }));
+    this.eventDetector.reset(this.configuration.bodies.length);
+    this.eventDetector.restoreState(snapshot.detector);
+
+    if (this.initialConditions && this.initialConditions.masses.length !== this.configuration.bodies.length) {
+      throw new Error('Snapshot initial conditions must have one mass per body');
+    }
+    if (this.initialConditions && this.hashInitialConditions(this.initialConditions) !== this.initialConditionsHash) {
+      throw new Error('Snapshot initial conditions do not match initialConditionsHash');
+    }
+
+    this.resetTrajectory();
+    if (this.trajectory) {
+      if (!snapshot.trajectory) {
+        throw new Error('Snapshot of a version 2 extraction must include its trajectory digest');
+      }
+      this.trajectory.restoreState(snapshot.trajectory);
+    }
+
+    this.stepHistory = [];
+    this.reversibilityEnd = null;
+    if (this.reversibilityThreshold !== null && this.initialized) {
+      const { reversibility } = snapshot;
+      if (!reversibility) {
+        throw new Error('Snapshot of a simulation with the reversibility check must include its step history');
+      }
+      this.stepHistory = reversibility.steps.map(step => ({ ...step }));
+      if (reversibility.end) {
+        this.reversibilityEnd = { time: reversibility.end.time, configuration: this.cloneConfiguration(reversibility.end.configuration) };
+      }
+    }
   }
 
   /**
@@ -347,8 +1129,18 @@ export class ThreeBodySimulation {
     this.configuration = this.createDefaultConfiguration();
     this.time = 0;
     this.stepCount = 0;
+    this.acceptedSteps = 0;
+    this.rejectedSteps = 0;
     this.initialConditionsHash = '';
+    this.initialConditions = null;
     this.initialized = false;
+    this.activeIntegrator = this.describeIntegrator(this.integrator);
+    this.adaptiveTolerance = null;
+    this.events = [];
+    this.stepHistory = [];
+    this.reversibilityEnd = null;
+    this.eventDetector.reset();
+    this.trajectory = null;
   }
 
   /**
@@ -395,17 +1187,37 @@ export class ThreeBodySimulation {
 }
 
 /**
- * Generates random initial conditions for the three-body system.
+ * Generates random initial conditions for a system of bodies.
  * Useful for creating varied entropy sources.
  * 
+ * Seeded conditions are drawn from the version 2 seed stream by default.
+ * Pass version 1 to reproduce conditions issued before it, which cycled
+ * through the 32 bytes of SHA-256(seed) at 8-bit resolution.
+ * 
+ * All masses are drawn first, then all positions, then all velocities, so
+ * three-body conditions are the same as before the body count could vary.
+ * 
  * @param seed - Optional seed for reproducible random generation
+ * @param version - Seed stream version used to expand the seed
+ * @param bodyCount - Number of bodies, at least two (default: 3)
  * @returns Initial conditions for the system
  */
-export function generateRandomInitialConditions(seed?: string): InitialConditions {
+export function generateRandomInitialConditions(
+  seed?: string,
+  version: SeedStreamVersion = CURRENT_SEED_STREAM_VERSION,
+  bodyCount: number = 3
+): InitialConditions {
+  assertSeedStreamVersion(version);
+  if (!Number.isInteger(bodyCount) || bodyCount < 2) {
+    throw new Error(`Body count must be an integer of at least 2, got ${bodyCount}`);
+  }
+
   // Use seed to create deterministic random values if provided
   let randomSource: () => number;
   
-  if (seed) {
+  if (seed && version === 2) {
+    randomSource = createSeedStream(seed);
+  } else if (seed) {
     const hash = createHash('sha256').update(seed).digest();
     let index = 0;
     randomSource = () => {
@@ -424,51 +1236,41 @@ export function generateRandomInitialConditions(seed?: string): InitialCondition
     z: randomInRange(-scale, scale)
   });
 
+  const bodies = Array.from({ length: bodyCount });
+  const masses = bodies.map(() => randomInRange(0.5, 2.0));
+  const positions = bodies.map(() => randomVector(5));
+  const velocities = bodies.map(() => randomVector(1));
+
+  return { masses, positions, velocities };
+}
+
+/**
+ * Copies the initial conditions of a catalogued orbit preset.
+ */
+function presetConditions(name: string): InitialConditions {
+  const { masses, positions, velocities } = getOrbitPreset(name).initialConditions;
   return {
-    masses: [
-      randomInRange(0.5, 2.0),
-      randomInRange(0.5, 2.0),
-      randomInRange(0.5, 2.0)
-    ],
-    positions: [
-      randomVector(5),
-      randomVector(5),
-      randomVector(5)
-    ],
-    velocities: [
-      randomVector(1),
-      randomVector(1),
-      randomVector(1)
-    ]
+    masses: [...masses],
+    positions: positions.map(vec.clone),
+    velocities: velocities.map(vec.clone)
   };
 }
 
 /**
  * Creates a figure-8 orbit configuration, a known stable periodic solution.
- * Useful for testing and demonstration.
+ * Useful for testing and demonstration. This is the "figure-eight" orbit
+ * preset; see ORBIT_PRESETS for the full catalog.
  */
 export function createFigure8Configuration(): InitialConditions {
-  // Figure-8 orbit initial conditions (discovered by Moore, 1993)
-  const p1 = 0.347111;
-  const p2 = 0.532728;
-
-  return {
-    masses: [1, 1, 1],
-    positions: [
-      { x: -1, y: 0, z: 0 },
-      { x: 1, y: 0, z: 0 },
-      { x: 0, y: 0, z: 0 }
-    ],
-    velocities: [
-      { x: p1, y: p2, z: 0 },
-      { x: p1, y: p2, z: 0 },
-      { x: -2 * p1, y: -2 * p2, z: 0 }
-    ]
-  };
+  return presetConditions('figure-eight');
 }
 
 /**
  * Creates a Lagrange equilateral triangle configuration.
+ * 
+ * The bodies start at speed 1, above the circular speed 3^(-1/4), so the
+ * triangle does not rotate rigidly; the "lagrange" orbit preset does. The
+ * values are kept as first issued so runs built from them reproduce.
  */
 export function createLagrangeConfiguration(): InitialConditions {
   const r = 1.0;
@@ -0,0 +1,115 @@
+/**
+ * Simulation Snapshot Module
+ * 
+ * Canonical text encoding of simulation snapshots. Keys are written in
+ * sorted order without whitespace and every number in its shortest
+ * round-trip form, with negative zero kept as "-0", so equal snapshots
+ * encode to identical strings and decoding restores every value bit for bit.
+ */
+
+import { SimulationSnapshot } from './types';
+
+/**
+ * Format identifier of snapshots.
+ */
+export const SNAPSHOT_FORMAT = 'three-body-snapshot';
+
+/**
+ * Current snapshot format version.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Writes a value as canonical JSON.
+ * 
+ * @throws Error if the value contains a non-finite number
+ */
+function canonicalize(value: unknown, path: string): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Snapshot value at ${path} must be finite, got ${value}`);
+    }
+    return Object.is(value, -0) ? '-0' : JSON.stringify(value);
+  }
+  if (typeof value === 'string' || typeof value === 'boolean') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item, index) => canonicalize(item, `${path}[${index}]`)).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item, `${path}.${key}`)}`);
+    return `{${entries.join(',')}}`;
+  }
+  throw new Error(`Snapshot value at ${path} has unsupported type ${typeof value}`);
+}
+
+/**
+ * Encodes a snapshot in the canonical text format.
+ */
+export function encodeSnapshot(snapshot: SimulationSnapshot): string {
+  return canonicalize(snapshot, 'snapshot');
+}
+
+/**
+ * Checks that a value is a finite number.
+ */
+function assertNumber(value: unknown, name: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Snapshot field ${name} must be a finite number`);
+  }
+}
+
+/**
+ * Decodes a snapshot from the canonical text format, or validates an
+ * already-parsed snapshot object.
+ * 
+ * Only the envelope and the numeric state are checked here; the simulation
+ * validates the rest when it restores the snapshot.
+ * 
+ * @throws Error if the input is not a snapshot of a supported version
+ */
+export function decodeSnapshot(input: string | SimulationSnapshot): SimulationSnapshot {
+  let snapshot: SimulationSnapshot;
+  try {
+    snapshot = typeof input === 'string' ? JSON.parse(input) : input;
+  } catch {
+    throw new Error('Not a simulation snapshot');
+  }
+
+  if (!snapshot || typeof snapshot !== 'object' || snapshot.format !== SNAPSHOT_FORMAT) {
+    throw new Error('Not a simulation snapshot');
+  }
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${snapshot.version}`);
+  }
+
+  assertNumber(snapshot.time, 'time');
+  for (const name of ['stepCount', 'acceptedSteps', 'rejectedSteps'] as const) {
+    if (!Number.isInteger(snapshot[name]) || snapshot[name] < 0) {
+      throw new Error(`Snapshot field ${name} must be a non-negative integer`);
+    }
+  }
+
+  const { configuration } = snapshot;
+  if (!configuration || !Array.isArray(configuration.bodies) || configuration.bodies.length < 2) {
+    throw new Error('Snapshot configuration must have at least two bodies');
+  }
+  assertNumber(configuration.gravitationalConstant, 'configuration.gravitationalConstant');
+  assertNumber(configuration.softeningParameter, 'configuration.softeningParameter');
+  configuration.bodies.forEach((body, i) => {
+    assertNumber(body.mass, `configuration.bodies[${i}].mass`);
+    for (const axis of ['x', 'y', 'z'] as const) {
+      assertNumber(body.position?.[axis], `configuration.bodies[${i}].position.${axis}`);
+      assertNumber(body.velocity?.[axis], `configuration.bodies[${i}].velocity.${axis}`);
+    }
+  });
+
+  return snapshot;
+}
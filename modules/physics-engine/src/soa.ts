@@ -0,0 +1,248 @@
+/**
+ * Structure-of-Arrays RK4 Module
+ * 
+ * Allocation-free RK4 core working in place on preallocated Float64Array
+ * buffers. The state holds six component arrays of one entry per body:
+ * x, y, z position, then x, y, z velocity, so entry `c * n + i` is
+ * component c of body i. Stage derivatives use the same layout, with
+ * velocities in place of positions and accelerations in place of
+ * velocities, so every stage update is a single loop over the buffer.
+ * 
+ * Every arithmetic operation is performed in the same order as the
+ * object-based rk4Step, so results are bit-identical to it.
+ */
+
+import { ForceModel, SystemConfiguration } from './types';
+import { hasExternalForces, isDefaultForceModel, pairAccelerationFactor } from './forces';
+
+/**
+ * Number of Float64 entries per body in a state buffer.
+ */
+const COMPONENTS = 6;
+
+/**
+ * Weight of the combined RK4 stages, multiplied rather than divided exactly
+ * as in the object-based implementation.
+ */
+const ONE_SIXTH = 1 / 6;
+
+/**
+ * Preallocated buffers for in-place RK4 steps of a fixed number of bodies.
+ */
+export class RK4Workspace {
+  /** Current state, six component arrays of bodyCount entries */
+  readonly state: Float64Array;
+  /** Body masses */
+  readonly masses: Float64Array;
+  /** Number of bodies the buffers hold */
+  readonly bodyCount: number;
+  private readonly stage: Float64Array;
+  private readonly k1: Float64Array;
+  private readonly k2: Float64Array;
+  private readonly k3: Float64Array;
+  private readonly k4: Float64Array;
+  private gravitationalConstant = 1;
+  private softeningParameter = 0;
+  private forceModel: ForceModel | undefined;
+
+  constructor(bodyCount: number = 3) {
+    if (!Number.isInteger(bodyCount) || bodyCount < 1) {
+      throw new Error(`Body count must be a positive integer, got ${bodyCount}`);
+    }
+    const size = COMPONENTS * bodyCount;
+    this.bodyCount = bodyCount;
+    this.state = new Float64Array(size);
+    this.masses = new Float64Array(bodyCount);
+    this.stage = new Float64Array(size);
+    this.k1 = new Float64Array(size);
+    this.k2 = new Float64Array(size);
+    this.k3 = new Float64Array(size);
+    this.k4 = new Float64Array(size);
+  }
+
+  /**
+   * Copies a configuration into the buffers.
+   * 
+   * @throws Error if the configuration has a different number of bodies
+   */
+  load(config: SystemConfiguration): void {
+    const n = this.bodyCount;
+    if (config.bodies.length !== n) {
+      throw new Error(`Workspace holds ${n} bodies, configuration has ${config.bodies.length}`);
+    }
+    const s = this.state;
+    for (let i = 0; i < n; i++) {
+      const { mass, position, velocity } = config.bodies[i];
+      this.masses[i] = mass;
+      s[i] = position.x;
+      s[n + i] = position.y;
+      s[2 * n + i] = position.z;
+      s[3 * n + i] = velocity.x;
+      s[4 * n + i] = velocity.y;
+      s[5 * n + i] = velocity.z;
+    }
+    this.gravitationalConstant = config.gravitationalConstant;
+    this.softeningParameter = config.softeningParameter;
+    this.forceModel = config.forceModel;
+  }
+
+  /**
+   * Writes the buffered positions and velocities into an existing
+   * configuration, reusing its vector objects.
+   */
+  store(config: SystemConfiguration): void {
+    const n = this.bodyCount;
+    const s = this.state;
+    for (let i = 0; i < n; i++) {
+      const { position, velocity } = config.bodies[i];
+      position.x = s[i];
+      position.y = s[n + i];
+      position.z = s[2 * n + i];
+      velocity.x = s[3 * n + i];
+      velocity.y = s[4 * n + i];
+      velocity.z = s[5 * n + i];
+    }
+  }
+
+  /**
+   * Creates a new configuration from the buffers.
+   */
+  toConfiguration(): SystemConfiguration {
+    const n = this.bodyCount;
+    const s = this.state;
+    const bodies = [];
+    for (let i = 0; i < n; i++) {
+      bodies.push({
+        mass: this.masses[i],
+        position: { x: s[i], y: s[n + i], z: s[2 * n + i] },
+        velocity: { x: s[3 * n + i], y: s[4 * n + i], z: s[5 * n + i] }
+      });
+    }
+    return {
+      bodies,
+      gravitationalConstant: this.gravitationalConstant,
+      softeningParameter: this.softeningParameter,
+      ...(this.forceModel && { forceModel: this.forceModel })
+    };
+  }
+
+  /**
+   * Advances the buffered state by one RK4 step in place.
+   */
+  step(dt: number): void {
+    const y = this.state;
+    const stage = this.stage;
+    const { k1, k2, k3, k4 } = this;
+    const halfStep = dt / 2;
+    const size = y.length;
+
+    this.derivatives(y, k1);
+    for (let q = 0; q < size; q++) stage[q] = y[q] + k1[q] * halfStep;
+    this.derivatives(stage, k2);
+    for (let q = 0; q < size; q++) stage[q] = y[q] + k2[q] * halfStep;
+    this.derivatives(stage, k3);
+    for (let q = 0; q < size; q++) stage[q] = y[q] + k3[q] * dt;
+    this.derivatives(stage, k4);
+
+    for (let q = 0; q < size; q++) {
+      const combined = ((k1[q] + k2[q] * 2) + (k3[q] * 2 + k4[q])) * ONE_SIXTH;
+      y[q] = y[q] + combined * dt;
+    }
+  }
+
+  /**
+   * Writes the time derivative of a state into out: the state's velocities,
+   * then the softened gravitational accelerations.
+   */
+  private derivatives(source: Float64Array, out: Float64Array): void {
+    if (!isDefaultForceModel(this.forceModel)) {
+      this.forceModelDerivatives(source, out, this.forceModel!);
+      return;
+    }
+
+    const n = this.bodyCount;
+    const G = this.gravitationalConstant;
+    const softeningSq = this.softeningParameter * this.softeningParameter;
+    const masses = this.masses;
+
+    for (let q = 0; q < 3 * n; q++) {
+      out[q] = source[3 * n + q];
+    }
+
+    for (let i = 0; i < n; i++) {
+      const xi = source[i];
+      const yi = source[n + i];
+      const zi = source[2 * n + i];
+      let ax = 0;
+      let ay = 0;
+      let az = 0;
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue;
+        const rx = source[j] - xi;
+        const ry = source[n + j] - yi;
+        const rz = source[2 * n + j] - zi;
+        const distSq = (rx * rx + ry * ry + rz * rz) + softeningSq;
+        const dist = Math.sqrt(distSq);
+        const forceMagnitude = (G * masses[j]) / (distSq * dist);
+        ax = ax + rx * forceMagnitude;
+        ay = ay + ry * forceMagnitude;
+        az = az + rz * forceMagnitude;
+      }
+      out[3 * n + i] = ax;
+      out[4 * n + i] = ay;
+      out[5 * n + i] = az;
+    }
+  }
+
+  /**
+   * Writes the time derivative of a state under a force model other than
+   * the default, with the arithmetic of calculateAccelerations: pairwise
+   * terms from the model's kernel, then the tidal field minus the drag.
+   */
+  private forceModelDerivatives(source: Float64Array, out: Float64Array, model: ForceModel): void {
+    const n = this.bodyCount;
+    const G = this.gravitationalConstant;
+    const softening = this.softeningParameter;
+    const masses = this.masses;
+    const external = hasExternalForces(model);
+    const t = model.tidalTensor;
+    const drag = model.drag ?? 0;
+
+    for (let q = 0; q < 3 * n; q++) {
+      out[q] = source[3 * n + q];
+    }
+
+    for (let i = 0; i < n; i++) {
+      const xi = source[i];
+      const yi = source[n + i];
+      const zi = source[2 * n + i];
+      let ax = 0;
+      let ay = 0;
+      let az = 0;
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue;
+        const rx = source[j] - xi;
+        const ry = source[n + j] - yi;
+        const rz = source[2 * n + j] - zi;
+        const forceMagnitude = pairAccelerationFactor(model.kernel, G * masses[j], rx * rx + ry * ry + rz * rz, softening);
+        ax = ax + rx * forceMagnitude;
+        ay = ay + ry * forceMagnitude;
+        az = az + rz * forceMagnitude;
+      }
+      if (external) {
+        const vx = source[3 * n + i];
+        const vy = source[4 * n + i];
+        const vz = source[5 * n + i];
+        const tx = t ? t[0] * xi + t[1] * yi + t[2] * zi : 0;
+        const ty = t ? t[3] * xi + t[4] * yi + t[5] * zi : 0;
+        const tz = t ? t[6] * xi + t[7] * yi + t[8] * zi : 0;
+        ax = ax + (tx - drag * vx);
+        ay = ay + (ty - drag * vy);
+        az = az + (tz - drag * vz);
+      }
+      out[3 * n + i] = ax;
+      out[4 * n + i] = ay;
+      out[5 * n + i] = az;
+    }
+  }
+}
@@ -1,8 +1,9 @@
 /**
  * Three-Body Physics Engine Types
  * 
- * Defines the core data structures for the three-body gravitational simulation
- * used to generate chaotic entropy values.
+ * Defines the core data structures for the gravitational simulation used to
+ * generate chaotic entropy values. Systems have three bodies by default and
+ * may have any number from two upwards.
  */
 
 /**
@@ -29,16 +30,36 @@ export interface Body {
 }
 
 /**
- * Configuration for the three-body system.
- * Contains all three bodies and simulation parameters.
+ * Configuration of the system.
+ * Contains all bodies and simulation parameters.
  */
 export interface SystemConfiguration {
-  /** Array of exactly 3 bodies */
-  bodies: [Body, Body, Body];
+  /** The bodies, at least two */
+  bodies: Body[];
   /** Gravitational constant (default: 1.0) */
   gravitationalConstant: number;
   /** Softening parameter to prevent singularities */
   softeningParameter: number;
+  /** Forces acting on the bodies (default: Plummer softening only) */
+  forceModel?: ForceModel;
+}
+
+/**
+ * Softening kernel of pairwise gravity.
+ */
+export type SofteningKernel = 'plummer' | 'spline' | 'none';
+
+/**
+ * Forces acting on the bodies: pairwise gravity softened by a kernel, plus
+ * optional external perturbations.
+ */
+export interface ForceModel {
+  /** Softening kernel of pairwise gravity */
+  kernel: SofteningKernel;
+  /** Constant tidal tensor in row-major order; each body is accelerated by T r */
+  tidalTensor?: number[];
+  /** Linear drag coefficient; each body is decelerated by drag * v */
+  drag?: number;
 }
 
 /**
@@ -53,6 +74,606 @@ export interface SimulationState {
   totalEnergy: number;
   /** Number of integration steps performed */
   stepCount: number;
+  /** Number of integration steps accepted (equals stepCount for fixed stepping) */
+  acceptedSteps: number;
+  /** Number of adaptive steps rejected by the error controller */
+  rejectedSteps: number;
+  /** Integration scheme used for the most recent advance */
+  integrator: IntegratorDescriptor;
+}
+
+/**
+ * Identifies an integration scheme.
+ */
+export interface IntegratorDescriptor {
+  /** Stable identifier of the scheme (e.g. "rk4", "yoshida4") */
+  name: string;
+  /** Order of accuracy of the scheme */
+  order: number;
+}
+
+/**
+ * Fixed-step integration scheme used to advance the system.
+ */
+export interface Integrator extends IntegratorDescriptor {
+  /** Whether the scheme preserves the symplectic structure */
+  symplectic: boolean;
+  /** Advances the configuration by dt, returning a new configuration */
+  step(config: SystemConfiguration, dt: number): SystemConfiguration;
+}
+
+/**
+ * Options for constructing a simulation.
+ */
+export interface ThreeBodySimulationOptions {
+  /** Integrator for fixed-step runs (default: RK4) */
+  integrator?: Integrator;
+  /** Thresholds for close-encounter, binary and escape events */
+  events?: Partial<EventDetectionOptions>;
+  /** Regularization of close pairwise approaches (default: "none") */
+  regularization?: RegularizationMode;
+  /** Pair separation below which a step is regularized (default: 0.5) */
+  regularizationRadius?: number;
+  /** Verify on entropy extraction that the run integrates back to its initial conditions (default: off) */
+  reversibilityCheck?: boolean | ReversibilityCheckOptions;
+  /** Entropy extraction algorithm (default: version 2, absorbing every 100 steps) */
+  extraction?: ExtractionOptions;
+}
+
+/**
+ * Version of the algorithm that extracts entropy from a run.
+ * Version 1 hashes the final state; version 2 absorbs states along the
+ * trajectory into a hash chain.
+ */
+export type ExtractionVersion = 1 | 2;
+
+/**
+ * Settings of entropy extraction.
+ */
+export interface ExtractionOptions {
+  /** Extraction algorithm version (default: 2) */
+  version?: ExtractionVersion;
+  /** Steps between states absorbed into the trajectory hash, version 2 only (default: 100) */
+  absorbEvery?: number;
+}
+
+/**
+ * Progress of the version 2 trajectory hash chain, as stored in snapshots.
+ */
+export interface TrajectoryDigestState {
+  /** Current chain value, in hex */
+  digest: string;
+  /** Number of states absorbed so far */
+  absorbedStates: number;
+}
+
+/**
+ * Settings of the time-reversibility self-check.
+ */
+export interface ReversibilityCheckOptions {
+  /** Phase-space recovery error above which the check fails (default: 1e-6) */
+  threshold?: number;
+  /**
+   * Simulation time from t = 0 that is integrated back to the initial
+   * conditions (default: the whole run)
+   */
+  duration?: number;
+}
+
+/**
+ * An accepted step, kept so the reversibility check can replay the run
+ * backwards step for step.
+ */
+export interface ReversibilityStep {
+  /** Step size */
+  dt: number;
+  /** Whether the step was a Dormand-Prince step of an adaptive run */
+  adaptive: boolean;
+}
+
+/**
+ * Steps held by the reversibility check, as stored in snapshots.
+ */
+export interface ReversibilityCheckState {
+  /** Accepted steps up to the check's duration, oldest first */
+  steps: ReversibilityStep[];
+  /** State the run reached at the check's duration, once it has */
+  end?: { time: number; configuration: SystemConfiguration };
+}
+
+/**
+ * Outcome of integrating a run backwards to its initial conditions.
+ */
+export interface ReversibilityReport {
+  /** Simulation time integrated forward, and then backward */
+  time: number;
+  /** Steps replayed backwards */
+  steps: number;
+  /** Phase-space distance of the recovered state from the initial conditions */
+  recoveryError: number;
+  /** Recovery error above which the check fails */
+  threshold: number;
+  /** Whether the recovery error is within the threshold */
+  passed: boolean;
+}
+
+/**
+ * Treatment of close pairwise approaches.
+ * "ks" integrates the closest pair in Kustaanheimo-Stiefel coordinates while
+ * it is inside the regularization radius, which removes the 1/r^2 singularity
+ * and makes zero softening usable.
+ */
+export type RegularizationMode = 'none' | 'ks';
+
+/**
+ * Thresholds used to detect simulation events.
+ */
+export interface EventDetectionOptions {
+  /** Pair separation below which a close encounter is in progress (default: 0.1) */
+  closeEncounterDistance: number;
+  /** Distance from every other body beyond which an unbound body has escaped (default: 10) */
+  escapeDistance: number;
+  /** Distance of the nearest other body, in units of the pair's apocenter, for a bound pair to count as a binary (default: 3) */
+  binaryIsolationFactor: number;
+}
+
+/**
+ * Fields shared by all simulation events.
+ */
+export interface SimulationEventBase {
+  /** Simulation time of the event */
+  time: number;
+  /** Step count at which the event was recorded */
+  step: number;
+}
+
+/**
+ * A pair passed through closest approach inside the close-encounter distance.
+ */
+export interface CloseEncounterEvent extends SimulationEventBase {
+  type: 'close-encounter';
+  /** Indices of the two bodies */
+  bodies: [number, number];
+  /** Smallest sampled separation during the encounter */
+  distance: number;
+  /** Relative speed at that separation */
+  relativeSpeed: number;
+}
+
+/**
+ * A pair became gravitationally bound and isolated from the other bodies.
+ */
+export interface BinaryFormationEvent extends SimulationEventBase {
+  type: 'binary-formation';
+  /** Indices of the two bodies */
+  bodies: [number, number];
+  /** Separation of the pair */
+  distance: number;
+  /** Semi-major axis of the pair's relative orbit */
+  semiMajorAxis: number;
+  /** Eccentricity of the pair's relative orbit */
+  eccentricity: number;
+}
+
+/**
+ * A body became unbound from, and is receding beyond the escape distance of,
+ * the other bodies.
+ */
+export interface EscapeEvent extends SimulationEventBase {
+  type: 'escape';
+  /** Index of the escaping body */
+  body: number;
+  /** Distance from the center of mass of the other bodies */
+  distance: number;
+  /** Two-body energy of the escaper relative to the combined other bodies */
+  energy: number;
+}
+
+/**
+ * Any event emitted by the simulation.
+ */
+export type SimulationEvent = CloseEncounterEvent | BinaryFormationEvent | EscapeEvent;
+
+/**
+ * Event log exported together with the state it led to.
+ */
+export interface SimulationEventLog {
+  /** Final state of the simulation */
+  state: SimulationState;
+  /** Events in the order they were detected */
+  events: SimulationEvent[];
+  /** Thresholds the events were detected with */
+  detection: EventDetectionOptions;
+  /** Regularization used for close approaches */
+  regularization: RegularizationMode;
+}
+
+/**
+ * Progress of a close encounter that has not yet been fully reported.
+ */
+export interface TrackedEncounter {
+  /** Smallest separation sampled so far */
+  distance: number;
+  /** Relative speed at the smallest separation */
+  relativeSpeed: number;
+  /** Time of the smallest separation */
+  time: number;
+  /** Step of the smallest separation */
+  step: number;
+  /** Whether the encounter has already been reported */
+  reported: boolean;
+}
+
+/**
+ * Internal state of an event detector, per pair and per body.
+ */
+export interface EventDetectorState {
+  /** Encounter in progress for each pair, in pair order */
+  encounters: Array<TrackedEncounter | null>;
+  /** Whether each pair was a binary at the last observation */
+  binaries: boolean[];
+  /** Whether each body had escaped at the last observation */
+  escaped: boolean[];
+}
+
+/**
+ * Complete, serializable state of a simulation.
+ * 
+ * Restoring a snapshot and continuing produces exactly the same
+ * configurations, events and entropy as an uninterrupted run.
+ */
+export interface SimulationSnapshot {
+  /** Format identifier */
+  format: 'three-body-snapshot';
+  /** Snapshot format version */
+  version: number;
+  /** Construction options of the simulation */
+  options: {
+    integrator: string;
+    events: EventDetectionOptions;
+    regularization: RegularizationMode;
+    regularizationRadius: number;
+    /** Absent in snapshots taken before extraction was versioned, which restore as version 1 */
+    extraction?: Required<ExtractionOptions>;
+    /** Absent when the reversibility check is off */
+    reversibilityCheck?: ReversibilityCheckOptions;
+  };
+  /** Whether initializeSystem() has been called */
+  initialized: boolean;
+  /** Current simulation time */
+  time: number;
+  /** Number of accepted steps */
+  stepCount: number;
+  /** Accepted steps counted by the adaptive controller */
+  acceptedSteps: number;
+  /** Rejected steps counted by the adaptive controller */
+  rejectedSteps: number;
+  /** Scheme used for the most recent advance */
+  activeIntegrator: IntegratorDescriptor;
+  /** Tolerance of a run advanced with adaptive steps, absent for fixed steps */
+  adaptiveTolerance?: number;
+  /** Current system configuration */
+  configuration: SystemConfiguration;
+  /** Conditions the system was initialized with */
+  initialConditions: InitialConditions | null;
+  /** Hash of the initial conditions */
+  initialConditionsHash: string;
+  /** Events detected so far */
+  events: SimulationEvent[];
+  /** Event detector state */
+  detector: EventDetectorState;
+  /** Trajectory hash chain of an initialized version 2 simulation */
+  trajectory?: TrajectoryDigestState;
+  /** Steps held by the reversibility check of an initialized simulation */
+  reversibility?: ReversibilityCheckState;
+}
+
+/**
+ * Bit-exact outputs of a golden vector run.
+ */
+export interface GoldenVectorOutputs {
+  /** Number of steps taken */
+  stepCount: number;
+  /** Final time and body states as big-endian IEEE-754 doubles, in hex */
+  stateHex: string;
+  /** getEntropyValue().hex of the final state */
+  entropyHex: string;
+  /** getEntropyValue().value of the final state */
+  entropyValue: number;
+  /** Hash of the initial conditions */
+  initialConditionsHash: string;
+}
+
+/**
+ * Reference run whose outputs every conforming runtime must reproduce
+ * bit for bit.
+ */
+export interface GoldenVector {
+  /** Unique name of the vector */
+  name: string;
+  /** What the vector exercises */
+  description: string;
+  /** Initial conditions of the run */
+  initialConditions: InitialConditions;
+  /** Gravitational constant */
+  gravitationalConstant: number;
+  /** Softening parameter */
+  softeningParameter: number;
+  /** Name of the fixed-step integrator */
+  integrator: string;
+  /** Regularization of close approaches */
+  regularization: RegularizationMode;
+  /** Duration passed to simulateForTime() */
+  duration: number;
+  /** Time step passed to simulateForTime() */
+  timeStep: number;
+  /** Extraction version of the entropy outputs (default: 1) */
+  extractionVersion?: ExtractionVersion;
+  /** Outputs of the run */
+  expected: GoldenVectorOutputs;
+}
+
+/**
+ * A golden vector output that was not reproduced.
+ */
+export interface GoldenVectorMismatch {
+  /** Name of the vector */
+  vector: string;
+  /** Output that differs */
+  field: keyof GoldenVectorOutputs;
+  /** Published value */
+  expected: string | number;
+  /** Value computed by this runtime */
+  actual: string | number;
+}
+
+/**
+ * Result of running the golden vectors.
+ */
+export interface ConformanceReport {
+  /** Whether every output matched */
+  passed: boolean;
+  /** Number of vectors run */
+  checked: number;
+  /** Outputs that differ */
+  mismatches: GoldenVectorMismatch[];
+}
+
+/**
+ * Family a catalogued periodic orbit belongs to.
+ */
+export type OrbitFamily = 'figure-eight' | 'lagrange' | 'broucke-henon' | 'suvakov-dmitrasinovic';
+
+/**
+ * A known periodic orbit of the planar three-body problem.
+ */
+export interface OrbitPreset {
+  /** Unique name of the preset */
+  name: string;
+  /** What the orbit looks like */
+  description: string;
+  /** Family the orbit belongs to */
+  family: OrbitFamily;
+  /** Initial conditions of the orbit */
+  initialConditions: InitialConditions;
+  /** Gravitational constant the orbit is defined with */
+  gravitationalConstant: number;
+  /** Softening parameter the orbit is defined with */
+  softeningParameter: number;
+  /** Period (in time units) */
+  period: number;
+  /** Publication the initial conditions and period are taken from */
+  reference: string;
+}
+
+/**
+ * Options for periodicity verification.
+ */
+export interface PeriodicityOptions {
+  /** Whether to use adaptive Dormand-Prince steps (default: true) */
+  adaptiveTimeStep?: boolean;
+  /** Tolerance for adaptive time stepping (default: 1e-10) */
+  tolerance?: number;
+  /** Fixed or initial time step (default: period / 2000) */
+  timeStep?: number;
+  /** Integrator for fixed time steps (default: RK4) */
+  integrator?: Integrator;
+}
+
+/**
+ * Return-map error after a whole number of periods.
+ */
+export interface PeriodicitySample {
+  /** Number of periods integrated */
+  periods: number;
+  /** Simulation time */
+  time: number;
+  /** Distance of the body positions from their initial values */
+  positionError: number;
+  /** Distance of the body velocities from their initial values */
+  velocityError: number;
+  /** Phase-space distance from the initial state */
+  returnError: number;
+  /** Return error relative to the phase-space norm of the initial state */
+  relativeReturnError: number;
+  /** Relative drift of the total energy */
+  energyError: number;
+}
+
+/**
+ * Result of periodicity verification.
+ */
+export interface PeriodicityReport {
+  /** Name of the preset */
+  preset: string;
+  /** Period of the preset */
+  period: number;
+  /** Return-map error after each period */
+  samples: PeriodicitySample[];
+  /** Largest return error over all periods */
+  maxReturnError: number;
+  /** Largest relative return error over all periods */
+  maxRelativeReturnError: number;
+}
+
+/**
+ * Options for the integrator benchmark.
+ */
+export interface BenchmarkOptions {
+  /** Steps per simulated entropy request (default: 10000) */
+  stepsPerRequest?: number;
+  /** Number of requests to run (default: 5) */
+  requests?: number;
+  /** Integration time step (default: 0.001) */
+  timeStep?: number;
+  /** Seed for the initial conditions (default: "benchmark") */
+  seed?: string;
+}
+
+/**
+ * Throughput of one benchmarked kernel.
+ */
+export interface BenchmarkResult {
+  /** Kernel name */
+  name: string;
+  /** Steps taken */
+  steps: number;
+  /** Wall-clock time in seconds */
+  seconds: number;
+  /** Steps per second */
+  stepsPerSecond: number;
+}
+
+/**
+ * Results of the integrator benchmark.
+ */
+export interface BenchmarkReport {
+  /** Steps per simulated entropy request */
+  stepsPerRequest: number;
+  /** Number of requests run */
+  requests: number;
+  /** Integration time step */
+  timeStep: number;
+  /** Throughput of each RK4 kernel */
+  kernels: BenchmarkResult[];
+  /** Full entropy requests (initialize, simulate, extract) per second */
+  requestsPerSecond: number;
+  /** Whether every kernel reached bit-identical final states */
+  identical: boolean;
+}
+
+/**
+ * Options of an ensemble analysis.
+ */
+export interface EnsembleOptions {
+  /** Duration to simulate each member (default: 10) */
+  duration?: number;
+  /** Fixed integration time step (default: 0.001) */
+  timeStep?: number;
+  /** Number of points at which divergence is sampled (default: 20) */
+  divergenceSamples?: number;
+  /** Seed of the perturbation directions (default: "ensemble") */
+  seed?: string;
+  /** Gravitational constant (default: 1) */
+  gravitationalConstant?: number;
+  /** Softening parameter (default: 0.01) */
+  softeningParameter?: number;
+  /** Integrator for every member (default: RK4) */
+  integrator?: Integrator;
+}
+
+/**
+ * One run of an ensemble. Member 0 is the unperturbed reference.
+ */
+export interface EnsembleMember {
+  /** Member index */
+  index: number;
+  /** Phase-space distance of the member's initial state from the reference */
+  perturbation: number;
+  /** Phase-space distance of the member's final state from the reference */
+  finalDistance: number;
+  /** getEntropyValue().value of the member */
+  value: number;
+  /** getEntropyValue().hex of the member */
+  hex: string;
+  /** Bits in which the member's hex differs from the reference's */
+  hammingDistanceToReference: number;
+}
+
+/**
+ * Spread of the perturbed members around the reference at one time.
+ */
+export interface EnsembleDivergenceSample {
+  /** Simulation time */
+  time: number;
+  /** Mean phase-space distance from the reference */
+  meanDistance: number;
+  /** Smallest phase-space distance from the reference */
+  minDistance: number;
+  /** Largest phase-space distance from the reference */
+  maxDistance: number;
+  /** Mean natural log of the distance over the initial perturbation */
+  meanLogGrowth: number;
+}
+
+/**
+ * Pairwise Hamming distances between the hex outputs of all members.
+ */
+export interface EnsembleHammingStatistics {
+  /** Bits per output */
+  bits: number;
+  /** Number of member pairs compared */
+  pairs: number;
+  /** Mean distance; bits / 2 for independent uniform outputs */
+  mean: number;
+  /** Standard deviation; sqrt(bits) / 2 for independent uniform outputs */
+  standardDeviation: number;
+  /** Smallest distance of any pair */
+  min: number;
+  /** Largest distance of any pair */
+  max: number;
+}
+
+/**
+ * Correlation statistics of the extracted values of the perturbed members.
+ */
+export interface EnsembleCorrelationStatistics {
+  /** Mean of the values */
+  mean: number;
+  /** Standard deviation of the values */
+  standardDeviation: number;
+  /** Pearson correlation of consecutive members' values */
+  serialCorrelation: number;
+  /** Largest absolute Pearson correlation of the values with a single perturbation component */
+  maxComponentCorrelation: number;
+  /** Two-sided 95% bound on a single |r| of uncorrelated samples of this size */
+  significanceBound: number;
+}
+
+/**
+ * Result of an ensemble analysis.
+ */
+export interface EnsembleReport {
+  /** Phase-space size of every perturbation */
+  perturbationMagnitude: number;
+  /** Number of perturbed members */
+  count: number;
+  /** Simulated duration */
+  duration: number;
+  /** Integration time step */
+  timeStep: number;
+  /** Seed of the perturbation directions */
+  seed: string;
+  /** Integrator used for every member */
+  integrator: IntegratorDescriptor;
+  /** The reference followed by the perturbed members */
+  members: EnsembleMember[];
+  /** Divergence of the perturbed members from the reference over time */
+  divergence: EnsembleDivergenceSample[];
+  /** Pairwise Hamming distances of the hex outputs of all members */
+  hamming: EnsembleHammingStatistics;
+  /** Correlation statistics of the perturbed members' values */
+  correlation: EnsembleCorrelationStatistics;
 }
 
 /**
@@ -67,30 +688,198 @@ export interface SimulationOptions {
   adaptiveTimeStep?: boolean;
   /** Tolerance for adaptive time stepping */
   tolerance?: number;
+  /** Receives every accepted step, e.g. a TrajectoryRecorder */
+  recorder?: TrajectoryObserver;
+}
+
+/**
+ * Simulation progress passed to a trajectory observer after each step.
+ * The configuration is a copy that observers may keep.
+ */
+export interface ObservedStep {
+  time: number;
+  configuration: SystemConfiguration;
+  stepCount: number;
+  acceptedSteps: number;
+  rejectedSteps: number;
+  integrator: IntegratorDescriptor;
+}
+
+/**
+ * Receives the progress of simulateForTime.
+ */
+export interface TrajectoryObserver {
+  /**
+   * Called with the starting state, after every accepted step, and with
+   * final = true once the requested duration has been reached.
+   */
+  observe(step: ObservedStep, final: boolean): void;
+}
+
+/**
+ * Sampling and memory settings for a trajectory recorder.
+ * At most one of everySteps and everyTime may be given.
+ */
+export interface TrajectoryRecorderOptions {
+  /** Record every N accepted steps (default: 1) */
+  everySteps?: number;
+  /** Record at most once per time interval */
+  everyTime?: number;
+  /** Memory budget for samples in bytes; exceeding it halves the sampling rate (default: unlimited) */
+  maxBytes?: number;
+}
+
+/**
+ * A single recorded sample.
+ */
+export interface TrajectorySample {
+  time: number;
+  stepCount: number;
+  acceptedSteps: number;
+  rejectedSteps: number;
+  totalEnergy: number;
+  positions: Vector3D[];
+  velocities: Vector3D[];
+}
+
+/**
+ * A complete recording with the constants needed to rebuild states.
+ */
+export interface TrajectoryRecording {
+  format: 'three-body-trajectory';
+  version: number;
+  masses: number[];
+  gravitationalConstant: number;
+  softeningParameter: number;
+  /** Integrator of the first recorded sample */
+  integrator: IntegratorDescriptor;
+  sampling: {
+    everySteps?: number;
+    everyTime?: number;
+    /** Factor by which decimation has reduced the sampling rate (a power of 2) */
+    decimation: number;
+  };
+  samples: TrajectorySample[];
+}
+
+/**
+ * Options for maximal Lyapunov exponent estimation.
+ */
+export interface LyapunovOptions {
+  /** Duration to integrate (in time units) */
+  duration: number;
+  /** Time step for integration */
+  timeStep: number;
+  /** Phase-space separation of the shadow trajectory (default: 1e-8) */
+  perturbation?: number;
+  /** Integration steps between renormalizations (default: 10) */
+  renormalizationSteps?: number;
+  /** Integrator for both trajectories (default: RK4) */
+  integrator?: Integrator;
+}
+
+/**
+ * Running Lyapunov exponent estimate recorded at a renormalization.
+ */
+export interface LyapunovSample {
+  /** Time of the renormalization */
+  time: number;
+  /** Running exponent estimate up to this time */
+  exponent: number;
+  /** Phase-space separation just before renormalizing */
+  separation: number;
+}
+
+/**
+ * Result of maximal Lyapunov exponent estimation.
+ */
+export interface LyapunovEstimate {
+  /** Estimated maximal Lyapunov exponent (per time unit) */
+  exponent: number;
+  /** Running estimate at each renormalization, for convergence analysis */
+  history: LyapunovSample[];
+  /** Number of renormalizations performed */
+  renormalizations: number;
+  /** Initial and renormalized phase-space separation */
+  perturbation: number;
+  /** Total integrated time */
+  duration: number;
+}
+
+/**
+ * Result of a single embedded Runge-Kutta step.
+ */
+export interface AdaptiveStepResult {
+  /** Configuration advanced by the higher-order solution */
+  configuration: SystemConfiguration;
+  /** Scaled local error estimate (a value <= 1 means the step is acceptable) */
+  error: number;
 }
 
 /**
  * Result of entropy extraction from the simulation.
  */
 export interface EntropyResult {
-  /** The raw entropy value (high-precision floating point) */
+  /** The entropy value in [0, 1): the chaotic metric (version 1) or a uniform 53-bit float (version 2) */
   value: number;
-  /** Hexadecimal representation of the entropy */
+  /** The 256-bit entropy output in hex */
   hex: string;
+  /** Extraction algorithm that produced the value and hex */
+  extractionVersion: ExtractionVersion;
+  /** Number of trajectory states absorbed before the final one, version 2 only */
+  absorbedStates?: number;
   /** The simulation state at extraction time */
   finalState: SimulationState;
   /** Hash of the initial conditions (for verification) */
   initialConditionsHash: string;
+  /** Reversibility self-check, present when the check is enabled */
+  reversibility?: ReversibilityReport;
+}
+
+/**
+ * Options of a continuous entropy stream.
+ */
+export interface EntropyStreamOptions {
+  /** Integration steps between samples */
+  sampleEvery: number;
+  /** Bytes of output per sample (default: 32, at most 1024) */
+  outputBytes?: number;
+  /** Fixed integration time step (default: 0.001) */
+  timeStep?: number;
+  /** Number of samples after which the stream ends (default: unbounded) */
+  maxSamples?: number;
+  /** Last sample of an earlier stream over this simulation, whose chain the stream continues */
+  resumeFrom?: EntropySample;
+}
+
+/**
+ * A hash-chained sample of an entropy stream.
+ */
+export interface EntropySample {
+  /** Position of the sample in the chain, starting at 0 */
+  index: number;
+  /** Step count of the simulation at the sample */
+  step: number;
+  /** Simulation time at the sample */
+  time: number;
+  /** Version 1 state hash of the state at the sample */
+  stateHash: string;
+  /** Hash of the previous sample, or the initial-conditions hash for the first sample */
+  previousHash: string;
+  /** SHA-256 of previousHash, step and stateHash, which links the chain */
+  hash: string;
+  /** Output bytes expanded from hash, as hex */
+  output: string;
 }
 
 /**
  * Initial conditions for setting up the system.
  */
 export interface InitialConditions {
-  /** Masses of the three bodies */
-  masses: [number, number, number];
-  /** Initial positions of the three bodies */
-  positions: [Vector3D, Vector3D, Vector3D];
-  /** Initial velocities of the three bodies */
-  velocities: [Vector3D, Vector3D, Vector3D];
+  /** Masses of the bodies, at least two */
+  masses: number[];
+  /** Initial positions, one per body */
+  positions: Vector3D[];
+  /** Initial velocities, one per body */
+  velocities: Vector3D[];
 }
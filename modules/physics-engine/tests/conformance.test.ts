@@ -0,0 +1,78 @@
+/**
+ * Canonical Computation Profile Conformance Tests
+ * 
+ * These tests pin every output bit of the golden vectors. A failure means a
+ * change altered the entropy that players verify.
+ */
+
+import { GOLDEN_VECTORS } from '../src/golden-vectors';
+import { checkConformance, encodeStateHex, runGoldenVector } from '../src/determinism';
+import { ThreeBodySimulation, createFigure8Configuration, generateRandomInitialConditions } from '../src/simulation';
+
+describe('Canonical computation profile', () => {
+  describe('golden vectors', () => {
+    it.each(GOLDEN_VECTORS.map(vector => [vector.name, vector]))('should reproduce %s bit for bit', (_, vector) => {
+      const actual = runGoldenVector(vector);
+
+      expect(actual.stepCount).toBe(vector.expected.stepCount);
+      expect(actual.stateHex).toBe(vector.expected.stateHex);
+      expect(actual.entropyHex).toBe(vector.expected.entropyHex);
+      expect(Object.is(actual.entropyValue, vector.expected.entropyValue)).toBe(true);
+      expect(actual.initialConditionsHash).toBe(vector.expected.initialConditionsHash);
+    });
+
+    it('should have unique names and cover every built-in integrator and KS', () => {
+      const names = GOLDEN_VECTORS.map(vector => vector.name);
+
+      expect(new Set(names).size).toBe(names.length);
+      expect(new Set(GOLDEN_VECTORS.map(vector => vector.integrator)))
+        .toEqual(new Set(['rk4', 'velocity-verlet', 'yoshida4', 'forest-ruth']));
+      expect(GOLDEN_VECTORS.some(vector => vector.regularization === 'ks')).toBe(true);
+      expect(new Set(GOLDEN_VECTORS.map(vector => vector.extractionVersion ?? 1))).toEqual(new Set([1, 2]));
+    });
+
+    it('should pin the seed streams that produce the initial conditions', () => {
+      const byName = new Map(GOLDEN_VECTORS.map(vector => [vector.name, vector]));
+
+      expect(byName.get('figure-eight-rk4')!.initialConditions).toEqual(createFigure8Configuration());
+      expect(byName.get('seeded-rk4')!.initialConditions).toEqual(generateRandomInitialConditions('golden-vector-1'));
+      expect(byName.get('legacy-seed-rk4')!.initialConditions).toEqual(generateRandomInitialConditions('golden-vector-legacy', 1));
+    });
+  });
+
+  describe('checkConformance', () => {
+    it('should pass the published suite', () => {
+      const report = checkConformance(GOLDEN_VECTORS.slice(0, 2));
+
+      expect(report).toEqual({ passed: true, checked: 2, mismatches: [] });
+    });
+
+    it('should report every altered output', () => {
+      const vector = GOLDEN_VECTORS[0];
+      const altered = { ...vector, expected: { ...vector.expected, entropyValue: vector.expected.entropyValue + 1e-17, stepCount: 999 } };
+      const report = checkConformance([altered]);
+
+      expect(report.passed).toBe(false);
+      expect(report.mismatches).toEqual([
+        { vector: vector.name, field: 'stepCount', expected: 999, actual: 1000 },
+        { vector: vector.name, field: 'entropyValue', expected: altered.expected.entropyValue, actual: vector.expected.entropyValue }
+      ]);
+    });
+  });
+
+  describe('encodeStateHex', () => {
+    it('should write the time and body states as big-endian doubles', () => {
+      const simulation = new ThreeBodySimulation();
+      const { masses, positions, velocities } = createFigure8Configuration();
+      simulation.initializeSystem(masses, positions, velocities);
+      const hex = encodeStateHex(simulation.getCurrentState());
+      const buffer = Buffer.from(hex, 'hex');
+
+      expect(buffer.length).toBe(19 * 8);
+      expect(buffer.readDoubleBE(0)).toBe(0);
+      expect(buffer.readDoubleBE(8)).toBe(positions[0].x);
+      expect(buffer.readDoubleBE(32)).toBe(velocities[0].x);
+      expect(buffer.readDoubleBE(18 * 8)).toBe(velocities[2].z);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Ensemble Analysis Unit Tests
+ */
+
+import {
+  ensembleAnalysis,
+  exportEnsembleCSV,
+  exportEnsembleJSON,
+  hammingDistance,
+  pearsonCorrelation
+} from '../src/ensemble';
+import { RK4_INTEGRATOR } from '../src/integrator';
+import { ThreeBodySimulation } from '../src/simulation';
+import { YOSHIDA4_INTEGRATOR } from '../src/symplectic';
+import { EnsembleReport, InitialConditions } from '../src/types';
+
+describe('Ensemble Analysis', () => {
+  const chaotic: InitialConditions = {
+    masses: [1, 1.2, 0.8],
+    positions: [{ x: -1, y: 0, z: 0 }, { x: 1, y: 0.5, z: 0 }, { x: 0, y: -1, z: 0.2 }],
+    velocities: [{ x: 0, y: 0.6, z: 0.1 }, { x: -0.3, y: -0.4, z: 0 }, { x: 0.3, y: -0.2, z: -0.1 }]
+  };
+  const options = { duration: 10, timeStep: 0.01, divergenceSamples: 5 };
+  let report: EnsembleReport;
+
+  beforeAll(() => {
+    report = ensembleAnalysis(chaotic, 1e-8, 8, options);
+  });
+
+  describe('hammingDistance', () => {
+    it('should count differing bits', () => {
+      expect(hammingDistance('00', '00')).toBe(0);
+      expect(hammingDistance('0f', 'f0')).toBe(8);
+      expect(hammingDistance('a5', '5a')).toBe(8);
+      expect(hammingDistance('01', '03')).toBe(1);
+    });
+
+    it('should reject strings of different lengths', () => {
+      expect(() => hammingDistance('00', '000')).toThrow('Hex strings must have equal length, got 2 and 3');
+    });
+  });
+
+  describe('pearsonCorrelation', () => {
+    it('should measure linear correlation', () => {
+      expect(pearsonCorrelation([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1, 15);
+      expect(pearsonCorrelation([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1, 15);
+      expect(pearsonCorrelation([1, 2, 3, 4], [1, -1, -1, 1])).toBe(0);
+    });
+
+    it('should return 0 for a constant series', () => {
+      expect(pearsonCorrelation([1, 1, 1], [1, 2, 3])).toBe(0);
+    });
+  });
+
+  describe('ensembleAnalysis', () => {
+    it('should run the reference and every perturbed member', () => {
+      expect(report.count).toBe(8);
+      expect(report.members).toHaveLength(9);
+      expect(report.members.map(m => m.index)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+      expect(report.members[0].perturbation).toBe(0);
+      expect(report.integrator).toEqual({ name: RK4_INTEGRATOR.name, order: 4 });
+    });
+
+    it('should give the reference the output of a plain run', () => {
+      const simulation = new ThreeBodySimulation();
+      simulation.initializeSystem(chaotic.masses, chaotic.positions, chaotic.velocities);
+      simulation.simulateForTime(options.duration, options.timeStep);
+
+      expect(report.members[0].hex).toBe(simulation.getEntropyValue().hex);
+      expect(report.members[0].value).toBe(simulation.getEntropyValue().value);
+    });
+
+    it('should report divergence growing from the perturbation size', () => {
+      const { divergence } = report;
+
+      expect(divergence).toHaveLength(5);
+      expect(divergence[divergence.length - 1].time).toBe(10);
+      expect(divergence[0].time).toBeCloseTo(2, 12);
+      expect(divergence[divergence.length - 1].meanDistance).toBeGreaterThan(1e3 * divergence[0].meanDistance);
+      expect(divergence[divergence.length - 1].meanLogGrowth).toBeGreaterThan(divergence[0].meanLogGrowth);
+      for (const sample of divergence) {
+        expect(sample.minDistance).toBeLessThanOrEqual(sample.meanDistance);
+        expect(sample.maxDistance).toBeGreaterThanOrEqual(sample.meanDistance);
+      }
+      expect(report.members[8].finalDistance).toBeGreaterThan(0);
+    });
+
+    it('should find the hex outputs differing in about half their bits', () => {
+      const { hamming } = report;
+
+      expect(hamming.bits).toBe(256);
+      expect(hamming.pairs).toBe(36);
+      expect(hamming.mean).toBeGreaterThan(128 - 16);
+      expect(hamming.mean).toBeLessThan(128 + 16);
+      expect(hamming.min).toBeGreaterThan(0);
+      expect(hamming.max).toBeLessThanOrEqual(256);
+      for (const member of report.members.slice(1)) {
+        expect(member.hammingDistanceToReference).toBe(hammingDistance(member.hex, report.members[0].hex));
+      }
+    });
+
+    it('should report correlation statistics of the perturbed values', () => {
+      const { correlation } = report;
+      const values = report.members.slice(1).map(m => m.value);
+
+      expect(correlation.mean).toBeCloseTo(values.reduce((a, b) => a + b, 0) / values.length, 12);
+      expect(correlation.serialCorrelation).toBeCloseTo(pearsonCorrelation(values.slice(0, -1), values.slice(1)), 12);
+      expect(Math.abs(correlation.serialCorrelation)).toBeLessThanOrEqual(1);
+      expect(correlation.maxComponentCorrelation).toBeLessThanOrEqual(1);
+      expect(correlation.significanceBound).toBeCloseTo(1.96 / Math.sqrt(8), 3);
+    });
+
+    it('should be reproducible from the seed', () => {
+      const again = ensembleAnalysis(chaotic, 1e-8, 2, { ...options, divergenceSamples: 1 });
+      const reseeded = ensembleAnalysis(chaotic, 1e-8, 2, { ...options, divergenceSamples: 1, seed: 'other' });
+
+      expect(again.members.map(m => m.hex)).toEqual(report.members.slice(0, 3).map(m => m.hex));
+      expect(reseeded.members[1].hex).not.toBe(report.members[1].hex);
+      expect(reseeded.seed).toBe('other');
+    });
+
+    it('should use the configured integrator', () => {
+      const symplectic = ensembleAnalysis(chaotic, 1e-8, 2, { ...options, integrator: YOSHIDA4_INTEGRATOR });
+
+      expect(symplectic.integrator.name).toBe(YOSHIDA4_INTEGRATOR.name);
+      expect(symplectic.members[0].hex).not.toBe(report.members[0].hex);
+    });
+
+    it('should reject invalid arguments', () => {
+      expect(() => ensembleAnalysis(chaotic, 0, 8)).toThrow('Perturbation magnitude must be a positive finite number, got 0');
+      expect(() => ensembleAnalysis(chaotic, 1e-8, 1)).toThrow('Ensemble count must be an integer of at least 2, got 1');
+      expect(() => ensembleAnalysis(chaotic, 1e-8, 2, { divergenceSamples: 0 }))
+        .toThrow('Divergence samples must be a positive integer, got 0');
+      expect(() => ensembleAnalysis(chaotic, 1e-8, 2, { timeStep: -1 }))
+        .toThrow('Duration and time step must be positive, got 10 and -1');
+    });
+  });
+
+  describe('exports', () => {
+    it('should round-trip the report through JSON', () => {
+      expect(JSON.parse(exportEnsembleJSON(report))).toEqual(report);
+    });
+
+    it('should export the members as CSV', () => {
+      const lines = exportEnsembleCSV(report).trim().split('\n');
+
+      expect(lines[0]).toBe('index,perturbation,finalDistance,value,hex,hammingDistanceToReference');
+      expect(lines).toHaveLength(10);
+      expect(lines[1].split(',')[4]).toBe(report.members[0].hex);
+    });
+
+    it('should export the divergence samples as CSV', () => {
+      const lines = exportEnsembleCSV(report, 'divergence').trim().split('\n');
+
+      expect(lines[0]).toBe('time,meanDistance,minDistance,maxDistance,meanLogGrowth');
+      expect(lines).toHaveLength(6);
+      expect(Number(lines[5].split(',')[0])).toBe(10);
+    });
+  });
+});
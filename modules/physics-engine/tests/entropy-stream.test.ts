@@ -0,0 +1,187 @@
+/**
+ * Entropy Stream Unit Tests
+ */
+
+import { createHash } from 'crypto';
+import {
+  chainSampleHash,
+  expandSampleOutput,
+  validateEntropyStreamOptions,
+  verifyEntropyChain,
+  verifyEntropySample
+} from '../src/entropy-stream';
+import { rk4Step } from '../src/integrator';
+import { ThreeBodySimulation, generateRandomInitialConditions } from '../src/simulation';
+import { EntropySample, EntropyStreamOptions } from '../src/types';
+
+describe('Entropy Stream', () => {
+  const options: EntropyStreamOptions = { sampleEvery: 50, outputBytes: 48, timeStep: 0.01 };
+
+  // Version 1 extraction, whose hex is the state hash the samples carry
+  const createSimulation = (): ThreeBodySimulation => {
+    const { masses, positions, velocities } = generateRandomInitialConditions('entropy-stream');
+    const simulation = new ThreeBodySimulation({ extraction: { version: 1 } });
+    simulation.initializeSystem(masses, positions, velocities);
+    return simulation;
+  };
+
+  const collect = async (stream: AsyncIterable<EntropySample>): Promise<EntropySample[]> => {
+    const samples: EntropySample[] = [];
+    for await (const sample of stream) {
+      samples.push(sample);
+    }
+    return samples;
+  };
+
+  describe('expandSampleOutput', () => {
+    it('should expand a hash in counter mode', () => {
+      const hash = 'ab'.repeat(32);
+      const first = createHash('sha256').update(`${hash}:0`).digest('hex');
+      const second = createHash('sha256').update(`${hash}:1`).digest('hex');
+
+      expect(expandSampleOutput(hash, 32)).toBe(first);
+      expect(expandSampleOutput(hash, 4)).toBe(first.slice(0, 8));
+      expect(expandSampleOutput(hash, 40)).toBe(first + second.slice(0, 16));
+    });
+  });
+
+  describe('validateEntropyStreamOptions', () => {
+    it('should reject invalid options', () => {
+      expect(() => validateEntropyStreamOptions({ sampleEvery: 0 })).toThrow('sampleEvery must be a positive integer, got 0');
+      expect(() => validateEntropyStreamOptions({ sampleEvery: 1, outputBytes: 1025 }))
+        .toThrow('outputBytes must be an integer from 1 to 1024, got 1025');
+      expect(() => validateEntropyStreamOptions({ sampleEvery: 1, timeStep: -0.1 }))
+        .toThrow('Time step must be a positive finite number, got -0.1');
+      expect(() => validateEntropyStreamOptions({ sampleEvery: 1, maxSamples: 1.5 }))
+        .toThrow('maxSamples must be a positive integer, got 1.5');
+    });
+  });
+
+  describe('ThreeBodySimulation.entropyStream', () => {
+    it('should emit chained samples at fixed step intervals', async () => {
+      const simulation = createSimulation();
+      const initialHash = simulation.getEntropyValue().initialConditionsHash;
+      const samples = await collect(simulation.entropyStream({ ...options, maxSamples: 4 }));
+
+      expect(samples.map(s => s.index)).toEqual([0, 1, 2, 3]);
+      expect(samples.map(s => s.step)).toEqual([50, 100, 150, 200]);
+      expect(samples[0].previousHash).toBe(initialHash);
+      expect(samples[3].time).toBeCloseTo(2, 12);
+      for (let i = 0; i < samples.length; i++) {
+        expect(samples[i].output).toHaveLength(96);
+        expect(samples[i].hash).toBe(chainSampleHash(samples[i].previousHash, samples[i].step, samples[i].stateHash));
+        if (i > 0) {
+          expect(samples[i].previousHash).toBe(samples[i - 1].hash);
+        }
+      }
+      expect(simulation.getCurrentState().stepCount).toBe(200);
+      expect(samples[3].stateHash).toBe(simulation.getEntropyValue().hex);
+    });
+
+    it('should be deterministic', async () => {
+      const first = await collect(createSimulation().entropyStream({ ...options, maxSamples: 3 }));
+      const second = await collect(createSimulation().entropyStream({ ...options, maxSamples: 3 }));
+
+      expect(second).toEqual(first);
+      expect(new Set(first.map(s => s.output)).size).toBe(3);
+    });
+
+    it('should advance with fixed steps of the time step', async () => {
+      const simulation = createSimulation();
+      let expected = simulation.getConfiguration();
+      for (let i = 0; i < 100; i++) {
+        expected = rk4Step(expected, 0.01);
+      }
+      const [sample] = await collect(simulation.entropyStream({ sampleEvery: 100, timeStep: 0.01, maxSamples: 1 }));
+
+      expect(simulation.getConfiguration()).toEqual(expected);
+      expect(sample.stateHash).toBe(simulation.getEntropyValue().hex);
+      expect(sample.output).toHaveLength(64);
+    });
+
+    it('should stop when the consumer stops iterating', async () => {
+      const simulation = createSimulation();
+      for await (const sample of simulation.entropyStream(options)) {
+        if (sample.index === 2) {
+          break;
+        }
+      }
+
+      expect(simulation.getCurrentState().stepCount).toBe(150);
+    });
+
+    it('should resume the chain of a snapshot', async () => {
+      const simulation = createSimulation();
+      const uninterrupted = await collect(createSimulation().entropyStream({ ...options, maxSamples: 4 }));
+      const head = await collect(simulation.entropyStream({ ...options, maxSamples: 2 }));
+
+      const restored = ThreeBodySimulation.fromSnapshot(simulation.toSnapshot());
+      const tail = await collect(restored.entropyStream({ ...options, maxSamples: 2, resumeFrom: head[1] }));
+
+      expect([...head, ...tail]).toEqual(uninterrupted);
+    });
+
+    it('should reject streams that neither start fresh nor resume', async () => {
+      const simulation = createSimulation();
+      const [sample] = await collect(simulation.entropyStream({ ...options, maxSamples: 1 }));
+      simulation.simulateForTime(0.1, 0.01);
+
+      await expect(collect(simulation.entropyStream(options)))
+        .rejects.toThrow('Entropy stream must start from the initial conditions or resume from a sample');
+      await expect(collect(simulation.entropyStream({ ...options, resumeFrom: sample })))
+        .rejects.toThrow('Simulation is not at the state of sample 0');
+      await expect(collect(new ThreeBodySimulation().entropyStream(options)))
+        .rejects.toThrow('System must be initialized before streaming entropy');
+    });
+
+    it('should fail when the simulation is advanced during the stream', async () => {
+      const simulation = createSimulation();
+      const consume = async () => {
+        for await (const sample of simulation.entropyStream(options)) {
+          simulation.simulateForTime(0.01, 0.01);
+        }
+      };
+
+      await expect(consume()).rejects.toThrow('Simulation was advanced outside the entropy stream');
+    });
+  });
+
+  describe('verification', () => {
+    let samples: EntropySample[];
+    let initialHash: string;
+
+    beforeAll(async () => {
+      const simulation = createSimulation();
+      initialHash = simulation.getEntropyValue().initialConditionsHash;
+      samples = await collect(simulation.entropyStream({ ...options, maxSamples: 5 }));
+    });
+
+    it('should accept an intact chain', () => {
+      expect(verifyEntropyChain(samples, initialHash)).toBe(true);
+      expect(verifyEntropyChain(samples.slice(2), samples[1].hash)).toBe(true);
+    });
+
+    it('should reject tampered or reordered chains', () => {
+      const tampered = samples.map(s => ({ ...s }));
+      tampered[2].output = tampered[2].output.replace(/^./, c => (c === '0' ? '1' : '0'));
+
+      expect(verifyEntropyChain(tampered, initialHash)).toBe(false);
+      expect(verifyEntropyChain([samples[0], samples[2]], initialHash)).toBe(false);
+      expect(verifyEntropyChain(samples, 'f'.repeat(64))).toBe(false);
+      expect(verifyEntropyChain([{ ...samples[0], step: 51 }], initialHash)).toBe(false);
+    });
+
+    it('should verify a sample by replaying the simulation', async () => {
+      await expect(verifyEntropySample(createSimulation(), options, samples[3])).resolves.toBe(true);
+    });
+
+    it('should reject a sample the replay does not produce', async () => {
+      const forged = { ...samples[3], stateHash: samples[2].stateHash };
+      forged.hash = chainSampleHash(forged.previousHash, forged.step, forged.stateHash);
+      forged.output = expandSampleOutput(forged.hash, 48);
+
+      await expect(verifyEntropySample(createSimulation(), options, forged)).resolves.toBe(false);
+      await expect(verifyEntropySample(createSimulation(), { ...options, timeStep: 0.02 }, samples[3])).resolves.toBe(false);
+    });
+  });
+});
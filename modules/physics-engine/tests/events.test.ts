@@ -0,0 +1,176 @@
+/**
+ * Simulation Event Unit Tests
+ */
+
+import {
+  EventDetector,
+  DEFAULT_EVENT_DETECTION,
+  calculateTwoBodyElements,
+  validateEventDetectionOptions
+} from '../src/events';
+import { Body, SystemConfiguration, Vector3D } from '../src/types';
+
+describe('Simulation Events', () => {
+  const body = (mass: number, position: Vector3D, velocity: Vector3D = { x: 0, y: 0, z: 0 }): Body => ({
+    mass,
+    position,
+    velocity
+  });
+
+  const configuration = (bodies: [Body, Body, Body]): SystemConfiguration => ({
+    bodies,
+    gravitationalConstant: 1.0,
+    softeningParameter: 0
+  });
+
+  // Two bodies approaching each other along x, the third far away on y but
+  // still bound to the pair
+  const pairAt = (separation: number): SystemConfiguration => configuration([
+    body(1, { x: -separation / 2, y: 0, z: 0 }, { x: 3, y: 0, z: 0 }),
+    body(1, { x: separation / 2, y: 0, z: 0 }, { x: -3, y: 0, z: 0 }),
+    body(1, { x: 0, y: 5, z: 0 })
+  ]);
+
+  describe('calculateTwoBodyElements', () => {
+    it('should describe a circular orbit', () => {
+      const speed = Math.SQRT2 / 2;
+      const elements = calculateTwoBodyElements(
+        body(1, { x: -0.5, y: 0, z: 0 }, { x: 0, y: -speed, z: 0 }),
+        body(1, { x: 0.5, y: 0, z: 0 }, { x: 0, y: speed, z: 0 }),
+        1.0
+      );
+
+      expect(elements.energy).toBeCloseTo(-0.5, 12);
+      expect(elements.semiMajorAxis).toBeCloseTo(1, 12);
+      expect(elements.eccentricity).toBeCloseTo(0, 6);
+    });
+
+    it('should report an infinite semi-major axis for unbound pairs', () => {
+      const elements = calculateTwoBodyElements(
+        body(1, { x: 0, y: 0, z: 0 }, { x: -5, y: 0, z: 0 }),
+        body(1, { x: 1, y: 0, z: 0 }, { x: 5, y: 0, z: 0 }),
+        1.0
+      );
+
+      expect(elements.energy).toBeGreaterThan(0);
+      expect(elements.semiMajorAxis).toBe(Infinity);
+    });
+  });
+
+  describe('close encounters', () => {
+    it('should report the closest sampled approach once the pair separates', () => {
+      const detector = new EventDetector();
+      const events = [0.2, 0.05, 0.02, 0.04, 0.03, 0.2].flatMap((separation, step) =>
+        detector.observe(pairAt(separation), step * 0.1, step)
+      );
+      const encounters = events.filter(event => event.type === 'close-encounter');
+
+      expect(encounters).toEqual([{
+        type: 'close-encounter',
+        time: 0.2,
+        step: 2,
+        bodies: [0, 1],
+        distance: 0.02,
+        relativeSpeed: 6
+      }]);
+    });
+
+    it('should report an encounter when the pair leaves before separating', () => {
+      const detector = new EventDetector();
+      detector.observe(pairAt(0.05), 0, 0);
+      const events = detector.observe(pairAt(0.5), 1, 1);
+
+      expect(events).toContainEqual(expect.objectContaining({ type: 'close-encounter', distance: 0.05, step: 0 }));
+    });
+
+    it('should honor a custom encounter distance', () => {
+      const detector = new EventDetector({ closeEncounterDistance: 0.01 });
+      const events = [0.05, 0.02, 0.05].flatMap((separation, step) => detector.observe(pairAt(separation), step, step));
+
+      expect(events.filter(event => event.type === 'close-encounter')).toHaveLength(0);
+    });
+  });
+
+  describe('binary formation', () => {
+    const isolatedBinary = (thirdDistance: number): SystemConfiguration => {
+      const speed = Math.SQRT2 / 2;
+      return configuration([
+        body(1, { x: -0.5, y: 0, z: 0 }, { x: 0, y: -speed, z: 0 }),
+        body(1, { x: 0.5, y: 0, z: 0 }, { x: 0, y: speed, z: 0 }),
+        body(1, { x: 0, y: thirdDistance, z: 0 })
+      ]);
+    };
+
+    it('should report a bound pair isolated from the third body', () => {
+      const detector = new EventDetector();
+      const events = detector.observe(isolatedBinary(20), 1.5, 10);
+
+      expect(events).toEqual([expect.objectContaining({
+        type: 'binary-formation',
+        time: 1.5,
+        step: 10,
+        bodies: [0, 1],
+        distance: 1
+      })]);
+    });
+
+    it('should report formation only on the transition', () => {
+      const detector = new EventDetector();
+      detector.observe(isolatedBinary(1), 0, 0);
+      const formed = detector.observe(isolatedBinary(20), 1, 1);
+      const repeated = detector.observe(isolatedBinary(20), 2, 2);
+
+      expect(formed.map(event => event.type)).toEqual(['binary-formation']);
+      expect(repeated).toHaveLength(0);
+    });
+  });
+
+  describe('escapes', () => {
+    const escaping = (velocity: number): SystemConfiguration => configuration([
+      body(1, { x: -0.5, y: 0, z: 0 }),
+      body(1, { x: 0.5, y: 0, z: 0 }),
+      body(1, { x: 0, y: 20, z: 0 }, { x: 0, y: velocity, z: 0 })
+    ]);
+
+    it('should report an unbound body receding beyond the escape distance', () => {
+      const events = new EventDetector().observe(escaping(2), 3, 30);
+      const escapes = events.filter(event => event.type === 'escape');
+
+      expect(escapes).toEqual([expect.objectContaining({ type: 'escape', body: 2, distance: 20, time: 3, step: 30 })]);
+    });
+
+    it('should not report an unbound body that is approaching', () => {
+      const events = new EventDetector().observe(escaping(-2), 0, 0);
+
+      expect(events.filter(event => event.type === 'escape')).toHaveLength(0);
+    });
+
+    it('should not report a bound body', () => {
+      const events = new EventDetector().observe(escaping(0.1), 0, 0);
+
+      expect(events.filter(event => event.type === 'escape')).toHaveLength(0);
+    });
+  });
+
+  describe('options', () => {
+    it('should merge partial options with defaults', () => {
+      const detector = new EventDetector({ escapeDistance: 50 });
+
+      expect(detector.getOptions()).toEqual({ ...DEFAULT_EVENT_DETECTION, escapeDistance: 50 });
+    });
+
+    it('should reject non-positive thresholds', () => {
+      expect(() => validateEventDetectionOptions({ ...DEFAULT_EVENT_DETECTION, escapeDistance: 0 }))
+        .toThrow('Event option escapeDistance must be a positive finite number');
+      expect(() => new EventDetector({ closeEncounterDistance: NaN })).toThrow('closeEncounterDistance');
+    });
+
+    it('should forget tracked state on reset', () => {
+      const detector = new EventDetector();
+      detector.observe(pairAt(0.05), 0, 0);
+      detector.reset();
+
+      expect(detector.observe(pairAt(0.5), 1, 1).filter(event => event.type === 'close-encounter')).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Entropy Extraction Unit Tests
+ */
+
+import { createHash } from 'crypto';
+import {
+  CURRENT_EXTRACTION_VERSION,
+  EXTRACTION_V2_LABEL,
+  TrajectoryAbsorber,
+  assertExtractionVersion,
+  encodeTrajectoryRecord,
+  uniformFloat53
+} from '../src/extraction';
+import { ThreeBodySimulation, createFigure8Configuration, generateRandomInitialConditions } from '../src/simulation';
+import { ObservedStep, ThreeBodySimulationOptions } from '../src/types';
+
+describe('Entropy Extraction', () => {
+  const createSimulation = (options: ThreeBodySimulationOptions = {}): ThreeBodySimulation => {
+    const { masses, positions, velocities } = generateRandomInitialConditions('extraction');
+    const simulation = new ThreeBodySimulation(options);
+    simulation.initializeSystem(masses, positions, velocities);
+    return simulation;
+  };
+
+  describe('assertExtractionVersion', () => {
+    it('should accept versions 1 and 2 only', () => {
+      expect(() => assertExtractionVersion(1)).not.toThrow();
+      expect(() => assertExtractionVersion(2)).not.toThrow();
+      expect(() => assertExtractionVersion(3)).toThrow('Unsupported extraction version 3');
+    });
+  });
+
+  describe('encodeTrajectoryRecord', () => {
+    it('should write the step count, time and body states as big-endian doubles', () => {
+      const { masses, positions, velocities } = createFigure8Configuration();
+      const bodies = masses.map((mass, i) => ({ mass, position: positions[i], velocity: velocities[i] }));
+      const record = encodeTrajectoryRecord(7, 0.25, bodies);
+
+      expect(record.length).toBe(20 * 8);
+      expect(record.readDoubleBE(0)).toBe(7);
+      expect(record.readDoubleBE(8)).toBe(0.25);
+      expect(record.readDoubleBE(16)).toBe(positions[0].x);
+      expect(record.readDoubleBE(40)).toBe(velocities[0].x);
+      expect(record.readDoubleBE(19 * 8)).toBe(velocities[2].z);
+    });
+  });
+
+  describe('uniformFloat53', () => {
+    it('should read the first 53 bits as a float in [0, 1)', () => {
+      expect(uniformFloat53(Buffer.alloc(8))).toBe(0);
+      expect(uniformFloat53(Buffer.from('8000000000000000', 'hex'))).toBe(0.5);
+      expect(uniformFloat53(Buffer.from('ffffffffffffffff', 'hex'))).toBe(1 - 2 ** -53);
+      expect(uniformFloat53(Buffer.from('00000000000008ff', 'hex'))).toBe(2 ** -53);
+      expect(uniformFloat53(Buffer.from('00000000000007ff', 'hex'))).toBe(0);
+    });
+  });
+
+  describe('TrajectoryAbsorber', () => {
+    it('should absorb only at multiples of absorbEvery', () => {
+      const { masses, positions, velocities } = createFigure8Configuration();
+      const bodies = masses.map((mass, i) => ({ mass, position: positions[i], velocity: velocities[i] }));
+      const absorber = new TrajectoryAbsorber('ab'.repeat(32), 10);
+      const initial = absorber.getState();
+
+      absorber.observe(9, 0.9, bodies);
+      expect(absorber.getState()).toEqual(initial);
+
+      absorber.observe(10, 1, bodies);
+      expect(absorber.getAbsorbedStates()).toBe(1);
+      expect(absorber.getState().digest).not.toBe(initial.digest);
+    });
+
+    it('should reject malformed chain states', () => {
+      const absorber = new TrajectoryAbsorber('ab'.repeat(32));
+
+      expect(() => absorber.restoreState({ digest: 'xyz', absorbedStates: 0 })).toThrow('Trajectory digest must be 64 hex characters');
+      expect(() => absorber.restoreState({ digest: '0'.repeat(64), absorbedStates: -1 }))
+        .toThrow('Absorbed state count must be a non-negative integer, got -1');
+    });
+  });
+
+  describe('ThreeBodySimulation.getEntropyValue', () => {
+    it('should use version 2 by default', () => {
+      const simulation = createSimulation();
+      simulation.simulateForTime(1, 0.001);
+      const entropy = simulation.getEntropyValue();
+
+      expect(CURRENT_EXTRACTION_VERSION).toBe(2);
+      expect(entropy.extractionVersion).toBe(2);
+      expect(entropy.absorbedStates).toBe(10);
+      expect(entropy.hex).toMatch(/^[0-9a-f]{64}$/);
+      expect(entropy.value).toBe(uniformFloat53(Buffer.from(entropy.hex, 'hex')));
+    });
+
+    it('should hash the absorbed states and the final state as documented', () => {
+      const records: Buffer[] = [];
+      const recorder = {
+        observe: (step: ObservedStep) => {
+          if (step.stepCount > 0 && step.stepCount % 25 === 0) {
+            records.push(encodeTrajectoryRecord(step.stepCount, step.time, step.configuration.bodies));
+          }
+        }
+      };
+      const simulation = createSimulation({ extraction: { absorbEvery: 25 } });
+      simulation.simulateForTime({ duration: 1, timeStep: 0.01, recorder });
+      const entropy = simulation.getEntropyValue();
+
+      let digest = createHash('sha256').update(`${EXTRACTION_V2_LABEL}:${entropy.initialConditionsHash}`).digest();
+      for (const record of records.slice(0, 4)) {
+        digest = createHash('sha256').update(Buffer.concat([digest, Buffer.of(1), record])).digest();
+      }
+      const { stepCount, time, configuration } = entropy.finalState;
+      const output = createHash('sha256')
+        .update(Buffer.concat([digest, Buffer.of(2), encodeTrajectoryRecord(stepCount, time, configuration.bodies)]))
+        .digest('hex');
+
+      expect(entropy.absorbedStates).toBe(4);
+      expect(entropy.hex).toBe(output);
+    });
+
+    it('should keep version 1 available for old proofs', () => {
+      const legacy = createSimulation({ extraction: { version: 1 } });
+      const current = createSimulation();
+      legacy.simulateForTime(1, 0.01);
+      current.simulateForTime(1, 0.01);
+      const entropy = legacy.getEntropyValue();
+
+      const components = entropy.finalState.configuration.bodies
+        .flatMap(b => [b.position.x, b.position.y, b.position.z, b.velocity.x, b.velocity.y, b.velocity.z]);
+      const stateHash = createHash('sha256').update(components.map(c => c.toExponential(15)).join(':')).digest('hex');
+
+      expect(entropy.extractionVersion).toBe(1);
+      expect(entropy.absorbedStates).toBeUndefined();
+      expect(entropy.hex).toBe(stateHash);
+      expect(entropy.initialConditionsHash).toBe(current.getEntropyValue().initialConditionsHash);
+      expect(current.getEntropyValue().hex).not.toBe(entropy.hex);
+    });
+
+    it('should depend on the absorption interval', () => {
+      const every100 = createSimulation();
+      const every50 = createSimulation({ extraction: { absorbEvery: 50 } });
+      every100.simulateForTime(1, 0.01);
+      every50.simulateForTime(1, 0.01);
+
+      expect(every50.getEntropyValue().hex).not.toBe(every100.getEntropyValue().hex);
+    });
+
+    it('should not disturb the chain when extracting mid-run', () => {
+      const interrupted = createSimulation();
+      interrupted.simulateForTime(1, 0.001);
+      interrupted.getEntropyValue();
+      interrupted.simulateForTime(1, 0.001);
+
+      const uninterrupted = createSimulation();
+      uninterrupted.simulateForTime(1, 0.001);
+      uninterrupted.simulateForTime(1, 0.001);
+
+      expect(interrupted.getEntropyValue()).toEqual(uninterrupted.getEntropyValue());
+    });
+
+    it('should absorb adaptive steps', () => {
+      const simulation = createSimulation({ extraction: { absorbEvery: 5 } });
+      const state = simulation.simulateForTime({ duration: 1, timeStep: 0.01, adaptiveTimeStep: true });
+
+      expect(simulation.getEntropyValue().absorbedStates).toBe(Math.floor(state.stepCount / 5));
+    });
+
+    it('should spread values over [0, 1)', () => {
+      const values: number[] = [];
+      for (let i = 0; i < 64; i++) {
+        const { masses, positions, velocities } = generateRandomInitialConditions(`extraction-${i}`);
+        const simulation = new ThreeBodySimulation({ extraction: { absorbEvery: 5 } });
+        simulation.initializeSystem(masses, positions, velocities);
+        simulation.simulateForTime(0.1, 0.01);
+        values.push(simulation.getEntropyValue().value);
+      }
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+
+      expect(Math.abs(mean - 0.5)).toBeLessThan(0.15);
+      expect(values.filter(v => v < 0.5).length).toBeGreaterThan(16);
+      expect(values.filter(v => v >= 0.5).length).toBeGreaterThan(16);
+    });
+
+    it('should reject invalid extraction options', () => {
+      expect(() => new ThreeBodySimulation({ extraction: { version: 3 as never } })).toThrow('Unsupported extraction version 3');
+      expect(() => new ThreeBodySimulation({ extraction: { absorbEvery: 0 } })).toThrow('absorbEvery must be a positive integer, got 0');
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should resume the trajectory chain', () => {
+      const uninterrupted = createSimulation();
+      uninterrupted.simulateForTime(1, 0.01);
+      uninterrupted.simulateForTime(1, 0.01);
+
+      const paused = createSimulation();
+      paused.simulateForTime(1, 0.01);
+      const resumed = ThreeBodySimulation.fromSnapshot(paused.toSnapshot());
+      resumed.simulateForTime(1, 0.01);
+
+      expect(resumed.getEntropyValue().hex).toBe(uninterrupted.getEntropyValue().hex);
+      expect(resumed.getEntropyValue().absorbedStates).toBe(2);
+    });
+
+    it('should restore snapshots from before versioned extraction with version 1', () => {
+      const simulation = createSimulation({ extraction: { version: 1 } });
+      simulation.simulateForTime(0.5, 0.01);
+      const snapshot = JSON.parse(simulation.toSnapshot());
+      delete snapshot.options.extraction;
+
+      const restored = ThreeBodySimulation.fromSnapshot(snapshot);
+
+      expect(restored.getEntropyValue().extractionVersion).toBe(1);
+      expect(restored.getEntropyValue().hex).toBe(simulation.getEntropyValue().hex);
+    });
+
+    it('should require the trajectory digest of a version 2 snapshot', () => {
+      const snapshot = JSON.parse(createSimulation().toSnapshot());
+      delete snapshot.trajectory;
+
+      expect(() => ThreeBodySimulation.fromSnapshot(snapshot))
+        .toThrow('Snapshot of a version 2 extraction must include its trajectory digest');
+    });
+  });
+});
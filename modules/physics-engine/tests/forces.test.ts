@@ -0,0 +1,328 @@
+/**
+ * Force Model Unit Tests
+ */
+
+import {
+  DEFAULT_FORCE_MODEL,
+  SPLINE_SUPPORT_FACTOR,
+  validateForceModel,
+  normalizeForceModel,
+  isDefaultForceModel,
+  pairAccelerationFactor,
+  pairPotentialEnergy,
+  externalAcceleration
+} from '../src/forces';
+import {
+  calculateAccelerations,
+  calculateTotalEnergy,
+  rk4Step,
+  rk4StepReference
+} from '../src/integrator';
+import { RK4Workspace } from '../src/soa';
+import { ksRegularizedStep } from '../src/regularization';
+import { YOSHIDA4_INTEGRATOR } from '../src/symplectic';
+import { ThreeBodySimulation, generateRandomInitialConditions } from '../src/simulation';
+import { ForceModel, SofteningKernel, SystemConfiguration } from '../src/types';
+import * as vec from '../src/vector';
+
+describe('Force Models', () => {
+  const TIDAL_TENSOR = [0.02, 0.005, 0, 0.005, -0.01, 0, 0, 0, -0.01];
+
+  const createConfiguration = (forceModel?: ForceModel, softening = 0.05): SystemConfiguration => ({
+    bodies: [
+      { mass: 1, position: { x: -1, y: 0, z: 0 }, velocity: { x: 0, y: 0.4, z: 0.05 } },
+      { mass: 1.2, position: { x: 1, y: 0.3, z: 0 }, velocity: { x: -0.1, y: -0.3, z: 0 } },
+      { mass: 0.8, position: { x: 0, y: -1, z: 0.2 }, velocity: { x: 0.2, y: 0, z: -0.05 } }
+    ],
+    gravitationalConstant: 1,
+    softeningParameter: softening,
+    ...(forceModel && { forceModel })
+  });
+
+  describe('validateForceModel', () => {
+    it('should accept every kernel with external perturbations', () => {
+      for (const kernel of ['plummer', 'spline', 'none'] as SofteningKernel[]) {
+        expect(() => validateForceModel({ kernel, tidalTensor: TIDAL_TENSOR, drag: 0.1 })).not.toThrow();
+      }
+    });
+
+    it('should reject unknown kernels', () => {
+      expect(() => validateForceModel({ kernel: 'gaussian' as SofteningKernel })).toThrow('Unknown softening kernel "gaussian"');
+    });
+
+    it('should reject malformed tidal tensors', () => {
+      expect(() => validateForceModel({ kernel: 'plummer', tidalTensor: [1, 0, 0] }))
+        .toThrow('Tidal tensor must have 9 finite entries in row-major order');
+      expect(() => validateForceModel({ kernel: 'plummer', tidalTensor: [NaN, 0, 0, 0, 0, 0, 0, 0, 0] }))
+        .toThrow('Tidal tensor must have 9 finite entries in row-major order');
+      expect(() => validateForceModel({ kernel: 'plummer', tidalTensor: [0, 1, 0, 0, 0, 0, 0, 0, 0] }))
+        .toThrow('Tidal tensor must be symmetric');
+    });
+
+    it('should reject negative or non-finite drag', () => {
+      expect(() => validateForceModel({ kernel: 'plummer', drag: -1 })).toThrow('Drag coefficient must be a non-negative finite number, got -1');
+      expect(() => validateForceModel({ kernel: 'plummer', drag: Infinity })).toThrow('Drag coefficient must be a non-negative finite number, got Infinity');
+    });
+  });
+
+  describe('normalizeForceModel', () => {
+    it('should drop zero perturbations', () => {
+      expect(normalizeForceModel({ kernel: 'spline', tidalTensor: new Array(9).fill(0), drag: 0 })).toEqual({ kernel: 'spline' });
+    });
+
+    it('should copy the tidal tensor', () => {
+      const tidalTensor = [...TIDAL_TENSOR];
+      const normalized = normalizeForceModel({ kernel: 'plummer', tidalTensor });
+      tidalTensor[0] = 5;
+
+      expect(normalized.tidalTensor).toEqual(TIDAL_TENSOR);
+    });
+  });
+
+  describe('isDefaultForceModel', () => {
+    it('should treat an absent model and plain Plummer softening as the default', () => {
+      expect(isDefaultForceModel(undefined)).toBe(true);
+      expect(isDefaultForceModel(DEFAULT_FORCE_MODEL)).toBe(true);
+      expect(isDefaultForceModel({ kernel: 'spline' })).toBe(false);
+      expect(isDefaultForceModel({ kernel: 'plummer', drag: 0.1 })).toBe(false);
+    });
+  });
+
+  describe('kernels', () => {
+    const softening = 0.1;
+    const h = SPLINE_SUPPORT_FACTOR * softening;
+
+    it('should make the no-softening kernel ignore the softening parameter', () => {
+      expect(pairAccelerationFactor('none', 2, 0.04, softening)).toBe(pairAccelerationFactor('plummer', 2, 0.04, 0));
+      expect(pairPotentialEnergy('none', 2, 0.2, softening)).toBe(-10);
+    });
+
+    it('should make the spline kernel Newtonian beyond its support radius', () => {
+      const rSq = h * h * 1.01;
+      expect(pairAccelerationFactor('spline', 1, rSq, softening)).toBe(pairAccelerationFactor('none', 1, rSq, softening));
+      expect(pairPotentialEnergy('spline', 1, h * 1.01, softening)).toBe(-1 / (h * 1.01));
+    });
+
+    it('should give the spline kernel the Plummer potential at zero separation', () => {
+      expect(pairPotentialEnergy('spline', 1, 0, softening)).toBeCloseTo(pairPotentialEnergy('plummer', 1, 0, softening), 12);
+    });
+
+    it.each([0.5, 1])('should keep the spline kernel continuous at u = %s', u => {
+      const r = u * h;
+      for (const delta of [-1e-9, 1e-9]) {
+        const rd = r + delta;
+        expect(pairAccelerationFactor('spline', 1, rd * rd, softening)).toBeCloseTo(pairAccelerationFactor('spline', 1, r * r, softening), 5);
+        expect(pairPotentialEnergy('spline', 1, rd, softening)).toBeCloseTo(pairPotentialEnergy('spline', 1, r, softening), 6);
+      }
+    });
+
+    it.each<[SofteningKernel, number]>([
+      ['plummer', 0.05], ['plummer', 0.4],
+      ['spline', 0.05], ['spline', 0.2], ['spline', 0.5],
+      ['none', 0.3]
+    ])('should derive the %s force from its potential at r = %s', (kernel, r) => {
+      const dr = 1e-6;
+      const slope = (pairPotentialEnergy(kernel, 1, r + dr, softening) - pairPotentialEnergy(kernel, 1, r - dr, softening)) / (2 * dr);
+
+      expect(pairAccelerationFactor(kernel, 1, r * r, softening) * r).toBeCloseTo(slope, 6);
+    });
+  });
+
+  describe('external perturbations', () => {
+    it('should accelerate bodies by the tidal field minus the drag', () => {
+      const acceleration = externalAcceleration(
+        { kernel: 'plummer', tidalTensor: TIDAL_TENSOR, drag: 0.5 },
+        { x: 1, y: 2, z: 3 },
+        { x: 0.2, y: 0, z: -0.4 }
+      );
+
+      expect(acceleration.x).toBeCloseTo(0.02 + 0.01 - 0.1, 15);
+      expect(acceleration.y).toBeCloseTo(0.005 - 0.02, 15);
+      expect(acceleration.z).toBeCloseTo(-0.03 + 0.2, 15);
+    });
+
+    it('should add external accelerations to the pairwise gravity', () => {
+      const model: ForceModel = { kernel: 'plummer', tidalTensor: TIDAL_TENSOR, drag: 0.1 };
+      const plain = calculateAccelerations(createConfiguration());
+      const perturbed = calculateAccelerations(createConfiguration(model));
+
+      createConfiguration().bodies.forEach((body, i) => {
+        const expected = vec.add(plain[i], externalAcceleration(model, body.position, body.velocity));
+        expect(vec.distance(perturbed[i], expected)).toBeLessThan(1e-15);
+      });
+    });
+
+    it('should conserve energy including the tidal potential', () => {
+      let config = createConfiguration({ kernel: 'spline', tidalTensor: TIDAL_TENSOR });
+      const initialEnergy = calculateTotalEnergy(config);
+      for (let i = 0; i < 4000; i++) {
+        config = rk4Step(config, 0.0005);
+      }
+
+      expect(Math.abs((calculateTotalEnergy(config) - initialEnergy) / initialEnergy)).toBeLessThan(1e-6);
+    });
+
+    it('should dissipate energy under drag', () => {
+      let config = createConfiguration({ kernel: 'plummer', drag: 0.2 });
+      let energy = calculateTotalEnergy(config);
+      for (let i = 0; i < 10; i++) {
+        for (let k = 0; k < 100; k++) {
+          config = rk4Step(config, 0.001);
+        }
+        const next = calculateTotalEnergy(config);
+        expect(next).toBeLessThan(energy);
+        energy = next;
+      }
+    });
+  });
+
+  describe('integrators', () => {
+    it.each<[string, ForceModel]>([
+      ['spline', { kernel: 'spline' }],
+      ['none', { kernel: 'none' }],
+      ['tidal field and drag', { kernel: 'plummer', tidalTensor: TIDAL_TENSOR, drag: 0.1 }]
+    ])('should keep the typed-array core bit-identical to the reference RK4 (%s)', (_name, model) => {
+      let reference = createConfiguration(model);
+      const workspace = new RK4Workspace();
+      workspace.load(reference);
+      for (let i = 0; i < 200; i++) {
+        reference = rk4StepReference(reference, 0.001);
+        workspace.step(0.001);
+      }
+
+      const actual = workspace.toConfiguration();
+      expect(actual.forceModel).toEqual(model);
+      actual.bodies.forEach((body, i) => {
+        for (const axis of ['x', 'y', 'z'] as const) {
+          expect(Object.is(body.position[axis], reference.bodies[i].position[axis])).toBe(true);
+          expect(Object.is(body.velocity[axis], reference.bodies[i].velocity[axis])).toBe(true);
+        }
+      });
+    });
+
+    it('should carry the force model through symplectic steps', () => {
+      const model: ForceModel = { kernel: 'spline', tidalTensor: TIDAL_TENSOR };
+      const stepped = YOSHIDA4_INTEGRATOR.step(createConfiguration(model), 0.01);
+
+      expect(stepped.forceModel).toEqual(model);
+      expect(vec.distance(stepped.bodies[0].position, rk4Step(createConfiguration(model), 0.01).bodies[0].position)).toBeLessThan(1e-8);
+    });
+
+    it('should apply the force model inside KS regularized steps', () => {
+      const model: ForceModel = { kernel: 'spline', tidalTensor: TIDAL_TENSOR, drag: 0.1 };
+      const config: SystemConfiguration = {
+        ...createConfiguration(model, 0.02),
+        bodies: [
+          { mass: 1, position: { x: -0.3, y: 0.1, z: 0 }, velocity: { x: 0, y: -0.3, z: 0.1 } },
+          { mass: 1, position: { x: 0.2, y: 0, z: 0.05 }, velocity: { x: 0.1, y: 0.4, z: 0 } },
+          { mass: 0.5, position: { x: 0, y: 3, z: 0 }, velocity: { x: -0.2, y: 0, z: 0 } }
+        ]
+      };
+      const regularized = ksRegularizedStep(config, 0.01, [0, 1], 0.5);
+      const reference = rk4Step(config, 0.01);
+      const unperturbed = rk4Step({ ...config, forceModel: undefined }, 0.01);
+
+      expect(regularized.forceModel).toEqual(model);
+      for (let i = 0; i < 3; i++) {
+        expect(vec.distance(regularized.bodies[i].velocity, reference.bodies[i].velocity)).toBeLessThan(1e-8);
+      }
+      expect(vec.distance(reference.bodies[2].velocity, unperturbed.bodies[2].velocity)).toBeGreaterThan(1e-5);
+    });
+  });
+
+  describe('ThreeBodySimulation', () => {
+    const initialize = (simulation: ThreeBodySimulation): void => {
+      const { masses, positions, velocities } = generateRandomInitialConditions('force-model');
+      simulation.initializeSystem(masses, positions, velocities);
+    };
+
+    it('should default to Plummer softening', () => {
+      expect(new ThreeBodySimulation().getForceModel()).toEqual(DEFAULT_FORCE_MODEL);
+    });
+
+    it('should keep the hash of the default model unchanged', () => {
+      const plain = new ThreeBodySimulation();
+      initialize(plain);
+      const explicit = new ThreeBodySimulation();
+      explicit.setForceModel({ kernel: 'plummer', drag: 0 });
+      initialize(explicit);
+
+      expect(explicit.getEntropyValue().initialConditionsHash).toBe(plain.getEntropyValue().initialConditionsHash);
+      expect(explicit.getConfiguration().forceModel).toBeUndefined();
+    });
+
+    it('should include the kernel and its parameters in the hash', () => {
+      const hashes = new Set<string>();
+      for (const model of [
+        DEFAULT_FORCE_MODEL,
+        { kernel: 'spline' },
+        { kernel: 'none' },
+        { kernel: 'plummer', tidalTensor: TIDAL_TENSOR },
+        { kernel: 'plummer', drag: 0.1 },
+        { kernel: 'plummer', drag: 0.2 }
+      ] as ForceModel[]) {
+        const simulation = new ThreeBodySimulation();
+        initialize(simulation);
+        simulation.setForceModel(model);
+        hashes.add(simulation.getEntropyValue().initialConditionsHash);
+      }
+
+      expect(hashes.size).toBe(6);
+    });
+
+    it('should run with the configured force model', () => {
+      const plain = new ThreeBodySimulation();
+      const dragged = new ThreeBodySimulation();
+      dragged.setForceModel({ kernel: 'plummer', drag: 0.3 });
+      initialize(plain);
+      initialize(dragged);
+      plain.simulateForTime(1, 0.01);
+      dragged.simulateForTime(1, 0.01);
+
+      expect(dragged.getForceModel()).toEqual({ kernel: 'plummer', drag: 0.3 });
+      expect(dragged.getTotalEnergy()).toBeLessThan(plain.getTotalEnergy());
+    });
+
+    it('should not let callers mutate the force model through the configuration', () => {
+      const simulation = new ThreeBodySimulation();
+      simulation.setForceModel({ kernel: 'plummer', tidalTensor: TIDAL_TENSOR });
+      initialize(simulation);
+      simulation.getConfiguration().forceModel!.tidalTensor![0] = 1;
+
+      expect(simulation.getForceModel().tidalTensor).toEqual(TIDAL_TENSOR);
+    });
+
+    it('should reject invalid models and changes after the simulation has started', () => {
+      const simulation = new ThreeBodySimulation();
+      expect(() => simulation.setForceModel({ kernel: 'plummer', drag: -1 })).toThrow('Drag coefficient');
+      initialize(simulation);
+      simulation.simulateForTime(0.1, 0.01);
+
+      expect(() => simulation.setForceModel({ kernel: 'spline' })).toThrow('Force model cannot be changed after the simulation has started');
+    });
+
+    it('should restore the force model from a snapshot', () => {
+      const simulation = new ThreeBodySimulation();
+      simulation.setForceModel({ kernel: 'spline', tidalTensor: TIDAL_TENSOR, drag: 0.05 });
+      initialize(simulation);
+      simulation.simulateForTime(0.5, 0.01);
+
+      const resumed = ThreeBodySimulation.fromSnapshot(simulation.toSnapshot());
+      simulation.simulateForTime(0.5, 0.01);
+      resumed.simulateForTime(0.5, 0.01);
+
+      expect(resumed.getForceModel()).toEqual(simulation.getForceModel());
+      expect(resumed.getEntropyValue().hex).toBe(simulation.getEntropyValue().hex);
+    });
+
+    it('should reject snapshots with an invalid force model', () => {
+      const simulation = new ThreeBodySimulation();
+      simulation.setForceModel({ kernel: 'spline' });
+      initialize(simulation);
+      const snapshot = JSON.parse(simulation.toSnapshot());
+      snapshot.configuration.forceModel.kernel = 'cubic';
+
+      expect(() => ThreeBodySimulation.fromSnapshot(snapshot)).toThrow('Unknown softening kernel "cubic"');
+    });
+  });
+});
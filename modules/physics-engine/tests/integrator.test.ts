@@ -6,6 +6,7 @@ import {
   calculateGravitationalAcceleration,
   calculateAccelerations,
   rk4Step,
+  dormandPrince54Step,
   calculateKineticEnergy,
   calculatePotentialEnergy,
   calculateTotalEnergy,
@@ -124,6 +125,43 @@ describe('Integrator', () => {
     });
   });
 
+  describe('dormandPrince54Step', () => {
+    it('should agree closely with RK4 for a small step', () => {
+      const config = createTestConfiguration();
+      const rk4 = rk4Step(config, 0.001);
+      const { configuration } = dormandPrince54Step(config, 0.001, 1e-9);
+
+      for (let i = 0; i < 3; i++) {
+        expect(vec.distance(configuration.bodies[i].position, rk4.bodies[i].position)).toBeLessThan(1e-10);
+        expect(vec.distance(configuration.bodies[i].velocity, rk4.bodies[i].velocity)).toBeLessThan(1e-10);
+      }
+    });
+
+    it('should report a small error for small steps and a large error for large steps', () => {
+      const config = createTestConfiguration();
+      const small = dormandPrince54Step(config, 0.0001, 1e-9);
+      const large = dormandPrince54Step(config, 0.5, 1e-9);
+
+      expect(small.error).toBeLessThan(1);
+      expect(large.error).toBeGreaterThan(1);
+    });
+
+    it('should scale the error estimate inversely with tolerance', () => {
+      const config = createTestConfiguration();
+      const strict = dormandPrince54Step(config, 0.05, 1e-12);
+      const loose = dormandPrince54Step(config, 0.05, 1e-6);
+
+      expect(strict.error).toBeGreaterThan(loose.error);
+    });
+
+    it('should preserve masses', () => {
+      const config = createTestConfiguration();
+      const { configuration } = dormandPrince54Step(config, 0.01, 1e-9);
+
+      expect(configuration.bodies.map(b => b.mass)).toEqual(config.bodies.map(b => b.mass));
+    });
+  });
+
   describe('calculateKineticEnergy', () => {
     it('should calculate kinetic energy correctly', () => {
       const config: SystemConfiguration = {
@@ -0,0 +1,127 @@
+/**
+ * Lyapunov Exponent Unit Tests
+ */
+
+import { estimateLyapunovExponent, phaseSpaceDistance } from '../src/lyapunov';
+import { YOSHIDA4_INTEGRATOR } from '../src/symplectic';
+import { SystemConfiguration } from '../src/types';
+
+describe('Lyapunov Exponent', () => {
+  const createChaoticConfiguration = (): SystemConfiguration => ({
+    bodies: [
+      { mass: 1, position: { x: -1, y: 0, z: 0 }, velocity: { x: 0, y: 0.5, z: 0 } },
+      { mass: 1, position: { x: 1, y: 0, z: 0 }, velocity: { x: 0, y: -0.5, z: 0 } },
+      { mass: 1, position: { x: 0, y: 1, z: 0 }, velocity: { x: 0.5, y: 0, z: 0 } }
+    ],
+    gravitationalConstant: 1.0,
+    softeningParameter: 0.01
+  });
+
+  const createFigure8Configuration = (): SystemConfiguration => ({
+    bodies: [
+      { mass: 1, position: { x: -0.97000436, y: 0.24308753, z: 0 }, velocity: { x: 0.466203685, y: 0.43236573, z: 0 } },
+      { mass: 1, position: { x: 0.97000436, y: -0.24308753, z: 0 }, velocity: { x: 0.466203685, y: 0.43236573, z: 0 } },
+      { mass: 1, position: { x: 0, y: 0, z: 0 }, velocity: { x: -0.93240737, y: -0.86473146, z: 0 } }
+    ],
+    gravitationalConstant: 1.0,
+    softeningParameter: 0
+  });
+
+  describe('phaseSpaceDistance', () => {
+    it('should be zero for identical configurations', () => {
+      expect(phaseSpaceDistance(createChaoticConfiguration(), createChaoticConfiguration())).toBe(0);
+    });
+
+    it('should include position and velocity differences', () => {
+      const a = createChaoticConfiguration();
+      const b = createChaoticConfiguration();
+      b.bodies[0].position.x += 3;
+      b.bodies[2].velocity.y += 4;
+
+      expect(phaseSpaceDistance(a, b)).toBeCloseTo(5, 12);
+    });
+  });
+
+  describe('estimateLyapunovExponent', () => {
+    it('should report a larger exponent for a chaotic system than for the figure-8 orbit', () => {
+      const chaotic = estimateLyapunovExponent(createChaoticConfiguration(), { duration: 10, timeStep: 0.01 });
+      const periodic = estimateLyapunovExponent(createFigure8Configuration(), { duration: 10, timeStep: 0.01 });
+
+      expect(chaotic.exponent).toBeGreaterThan(periodic.exponent * 3);
+    });
+
+    it('should record the running estimate at every renormalization', () => {
+      const result = estimateLyapunovExponent(createChaoticConfiguration(), {
+        duration: 1,
+        timeStep: 0.01,
+        renormalizationSteps: 10
+      });
+
+      expect(result.renormalizations).toBe(10);
+      expect(result.history).toHaveLength(10);
+      expect(result.history[9].time).toBeCloseTo(1, 10);
+      expect(result.history[9].exponent).toBe(result.exponent);
+      result.history.forEach(sample => expect(sample.separation).toBeGreaterThan(0));
+    });
+
+    it('should renormalize at the end of a partial interval', () => {
+      const result = estimateLyapunovExponent(createChaoticConfiguration(), {
+        duration: 0.25,
+        timeStep: 0.01,
+        renormalizationSteps: 10
+      });
+
+      expect(result.renormalizations).toBe(3);
+      expect(result.duration).toBeCloseTo(0.25, 10);
+    });
+
+    it('should be deterministic', () => {
+      const options = { duration: 2, timeStep: 0.01 };
+      const first = estimateLyapunovExponent(createChaoticConfiguration(), options);
+      const second = estimateLyapunovExponent(createChaoticConfiguration(), options);
+
+      expect(second).toEqual(first);
+    });
+
+    it('should not mutate the input configuration', () => {
+      const config = createChaoticConfiguration();
+      estimateLyapunovExponent(config, { duration: 0.5, timeStep: 0.01 });
+
+      expect(config).toEqual(createChaoticConfiguration());
+    });
+
+    it('should accept a custom integrator and perturbation', () => {
+      const result = estimateLyapunovExponent(createChaoticConfiguration(), {
+        duration: 1,
+        timeStep: 0.01,
+        perturbation: 1e-6,
+        integrator: YOSHIDA4_INTEGRATOR
+      });
+
+      expect(result.perturbation).toBe(1e-6);
+      expect(Number.isFinite(result.exponent)).toBe(true);
+    });
+
+    it('should throw for invalid options', () => {
+      const config = createChaoticConfiguration();
+
+      expect(() => estimateLyapunovExponent(config, { duration: 0, timeStep: 0.01 }))
+        .toThrow('Duration must be positive');
+      expect(() => estimateLyapunovExponent(config, { duration: 1, timeStep: 0 }))
+        .toThrow('Time step must be positive');
+      expect(() => estimateLyapunovExponent(config, { duration: 1, timeStep: 0.01, perturbation: 0 }))
+        .toThrow('Perturbation must be a positive finite number');
+      expect(() => estimateLyapunovExponent(config, { duration: 1, timeStep: 0.01, renormalizationSteps: 0.5 }))
+        .toThrow('Renormalization steps must be a positive integer');
+    });
+
+    it('should throw when the separation becomes degenerate', () => {
+      const config = createChaoticConfiguration();
+      config.softeningParameter = 0;
+      config.bodies[1].position = { ...config.bodies[0].position };
+
+      expect(() => estimateLyapunovExponent(config, { duration: 0.1, timeStep: 0.01 }))
+        .toThrow('Shadow trajectory separation became degenerate');
+    });
+  });
+});
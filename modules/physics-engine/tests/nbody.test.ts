@@ -0,0 +1,313 @@
+/**
+ * N-Body Generalization Unit Tests
+ */
+
+import {
+  ThreeBodySimulation,
+  createFigure8Configuration,
+  generateRandomInitialConditions
+} from '../src/simulation';
+import {
+  calculateAccelerations,
+  calculateAngularMomentum,
+  calculateTotalEnergy,
+  listBodyPairs,
+  rk4Step,
+  rk4StepReference
+} from '../src/integrator';
+import { YOSHIDA4_INTEGRATOR } from '../src/symplectic';
+import { ksRegularizedStep, findClosestPair } from '../src/regularization';
+import { EventDetector } from '../src/events';
+import { TrajectoryRecorder, decodeTrajectory, readTrajectory } from '../src/recorder';
+import { estimateLyapunovExponent } from '../src/lyapunov';
+import { encodeStateHex } from '../src/determinism';
+import { GOLDEN_VECTORS } from '../src/golden-vectors';
+import { InitialConditions, SystemConfiguration } from '../src/types';
+
+describe('N-body systems', () => {
+  const toConfiguration = (conditions: InitialConditions, softening = 0.01): SystemConfiguration => ({
+    bodies: conditions.masses.map((mass, i) => ({
+      mass,
+      position: { ...conditions.positions[i] },
+      velocity: { ...conditions.velocities[i] }
+    })),
+    gravitationalConstant: 1,
+    softeningParameter: softening
+  });
+
+  const initialize = (conditions: InitialConditions, simulation = new ThreeBodySimulation()): ThreeBodySimulation => {
+    simulation.initializeSystem(conditions.masses, conditions.positions, conditions.velocities);
+    return simulation;
+  };
+
+  /** Two equal masses on a circular orbit of radius 0.5 around their center of mass */
+  const circularBinary = (): InitialConditions => ({
+    masses: [1, 1],
+    positions: [{ x: -0.5, y: 0, z: 0 }, { x: 0.5, y: 0, z: 0 }],
+    velocities: [{ x: 0, y: -Math.sqrt(0.5), z: 0 }, { x: 0, y: Math.sqrt(0.5), z: 0 }]
+  });
+
+  describe('listBodyPairs', () => {
+    it('should list pairs in lexicographic order', () => {
+      expect(listBodyPairs(2)).toEqual([[0, 1]]);
+      expect(listBodyPairs(3)).toEqual([[0, 1], [0, 2], [1, 2]]);
+      expect(listBodyPairs(4)).toHaveLength(6);
+    });
+  });
+
+  describe('initial conditions', () => {
+    it('should draw the requested number of bodies', () => {
+      const conditions = generateRandomInitialConditions('cluster', 2, 5);
+
+      expect(conditions.masses).toHaveLength(5);
+      expect(conditions.positions).toHaveLength(5);
+      expect(conditions.velocities).toHaveLength(5);
+    });
+
+    it('should keep three-body conditions unchanged', () => {
+      expect(generateRandomInitialConditions('cluster', 2, 3)).toEqual(generateRandomInitialConditions('cluster'));
+      expect(generateRandomInitialConditions('cluster', 1, 3)).toEqual(generateRandomInitialConditions('cluster', 1));
+    });
+
+    it('should reject invalid body counts', () => {
+      expect(() => generateRandomInitialConditions('cluster', 2, 1)).toThrow('Body count must be an integer of at least 2');
+      expect(() => generateRandomInitialConditions('cluster', 2, 3.5)).toThrow('Body count must be an integer of at least 2');
+    });
+
+    it('should reject systems of fewer than two bodies', () => {
+      const simulation = new ThreeBodySimulation();
+
+      expect(() => simulation.initializeSystem([1], [{ x: 0, y: 0, z: 0 }], [{ x: 0, y: 0, z: 0 }]))
+        .toThrow('At least two bodies are required, got 1');
+    });
+
+    it('should reject vectors that do not match the masses', () => {
+      const { masses, positions, velocities } = generateRandomInitialConditions('cluster', 2, 4);
+      const simulation = new ThreeBodySimulation();
+
+      expect(() => simulation.initializeSystem(masses, positions.slice(0, 3), velocities))
+        .toThrow('Expected 4 positions, one per body, got 3');
+      expect(() => simulation.initializeSystem(masses, positions, [...velocities, velocities[0]]))
+        .toThrow('Expected 4 velocities, one per body, got 5');
+    });
+  });
+
+  describe('hashing', () => {
+    it('should keep three-body hashes backward compatible', () => {
+      const figureEight = GOLDEN_VECTORS.find(vector => vector.name === 'figure-eight-rk4')!;
+      const simulation = initialize(createFigure8Configuration());
+
+      expect(simulation.getEntropyValue().initialConditionsHash).toBe(figureEight.expected.initialConditionsHash);
+    });
+
+    it('should distinguish systems that differ only by an extra body', () => {
+      const four = generateRandomInitialConditions('hash', 2, 4);
+      const three = {
+        masses: four.masses.slice(0, 3),
+        positions: four.positions.slice(0, 3),
+        velocities: four.velocities.slice(0, 3)
+      };
+
+      expect(initialize(four).getEntropyValue().initialConditionsHash)
+        .not.toBe(initialize(three).getEntropyValue().initialConditionsHash);
+    });
+  });
+
+  describe('dynamics', () => {
+    it('should keep a circular binary on its orbit', () => {
+      const simulation = initialize(circularBinary());
+      // Period of a circular orbit with separation 1 and total mass 2
+      const period = 2 * Math.PI / Math.sqrt(2);
+      simulation.setSofteningParameter(0);
+      const state = simulation.simulateForTime(period, period / 1000);
+
+      expect(state.configuration.bodies[0].position.x).toBeCloseTo(-0.5, 6);
+      expect(state.configuration.bodies[1].position.y).toBeCloseTo(0, 6);
+    });
+
+    it.each([2, 4, 5, 7])('should conserve energy and angular momentum with %i bodies', bodyCount => {
+      const conditions = generateRandomInitialConditions(`conserve-${bodyCount}`, 2, bodyCount);
+      const simulation = initialize(conditions);
+      simulation.setSofteningParameter(0.1);
+      const energy = simulation.getTotalEnergy();
+      const momentum = simulation.getAngularMomentum();
+      simulation.simulateForTime(1, 0.001);
+
+      expect(Math.abs((simulation.getTotalEnergy() - energy) / energy)).toBeLessThan(1e-6);
+      expect(simulation.getAngularMomentum().z).toBeCloseTo(momentum.z, 8);
+      expect(simulation.getConfiguration().bodies).toHaveLength(bodyCount);
+    });
+
+    it('should match the object-based RK4 bit for bit', () => {
+      let reference = toConfiguration(generateRandomInitialConditions('soa-n', 2, 5));
+      let fast = reference;
+
+      for (let i = 0; i < 100; i++) {
+        reference = rk4StepReference(reference, 0.001);
+        fast = rk4Step(fast, 0.001);
+      }
+
+      expect(fast).toEqual(reference);
+    });
+
+    it('should advance a four-body system with a symplectic integrator', () => {
+      const simulation = new ThreeBodySimulation({ integrator: YOSHIDA4_INTEGRATOR });
+      initialize(generateRandomInitialConditions('yoshida', 2, 4), simulation);
+      simulation.setSofteningParameter(0.1);
+      const energy = simulation.getTotalEnergy();
+      simulation.simulateForTime(1, 0.001);
+
+      expect(Math.abs((simulation.getTotalEnergy() - energy) / energy)).toBeLessThan(1e-6);
+    });
+
+    it('should conserve momentum in the accelerations of a cluster', () => {
+      const config = toConfiguration(generateRandomInitialConditions('momentum', 2, 6));
+      const accelerations = calculateAccelerations(config);
+      const total = accelerations.reduce(
+        (sum, a, i) => sum + a.x * config.bodies[i].mass + a.y * config.bodies[i].mass,
+        0
+      );
+
+      expect(total).toBeCloseTo(0, 10);
+    });
+
+    it('should run adaptive steps and Lyapunov estimates on larger systems', () => {
+      const conditions = generateRandomInitialConditions('adaptive', 2, 4);
+      const simulation = initialize(conditions);
+      simulation.simulateForTime({ duration: 0.5, timeStep: 0.01, adaptiveTimeStep: true });
+      const estimate = estimateLyapunovExponent(toConfiguration(conditions), { duration: 0.5, timeStep: 0.01 });
+
+      expect(simulation.getTime()).toBe(0.5);
+      expect(Number.isFinite(estimate.exponent)).toBe(true);
+    });
+  });
+
+  describe('KS regularization', () => {
+    it('should regularize a close pair among several perturbers', () => {
+      const config = toConfiguration({
+        masses: [1, 1, 0.5, 0.25, 0.25],
+        positions: [
+          { x: -0.05, y: 0, z: 0 }, { x: 0.05, y: 0, z: 0 },
+          { x: 0, y: 2, z: 0.25 }, { x: 1.5, y: -1, z: 0 }, { x: -2, y: 0.5, z: 0.5 }
+        ],
+        velocities: [
+          { x: 0, y: -2, z: 0 }, { x: 0, y: 2, z: 0.1 },
+          { x: 0.3, y: 0, z: 0 }, { x: 0, y: 0.5, z: 0 }, { x: 0.1, y: -0.25, z: 0 }
+        ]
+      }, 0);
+      const energy = calculateTotalEnergy(config);
+      const momentum = calculateAngularMomentum(config);
+      let current = config;
+      for (let i = 0; i < 50; i++) {
+        current = ksRegularizedStep(current, 0.01, findClosestPair(current).bodies, 0.5);
+      }
+
+      let reference = config;
+      for (let i = 0; i < 50000; i++) {
+        reference = rk4Step(reference, 0.00001);
+      }
+
+      expect(findClosestPair(config).bodies).toEqual([0, 1]);
+      current.bodies.forEach((body, i) => {
+        expect(Math.abs(body.position.x - reference.bodies[i].position.x)).toBeLessThan(1e-6);
+        expect(Math.abs(body.velocity.y - reference.bodies[i].velocity.y)).toBeLessThan(1e-4);
+      });
+      expect(Math.abs((calculateTotalEnergy(current) - energy) / energy)).toBeLessThan(1e-6);
+      expect(calculateAngularMomentum(current).z).toBeCloseTo(momentum.z, 6);
+    });
+
+    it('should regularize an isolated pair', () => {
+      const simulation = new ThreeBodySimulation({ regularization: 'ks' });
+      initialize(circularBinary(), simulation);
+      simulation.setSofteningParameter(0);
+      const energy = simulation.getTotalEnergy();
+      simulation.simulateForTime(1, 0.01);
+
+      expect(simulation.getTotalEnergy()).toBeCloseTo(energy, 10);
+    });
+  });
+
+  describe('events', () => {
+    it('should report a bound two-body system as a binary', () => {
+      const simulation = initialize(circularBinary());
+
+      expect(simulation.getEvents()).toEqual([
+        expect.objectContaining({ type: 'binary-formation', bodies: [0, 1], step: 0 })
+      ]);
+    });
+
+    it('should track every pair and body of a larger system', () => {
+      const detector = new EventDetector();
+      detector.reset(5);
+      const state = detector.getState();
+
+      expect(state.encounters).toHaveLength(10);
+      expect(state.escaped).toHaveLength(5);
+      expect(() => detector.restoreState({ ...state, escaped: [false] })).toThrow('must cover 10 pairs and 5 bodies');
+    });
+
+    it('should detect a body escaping from a cluster', () => {
+      const simulation = initialize({
+        masses: [1, 1, 1, 0.1],
+        positions: [{ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }, { x: 9.5, y: 0, z: 0 }],
+        velocities: [{ x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 0 }, { x: 5, y: 0, z: 0 }]
+      });
+      simulation.simulateForTime(1, 0.01);
+
+      expect(simulation.getEvents()).toContainEqual(expect.objectContaining({ type: 'escape', body: 3 }));
+    });
+  });
+
+  describe('recording and snapshots', () => {
+    it('should round-trip a five-body recording', () => {
+      const recorder = new TrajectoryRecorder({ everySteps: 8 });
+      const simulation = initialize(generateRandomInitialConditions('record', 2, 5));
+      simulation.simulateForTime({ duration: 0.5, timeStep: 1 / 64, recorder });
+
+      const binary = recorder.exportBinary();
+      const states = readTrajectory(binary);
+
+      expect(binary.readUInt16LE(6)).toBe(35);
+      expect(decodeTrajectory(binary)).toEqual(recorder.toRecording());
+      expect(states[states.length - 1].configuration).toEqual(simulation.getConfiguration());
+      expect(recorder.exportCSV().split('\n')[0].split(',')).toHaveLength(35);
+      expect(recorder.getByteSize()).toBe(recorder.getSampleCount() * 35 * 8);
+    });
+
+    it('should check the memory budget against the recorded system size', () => {
+      const recorder = new TrajectoryRecorder({ maxBytes: 2 * 23 * 8 });
+      const simulation = initialize(generateRandomInitialConditions('budget', 2, 4));
+
+      expect(() => simulation.simulateForTime({ duration: 0.1, timeStep: 0.01, recorder }))
+        .toThrow('maxBytes must allow at least two samples (464 bytes)');
+    });
+
+    it('should reject binary recordings with an impossible field count', () => {
+      const recorder = new TrajectoryRecorder();
+      initialize(circularBinary()).simulateForTime({ duration: 0.02, timeStep: 0.01, recorder });
+      const binary = recorder.exportBinary();
+      binary.writeUInt16LE(20, 6);
+
+      expect(() => decodeTrajectory(binary)).toThrow('Unexpected field count 20 per sample');
+    });
+
+    it('should resume a four-body snapshot exactly', () => {
+      const conditions = generateRandomInitialConditions('snapshot', 2, 4);
+      const original = initialize(conditions);
+      original.simulateForTime(0.25, 1 / 64);
+      const restored = ThreeBodySimulation.fromSnapshot(original.toSnapshot());
+      original.simulateForTime(0.25, 1 / 64);
+      restored.simulateForTime(0.25, 1 / 64);
+
+      expect(encodeStateHex(restored.getCurrentState())).toBe(encodeStateHex(original.getCurrentState()));
+      expect(restored.getEntropyValue().hex).toBe(original.getEntropyValue().hex);
+    });
+
+    it('should reject snapshots whose initial conditions do not match the system size', () => {
+      const snapshot = JSON.parse(initialize(generateRandomInitialConditions('snapshot', 2, 4)).toSnapshot());
+      snapshot.initialConditions.masses.pop();
+
+      expect(() => ThreeBodySimulation.fromSnapshot(snapshot)).toThrow('must have one mass per body');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Periodic Orbit Preset Unit Tests
+ */
+
+import { ORBIT_PRESETS, getOrbitPreset } from '../src/presets';
+import { verifyPeriodicity } from '../src/periodicity';
+import { createFigure8Configuration, createLagrangeConfiguration } from '../src/simulation';
+import { YOSHIDA4_INTEGRATOR } from '../src/symplectic';
+import { OrbitPreset, SystemConfiguration } from '../src/types';
+
+describe('Periodic Orbit Presets', () => {
+  const toConfiguration = (preset: OrbitPreset): SystemConfiguration => ({
+    bodies: preset.initialConditions.masses.map((mass, i) => ({
+      mass,
+      position: preset.initialConditions.positions[i],
+      velocity: preset.initialConditions.velocities[i]
+    })),
+    gravitationalConstant: preset.gravitationalConstant,
+    softeningParameter: preset.softeningParameter
+  });
+
+  describe('ORBIT_PRESETS', () => {
+    it('should have unique names', () => {
+      const names = ORBIT_PRESETS.map(p => p.name);
+      expect(new Set(names).size).toBe(names.length);
+    });
+
+    it('should include the Broucke-Hénon and Šuvakov-Dmitrašinović families', () => {
+      const names = ORBIT_PRESETS.map(p => p.name);
+
+      expect(names).toEqual(expect.arrayContaining([
+        'figure-eight', 'lagrange', 'broucke-a1', 'broucke-r1', 'butterfly-1', 'moth-1', 'yin-yang-1a'
+      ]));
+      expect(ORBIT_PRESETS.filter(p => p.family === 'broucke-henon').length).toBeGreaterThanOrEqual(3);
+      expect(ORBIT_PRESETS.filter(p => p.family === 'suvakov-dmitrasinovic').length).toBeGreaterThanOrEqual(3);
+    });
+
+    it('should give every preset a period and a reference', () => {
+      for (const preset of ORBIT_PRESETS) {
+        expect(preset.period).toBeGreaterThan(0);
+        expect(preset.reference).toBeTruthy();
+        expect(preset.description).toBeTruthy();
+        expect(preset.initialConditions.masses).toHaveLength(3);
+      }
+    });
+
+    it('should define planar orbits with zero total momentum', () => {
+      for (const preset of ORBIT_PRESETS) {
+        const config = toConfiguration(preset);
+        const momentum = config.bodies.reduce((sum, body) => ({
+          x: sum.x + body.mass * body.velocity.x,
+          y: sum.y + body.mass * body.velocity.y
+        }), { x: 0, y: 0 });
+
+        expect(config.bodies.every(body => body.position.z === 0 && body.velocity.z === 0)).toBe(true);
+        expect(Math.abs(momentum.x)).toBeLessThan(1e-9);
+        expect(Math.abs(momentum.y)).toBeLessThan(1e-9);
+      }
+    });
+  });
+
+  describe('getOrbitPreset', () => {
+    it('should look up presets by name', () => {
+      expect(getOrbitPreset('moth-1').family).toBe('suvakov-dmitrasinovic');
+    });
+
+    it('should reject unknown names', () => {
+      expect(() => getOrbitPreset('unknown')).toThrow('Unknown orbit preset "unknown"');
+    });
+  });
+
+  describe('preset configurations', () => {
+    it('should back createFigure8Configuration with the figure-eight preset', () => {
+      expect(createFigure8Configuration()).toEqual(getOrbitPreset('figure-eight').initialConditions);
+    });
+
+    it('should keep createLagrangeConfiguration as first issued', () => {
+      const config = createLagrangeConfiguration();
+
+      expect(config.positions[0]).toEqual({ x: 1, y: 0, z: 0 });
+      expect(config.velocities[0]).toEqual({ x: -0, y: 1, z: 0 });
+      expect(config.positions[1]).toEqual({ x: Math.cos(2 * Math.PI / 3), y: Math.sin(2 * Math.PI / 3), z: 0 });
+      expect(config.velocities[2]).toEqual({ x: -Math.sin(4 * Math.PI / 3), y: Math.cos(4 * Math.PI / 3), z: 0 });
+      expect(config).not.toEqual(getOrbitPreset('lagrange').initialConditions);
+    });
+
+    it('should return copies that do not alias the catalog', () => {
+      const config = createFigure8Configuration();
+      config.positions[0].x = 42;
+
+      expect(getOrbitPreset('figure-eight').initialConditions.positions[0].x).toBe(-1);
+    });
+  });
+
+  describe('verifyPeriodicity', () => {
+    it.each(ORBIT_PRESETS.map(p => [p.name]))('should return %s to its initial state after one period', name => {
+      const report = verifyPeriodicity(name);
+
+      expect(report.preset).toBe(name);
+      expect(report.samples).toHaveLength(1);
+      expect(report.samples[0].returnError).toBeLessThan(5e-3);
+      expect(report.samples[0].energyError).toBeLessThan(1e-6);
+    });
+
+    it('should report the return error after every period', () => {
+      const preset = getOrbitPreset('figure-eight');
+      const report = verifyPeriodicity(preset, 3);
+
+      expect(report.period).toBe(preset.period);
+      expect(report.samples.map(s => s.periods)).toEqual([1, 2, 3]);
+      expect(report.samples[2].time).toBeCloseTo(3 * preset.period, 9);
+      expect(report.maxReturnError).toBe(Math.max(...report.samples.map(s => s.returnError)));
+      expect(report.maxRelativeReturnError).toBe(Math.max(...report.samples.map(s => s.relativeReturnError)));
+      for (const sample of report.samples) {
+        expect(sample.returnError).toBeCloseTo(Math.hypot(sample.positionError, sample.velocityError), 15);
+        expect(sample.relativeReturnError).toBeLessThan(sample.returnError);
+      }
+    });
+
+    it('should close the exactly known Lagrange orbit to integration accuracy', () => {
+      expect(verifyPeriodicity('lagrange').maxReturnError).toBeLessThan(1e-7);
+    });
+
+    it('should measure the accuracy of fixed-step integrators', () => {
+      const fine = verifyPeriodicity('figure-eight', 1, { adaptiveTimeStep: false, integrator: YOSHIDA4_INTEGRATOR });
+      const coarse = verifyPeriodicity('figure-eight', 1, { adaptiveTimeStep: false, timeStep: 0.05 });
+
+      expect(fine.maxReturnError).toBeLessThan(1e-4);
+      expect(coarse.maxReturnError).toBeGreaterThan(fine.maxReturnError);
+    });
+
+    it('should reject invalid period counts', () => {
+      expect(() => verifyPeriodicity('figure-eight', 0)).toThrow('Periods must be a positive integer, got 0');
+      expect(() => verifyPeriodicity('figure-eight', 1.5)).toThrow('Periods must be a positive integer, got 1.5');
+    });
+
+    it('should reject presets without a valid period', () => {
+      const preset = { ...getOrbitPreset('figure-eight'), period: 0 };
+      expect(() => verifyPeriodicity(preset)).toThrow('Period must be a positive finite number, got 0');
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Trajectory Recorder Unit Tests
+ */
+
+import { TrajectoryRecorder, decodeTrajectory, readTrajectory } from '../src/recorder';
+import { ThreeBodySimulation, createFigure8Configuration } from '../src/simulation';
+import { ObservedStep } from '../src/types';
+
+describe('TrajectoryRecorder', () => {
+  const createSimulation = (): ThreeBodySimulation => {
+    const simulation = new ThreeBodySimulation();
+    const { masses, positions, velocities } = createFigure8Configuration();
+    simulation.initializeSystem(masses, positions, velocities);
+    return simulation;
+  };
+
+  const record = (recorder: TrajectoryRecorder, duration = 1, timeStep = 0.01): ThreeBodySimulation => {
+    const simulation = createSimulation();
+    simulation.simulateForTime({ duration, timeStep, recorder });
+    return simulation;
+  };
+
+  // Power-of-two steps keep the fixed-step count exact
+  const dt = 1 / 64;
+
+  describe('sampling', () => {
+    it('should record every step by default, including the start', () => {
+      const recorder = new TrajectoryRecorder();
+      record(recorder, 10 * dt, dt);
+
+      expect(recorder.getSampleCount()).toBe(11);
+      expect(recorder.toRecording().samples.map(sample => sample.stepCount)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    });
+
+    it('should record every N steps and always the final state', () => {
+      const recorder = new TrajectoryRecorder({ everySteps: 4 });
+      record(recorder, 10 * dt, dt);
+
+      expect(recorder.toRecording().samples.map(sample => sample.stepCount)).toEqual([0, 4, 8, 10]);
+    });
+
+    it('should record at most once per time interval', () => {
+      const recorder = new TrajectoryRecorder({ everyTime: 0.25 });
+      record(recorder, 1, 0.01);
+      const times = recorder.toRecording().samples.map(sample => sample.time);
+
+      expect(times).toHaveLength(5);
+      times.slice(1).forEach((time, index) => {
+        expect(time).toBeGreaterThanOrEqual(0.25 * (index + 1) - 1e-12);
+        expect(time).toBeLessThan(0.25 * (index + 1) + 0.01);
+      });
+    });
+
+    it('should record the adaptive steps of an adaptive run', () => {
+      const recorder = new TrajectoryRecorder();
+      const simulation = createSimulation();
+      const state = simulation.simulateForTime({ duration: 1, timeStep: 0.01, adaptiveTimeStep: true, recorder });
+      const recording = recorder.toRecording();
+
+      expect(recorder.getSampleCount()).toBe(state.stepCount + 1);
+      expect(recording.integrator.name).toBe('dormand-prince-5(4)');
+    });
+
+    it('should continue across consecutive runs without duplicating samples', () => {
+      const recorder = new TrajectoryRecorder({ everySteps: 5 });
+      const simulation = createSimulation();
+      simulation.simulateForTime({ duration: 10 * dt, timeStep: dt, recorder });
+      simulation.simulateForTime({ duration: 10 * dt, timeStep: dt, recorder });
+
+      expect(recorder.toRecording().samples.map(sample => sample.stepCount)).toEqual([0, 5, 10, 15, 20]);
+    });
+
+    it('should not record when no recorder is attached', () => {
+      const recorder = new TrajectoryRecorder();
+      createSimulation().simulateForTime(0.1, 0.01);
+
+      expect(recorder.getSampleCount()).toBe(0);
+      expect(() => recorder.toRecording()).toThrow('Nothing has been recorded');
+    });
+
+    it('should pass observers a configuration they can keep', () => {
+      const simulation = createSimulation();
+      const kept: ObservedStep[] = [];
+      simulation.simulateForTime({ duration: 3 * dt, timeStep: dt, recorder: { observe: step => kept.push(step) } });
+
+      expect(kept[0].configuration).toEqual(createSimulation().getConfiguration());
+      expect(kept[2].configuration).not.toEqual(kept[3].configuration);
+      expect(kept[4].configuration).toEqual(simulation.getConfiguration());
+    });
+  });
+
+  describe('memory budget', () => {
+    it('should decimate to stay within the budget', () => {
+      const maxBytes = 10 * 184;
+      const recorder = new TrajectoryRecorder({ maxBytes });
+      record(recorder, 1, 0.01);
+      const steps = recorder.toRecording().samples.map(sample => sample.stepCount);
+
+      expect(recorder.getByteSize()).toBeLessThanOrEqual(maxBytes);
+      expect(recorder.getDecimation()).toBe(16);
+      expect(steps).toEqual([0, 16, 32, 48, 64, 80, 96, 100]);
+      expect(recorder.toRecording().sampling).toEqual({ everySteps: 1, decimation: 16 });
+    });
+
+    it('should keep a time grid after decimation', () => {
+      const recorder = new TrajectoryRecorder({ everyTime: 0.05, maxBytes: 8 * 184 });
+      record(recorder, 1, 0.01);
+      const times = recorder.toRecording().samples.map(sample => sample.time);
+
+      expect(recorder.getSampleCount()).toBeLessThanOrEqual(8);
+      expect(recorder.getDecimation()).toBe(4);
+      expect(times[0]).toBe(0);
+      expect(times[1]).toBeCloseTo(0.2, 10);
+      expect(times[times.length - 1]).toBeCloseTo(1, 10);
+    });
+  });
+
+  describe('export and read back', () => {
+    it('should round-trip states exactly through JSON', () => {
+      const recorder = new TrajectoryRecorder({ everySteps: 10 });
+      const simulation = record(recorder);
+      const states = readTrajectory(recorder.exportJSON());
+
+      expect(states).toHaveLength(11);
+      expect(states[states.length - 1]).toEqual(simulation.getCurrentState());
+    });
+
+    it('should round-trip states exactly through the binary format', () => {
+      const recorder = new TrajectoryRecorder({ everySteps: 10 });
+      const simulation = record(recorder);
+      const binary = recorder.exportBinary();
+
+      expect(readTrajectory(binary)).toEqual(readTrajectory(recorder.toRecording()));
+      expect(readTrajectory(binary)[10]).toEqual(simulation.getCurrentState());
+      expect(decodeTrajectory(binary)).toEqual(recorder.toRecording());
+    });
+
+    it('should write a little-endian header followed by Float64 samples', () => {
+      const recorder = new TrajectoryRecorder({ everyTime: 0.5 });
+      record(recorder);
+      const binary = recorder.exportBinary();
+
+      expect(binary.toString('ascii', 0, 4)).toBe('TBTR');
+      expect(binary.readUInt16LE(4)).toBe(1);
+      expect(binary.readUInt16LE(6)).toBe(23);
+      expect(binary.readUInt32LE(8)).toBe(3);
+      expect(binary.readUInt16LE(12)).toBe(4);
+      expect(binary.toString('utf8', 72, 72 + binary.readUInt16LE(14))).toBe('rk4');
+      expect(binary.readUInt8(16)).toBe(1);
+      expect(binary.readDoubleLE(24)).toBe(0.5);
+      expect(binary.readDoubleLE(32)).toBe(1);
+      expect(binary.length).toBe(80 + 3 * 23 * 8);
+      expect(binary.readDoubleLE(80)).toBe(0);
+    });
+
+    it('should export CSV with a header row', () => {
+      const recorder = new TrajectoryRecorder({ everySteps: 50 });
+      record(recorder);
+      const lines = recorder.exportCSV().trim().split('\n');
+      const states = readTrajectory(recorder.toRecording());
+
+      expect(lines).toHaveLength(4);
+      expect(lines[0].split(',')).toHaveLength(23);
+      expect(lines[0]).toMatch(/^time,stepCount,acceptedSteps,rejectedSteps,totalEnergy,px0,py0,pz0,vx0/);
+      expect(Number(lines[2].split(',')[5])).toBe(states[1].configuration.bodies[0].position.x);
+    });
+
+    it('should reject invalid recordings', () => {
+      const recorder = new TrajectoryRecorder();
+      record(recorder, 0.05);
+      const binary = recorder.exportBinary();
+
+      expect(() => decodeTrajectory(Buffer.from('nope'))).toThrow('Not a binary trajectory recording');
+      expect(() => decodeTrajectory(binary.subarray(0, binary.length - 8))).toThrow('Truncated trajectory recording');
+      expect(() => decodeTrajectory('{"format":"other"}')).toThrow('Not a JSON trajectory recording');
+      expect(() => decodeTrajectory(recorder.exportJSON().replace('"version":1', '"version":9')))
+        .toThrow('Unsupported trajectory format version 9');
+
+      const future = Buffer.from(binary);
+      future.writeUInt16LE(2, 4);
+      expect(() => decodeTrajectory(future)).toThrow('Unsupported trajectory format version 2');
+    });
+  });
+
+  describe('options', () => {
+    it('should validate options', () => {
+      expect(() => new TrajectoryRecorder({ everySteps: 2, everyTime: 0.1 })).toThrow('at most one');
+      expect(() => new TrajectoryRecorder({ everySteps: 0 })).toThrow('everySteps must be a positive integer');
+      expect(() => new TrajectoryRecorder({ everyTime: -1 })).toThrow('everyTime must be a positive finite number');
+      expect(() => new TrajectoryRecorder({ maxBytes: 100 })).toThrow('maxBytes must allow at least two samples');
+    });
+
+    it('should discard samples on clear', () => {
+      const recorder = new TrajectoryRecorder({ maxBytes: 4 * 184 });
+      record(recorder);
+      recorder.clear();
+
+      expect(recorder.getSampleCount()).toBe(0);
+      expect(recorder.getDecimation()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * KS Regularization Unit Tests
+ */
+
+import {
+  toKustaanheimoStiefel,
+  fromKustaanheimoStiefel,
+  findClosestPair,
+  ksRegularizedStep
+} from '../src/regularization';
+import { rk4Step, calculateTotalEnergy } from '../src/integrator';
+import { SystemConfiguration, Vector3D } from '../src/types';
+import * as vec from '../src/vector';
+
+describe('KS Regularization', () => {
+  const createConfiguration = (): SystemConfiguration => ({
+    bodies: [
+      { mass: 1, position: { x: -0.3, y: 0.1, z: 0 }, velocity: { x: 0, y: -0.3, z: 0.1 } },
+      { mass: 1, position: { x: 0.2, y: 0, z: 0.05 }, velocity: { x: 0.1, y: 0.4, z: 0 } },
+      { mass: 0.5, position: { x: 0, y: 3, z: 0 }, velocity: { x: -0.2, y: 0, z: 0 } }
+    ],
+    gravitationalConstant: 1.0,
+    softeningParameter: 0
+  });
+
+  describe('coordinate transform', () => {
+    it.each<[string, Vector3D]>([
+      ['positive x', { x: 0.4, y: -0.7, z: 0.2 }],
+      ['negative x', { x: -0.3, y: 0.7, z: 0.2 }],
+      ['negative x axis', { x: -2, y: 0, z: 0 }]
+    ])('should round-trip a relative position with %s', (_name, r) => {
+      const u = toKustaanheimoStiefel(r);
+
+      expect(vec.distance(fromKustaanheimoStiefel(u), r)).toBeLessThan(1e-15);
+      expect(u.reduce((sum, c) => sum + c * c, 0)).toBeCloseTo(vec.magnitude(r), 15);
+    });
+
+    it('should map the origin to the zero vector', () => {
+      expect(toKustaanheimoStiefel({ x: 0, y: 0, z: 0 })).toEqual([0, 0, 0, 0]);
+    });
+  });
+
+  describe('findClosestPair', () => {
+    it('should return the pair with the smallest separation', () => {
+      const closest = findClosestPair(createConfiguration());
+
+      expect(closest.bodies).toEqual([0, 1]);
+      expect(closest.distance).toBeCloseTo(Math.sqrt(0.25 + 0.01 + 0.0025), 12);
+    });
+  });
+
+  describe('ksRegularizedStep', () => {
+    it('should agree with RK4 for a well-resolved step', () => {
+      const config = createConfiguration();
+      const regularized = ksRegularizedStep(config, 0.01, [0, 1], 0.5);
+      const reference = rk4Step(config, 0.01);
+
+      for (let i = 0; i < 3; i++) {
+        expect(vec.distance(regularized.bodies[i].position, reference.bodies[i].position)).toBeLessThan(1e-9);
+        expect(vec.distance(regularized.bodies[i].velocity, reference.bodies[i].velocity)).toBeLessThan(1e-8);
+      }
+    });
+
+    it('should not mutate the input configuration', () => {
+      const config = createConfiguration();
+      ksRegularizedStep(config, 0.01, [0, 1], 0.5);
+
+      expect(config).toEqual(createConfiguration());
+    });
+
+    it('should step backwards with a negative time step', () => {
+      const config = createConfiguration();
+      const back = ksRegularizedStep(ksRegularizedStep(config, 0.05, [0, 1], 0.5), -0.05, [0, 1], 0.5);
+
+      for (let i = 0; i < 3; i++) {
+        expect(vec.distance(back.bodies[i].position, config.bodies[i].position)).toBeLessThan(1e-8);
+      }
+    });
+
+    it('should integrate through a head-on collision without softening', () => {
+      const initial: SystemConfiguration = {
+        bodies: [
+          { mass: 1, position: { x: -0.05, y: 0, z: 0 }, velocity: { x: 0, y: 0, z: 0 } },
+          { mass: 1, position: { x: 0.05, y: 0, z: 0 }, velocity: { x: 0, y: 0, z: 0 } },
+          { mass: 0.001, position: { x: 0, y: 50, z: 0 }, velocity: { x: 0, y: 0, z: 0 } }
+        ],
+        gravitationalConstant: 1.0,
+        softeningParameter: 0
+      };
+      const initialEnergy = calculateTotalEnergy(initial);
+      let regularized = initial;
+      let plain = initial;
+
+      // Free-fall time from rest at separation 0.1 is about 0.018
+      for (let step = 0; step < 10; step++) {
+        regularized = ksRegularizedStep(regularized, 0.005, [0, 1], 0.5);
+        plain = rk4Step(plain, 0.005);
+      }
+      const relativeError = (config: SystemConfiguration) =>
+        Math.abs((calculateTotalEnergy(config) - initialEnergy) / initialEnergy);
+
+      expect(relativeError(regularized)).toBeLessThan(1e-6);
+      expect(relativeError(plain)).toBeGreaterThan(1e-2);
+      // The regularized collision is an elastic bounce
+      expect(regularized.bodies[0].position.x).toBeLessThan(0);
+    });
+  });
+});
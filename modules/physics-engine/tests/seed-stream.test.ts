@@ -0,0 +1,90 @@
+/**
+ * Seed Stream Unit Tests
+ */
+
+import { createHmac } from 'crypto';
+import {
+  SeedStream,
+  CURRENT_SEED_STREAM_VERSION,
+  SEED_STREAM_V2_LABEL,
+  createSeedStream,
+  assertSeedStreamVersion
+} from '../src/seed-stream';
+
+describe('SeedStream', () => {
+  const expectedBlock = (seed: string, counter: number): Buffer => {
+    const prk = createHmac('sha256', SEED_STREAM_V2_LABEL).update(seed, 'utf8').digest();
+    const counterBytes = Buffer.alloc(4);
+    counterBytes.writeUInt32BE(counter);
+    return createHmac('sha256', prk).update(counterBytes).digest();
+  };
+
+  it('should expand the seed in HMAC-SHA256 counter mode', () => {
+    const stream = new SeedStream('seed');
+    const bytes = stream.nextBytes(80);
+
+    expect(bytes).toEqual(Buffer.concat([
+      expectedBlock('seed', 0),
+      expectedBlock('seed', 1),
+      expectedBlock('seed', 2)
+    ]).subarray(0, 80));
+  });
+
+  it('should continue across block boundaries', () => {
+    const whole = new SeedStream('seed').nextBytes(70);
+    const stream = new SeedStream('seed');
+    const parts = Buffer.concat([stream.nextBytes(30), stream.nextBytes(5), stream.nextBytes(35)]);
+
+    expect(parts).toEqual(whole);
+  });
+
+  it('should build floats from the top 53 bits of 8 stream bytes', () => {
+    const block = expectedBlock('seed', 0);
+    const high = block.readUInt32BE(0) >>> 11;
+    const low = block.readUInt32BE(4);
+
+    expect(new SeedStream('seed').nextFloat()).toBe((high * 2 ** 32 + low) / 2 ** 53);
+  });
+
+  it('should yield floats in [0, 1) with more than 8 bits of resolution', () => {
+    const next = createSeedStream('resolution');
+    const values = Array.from({ length: 1000 }, next);
+
+    values.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+    expect(new Set(values).size).toBe(1000);
+    expect(values.some(value => !Number.isInteger(value * 2 ** 32))).toBe(true);
+  });
+
+  // The API server pins its copy of the stream to the same vectors
+  it.each([
+    ['', [0.13207891784009296, 0.16816377209593403, 0.061074364924923574, 0.6440788360255159, 0.24723666354156582]],
+    ['house-seed:client-seed:42', [0.6073035595781417, 0.1103291887803618, 0.9452950906070982, 0.4708831031536773, 0.3425142571125729]],
+    ['seed-é中🎰', [0.4218384273241248, 0.7657777898649063, 0.7924326969242215, 0.5842619074706732, 0.48044775499867853]]
+  ])('should match the golden vector for %j', (seed, expected) => {
+    expect(Array.from({ length: 5 }, createSeedStream(seed))).toEqual(expected);
+  });
+
+  it('should be deterministic per seed', () => {
+    const a = createSeedStream('same');
+    const b = createSeedStream('same');
+    const c = createSeedStream('other');
+
+    expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+    expect(c()).not.toBe(createSeedStream('same')());
+  });
+});
+
+describe('assertSeedStreamVersion', () => {
+  it('should accept supported versions', () => {
+    expect(CURRENT_SEED_STREAM_VERSION).toBe(2);
+    expect(() => assertSeedStreamVersion(1)).not.toThrow();
+    expect(() => assertSeedStreamVersion(2)).not.toThrow();
+  });
+
+  it('should reject unsupported versions', () => {
+    expect(() => assertSeedStreamVersion(0)).toThrow('Unsupported seed stream version 0');
+  });
+});
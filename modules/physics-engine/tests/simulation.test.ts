@@ -2,13 +2,19 @@
  * Simulation Unit Tests
  */
 
+import { createHash } from 'crypto';
 import {
   ThreeBodySimulation,
   generateRandomInitialConditions,
   createFigure8Configuration,
   createLagrangeConfiguration
 } from '../src/simulation';
-import { Vector3D } from '../src/types';
+import { Integrator, Vector3D } from '../src/types';
+import { DORMAND_PRINCE_54, RK4_INTEGRATOR, calculateAccelerations } from '../src/integrator';
+import { YOSHIDA4_INTEGRATOR } from '../src/symplectic';
+import { estimateLyapunovExponent } from '../src/lyapunov';
+import { createSeedStream } from '../src/seed-stream';
+import * as vec from '../src/vector';
 
 describe('ThreeBodySimulation', () => {
   let simulation: ThreeBodySimulation;
@@ -208,6 +214,168 @@ describe('ThreeBodySimulation', () => {
       
       expect(simulation.getTime()).toBeCloseTo(2, 5);
     });
+
+    it('should report fixed steps as accepted with no rejections', () => {
+      const state = simulation.simulateForTime(1, 0.01);
+
+      expect(state.acceptedSteps).toBe(state.stepCount);
+      expect(state.rejectedSteps).toBe(0);
+    });
+
+    it('should accept a SimulationOptions object', () => {
+      const state = simulation.simulateForTime({ duration: 1, timeStep: 0.01 });
+
+      expect(state.time).toBeCloseTo(1, 5);
+    });
+  });
+
+  describe('simulateSteps', () => {
+    beforeEach(() => {
+      const { masses, positions, velocities } = createFigure8Configuration();
+      simulation.initializeSystem(masses, positions, velocities);
+    });
+
+    it('should take exactly the requested number of fixed steps', () => {
+      const steps: number[] = [];
+      const state = simulation.simulateSteps(500, 0.01, {
+        observe: (step, final) => {
+          if (!final) {
+            steps.push(step.stepCount);
+          }
+        }
+      });
+
+      expect(state.stepCount).toBe(500);
+      expect(state.time).toBeCloseTo(5, 10);
+      expect(steps).toEqual(Array.from({ length: 501 }, (_, i) => i));
+      expect(state.acceptedSteps).toBe(500);
+    });
+
+    it('should leave the system unchanged for zero steps', () => {
+      const before = simulation.getConfiguration();
+      const state = simulation.simulateSteps(0, 0.01);
+
+      expect(state.stepCount).toBe(0);
+      expect(simulation.getConfiguration()).toEqual(before);
+    });
+
+    it('should reject invalid arguments', () => {
+      expect(() => new ThreeBodySimulation().simulateSteps(1, 0.01)).toThrow('System must be initialized');
+      expect(() => simulation.simulateSteps(1.5, 0.01)).toThrow('Step count must be a non-negative integer, got 1.5');
+      expect(() => simulation.simulateSteps(1, 0)).toThrow('Time step must be a positive finite number, got 0');
+    });
+  });
+
+  describe('simulateForTime with adaptive time stepping', () => {
+    beforeEach(() => {
+      const masses: [number, number, number] = [1, 1, 1];
+      const positions: [Vector3D, Vector3D, Vector3D] = [
+        { x: -1, y: 0, z: 0 },
+        { x: 1, y: 0, z: 0 },
+        { x: 0, y: 1, z: 0 }
+      ];
+      const velocities: [Vector3D, Vector3D, Vector3D] = [
+        { x: 0, y: 0.5, z: 0 },
+        { x: 0, y: -0.5, z: 0 },
+        { x: 0.5, y: 0, z: 0 }
+      ];
+      simulation.initializeSystem(masses, positions, velocities);
+    });
+
+    it('should land exactly on the requested duration', () => {
+      const state = simulation.simulateForTime({
+        duration: 1.7,
+        timeStep: 0.01,
+        adaptiveTimeStep: true,
+        tolerance: 1e-8
+      });
+
+      expect(state.time).toBe(1.7);
+    });
+
+    it('should report accepted and rejected step counts', () => {
+      const state = simulation.simulateForTime({
+        duration: 2,
+        timeStep: 1,
+        adaptiveTimeStep: true,
+        tolerance: 1e-10
+      });
+
+      expect(state.acceptedSteps).toBe(state.stepCount);
+      expect(state.acceptedSteps).toBeGreaterThan(0);
+      expect(state.rejectedSteps).toBeGreaterThan(0);
+    });
+
+    it('should take fewer steps with a looser tolerance', () => {
+      const strict = new ThreeBodySimulation();
+      const loose = new ThreeBodySimulation();
+      const config = simulation.getConfiguration();
+      const masses = config.bodies.map(b => b.mass) as [number, number, number];
+      const positions = config.bodies.map(b => b.position) as [Vector3D, Vector3D, Vector3D];
+      const velocities = config.bodies.map(b => b.velocity) as [Vector3D, Vector3D, Vector3D];
+      strict.initializeSystem(masses, positions, velocities);
+      loose.initializeSystem(masses, positions, velocities);
+
+      const strictState = strict.simulateForTime({ duration: 2, timeStep: 0.01, adaptiveTimeStep: true, tolerance: 1e-12 });
+      const looseState = loose.simulateForTime({ duration: 2, timeStep: 0.01, adaptiveTimeStep: true, tolerance: 1e-6 });
+
+      expect(looseState.acceptedSteps).toBeLessThan(strictState.acceptedSteps);
+    });
+
+    it('should conserve energy within the requested tolerance', () => {
+      const initialEnergy = simulation.getTotalEnergy();
+      const state = simulation.simulateForTime({
+        duration: 5,
+        timeStep: 0.01,
+        adaptiveTimeStep: true,
+        tolerance: 1e-10
+      });
+
+      expect(Math.abs((state.totalEnergy - initialEnergy) / initialEnergy)).toBeLessThan(1e-6);
+    });
+
+    it('should be deterministic', () => {
+      const options = { duration: 1, timeStep: 0.01, adaptiveTimeStep: true, tolerance: 1e-9 };
+      const first = simulation.simulateForTime(options);
+      const config = first.configuration;
+
+      const other = new ThreeBodySimulation();
+      other.initializeSystem(
+        [1, 1, 1],
+        [{ x: -1, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }],
+        [{ x: 0, y: 0.5, z: 0 }, { x: 0, y: -0.5, z: 0 }, { x: 0.5, y: 0, z: 0 }]
+      );
+      const second = other.simulateForTime(options);
+
+      expect(second.configuration).toEqual(config);
+      expect(second.rejectedSteps).toBe(first.rejectedSteps);
+    });
+
+    it('should use a default tolerance when none is given', () => {
+      const state = simulation.simulateForTime({ duration: 0.5, timeStep: 0.01, adaptiveTimeStep: true });
+
+      expect(state.time).toBe(0.5);
+    });
+
+    it('should throw error for non-positive tolerance', () => {
+      expect(() => {
+        simulation.simulateForTime({ duration: 1, timeStep: 0.01, adaptiveTimeStep: true, tolerance: 0 });
+      }).toThrow('Tolerance must be a positive finite number');
+    });
+
+    it('should throw when the step size underflows', () => {
+      const closeSim = new ThreeBodySimulation();
+      closeSim.setSofteningParameter(0);
+      closeSim.initializeSystem(
+        [1, 1, 1],
+        [{ x: 0, y: 0, z: 0 }, { x: 1e-12, y: 0, z: 0 }, { x: 5, y: 0, z: 0 }],
+        [{ x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 0 }, { x: 0, y: 0, z: 0 }]
+      );
+
+      expect(() => {
+        closeSim.simulateForTime({ duration: 1, timeStep: 0.01, adaptiveTimeStep: true, tolerance: 1e-12 });
+      }).toThrow('Adaptive step size underflow');
+    });
   });
 
   describe('getEntropyValue', () => {
@@ -296,6 +464,379 @@ describe('ThreeBodySimulation', () => {
     });
   });
 
+  describe('integrator selection', () => {
+    const masses: [number, number, number] = [1, 1, 1];
+    const positions: [Vector3D, Vector3D, Vector3D] = [
+      { x: -1, y: 0, z: 0 },
+      { x: 1, y: 0, z: 0 },
+      { x: 0, y: 1, z: 0 }
+    ];
+    const velocities: [Vector3D, Vector3D, Vector3D] = [
+      { x: 0, y: 0.5, z: 0 },
+      { x: 0, y: -0.5, z: 0 },
+      { x: 0.5, y: 0, z: 0 }
+    ];
+
+    it('should default to RK4', () => {
+      simulation.initializeSystem(masses, positions, velocities);
+
+      expect(simulation.getIntegrator()).toBe(RK4_INTEGRATOR);
+      expect(simulation.getCurrentState().integrator).toEqual({ name: 'rk4', order: 4 });
+    });
+
+    it('should accept an integrator in the constructor', () => {
+      const sim = new ThreeBodySimulation({ integrator: YOSHIDA4_INTEGRATOR });
+      sim.initializeSystem(masses, positions, velocities);
+      const state = sim.simulateForTime(0.1, 0.01);
+
+      expect(state.integrator).toEqual({ name: 'yoshida4', order: 4 });
+    });
+
+    it('should produce different trajectories for different integrators', () => {
+      const sim = new ThreeBodySimulation({ integrator: YOSHIDA4_INTEGRATOR });
+      sim.initializeSystem(masses, positions, velocities);
+      simulation.initializeSystem(masses, positions, velocities);
+
+      expect(sim.simulateForTime(1, 0.01).configuration)
+        .not.toEqual(simulation.simulateForTime(1, 0.01).configuration);
+    });
+
+    it('should keep the RK4 initial conditions hash unchanged', () => {
+      simulation.initializeSystem(masses, positions, velocities);
+      const legacyHash = createHash('sha256')
+        .update(JSON.stringify({ masses, positions, velocities }))
+        .digest('hex');
+
+      expect(simulation.getEntropyValue().initialConditionsHash).toBe(legacyHash);
+    });
+
+    it('should include the integrator in the initial conditions hash', () => {
+      simulation.initializeSystem(masses, positions, velocities);
+      const rk4Hash = simulation.getEntropyValue().initialConditionsHash;
+
+      simulation.setIntegrator(YOSHIDA4_INTEGRATOR);
+      const yoshidaHash = simulation.getEntropyValue().initialConditionsHash;
+
+      expect(yoshidaHash).not.toBe(rk4Hash);
+      expect(yoshidaHash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should report Dormand-Prince for adaptive runs', () => {
+      simulation.initializeSystem(masses, positions, velocities);
+      const state = simulation.simulateForTime({ duration: 0.1, timeStep: 0.01, adaptiveTimeStep: true });
+
+      expect(state.integrator).toEqual(DORMAND_PRINCE_54);
+    });
+
+    it('should hash Dormand-Prince and its tolerance for adaptive runs', () => {
+      simulation.initializeSystem(masses, positions, velocities);
+      simulation.simulateForTime({ duration: 0.1, timeStep: 0.01, adaptiveTimeStep: true, tolerance: 1e-8 });
+      const expected = createHash('sha256')
+        .update(JSON.stringify({ masses, positions, velocities, integrator: { ...DORMAND_PRINCE_54, tolerance: 1e-8 } }))
+        .digest('hex');
+
+      expect(simulation.getEntropyValue().initialConditionsHash).toBe(expected);
+
+      simulation.initializeSystem(masses, positions, velocities);
+      simulation.simulateForTime({ duration: 0.1, timeStep: 0.01, adaptiveTimeStep: true, tolerance: 1e-10 });
+
+      expect(simulation.getEntropyValue().initialConditionsHash).not.toBe(expected);
+    });
+
+    it('should throw when switching between fixed and adaptive steps after the simulation started', () => {
+      simulation.initializeSystem(masses, positions, velocities);
+      simulation.simulateForTime(0.1, 0.01);
+
+      expect(() => simulation.simulateForTime({ duration: 0.1, timeStep: 0.01, adaptiveTimeStep: true }))
+        .toThrow('Integration scheme cannot be changed after the simulation has started');
+
+      simulation.initializeSystem(masses, positions, velocities);
+      simulation.simulateForTime({ duration: 0.1, timeStep: 0.01, adaptiveTimeStep: true });
+
+      expect(() => simulation.simulateForTime({ duration: 0.1, timeStep: 0.01, adaptiveTimeStep: true, tolerance: 1e-6 }))
+        .toThrow('Integration scheme cannot be changed after the simulation has started');
+      expect(() => simulation.simulateSteps(1, 0.01))
+        .toThrow('Integration scheme cannot be changed after the simulation has started');
+    });
+
+    it('should throw when changing the integrator after the simulation started', () => {
+      simulation.initializeSystem(masses, positions, velocities);
+      simulation.simulateForTime(0.1, 0.01);
+
+      expect(() => simulation.setIntegrator(YOSHIDA4_INTEGRATOR))
+        .toThrow('Integrator cannot be changed after the simulation has started');
+    });
+  });
+
+  describe('events and regularization', () => {
+    // Two bodies released from rest fall straight into each other
+    const masses: [number, number, number] = [1, 1, 0.001];
+    const positions: [Vector3D, Vector3D, Vector3D] = [
+      { x: -0.5, y: 0, z: 0 },
+      { x: 0.5, y: 0, z: 0 },
+      { x: 0, y: 50, z: 0 }
+    ];
+    const velocities: [Vector3D, Vector3D, Vector3D] = [
+      { x: 0, y: 0, z: 0 },
+      { x: 0, y: 0, z: 0 },
+      { x: 0, y: 0, z: 0 }
+    ];
+
+    const runCollision = (sim: ThreeBodySimulation) => {
+      sim.setSofteningParameter(0);
+      sim.initializeSystem(masses, positions, velocities);
+      const initialEnergy = sim.getTotalEnergy();
+      const state = sim.simulateForTime(3, 0.01);
+      return Math.abs((state.totalEnergy - initialEnergy) / initialEnergy);
+    };
+
+    it('should conserve energy through a collision with KS regularization and zero softening', () => {
+      const regularized = runCollision(new ThreeBodySimulation({ regularization: 'ks' }));
+      const plain = runCollision(new ThreeBodySimulation());
+
+      expect(regularized).toBeLessThan(1e-6);
+      expect(plain).toBeGreaterThan(1);
+    });
+
+    it('should record events with times and distances', () => {
+      const sim = new ThreeBodySimulation({ regularization: 'ks' });
+      runCollision(sim);
+      const events = sim.getEvents();
+      const encounter = events.find(event => event.type === 'close-encounter');
+
+      // The pair starts bound and isolated
+      expect(events[0]).toMatchObject({ type: 'binary-formation', time: 0, step: 0, bodies: [0, 1] });
+      expect(encounter).toMatchObject({ bodies: [0, 1] });
+      expect(encounter!.time).toBeGreaterThan(0);
+      expect(encounter!.distance).toBeLessThan(0.1);
+      expect(events.some(event => event.type === 'escape')).toBe(false);
+    });
+
+    it('should detect an escape', () => {
+      const sim = new ThreeBodySimulation({ events: { escapeDistance: 2 } });
+      sim.initializeSystem(
+        [1, 1, 1],
+        [{ x: -0.5, y: 0, z: 0 }, { x: 0.5, y: 0, z: 0 }, { x: 0, y: 1.5, z: 0 }],
+        [{ x: 0, y: -0.7, z: 0 }, { x: 0, y: -0.7, z: 0 }, { x: 0, y: 3, z: 0 }]
+      );
+      sim.simulateForTime(1, 0.01);
+
+      expect(sim.getEvents()).toContainEqual(expect.objectContaining({ type: 'escape', body: 2 }));
+    });
+
+    it('should export the event log with the final state', () => {
+      const sim = new ThreeBodySimulation({ regularization: 'ks', events: { closeEncounterDistance: 0.2 } });
+      runCollision(sim);
+      const log = sim.exportEventLog();
+
+      expect(log.state).toEqual(sim.getCurrentState());
+      expect(log.events).toEqual(sim.getEvents());
+      expect(log.detection.closeEncounterDistance).toBe(0.2);
+      expect(log.regularization).toBe('ks');
+      expect(JSON.parse(JSON.stringify(log))).toEqual(log);
+    });
+
+    it('should clear events on reset and re-initialization', () => {
+      const sim = new ThreeBodySimulation({ regularization: 'ks' });
+      runCollision(sim);
+      sim.reset();
+
+      expect(sim.getEvents()).toEqual([]);
+    });
+
+    it('should include regularization in the initial conditions hash', () => {
+      const sim = new ThreeBodySimulation({ regularization: 'ks' });
+      sim.initializeSystem(masses, positions, velocities);
+      simulation.initializeSystem(masses, positions, velocities);
+
+      expect(sim.getEntropyValue().initialConditionsHash)
+        .not.toBe(simulation.getEntropyValue().initialConditionsHash);
+    });
+
+    it('should reject adaptive stepping with regularization', () => {
+      const sim = new ThreeBodySimulation({ regularization: 'ks' });
+      sim.initializeSystem(masses, positions, velocities);
+
+      expect(() => sim.simulateForTime({ duration: 1, timeStep: 0.01, adaptiveTimeStep: true }))
+        .toThrow('KS regularization requires fixed time steps');
+    });
+
+    it('should validate regularization options', () => {
+      expect(() => new ThreeBodySimulation({ regularizationRadius: 0 }))
+        .toThrow('Regularization radius must be a positive finite number');
+      expect(() => new ThreeBodySimulation({ regularization: 'levi-civita' as never }))
+        .toThrow('Unknown regularization mode "levi-civita"');
+    });
+  });
+
+  describe('reversibility check', () => {
+    const chaotic = {
+      masses: [1, 1.2, 0.8],
+      positions: [{ x: -1, y: 0, z: 0 }, { x: 1, y: 0.5, z: 0 }, { x: 0, y: -1, z: 0.2 }],
+      velocities: [{ x: 0, y: 0.6, z: 0.1 }, { x: -0.3, y: -0.4, z: 0 }, { x: 0.3, y: -0.2, z: -0.1 }]
+    };
+
+    // Explicit Euler: consistent, but only first order and far from reversible
+    const euler: Integrator = {
+      name: 'euler',
+      order: 1,
+      symplectic: false,
+      step: (config, dt) => {
+        const accelerations = calculateAccelerations(config);
+        return {
+          ...config,
+          bodies: config.bodies.map((body, i) => ({
+            mass: body.mass,
+            position: vec.add(body.position, vec.scale(body.velocity, dt)),
+            velocity: vec.add(body.velocity, vec.scale(accelerations[i], dt))
+          }))
+        };
+      }
+    };
+
+    it('should integrate the run back to its initial conditions', () => {
+      const config = createFigure8Configuration();
+      const checked = new ThreeBodySimulation({ reversibilityCheck: true });
+      checked.initializeSystem(config.masses, config.positions, config.velocities);
+      checked.simulateForTime(1, 0.01);
+      checked.simulateForTime(0.5, 0.01);
+
+      const report = checked.checkReversibility();
+
+      expect(report.steps).toBe(checked.getStepCount());
+      expect(report.time).toBe(checked.getTime());
+      expect(report.recoveryError).toBeLessThan(1e-8);
+      expect(report.threshold).toBe(1e-6);
+      expect(report.passed).toBe(true);
+    });
+
+    it('should check the run up to its duration', () => {
+      const config = createFigure8Configuration();
+      const checked = new ThreeBodySimulation({ reversibilityCheck: { duration: 0.5 } });
+      checked.initializeSystem(config.masses, config.positions, config.velocities);
+      checked.simulateForTime(1.5, 0.01);
+      const configuration = checked.getConfiguration();
+
+      const report = checked.checkReversibility();
+
+      expect(report.time).toBeGreaterThanOrEqual(0.5);
+      expect(report.time).toBeLessThan(0.51);
+      expect(report.steps).toBeLessThan(checked.getStepCount());
+      expect(report.recoveryError).toBeLessThan(1e-8);
+      expect(checked.getConfiguration()).toEqual(configuration);
+    });
+
+    it('should attach the report to the entropy result without changing it', () => {
+      const config = createFigure8Configuration();
+      const checked = new ThreeBodySimulation({ reversibilityCheck: true });
+      checked.initializeSystem(config.masses, config.positions, config.velocities);
+      simulation.initializeSystem(config.masses, config.positions, config.velocities);
+      checked.simulateForTime(1, 0.01);
+      simulation.simulateForTime(1, 0.01);
+
+      const result = checked.getEntropyValue();
+      const plain = simulation.getEntropyValue();
+
+      expect(result.reversibility?.passed).toBe(true);
+      expect(result.hex).toBe(plain.hex);
+      expect(result.initialConditionsHash).toBe(plain.initialConditionsHash);
+      expect(plain.reversibility).toBeUndefined();
+    });
+
+    it('should replay adaptive and symplectic steps', () => {
+      const config = createFigure8Configuration();
+      const adaptive = new ThreeBodySimulation({ reversibilityCheck: { threshold: 1e-5 } });
+      adaptive.initializeSystem(config.masses, config.positions, config.velocities);
+      adaptive.simulateForTime({ duration: 2, timeStep: 0.01, adaptiveTimeStep: true });
+      const symplectic = new ThreeBodySimulation({ integrator: YOSHIDA4_INTEGRATOR, reversibilityCheck: true });
+      symplectic.initializeSystem(config.masses, config.positions, config.velocities);
+      symplectic.simulateForTime(2, 0.01);
+
+      expect(adaptive.checkReversibility().passed).toBe(true);
+      expect(symplectic.checkReversibility().recoveryError).toBeLessThan(1e-12);
+    });
+
+    it('should fail a long chaotic run unless its duration is shortened', () => {
+      const whole = new ThreeBodySimulation({ reversibilityCheck: true });
+      whole.initializeSystem(chaotic.masses, chaotic.positions, chaotic.velocities);
+      whole.simulateSteps(10000, 0.001);
+      const shortened = new ThreeBodySimulation({ reversibilityCheck: { duration: 1 } });
+      shortened.initializeSystem(chaotic.masses, chaotic.positions, chaotic.velocities);
+      shortened.simulateSteps(10000, 0.001);
+      simulation.initializeSystem(chaotic.masses, chaotic.positions, chaotic.velocities);
+
+      expect(estimateLyapunovExponent(simulation.getConfiguration(), { duration: 10, timeStep: 0.001 }).exponent)
+        .toBeGreaterThan(1);
+      expect(whole.checkReversibility().recoveryError).toBeGreaterThan(1e-3);
+      expect(() => whole.getEntropyValue()).toThrow('Reversibility check failed: recovery error');
+      expect(shortened.getEntropyValue().reversibility?.passed).toBe(true);
+    });
+
+    it('should fail when a single step is corrupted', () => {
+      const config = createFigure8Configuration();
+      let calls = 0;
+      const corrupted: Integrator = {
+        ...YOSHIDA4_INTEGRATOR,
+        name: 'corrupted',
+        step: (configuration, dt) => {
+          const next = YOSHIDA4_INTEGRATOR.step(configuration, dt);
+          if (++calls === 50) {
+            next.bodies[0].position = vec.add(next.bodies[0].position, { x: 1e-5, y: 0, z: 0 });
+          }
+          return next;
+        }
+      };
+      const checked = new ThreeBodySimulation({ integrator: corrupted, reversibilityCheck: true });
+      checked.initializeSystem(config.masses, config.positions, config.velocities);
+      checked.simulateForTime(1, 0.01);
+
+      const report = checked.checkReversibility();
+
+      expect(report.recoveryError).toBeGreaterThan(1e-6);
+      expect(report.passed).toBe(false);
+    });
+
+    it('should fail when the scheme does not run backwards', () => {
+      const regressed = new ThreeBodySimulation({ integrator: euler, reversibilityCheck: true });
+      regressed.initializeSystem(chaotic.masses, chaotic.positions, chaotic.velocities);
+      regressed.simulateForTime(1, 0.01);
+      const configuration = regressed.getConfiguration();
+
+      const report = regressed.checkReversibility();
+
+      expect(report.passed).toBe(false);
+      expect(report.recoveryError).toBeGreaterThan(report.threshold);
+      expect(() => regressed.getEntropyValue()).toThrow('Reversibility check failed: recovery error');
+      expect(regressed.getConfiguration()).toEqual(configuration);
+    });
+
+    it('should pass the same run under a looser threshold', () => {
+      const loose = new ThreeBodySimulation({ integrator: euler, reversibilityCheck: { threshold: 1 } });
+      loose.initializeSystem(chaotic.masses, chaotic.positions, chaotic.velocities);
+      loose.simulateForTime(1, 0.01);
+
+      expect(loose.getEntropyValue().reversibility?.passed).toBe(true);
+    });
+
+    it('should require the check to be enabled', () => {
+      simulation.initializeSystem(chaotic.masses, chaotic.positions, chaotic.velocities);
+      expect(() => simulation.checkReversibility()).toThrow('Reversibility check is not enabled');
+      expect(() => new ThreeBodySimulation({ reversibilityCheck: true }).checkReversibility())
+        .toThrow('System must be initialized before checking reversibility');
+    });
+
+    it('should reject invalid thresholds and durations', () => {
+      expect(() => new ThreeBodySimulation({ reversibilityCheck: { threshold: 0 } }))
+        .toThrow('Reversibility threshold must be a positive finite number, got 0');
+      expect(() => new ThreeBodySimulation({ reversibilityCheck: { threshold: NaN } }))
+        .toThrow('Reversibility threshold must be a positive finite number, got NaN');
+      expect(() => new ThreeBodySimulation({ reversibilityCheck: { duration: 0 } }))
+        .toThrow('Reversibility duration must be positive, got 0');
+      expect(() => new ThreeBodySimulation({ reversibilityCheck: { duration: NaN } }))
+        .toThrow('Reversibility duration must be positive, got NaN');
+    });
+  });
+
   describe('setGravitationalConstant', () => {
     it('should set gravitational constant', () => {
       simulation.setGravitationalConstant(2.0);
@@ -462,6 +1003,28 @@ describe('generateRandomInitialConditions', () => {
     
     expect(conditions1.masses).not.toEqual(conditions2.masses);
   });
+
+  it('should reproduce legacy byte-cycled conditions under version 1', () => {
+    const hash = createHash('sha256').update('test-seed').digest();
+    const conditions = generateRandomInitialConditions('test-seed', 1);
+
+    expect(conditions.masses[0]).toBe(0.5 + (hash[0] / 255) * 1.5);
+    expect(conditions.positions[0].x).toBe(-5 + (hash[3] / 255) * 10);
+    expect(conditions.velocities[2].z).toBe(-1 + (hash[(3 + 9 + 9 - 1) % 32] / 255) * 2);
+  });
+
+  it('should draw from the version 2 seed stream by default', () => {
+    const next = createSeedStream('test-seed');
+    const conditions = generateRandomInitialConditions('test-seed');
+
+    expect(conditions).toEqual(generateRandomInitialConditions('test-seed', 2));
+    expect(conditions.masses[0]).toBe(0.5 + next() * 1.5);
+    expect(conditions).not.toEqual(generateRandomInitialConditions('test-seed', 1));
+  });
+
+  it('should reject unknown seed stream versions', () => {
+    expect(() => generateRandomInitialConditions('test-seed', 3 as never)).toThrow('Unsupported seed stream version 3');
+  });
 });
 
 describe('createFigure8Configuration', () => {
@@ -0,0 +1,216 @@
+/**
+ * Simulation Snapshot Unit Tests
+ */
+
+import { SNAPSHOT_VERSION, decodeSnapshot, encodeSnapshot } from '../src/snapshot';
+import { ThreeBodySimulation, createFigure8Configuration, generateRandomInitialConditions } from '../src/simulation';
+import { YOSHIDA4_INTEGRATOR } from '../src/symplectic';
+import { Integrator } from '../src/types';
+import { TrajectoryRecorder } from '../src/recorder';
+
+describe('Simulation snapshots', () => {
+  const createSimulation = (simulation = new ThreeBodySimulation()): ThreeBodySimulation => {
+    const { masses, positions, velocities } = generateRandomInitialConditions('snapshot-seed');
+    simulation.initializeSystem(masses, positions, velocities);
+    return simulation;
+  };
+
+  describe('round trip', () => {
+    it('should resume to exactly the state of an uninterrupted run', () => {
+      const uninterrupted = createSimulation();
+      uninterrupted.simulateForTime(1, 0.01);
+      uninterrupted.simulateForTime(1, 0.01);
+
+      const paused = createSimulation();
+      paused.simulateForTime(1, 0.01);
+      const resumed = ThreeBodySimulation.fromSnapshot(paused.toSnapshot());
+      resumed.simulateForTime(1, 0.01);
+
+      expect(resumed.getCurrentState()).toEqual(uninterrupted.getCurrentState());
+      expect(resumed.getEntropyValue().hex).toBe(uninterrupted.getEntropyValue().hex);
+      expect(resumed.getEvents()).toEqual(uninterrupted.getEvents());
+    });
+
+    it('should restore time, counters, hash and initialized flag', () => {
+      const simulation = createSimulation();
+      simulation.simulateForTime({ duration: 1, timeStep: 0.01, adaptiveTimeStep: true });
+      const restored = ThreeBodySimulation.fromSnapshot(simulation.toSnapshot());
+
+      expect(restored.isInitialized()).toBe(true);
+      expect(restored.getTime()).toBe(simulation.getTime());
+      expect(restored.getStepCount()).toBe(simulation.getStepCount());
+      expect(restored.getCurrentState()).toEqual(simulation.getCurrentState());
+      expect(restored.getEntropyValue().initialConditionsHash).toBe(simulation.getEntropyValue().initialConditionsHash);
+    });
+
+    it('should produce the same snapshot after restoring', () => {
+      const simulation = createSimulation();
+      simulation.simulateForTime(0.5, 0.01);
+      const snapshot = simulation.toSnapshot();
+
+      expect(ThreeBodySimulation.fromSnapshot(snapshot).toSnapshot()).toBe(snapshot);
+      expect(ThreeBodySimulation.fromSnapshot(decodeSnapshot(snapshot)).toSnapshot()).toBe(snapshot);
+    });
+
+    it('should round-trip an uninitialized simulation', () => {
+      const restored = ThreeBodySimulation.fromSnapshot(new ThreeBodySimulation().toSnapshot());
+
+      expect(restored.isInitialized()).toBe(false);
+      expect(() => restored.simulateForTime(1, 0.01)).toThrow('System must be initialized');
+    });
+
+    it('should restore construction options', () => {
+      const simulation = createSimulation(new ThreeBodySimulation({
+        integrator: YOSHIDA4_INTEGRATOR,
+        events: { closeEncounterDistance: 0.3 },
+        regularization: 'ks',
+        regularizationRadius: 0.25
+      }));
+      simulation.setSofteningParameter(0);
+      simulation.simulateForTime(0.5, 0.01);
+      const restored = ThreeBodySimulation.fromSnapshot(simulation.toSnapshot());
+
+      expect(restored.getIntegrator()).toBe(YOSHIDA4_INTEGRATOR);
+      expect(restored.exportEventLog()).toEqual(simulation.exportEventLog());
+      expect(restored.getConfiguration().softeningParameter).toBe(0);
+
+      simulation.simulateForTime(0.5, 0.01);
+      restored.simulateForTime(0.5, 0.01);
+      expect(restored.getCurrentState()).toEqual(simulation.getCurrentState());
+    });
+
+    it('should resume an encounter that is in progress', () => {
+      const { masses, positions, velocities } = createFigure8Configuration();
+      const options = { events: { closeEncounterDistance: 1.2 } };
+      const uninterrupted = new ThreeBodySimulation(options);
+      uninterrupted.initializeSystem(masses, positions, velocities);
+      uninterrupted.simulateForTime(0.3, 0.01);
+      uninterrupted.simulateForTime(0.7, 0.01);
+
+      const paused = new ThreeBodySimulation(options);
+      paused.initializeSystem(masses, positions, velocities);
+      paused.simulateForTime(0.3, 0.01);
+      const resumed = ThreeBodySimulation.fromSnapshot(paused.toSnapshot());
+      resumed.simulateForTime(0.7, 0.01);
+
+      expect(uninterrupted.getEvents().length).toBeGreaterThan(0);
+      expect(resumed.getEvents()).toEqual(uninterrupted.getEvents());
+    });
+
+    it('should continue recording into a new recorder', () => {
+      const simulation = createSimulation();
+      simulation.simulateForTime(0.5, 0.01);
+      const recorder = new TrajectoryRecorder({ everySteps: 10 });
+      ThreeBodySimulation.fromSnapshot(simulation.toSnapshot()).simulateForTime({ duration: 0.5, timeStep: 0.01, recorder });
+
+      expect(recorder.toRecording().samples[0].stepCount).toBe(simulation.getStepCount());
+    });
+
+    it('should keep the reversibility check and its step history', () => {
+      const options = { reversibilityCheck: { threshold: 1e-7, duration: 0.15 } };
+      const uninterrupted = createSimulation(new ThreeBodySimulation(options));
+      uninterrupted.simulateForTime(0.1, 0.01);
+      uninterrupted.simulateForTime(0.1, 0.01);
+
+      const paused = createSimulation(new ThreeBodySimulation(options));
+      paused.simulateForTime(0.1, 0.01);
+      const resumed = ThreeBodySimulation.fromSnapshot(paused.toSnapshot());
+
+      expect(resumed.checkReversibility()).toEqual(paused.checkReversibility());
+      resumed.simulateForTime(0.1, 0.01);
+      expect(resumed.checkReversibility()).toEqual(uninterrupted.checkReversibility());
+      expect(resumed.checkReversibility().steps).toBeLessThan(resumed.getStepCount());
+      expect(ThreeBodySimulation.fromSnapshot(resumed.toSnapshot()).checkReversibility()).toEqual(resumed.checkReversibility());
+      expect(resumed.getEntropyValue().reversibility?.threshold).toBe(1e-7);
+      expect(() => ThreeBodySimulation.fromSnapshot(createSimulation().toSnapshot()).checkReversibility())
+        .toThrow('Reversibility check is not enabled');
+    });
+
+    it('should accept a custom integrator with the recorded name', () => {
+      const custom: Integrator = { ...YOSHIDA4_INTEGRATOR, name: 'custom' };
+      const simulation = createSimulation(new ThreeBodySimulation({ integrator: custom }));
+      const snapshot = simulation.toSnapshot();
+
+      expect(ThreeBodySimulation.fromSnapshot(snapshot, custom).getIntegrator()).toBe(custom);
+      expect(() => ThreeBodySimulation.fromSnapshot(snapshot)).toThrow('Unknown integrator "custom"');
+      expect(() => ThreeBodySimulation.fromSnapshot(snapshot, YOSHIDA4_INTEGRATOR))
+        .toThrow('Snapshot was taken with integrator "custom", got "yoshida4"');
+    });
+  });
+
+  describe('canonical encoding', () => {
+    it('should sort keys and omit whitespace', () => {
+      const snapshot = createSimulation().toSnapshot();
+      const keys = Object.keys(JSON.parse(snapshot));
+
+      expect(keys).toEqual([...keys].sort());
+      expect(snapshot).not.toMatch(/\s/);
+      expect(snapshot.startsWith('{"acceptedSteps":0,')).toBe(true);
+    });
+
+    it('should preserve negative zero and reject non-finite numbers', () => {
+      const snapshot = JSON.parse(createSimulation().toSnapshot());
+      snapshot.configuration.bodies[0].position.x = -0;
+      const encoded = encodeSnapshot(snapshot);
+
+      expect(encoded).toContain('"x":-0');
+      expect(Object.is(decodeSnapshot(encoded).configuration.bodies[0].position.x, -0)).toBe(true);
+
+      snapshot.configuration.bodies[0].position.x = NaN;
+      expect(() => encodeSnapshot(snapshot)).toThrow('Snapshot value at snapshot.configuration.bodies[0].position.x must be finite');
+    });
+  });
+
+  describe('validation', () => {
+    const snapshot = (): Record<string, any> => JSON.parse(createSimulation().toSnapshot());
+
+    it('should reject inputs that are not snapshots', () => {
+      expect(() => decodeSnapshot('not json')).toThrow('Not a simulation snapshot');
+      expect(() => decodeSnapshot('{"format":"other"}')).toThrow('Not a simulation snapshot');
+    });
+
+    it('should reject unsupported versions', () => {
+      const future = { ...snapshot(), version: SNAPSHOT_VERSION + 1 };
+
+      expect(() => ThreeBodySimulation.fromSnapshot(JSON.stringify(future))).toThrow('Unsupported snapshot version 2');
+    });
+
+    it('should reject malformed state', () => {
+      const withSteps = { ...snapshot(), stepCount: 1.5 };
+      const withTime = { ...snapshot(), time: 'soon' };
+      const withBodies = snapshot();
+      withBodies.configuration.bodies.splice(1);
+      const withVelocity = snapshot();
+      withVelocity.configuration.bodies[2].velocity.z = null;
+
+      expect(() => decodeSnapshot(JSON.stringify(withSteps))).toThrow('stepCount must be a non-negative integer');
+      expect(() => decodeSnapshot(JSON.stringify(withTime))).toThrow('time must be a finite number');
+      expect(() => decodeSnapshot(JSON.stringify(withBodies))).toThrow('must have at least two bodies');
+      expect(() => decodeSnapshot(JSON.stringify(withVelocity))).toThrow('bodies[2].velocity.z must be a finite number');
+    });
+
+    it('should reject initial conditions that do not match their hash', () => {
+      const tampered = snapshot();
+      tampered.initialConditions.masses[0] += 1e-12;
+      const missing = { ...snapshot(), initialConditions: null };
+
+      expect(() => ThreeBodySimulation.fromSnapshot(JSON.stringify(tampered))).toThrow('do not match initialConditionsHash');
+      expect(() => ThreeBodySimulation.fromSnapshot(JSON.stringify(missing))).toThrow('must include its initial conditions');
+    });
+
+    it('should reject a missing reversibility step history', () => {
+      const simulation = createSimulation(new ThreeBodySimulation({ reversibilityCheck: true }));
+      simulation.simulateForTime(0.1, 0.01);
+      const missing = { ...JSON.parse(simulation.toSnapshot()), reversibility: undefined };
+
+      expect(() => ThreeBodySimulation.fromSnapshot(JSON.stringify(missing))).toThrow('must include its step history');
+    });
+
+    it('should reject incomplete event detector state', () => {
+      const tampered = snapshot();
+      tampered.detector.escaped.pop();
+
+      expect(() => ThreeBodySimulation.fromSnapshot(JSON.stringify(tampered))).toThrow('must cover 3 pairs and 3 bodies');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Structure-of-Arrays RK4 Unit Tests
+ */
+
+import { RK4Workspace } from '../src/soa';
+import { rk4Step, rk4StepReference } from '../src/integrator';
+import { createFigure8Configuration, generateRandomInitialConditions, ThreeBodySimulation } from '../src/simulation';
+import { runBenchmark, formatBenchmarkReport } from '../src/benchmark';
+import { SystemConfiguration } from '../src/types';
+
+describe('RK4Workspace', () => {
+  const configurationFromSeed = (seed: string, G = 1, softening = 0.01): SystemConfiguration => {
+    const { masses, positions, velocities } = generateRandomInitialConditions(seed);
+    return {
+      bodies: [0, 1, 2].map(i => ({ mass: masses[i], position: { ...positions[i] }, velocity: { ...velocities[i] } })) as SystemConfiguration['bodies'],
+      gravitationalConstant: G,
+      softeningParameter: softening
+    };
+  };
+
+  const expectBitIdentical = (actual: SystemConfiguration, expected: SystemConfiguration): void => {
+    actual.bodies.forEach((body, i) => {
+      for (const key of ['position', 'velocity'] as const) {
+        for (const axis of ['x', 'y', 'z'] as const) {
+          expect(Object.is(body[key][axis], expected.bodies[i][key][axis])).toBe(true);
+        }
+      }
+    });
+  };
+
+  it.each([
+    ['soa-1', 1, 0.01, 0.001],
+    ['soa-2', 0.5, 0.05, 0.01],
+    ['soa-3', 2, 0, 0.0005]
+  ])('should match the object-based RK4 bit for bit (%s)', (seed, G, softening, dt) => {
+    let reference = configurationFromSeed(seed, G, softening);
+    const workspace = new RK4Workspace();
+    workspace.load(reference);
+
+    for (let i = 0; i < 500; i++) {
+      reference = rk4StepReference(reference, dt);
+      workspace.step(dt);
+    }
+
+    expectBitIdentical(workspace.toConfiguration(), reference);
+  });
+
+  it('should keep rk4Step bit-identical to the reference', () => {
+    const config = configurationFromSeed('soa-step');
+
+    expectBitIdentical(rk4Step(config, 0.01), rk4StepReference(config, 0.01));
+    expect(rk4Step(config, 0.01)).not.toBe(rk4Step(config, 0.01));
+  });
+
+  it('should lay out the state as component arrays', () => {
+    const { masses, positions, velocities } = createFigure8Configuration();
+    const simulation = new ThreeBodySimulation();
+    simulation.initializeSystem(masses, positions, velocities);
+    const workspace = new RK4Workspace();
+    workspace.load(simulation.getConfiguration());
+
+    expect(Array.from(workspace.state.subarray(0, 3))).toEqual(positions.map(p => p.x));
+    expect(Array.from(workspace.state.subarray(9, 12))).toEqual(velocities.map(v => v.x));
+    expect(Array.from(workspace.masses)).toEqual(masses);
+  });
+
+  it('should store into an existing configuration in place', () => {
+    const config = configurationFromSeed('soa-store');
+    const position = config.bodies[1].position;
+    const expected = rk4StepReference(config, 0.01);
+    const workspace = new RK4Workspace();
+    workspace.load(config);
+    workspace.step(0.01);
+    workspace.store(config);
+
+    expect(config.bodies[1].position).toBe(position);
+    expectBitIdentical(config, expected);
+  });
+
+  it('should validate the body count', () => {
+    expect(() => new RK4Workspace(0)).toThrow('Body count must be a positive integer');
+    expect(() => new RK4Workspace(2).load(configurationFromSeed('soa'))).toThrow('Workspace holds 2 bodies, configuration has 3');
+  });
+});
+
+describe('runBenchmark', () => {
+  it('should report throughput of every kernel and requests', () => {
+    const report = runBenchmark({ stepsPerRequest: 200, requests: 2 });
+
+    expect(report.kernels.map(kernel => kernel.name)).toEqual(['rk4-reference', 'rk4Step', 'rk4-workspace']);
+    expect(report.kernels.every(kernel => kernel.steps === 400 && kernel.stepsPerSecond > 0)).toBe(true);
+    expect(report.requestsPerSecond).toBeGreaterThan(0);
+    expect(report.identical).toBe(true);
+
+    const text = formatBenchmarkReport(report);
+    expect(text).toContain('2 requests x 200 steps');
+    expect(text).toContain('rk4-workspace');
+    expect(text).toContain('bit-identical: yes');
+  });
+
+  it('should validate counts', () => {
+    expect(() => runBenchmark({ requests: 0 })).toThrow('requests must be a positive integer');
+    expect(() => runBenchmark({ stepsPerRequest: 1.5 })).toThrow('stepsPerRequest must be a positive integer');
+  });
+});
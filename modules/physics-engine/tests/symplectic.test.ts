@@ -0,0 +1,153 @@
+/**
+ * Symplectic Integrator Unit Tests
+ */
+
+import {
+  velocityVerletStep,
+  yoshida4Step,
+  forestRuthStep,
+  VELOCITY_VERLET_INTEGRATOR,
+  YOSHIDA4_INTEGRATOR,
+  FOREST_RUTH_INTEGRATOR,
+  INTEGRATORS,
+  getIntegrator
+} from '../src/symplectic';
+import { rk4Step, RK4_INTEGRATOR } from '../src/integrator';
+import { ThreeBodySimulation } from '../src/simulation';
+import { Integrator, SystemConfiguration, Vector3D } from '../src/types';
+import * as vec from '../src/vector';
+
+describe('Symplectic Integrators', () => {
+  const createTestConfiguration = (): SystemConfiguration => ({
+    bodies: [
+      { mass: 1, position: { x: -1, y: 0, z: 0 }, velocity: { x: 0, y: 0.5, z: 0 } },
+      { mass: 1, position: { x: 1, y: 0, z: 0 }, velocity: { x: 0, y: -0.5, z: 0 } },
+      { mass: 1, position: { x: 0, y: 1, z: 0 }, velocity: { x: 0.5, y: 0, z: 0 } }
+    ],
+    gravitationalConstant: 1.0,
+    softeningParameter: 0.01
+  });
+
+  const steps: Array<[string, (config: SystemConfiguration, dt: number) => SystemConfiguration]> = [
+    ['velocityVerletStep', velocityVerletStep],
+    ['yoshida4Step', yoshida4Step],
+    ['forestRuthStep', forestRuthStep]
+  ];
+
+  describe.each(steps)('%s', (_name, step) => {
+    it('should advance the configuration', () => {
+      const config = createTestConfiguration();
+      const next = step(config, 0.01);
+
+      expect(next.bodies[0].position).not.toEqual(config.bodies[0].position);
+    });
+
+    it('should not mutate the input configuration', () => {
+      const config = createTestConfiguration();
+      const copy = createTestConfiguration();
+      step(config, 0.01);
+
+      expect(config).toEqual(copy);
+    });
+
+    it('should agree with RK4 for a small step', () => {
+      const config = createTestConfiguration();
+      const next = step(config, 0.001);
+      const reference = rk4Step(config, 0.001);
+
+      for (let i = 0; i < 3; i++) {
+        expect(vec.distance(next.bodies[i].position, reference.bodies[i].position)).toBeLessThan(1e-6);
+      }
+    });
+
+    it('should be time-reversible', () => {
+      const config = createTestConfiguration();
+      const forward = step(config, 0.01);
+      const back = step(forward, -0.01);
+
+      for (let i = 0; i < 3; i++) {
+        expect(vec.distance(back.bodies[i].position, config.bodies[i].position)).toBeLessThan(1e-12);
+        expect(vec.distance(back.bodies[i].velocity, config.bodies[i].velocity)).toBeLessThan(1e-12);
+      }
+    });
+  });
+
+  describe('integrator descriptors', () => {
+    it('should describe each scheme', () => {
+      expect(VELOCITY_VERLET_INTEGRATOR).toMatchObject({ name: 'velocity-verlet', order: 2, symplectic: true });
+      expect(YOSHIDA4_INTEGRATOR).toMatchObject({ name: 'yoshida4', order: 4, symplectic: true });
+      expect(FOREST_RUTH_INTEGRATOR).toMatchObject({ name: 'forest-ruth', order: 4, symplectic: true });
+      expect(RK4_INTEGRATOR).toMatchObject({ name: 'rk4', order: 4, symplectic: false });
+    });
+
+    it('should register all built-in integrators by name', () => {
+      expect(Object.keys(INTEGRATORS).sort()).toEqual(['forest-ruth', 'rk4', 'velocity-verlet', 'yoshida4']);
+      expect(getIntegrator('yoshida4')).toBe(YOSHIDA4_INTEGRATOR);
+    });
+
+    it('should throw for unknown integrator names', () => {
+      expect(() => getIntegrator('euler')).toThrow('Unknown integrator "euler"');
+    });
+  });
+
+  describe('energy drift comparison', () => {
+    // Figure-8 orbit without softening: a long, well-conditioned run where
+    // the difference between secular and bounded energy error is visible.
+    const masses: [number, number, number] = [1, 1, 1];
+    const positions: [Vector3D, Vector3D, Vector3D] = [
+      { x: -0.97000436, y: 0.24308753, z: 0 },
+      { x: 0.97000436, y: -0.24308753, z: 0 },
+      { x: 0, y: 0, z: 0 }
+    ];
+    const velocities: [Vector3D, Vector3D, Vector3D] = [
+      { x: 0.466203685, y: 0.43236573, z: 0 },
+      { x: 0.466203685, y: 0.43236573, z: 0 },
+      { x: -0.93240737, y: -0.86473146, z: 0 }
+    ];
+
+    const measureDrift = (integrator: Integrator): number[] => {
+      const simulation = new ThreeBodySimulation({ integrator });
+      simulation.setSofteningParameter(0);
+      simulation.initializeSystem(masses, positions, velocities);
+      const initialEnergy = simulation.getTotalEnergy();
+
+      const errors: number[] = [];
+      for (let segment = 0; segment < 4; segment++) {
+        simulation.simulateForTime(50, 0.05);
+        errors.push(Math.abs((simulation.getTotalEnergy() - initialEnergy) / initialEnergy));
+      }
+      return errors;
+    };
+
+    const drift: Record<string, number[]> = {};
+
+    beforeAll(() => {
+      for (const integrator of Object.values(INTEGRATORS)) {
+        drift[integrator.name] = measureDrift(integrator);
+      }
+    });
+
+    it('should show secular energy growth for RK4', () => {
+      const errors = drift[RK4_INTEGRATOR.name];
+
+      expect(errors[3]).toBeGreaterThan(errors[0] * 3);
+    });
+
+    it.each(['velocity-verlet', 'yoshida4', 'forest-ruth'])('should keep %s energy error bounded', name => {
+      const errors = drift[name];
+      const early = errors[0];
+
+      expect(Math.max(...errors)).toBeLessThan(early * 3);
+    });
+
+    it('should conserve energy better with 4th-order symplectic schemes than RK4 over long runs', () => {
+      expect(drift['yoshida4'][3]).toBeLessThan(drift['rk4'][3]);
+      expect(drift['forest-ruth'][3]).toBeLessThan(drift['rk4'][3]);
+    });
+
+    it('should conserve energy better with 4th-order than 2nd-order symplectic schemes', () => {
+      expect(Math.max(...drift['yoshida4'])).toBeLessThan(Math.max(...drift['velocity-verlet']));
+      expect(Math.max(...drift['forest-ruth'])).toBeLessThan(Math.max(...drift['velocity-verlet']));
+    });
+  });
+});
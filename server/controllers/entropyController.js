@@ -6,19 +6,86 @@
 
 import { createHash, createHmac, randomBytes } from 'crypto';
 
+/**
+ * Seed stream version used for new sessions.
+ * Version 1 reads single bytes of SHA-256(seed) cyclically; version 2 is the
+ * HMAC-SHA256 counter-mode stream of the physics engine's seed-stream module,
+ * which yields 53-bit floats. Proofs record the version so old sessions verify.
+ */
+export const SEED_STREAM_VERSION = 2;
+
+const SEED_STREAM_V2_LABEL = 'three-body-entropy:seed-stream:v2';
+
+/**
+ * Create a version 2 seed stream returning floats in [0, 1)
+ *   prk      = HMAC-SHA256(label, seed)
+ *   block[i] = HMAC-SHA256(prk, uint32be(i))
+ * Each float takes the top 53 bits of the next 8 stream bytes.
+ * This is a copy of the physics engine's createSeedStream, which the server
+ * image does not include; tests/seedStream.test.js pins it to the engine's
+ * golden vectors.
+ */
+export function createSeedStream(seed) {
+  const prk = createHmac('sha256', SEED_STREAM_V2_LABEL).update(seed, 'utf8').digest();
+  let counter = 0;
+  let block = Buffer.alloc(0);
+  let offset = 0;
+
+  const nextByte = () => {
+    if (offset === block.length) {
+      const counterBytes = Buffer.alloc(4);
+      counterBytes.writeUInt32BE(counter++);
+      block = createHmac('sha256', prk).update(counterBytes).digest();
+      offset = 0;
+    }
+    return block[offset++];
+  };
+
+  return () => {
+    const bytes = Buffer.from(Array.from({ length: 8 }, nextByte));
+    const high = bytes.readUInt32BE(0) >>> 11;
+    const low = bytes.readUInt32BE(4);
+    return (high * 0x100000000 + low) / 0x20000000000000;
+  };
+}
+
 /**
  * Three-Body Physics Simulation
  * Generates chaotic entropy from gravitational dynamics
  */
 class ThreeBodySimulation {
-  constructor(seed) {
+  constructor(seed, seedVersion = SEED_STREAM_VERSION) {
     this.G = 1.0;
     this.softening = 0.01;
     this.bodies = [];
-    this.initializeFromSeed(seed);
+    this.initializeFromSeed(seed, seedVersion);
   }
 
-  initializeFromSeed(seed) {
+  initializeFromSeed(seed, seedVersion = SEED_STREAM_VERSION) {
+    if (seedVersion === 2) {
+      const next = createSeedStream(seed);
+      this.bodies = [];
+      for (let i = 0; i < 3; i++) {
+        this.bodies.push({
+          mass: 0.5 + next() * 1.5,
+          position: {
+            x: (next() - 0.5) * 10,
+            y: (next() - 0.5) * 10,
+            z: (next() - 0.5) * 10
+          },
+          velocity: {
+            x: (next() - 0.5) * 2,
+            y: (next() - 0.5) * 2,
+            z: (next() - 0.5) * 2
+          }
+        });
+      }
+      return;
+    }
+    if (seedVersion !== 1) {
+      throw new Error(`Unsupported seed stream version ${seedVersion}`);
+    }
+
     const hash = createHash('sha256').update(seed).digest();
     
     this.bodies = [];
@@ -214,9 +281,9 @@ export function generateCommitment(houseSeed) {
 /**
  * Mix client and house entropy (production mode)
  */
-export function mixEntropy(houseSeed, clientSeed, nonce) {
+export function mixEntropy(houseSeed, clientSeed, nonce, seedVersion = SEED_STREAM_VERSION) {
   const combinedSeed = `${houseSeed}:${clientSeed}:${nonce}`;
-  const simulation = new ThreeBodySimulation(combinedSeed);
+  const simulation = new ThreeBodySimulation(combinedSeed, seedVersion);
   simulation.simulate(3.0, 0.01);
   
   const serverSecret = process.env.API_SECRET_KEY || 'default-secret';
@@ -228,7 +295,8 @@ export function mixEntropy(houseSeed, clientSeed, nonce) {
     entropyHex,
     physicsState: simulation.getState(),
     thetaAngles: calculateThetaAngles(simulation.getState()),
-    testMode: false
+    testMode: false,
+    seedVersion
   };
 }
 
@@ -236,9 +304,9 @@ export function mixEntropy(houseSeed, clientSeed, nonce) {
  * Generate entropy from house seed only (test mode)
  * Used when no client seed is provided for single-player testing
  */
-export function generateTestModeEntropy(houseSeed, nonce) {
+export function generateTestModeEntropy(houseSeed, nonce, seedVersion = SEED_STREAM_VERSION) {
   const testSeed = `${houseSeed}:test:${nonce}`;
-  const simulation = new ThreeBodySimulation(testSeed);
+  const simulation = new ThreeBodySimulation(testSeed, seedVersion);
   simulation.simulate(3.0, 0.01);
   
   const serverSecret = process.env.API_SECRET_KEY || 'default-secret';
@@ -250,7 +318,8 @@ export function generateTestModeEntropy(houseSeed, nonce) {
     entropyHex,
     physicsState: simulation.getState(),
     thetaAngles: calculateThetaAngles(simulation.getState()),
-    testMode: true
+    testMode: true,
+    seedVersion
   };
 }
 
@@ -327,8 +396,17 @@ export function calculateSpinResult(entropyHex, config = {}) {
 /**
  * Generate cryptographic proof
  * Supports both production mode (with clientSeed) and test mode (without clientSeed)
+ * Records the seed stream version the entropy was derived with
  */
-export function generateProof(houseSeed, clientSeed, nonce, entropyHex, commitment, testMode = false) {
+export function generateProof(
+  houseSeed,
+  clientSeed,
+  nonce,
+  entropyHex,
+  commitment,
+  testMode = false,
+  seedVersion = SEED_STREAM_VERSION
+) {
   const serverSecret = process.env.API_SECRET_KEY || 'default-secret';
   
   const proofId = createHash('sha256')
@@ -351,6 +429,7 @@ export function generateProof(houseSeed, clientSeed, nonce, entropyHex, commitme
     entropyHex,
     signature,
     testMode,
+    seedVersion,
     timestamp: Date.now()
   };
 }
@@ -363,6 +442,8 @@ export function verifySpinResult(proof, commitment, config = {}) {
   const serverSecret = process.env.API_SECRET_KEY || 'default-secret';
   const errors = [];
   const testMode = proof.testMode || false;
+  // Proofs issued before seed stream versioning used version 1
+  const seedVersion = proof.seedVersion || 1;
   const checks = {
     commitmentValid: false,
     entropyValid: false,
@@ -380,10 +461,10 @@ export function verifySpinResult(proof, commitment, config = {}) {
   // Verify entropy - use appropriate function based on mode
   let expectedEntropy;
   if (testMode) {
-    const result = generateTestModeEntropy(proof.houseSeed, proof.nonce);
+    const result = generateTestModeEntropy(proof.houseSeed, proof.nonce, seedVersion);
     expectedEntropy = result.entropyHex;
   } else {
-    const result = mixEntropy(proof.houseSeed, proof.clientSeed, proof.nonce);
+    const result = mixEntropy(proof.houseSeed, proof.clientSeed, proof.nonce, seedVersion);
     expectedEntropy = result.entropyHex;
   }
   checks.entropyValid = expectedEntropy === proof.entropyHex;
@@ -411,6 +492,7 @@ export function verifySpinResult(proof, commitment, config = {}) {
 }
 
 export default {
+  SEED_STREAM_VERSION,
   ThreeBodySimulation,
   generateHouseSeed,
   generateCommitment,
@@ -134,7 +134,7 @@ export async function revealSession(sessionId, clientSeed, config = {}) {
     entropyResult = mixEntropy(sessionData.houseSeed, clientSeed, nonce);
   }
   
-  const { entropyHex, physicsState, thetaAngles } = entropyResult;
+  const { entropyHex, physicsState, thetaAngles, seedVersion } = entropyResult;
   
   // Calculate spin result
   const { grid } = calculateSpinResult(entropyHex, config);
@@ -146,7 +146,8 @@ export async function revealSession(sessionId, clientSeed, config = {}) {
     nonce,
     entropyHex,
     sessionData.commitment,
-    testMode
+    testMode,
+    seedVersion
   );
   
   // Build result object
@@ -0,0 +1,81 @@
+/**
+ * Seed Stream Tests
+ *
+ * The server carries its own copy of the version 2 seed stream, since the
+ * server image does not include the physics engine. These tests pin it to
+ * golden vectors taken from the physics engine's createSeedStream so the
+ * copies cannot drift.
+ */
+
+import {
+  createSeedStream,
+  generateCommitment,
+  generateProof,
+  mixEntropy,
+  generateTestModeEntropy,
+  verifySpinResult
+} from '../controllers/entropyController.js';
+
+// 100 floats read 800 bytes, blocks 0 through 24 of the stream
+const DRAWS = 100;
+
+const draw = (next, count) => Array.from({ length: count }, () => next());
+
+describe('Seed stream', () => {
+  describe('version 2 golden vectors', () => {
+    // The first five floats, which cross the first block boundary, and the
+    // last of DRAWS floats
+    it.each([
+      ['an empty seed', '', [
+        0.13207891784009296, 0.16816377209593403, 0.061074364924923574, 0.6440788360255159, 0.24723666354156582,
+        0.054841352705243374
+      ]],
+      ['a combined seed', 'house-seed:client-seed:42', [
+        0.6073035595781417, 0.1103291887803618, 0.9452950906070982, 0.4708831031536773, 0.3425142571125729,
+        0.4731809869720177
+      ]],
+      ['a test mode seed', 'house-seed:test:7', [
+        0.9124932427829733, 0.5936153464056871, 0.03173536054298487, 0.23460920126323526, 0.28606008372752956,
+        0.2984181953636802
+      ]],
+      ['a non-ASCII seed', 'seed-é中🎰', [
+        0.4218384273241248, 0.7657777898649063, 0.7924326969242215, 0.5842619074706732, 0.48044775499867853,
+        0.8627236594851203
+      ]]
+    ])('should match the physics engine for %s', (_, seed, expected) => {
+      const values = draw(createSeedStream(seed), DRAWS);
+
+      expect([...values.slice(0, 5), values[DRAWS - 1]]).toEqual(expected);
+    });
+  });
+
+  describe('proof seed version', () => {
+    const houseSeed = 'a'.repeat(64);
+    const commitment = generateCommitment(houseSeed);
+
+    it('should verify proofs without a seed version as version 1', () => {
+      const { entropyHex } = mixEntropy(houseSeed, 'client-seed', 3, 1);
+      const { seedVersion, ...proof } = generateProof(houseSeed, 'client-seed', 3, entropyHex, commitment, false, 1);
+
+      expect(seedVersion).toBe(1);
+      expect(verifySpinResult(proof, commitment).valid).toBe(true);
+    });
+
+    it('should verify test mode proofs without a seed version as version 1', () => {
+      const { entropyHex } = generateTestModeEntropy(houseSeed, 3, 1);
+      const { seedVersion, ...proof } = generateProof(houseSeed, null, 3, entropyHex, commitment, true, 1);
+
+      expect(seedVersion).toBe(1);
+      expect(verifySpinResult(proof, commitment).valid).toBe(true);
+    });
+
+    it('should not verify version 2 entropy as version 1', () => {
+      const { entropyHex } = mixEntropy(houseSeed, 'client-seed', 3);
+      const { seedVersion, ...proof } = generateProof(houseSeed, 'client-seed', 3, entropyHex, commitment);
+
+      expect(seedVersion).toBe(2);
+      expect(verifySpinResult({ ...proof, seedVersion }, commitment).valid).toBe(true);
+      expect(verifySpinResult(proof, commitment).checks.entropyValid).toBe(false);
+    });
+  });
+});